@@ -54,7 +54,7 @@ test.describe("Header application via declarativeNetRequest", () => {
     expect(nonMatching["x-e2e-request"]).toBeUndefined();
   });
 
-  test("exclude regex filter removes request header on matching URLs", async ({ popupPage }) => {
+  test("exclude regex filter leaves request headers alone on matching URLs", async ({ popupPage }) => {
     await popupPage.pages.addEmptyPage();
     await popupPage.headers.addHeader("X-E2E-Request", "excluded-regex");
     await popupPage.filters.addFilter("exclude", "regex", "^http://localhost:9876/excluded$");
@@ -92,7 +92,7 @@ test.describe("Header application via declarativeNetRequest", () => {
     expect(nonMatching).toBeUndefined();
   });
 
-  test("exclude url filter removes response header on matching URLs", async ({ popupPage }) => {
+  test("exclude url filter keeps the server-sent response header on matching URLs", async ({ popupPage }) => {
     await popupPage.pages.addEmptyPage();
     await popupPage.headers.addHeader("X-E2E-Response", "excluded-url", "response");
     await popupPage.filters.addFilter(
@@ -107,7 +107,7 @@ test.describe("Header application via declarativeNetRequest", () => {
       RESPONSE_HEADER_URL("X-E2E-Response"),
       "X-E2E-Response"
     );
-    expect(excluded).toBeUndefined();
+    expect(excluded).toBe("original");
 
     const included = await getResponseHeader(
       popupPage.page.context(),
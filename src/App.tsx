@@ -2,6 +2,7 @@ import { useEffect } from "react";
 import "./App.css";
 import "./App.slim.css";
 import FilterSection from "./components/filterSection";
+import BlockSection from "./components/blockSection";
 import AppHeader from "./components/appHeader";
 import AppFooter from "./components/appFooter";
 import Alert from "./components/alert";
@@ -11,6 +12,7 @@ import ReviewPrompt from "./components/reviewPrompt";
 import useReviewPrompt from "./utils/hooks/useReviewPrompt";
 import { isRunningInActionPopup } from "./utils/browserContext";
 import HeadersList from "./components/headersList";
+import ActiveTabSummary from "./components/activeTabSummary";
 import PageTitle from "./components/pageTitle";
 import { useSettingsState, useSettingsActions } from "./context/settingsContext";
 import { cx } from "./utils/cx";
@@ -61,9 +63,12 @@ function App() {
           <PagesList />
           <div className="app__workspace">
             <PageTitle />
+            <ActiveTabSummary />
             <div key={selectedPage} className="app__body__contents">
               <div className="headers-panel">
-                {currentPage?.headers?.length === 0 && (
+                {currentPage?.headers?.length === 0 &&
+                  !currentPage.queryParams?.length &&
+                  !currentPage.redirects?.length && (
                   <p className="app__body__headers__empty">
                     <i>No headers found. Add a new header.</i>
                   </p>
@@ -71,6 +76,7 @@ function App() {
                 <HeadersList />
               </div>
               <FilterSection />
+              <BlockSection />
             </div>
           </div>
         </div>
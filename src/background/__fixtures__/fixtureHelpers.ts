@@ -39,10 +39,19 @@ export const saveFixture = (name: string, data: unknown): void => {
 };
 
 export type HeaderExpectation = {
-  headerName: string;
-  operation?: "set" | "remove";
+  headerName?: string;
+  actionType?: "modifyHeaders" | "allow" | "redirect" | "block";
+  operation?: "set" | "append" | "remove";
   priority?: number;
-  conditionType?: "regexFilter" | "urlFilter";
+  conditionType?:
+    | "regexFilter"
+    | "urlFilter"
+    | "requestDomains"
+    | "initiatorDomains"
+    | "excludedRequestDomains"
+    | "excludedInitiatorDomains"
+    | "responseHeaders"
+    | "excludedResponseHeaders";
   conditionValue?: string;
   shouldBePresent: boolean;
 };
@@ -51,15 +60,25 @@ const ruleMatchesExpectation = (
   rule: any,
   expectation: HeaderExpectation
 ): boolean => {
-  const headers =
-    rule.action?.requestHeaders ?? rule.action?.responseHeaders ?? [];
+  if (expectation.actionType !== undefined && rule.action?.type !== expectation.actionType) {
+    return false;
+  }
 
-  const headerMatch = headers.some(
-    (h: any) =>
-      h.header === expectation.headerName &&
-      (expectation.operation === undefined || h.operation === expectation.operation)
-  );
-  if (!headerMatch) return false;
+  // Allow rules carry no header list, so only match on headers when the
+  // expectation names one.
+  if (expectation.headerName !== undefined) {
+    const headers = [
+      ...(rule.action?.requestHeaders ?? []),
+      ...(rule.action?.responseHeaders ?? []),
+    ];
+
+    const headerMatch = headers.some(
+      (h: any) =>
+        h.header === expectation.headerName &&
+        (expectation.operation === undefined || h.operation === expectation.operation)
+    );
+    if (!headerMatch) return false;
+  }
 
   if (expectation.priority !== undefined && rule.priority !== expectation.priority) {
     return false;
@@ -68,10 +87,11 @@ const ruleMatchesExpectation = (
   if (expectation.conditionType !== undefined) {
     const actualValue = rule.condition?.[expectation.conditionType];
     if (actualValue === undefined) return false;
-    if (
-      expectation.conditionValue !== undefined &&
-      actualValue !== expectation.conditionValue
-    ) {
+    // Domain conditions are lists; those match when they contain the value.
+    const valueMatches = Array.isArray(actualValue)
+      ? actualValue.includes(expectation.conditionValue)
+      : actualValue === expectation.conditionValue;
+    if (expectation.conditionValue !== undefined && !valueMatches) {
       return false;
     }
   }
@@ -5,8 +5,15 @@
  * from page/header/filter state, especially the new exclude-filter behavior.
  */
 
-import { buildHeaderRules, buildRulesFromPages, allResourceTypes } from './rules';
-import type { HeaderFilter, HeaderSetting, Page } from '../utils/settings';
+import { buildFilterGroupCondition, buildHeaderRules, buildRulesFromPages, buildSessionRulesFromPages, explainRulesFromPages, getExcludeClashes, getTabScopedPages, allResourceTypes, countResponseHeaderFilters, type RuleCondition } from './rules';
+import type {
+  BlockSetting,
+  HeaderFilter,
+  HeaderSetting,
+  Page,
+  QueryParamSetting,
+  RedirectSetting,
+} from '../utils/settings';
 import { normalizePage } from '../utils/domain/headers';
 import { compareWithFixture, shouldUpdateFixtures } from './__fixtures__/fixtureHelpers';
 
@@ -30,6 +37,34 @@ const createFilter = (overrides: Partial<HeaderFilter> = {}): HeaderFilter => ({
   ...overrides,
 });
 
+const createRedirect = (overrides: Partial<RedirectSetting> = {}): RedirectSetting => ({
+  id: 'redirect-1',
+  enabled: true,
+  valid: true,
+  source: '^https://cdn\\.example\\.com/app\\.js$',
+  target: 'http://localhost:3000/app.js',
+  comment: '',
+  ...overrides,
+});
+
+const createBlock = (overrides: Partial<BlockSetting> = {}): BlockSetting => ({
+  id: 'block-1',
+  enabled: true,
+  valid: true,
+  mode: 'url',
+  value: '||analytics.example.com^',
+  ...overrides,
+});
+
+const createQueryParam = (overrides: Partial<QueryParamSetting> = {}): QueryParamSetting => ({
+  id: 'query-1',
+  enabled: true,
+  operation: 'add',
+  key: 'debug',
+  value: '1',
+  ...overrides,
+});
+
 describe('buildHeaderRules', () => {
   let idCounter: number;
   const getNextId = () => {
@@ -47,7 +82,7 @@ describe('buildHeaderRules', () => {
 
     expect(rules).toHaveLength(1);
     expect(rules[0].action.type).toBe('modifyHeaders');
-    expect(rules[0].priority).toBe(1);
+    expect(rules[0].priority).toBe(3);
     expect(rules[0].condition.regexFilter).toBe('|http*');
     expect(rules[0].condition.resourceTypes).toEqual(allResourceTypes);
   });
@@ -92,7 +127,7 @@ describe('buildHeaderRules', () => {
     expect(rules[0].condition.regexFilter).toBe('https://b\\.com/.*');
   });
 
-  it('emits a higher-priority remove rule for exclude filters', () => {
+  it('emits a higher-priority allow rule for exclude filters', () => {
     const header = createHeader();
     const filters = [
       createFilter({ id: '1', value: 'https://exclude\\.com/.*', type: 'exclude' }),
@@ -105,16 +140,28 @@ describe('buildHeaderRules', () => {
     expect(rules[0].priority).toBe(1);
     expect(rules[0].condition.regexFilter).toBe('|http*');
 
-    expect(rules[1].action.type).toBe('modifyHeaders');
+    expect(rules[1].action).toEqual({ type: 'allow' });
     expect(rules[1].priority).toBe(2);
     expect(rules[1].condition.regexFilter).toBe('https://exclude\\.com/.*');
     expect(rules[1].condition.resourceTypes).toEqual(allResourceTypes);
+  });
 
-    const action = rules[1].action as { type: 'modifyHeaders'; requestHeaders: Array<{ header: string; operation: string }> };
-    expect(action.requestHeaders).toEqual([{ header: 'X-Test', operation: 'remove' }]);
+  it('never emits a remove operation for exclude filters', () => {
+    const header = createHeader();
+    const filters = [
+      createFilter({ id: '1', value: 'https://exclude\\.com/.*', type: 'exclude' }),
+      createFilter({ id: '2', mode: 'url', value: '||exclude.com/', type: 'exclude' }),
+    ];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
+
+    const removes = rules.filter((rule) =>
+      rule.action.requestHeaders?.some((h) => h.operation === 'remove')
+    );
+    expect(removes).toHaveLength(0);
   });
 
-  it('creates separate remove rules for each regex exclude filter', () => {
+  it('creates separate allow rules for each regex exclude filter', () => {
     const header = createHeader();
     const filters = [
       createFilter({ id: '1', value: 'https://a\\.com/.*', type: 'exclude' }),
@@ -124,7 +171,7 @@ describe('buildHeaderRules', () => {
     const rules = buildHeaderRules(header, filters, getNextId);
 
     expect(rules).toHaveLength(3);
-    expect(rules[1].action.type).toBe('modifyHeaders');
+    expect(rules[1].action.type).toBe('allow');
     expect(rules[1].condition.regexFilter).toBe('https://a\\.com/.*');
     expect(rules[2].condition.regexFilter).toBe('https://b\\.com/.*');
   });
@@ -140,11 +187,11 @@ describe('buildHeaderRules', () => {
 
     expect(rules).toHaveLength(2);
     expect(rules[0].condition.regexFilter).toBe('https://include\\.com/.*');
-    expect(rules[1].action.type).toBe('modifyHeaders');
+    expect(rules[1].action.type).toBe('allow');
     expect(rules[1].condition.regexFilter).toBe('https://exclude\\.com/.*');
   });
 
-  it('uses responseHeaders removal for response header type exclude filters', () => {
+  it('uses the same allow rule for response header type exclude filters', () => {
     const header = createHeader({ headerType: 'response' });
     const filters = [
       createFilter({ id: '1', value: 'https://exclude\\.com/.*', type: 'exclude' }),
@@ -153,8 +200,8 @@ describe('buildHeaderRules', () => {
     const rules = buildHeaderRules(header, filters, getNextId);
 
     expect(rules).toHaveLength(2);
-    const action = rules[1].action as { type: 'modifyHeaders'; responseHeaders: Array<{ header: string; operation: string }> };
-    expect(action.responseHeaders).toEqual([{ header: 'X-Test', operation: 'remove' }]);
+    expect(rules[1].action).toEqual({ type: 'allow' });
+    expect(rules[1].priority).toBe(2);
   });
 
   it('does not let one header exclude filter affect another header', () => {
@@ -173,15 +220,20 @@ describe('buildHeaderRules', () => {
       return action.requestHeaders?.some((h) => h.header === 'X-B');
     });
     expect(rulesForB).toHaveLength(1);
-    expect(rulesForB[0].priority).toBe(1);
+    expect(rulesForB[0].priority).toBe(3);
     expect(rulesForB[0].condition.regexFilter).toBe('|http*');
 
-    const rulesRemovingA = allRules.filter((rule) => {
+    // A's exclude stops A's rule, which sits below it, but not B's above it.
+    const rulesForA = allRules.filter((rule) => {
       const action = rule.action as { type: 'modifyHeaders'; requestHeaders?: Array<{ header: string; operation: string }> };
-      return rule.priority === 2 && action.requestHeaders?.some((h) => h.header === 'X-A' && h.operation === 'remove');
+      return action.requestHeaders?.some((h) => h.header === 'X-A');
     });
-    expect(rulesRemovingA).toHaveLength(1);
-    expect(rulesRemovingA[0].condition.regexFilter).toBe('https://exclude\\.com/.*');
+    const allowRules = allRules.filter((rule) => rule.action.type === 'allow');
+    expect(allowRules).toHaveLength(1);
+    expect(allowRules[0].condition.regexFilter).toBe('https://exclude\\.com/.*');
+    expect(rulesForA).toHaveLength(1);
+    expect(rulesForA[0].priority).toBeLessThan(allowRules[0].priority!);
+    expect(rulesForB[0].priority).toBeGreaterThan(allowRules[0].priority!);
   });
 
   it('uses responseHeaders for response header type', () => {
@@ -205,6 +257,62 @@ describe('buildHeaderRules', () => {
     ]);
   });
 
+  it('emits an append operation for an append header', () => {
+    const header = createHeader({ headerName: 'Accept', headerValue: 'application/json', headerOperation: 'append' });
+    const rules = buildHeaderRules(header, [], getNextId);
+
+    const action = rules[0].action as { type: 'modifyHeaders'; requestHeaders: Array<{ header: string; operation: string; value?: string }> };
+    expect(action.requestHeaders).toEqual([
+      { header: 'Accept', operation: 'append', value: 'application/json' },
+    ]);
+  });
+
+  it('emits a remove operation without a value for a remove header', () => {
+    const header = createHeader({ headerName: 'Referer', headerValue: 'ignored', headerOperation: 'remove' });
+    const rules = buildHeaderRules(header, [], getNextId);
+
+    const action = rules[0].action as { type: 'modifyHeaders'; requestHeaders: Array<{ header: string; operation: string; value?: string }> };
+    expect(action.requestHeaders).toEqual([
+      { header: 'Referer', operation: 'remove' },
+    ]);
+  });
+
+  it('restricts an include rule to the filter methods', () => {
+    const header = createHeader({ headerName: 'X-CSRF-Token' });
+    const filters = [
+      createFilter({ id: '1', mode: 'url', value: '||api.example.com/', methods: ['post', 'put'] }),
+    ];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].condition.urlFilter).toBe('||api.example.com/');
+    expect(rules[0].condition.requestMethods).toEqual(['post', 'put']);
+  });
+
+  it('omits requestMethods when a filter has no methods', () => {
+    const header = createHeader();
+    const filters = [createFilter({ id: '1', methods: [] })];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
+
+    expect(rules[0].condition.requestMethods).toBeUndefined();
+  });
+
+  it('restricts an exclude allow rule to the filter methods', () => {
+    const header = createHeader();
+    const filters = [
+      createFilter({ id: '1', value: 'https://exclude\\.com/.*', type: 'exclude', methods: ['get'] }),
+    ];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
+
+    expect(rules).toHaveLength(2);
+    expect(rules[0].condition.requestMethods).toBeUndefined();
+    expect(rules[1].action.type).toBe('allow');
+    expect(rules[1].condition.requestMethods).toEqual(['get']);
+  });
+
   it('emits a urlFilter rule for a URL-mode include filter', () => {
     const header = createHeader();
     const filters = [
@@ -216,7 +324,7 @@ describe('buildHeaderRules', () => {
     expect(rules).toHaveLength(1);
     expect(rules[0].condition.urlFilter).toBe('||example.com/');
     expect(rules[0].condition.regexFilter).toBeUndefined();
-    expect(rules[0].priority).toBe(1);
+    expect(rules[0].priority).toBe(3);
   });
 
   it('does not emit default catch-all when a URL include filter exists', () => {
@@ -245,7 +353,7 @@ describe('buildHeaderRules', () => {
     expect(rules[1].condition.urlFilter).toBe('||b.com/');
   });
 
-  it('emits a higher-priority urlFilter remove rule for URL exclude filters', () => {
+  it('emits a higher-priority urlFilter allow rule for URL exclude filters', () => {
     const header = createHeader();
     const filters = [
       createFilter({ id: '1', mode: 'url', value: '||exclude.com/', type: 'exclude' }),
@@ -259,9 +367,22 @@ describe('buildHeaderRules', () => {
     expect(rules[1].priority).toBe(2);
     expect(rules[1].condition.urlFilter).toBe('||exclude.com/');
     expect(rules[1].condition.regexFilter).toBeUndefined();
+    expect(rules[1].action).toEqual({ type: 'allow' });
+  });
+
+  it('folds a URL exclude naming just a host into excludedRequestDomains', () => {
+    const header = createHeader();
+    const filters = [
+      createFilter({ id: '1', mode: 'url', value: '||exclude.com^', type: 'exclude' }),
+      createFilter({ id: '2', mode: 'url', value: '||other.com', type: 'exclude' }),
+    ];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
 
-    const action = rules[1].action as { type: 'modifyHeaders'; requestHeaders: Array<{ header: string; operation: string }> };
-    expect(action.requestHeaders).toEqual([{ header: 'X-Test', operation: 'remove' }]);
+    expect(rules).toHaveLength(2);
+    expect(rules[0].condition.excludedRequestDomains).toEqual(['exclude.com']);
+    expect(rules[1].action).toEqual({ type: 'allow' });
+    expect(rules[1].condition.urlFilter).toBe('||other.com');
   });
 
   it('combines regex and URL include filters into separate rules', () => {
@@ -280,7 +401,7 @@ describe('buildHeaderRules', () => {
     expect(urlRule?.condition.urlFilter).toBe('||example.com/');
   });
 
-  it('uses responseHeaders removal for response header type URL exclude filters', () => {
+  it('uses an allow rule for response header type URL exclude filters', () => {
     const header = createHeader({ headerType: 'response' });
     const filters = [
       createFilter({ id: '1', mode: 'url', value: '||exclude.com/', type: 'exclude' }),
@@ -289,9 +410,8 @@ describe('buildHeaderRules', () => {
     const rules = buildHeaderRules(header, filters, getNextId);
 
     expect(rules).toHaveLength(2);
-    const urlRemoveRule = rules.find((rule) => rule.condition.urlFilter !== undefined && rule.priority === 2);
-    const action = urlRemoveRule!.action as { type: 'modifyHeaders'; responseHeaders: Array<{ header: string; operation: string }> };
-    expect(action.responseHeaders).toEqual([{ header: 'X-Test', operation: 'remove' }]);
+    const urlAllowRule = rules.find((rule) => rule.condition.urlFilter !== undefined && rule.priority === 2);
+    expect(urlAllowRule!.action).toEqual({ type: 'allow' });
   });
 });
 
@@ -317,7 +437,7 @@ describe('buildHeaderRules fixtures', () => {
   it('matches the default catch-all fixture', () => {
     const header = createHeader();
     compareWithFixture(buildHeaderRules(header, [], getNextFixtureId), 'default-catch-all', [
-      { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: true },
+      { headerName: 'X-Test', operation: 'set', priority: 3, conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: true },
     ]);
   });
 
@@ -328,9 +448,9 @@ describe('buildHeaderRules fixtures', () => {
       createFilter({ id: '2', value: 'https://b\\.com/.*' }),
     ];
     compareWithFixture(buildHeaderRules(header, filters, getNextFixtureId), 'regex-includes', [
-      { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: 'https://a\\.com/.*', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: 'https://b\\.com/.*', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: false },
+      { headerName: 'X-Test', operation: 'set', priority: 3, conditionType: 'regexFilter', conditionValue: 'https://a\\.com/.*', shouldBePresent: true },
+      { headerName: 'X-Test', operation: 'set', priority: 3, conditionType: 'regexFilter', conditionValue: 'https://b\\.com/.*', shouldBePresent: true },
+      { headerName: 'X-Test', operation: 'set', priority: 3, conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: false },
     ]);
   });
 
@@ -341,8 +461,8 @@ describe('buildHeaderRules fixtures', () => {
       createFilter({ id: '2', mode: 'url', value: '||b.com/' }),
     ];
     compareWithFixture(buildHeaderRules(header, filters, getNextFixtureId), 'url-includes', [
-      { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'urlFilter', conditionValue: '||a.com/', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'urlFilter', conditionValue: '||b.com/', shouldBePresent: true },
+      { headerName: 'X-Test', operation: 'set', priority: 3, conditionType: 'urlFilter', conditionValue: '||a.com/', shouldBePresent: true },
+      { headerName: 'X-Test', operation: 'set', priority: 3, conditionType: 'urlFilter', conditionValue: '||b.com/', shouldBePresent: true },
       { headerName: 'X-Test', operation: 'set', conditionType: 'regexFilter', shouldBePresent: false },
     ]);
   });
@@ -354,9 +474,9 @@ describe('buildHeaderRules fixtures', () => {
       createFilter({ id: '2', mode: 'url', value: '||example.com/' }),
     ];
     compareWithFixture(buildHeaderRules(header, filters, getNextFixtureId), 'mixed-includes', [
-      { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: 'https://include\\.com/.*', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'urlFilter', conditionValue: '||example.com/', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: false },
+      { headerName: 'X-Test', operation: 'set', priority: 3, conditionType: 'regexFilter', conditionValue: 'https://include\\.com/.*', shouldBePresent: true },
+      { headerName: 'X-Test', operation: 'set', priority: 3, conditionType: 'urlFilter', conditionValue: '||example.com/', shouldBePresent: true },
+      { headerName: 'X-Test', operation: 'set', priority: 3, conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: false },
     ]);
   });
 
@@ -368,8 +488,9 @@ describe('buildHeaderRules fixtures', () => {
     ];
     compareWithFixture(buildHeaderRules(header, filters, getNextFixtureId), 'regex-excludes', [
       { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'remove', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://a\\.com/.*', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'remove', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://b\\.com/.*', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://a\\.com/.*', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://b\\.com/.*', shouldBePresent: true },
+      { headerName: 'X-Test', operation: 'remove', shouldBePresent: false },
     ]);
   });
 
@@ -381,8 +502,9 @@ describe('buildHeaderRules fixtures', () => {
     ];
     compareWithFixture(buildHeaderRules(header, filters, getNextFixtureId), 'url-excludes', [
       { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'remove', priority: 2, conditionType: 'urlFilter', conditionValue: '||a.com/', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'remove', priority: 2, conditionType: 'urlFilter', conditionValue: '||b.com/', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'urlFilter', conditionValue: '||a.com/', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'urlFilter', conditionValue: '||b.com/', shouldBePresent: true },
+      { headerName: 'X-Test', operation: 'remove', shouldBePresent: false },
     ]);
   });
 
@@ -397,8 +519,8 @@ describe('buildHeaderRules fixtures', () => {
     compareWithFixture(buildHeaderRules(header, filters, getNextFixtureId), 'include-and-exclude', [
       { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: 'https://include\\.com/.*', shouldBePresent: true },
       { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'urlFilter', conditionValue: '||example.com/', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'remove', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://exclude\\.com/.*', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'remove', priority: 2, conditionType: 'urlFilter', conditionValue: '||exclude.com/', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://exclude\\.com/.*', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'urlFilter', conditionValue: '||exclude.com/', shouldBePresent: true },
       { headerName: 'X-Test', operation: 'set', conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: false },
     ]);
   });
@@ -410,7 +532,7 @@ describe('buildHeaderRules fixtures', () => {
     ];
     compareWithFixture(buildHeaderRules(header, filters, getNextFixtureId), 'response-header', [
       { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'remove', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://exclude\\.com/.*', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://exclude\\.com/.*', shouldBePresent: true },
     ]);
   });
 
@@ -422,20 +544,228 @@ describe('buildHeaderRules fixtures', () => {
       createFilter({ id: '2', value: 'https://exclude-a\\.com/.*', type: 'exclude' }),
     ];
 
-    const rules = [
-      ...buildHeaderRules(headerA, filters, getNextFixtureId),
-      ...buildHeaderRules(headerB, filters, getNextFixtureId),
-    ];
+    const page: Page = {
+      id: 0,
+      name: 'Default',
+      enabled: true,
+      keepEnabled: false,
+      showHeaderComments: true,
+      filters,
+      headers: [headerA, headerB],
+    };
+
+    // Both headers share one include rule and one allow rule (4 rules when
+    // built per header).
+    const rules = buildRulesFromPages([page], getNextFixtureId);
+    expect(rules).toHaveLength(2);
     compareWithFixture(rules, 'multiple-headers', [
       { headerName: 'X-A', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: 'https://shared\\.com/.*', shouldBePresent: true },
-      { headerName: 'X-A', operation: 'remove', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://exclude-a\\.com/.*', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://exclude-a\\.com/.*', shouldBePresent: true },
       { headerName: 'X-B', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: 'https://shared\\.com/.*', shouldBePresent: true },
-      { headerName: 'X-B', operation: 'remove', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://exclude-a\\.com/.*', shouldBePresent: true },
+      { headerName: 'X-B', operation: 'remove', shouldBePresent: false },
       { headerName: 'X-A', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: false },
       { headerName: 'X-B', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: false },
     ]);
   });
 
+  it('matches the grouped headers fixture', () => {
+    const headers = [
+      createHeader({ id: 'header-a', headerName: 'Authorization', headerValue: 'Bearer token' }),
+      createHeader({ id: 'header-b', headerName: 'X-Tenant', headerValue: 'acme' }),
+      createHeader({ id: 'header-c', headerName: 'X-Debug', headerOperation: 'remove' }),
+      createHeader({ id: 'header-d', headerName: 'Access-Control-Allow-Origin', headerValue: '*', headerType: 'response' }),
+    ];
+    const filters = [
+      createFilter({ id: '1', mode: 'url', value: '||api.example.com/' }),
+      createFilter({ id: '2', mode: 'url', value: '||api.example.org/' }),
+      createFilter({ id: '3', value: 'https://staging\\.example\\.net/api/.*' }),
+      createFilter({ id: '4', mode: 'url', value: '||api.example.com/health', type: 'exclude' }),
+    ];
+    const page: Page = {
+      id: 0,
+      name: 'Default',
+      enabled: true,
+      keepEnabled: false,
+      showHeaderComments: true,
+      filters,
+      headers,
+    };
+
+    // Built per header this is 16 rules (4 of them regex); combined it's 4
+    // (1 regex).
+    const rules = buildRulesFromPages([page], getNextFixtureId);
+    expect(rules).toHaveLength(4);
+    expect(rules.filter((rule) => rule.condition.regexFilter)).toHaveLength(1);
+    compareWithFixture(rules, 'grouped-headers', [
+      { headerName: 'Authorization', priority: 1, conditionType: 'urlFilter', conditionValue: '||api.example.com/', shouldBePresent: true },
+      { headerName: 'X-Debug', operation: 'remove', priority: 1, conditionType: 'urlFilter', conditionValue: '||api.example.org/', shouldBePresent: true },
+      { headerName: 'Access-Control-Allow-Origin', priority: 1, conditionType: 'regexFilter', conditionValue: 'https://staging\\.example\\.net/api/.*', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'urlFilter', conditionValue: '||api.example.com/health', shouldBePresent: true },
+    ]);
+  });
+
+  it('matches the redirects fixture', () => {
+    const page: Page = {
+      id: 0,
+      name: 'Default',
+      enabled: true,
+      keepEnabled: false,
+      showHeaderComments: true,
+      filters: [
+        createFilter({ id: '1', mode: 'url', value: '||example.com/' }),
+        createFilter({ id: '2', mode: 'url', value: '||example.com/vendor/', type: 'exclude' }),
+        createFilter({ id: '3', mode: 'initiator', value: 'partner.example.org', type: 'exclude' }),
+      ],
+      headers: [createHeader({ id: 'header-1', headerName: 'X-Debug', headerValue: '1' })],
+      redirects: [
+        createRedirect({ id: 'redirect-1' }),
+        createRedirect({
+          id: 'redirect-2',
+          source: '^https://cdn\\.example\\.com/chunks/(.*)$',
+          target: 'http://localhost:3000/chunks/\\1',
+        }),
+        createRedirect({ id: 'redirect-3', source: '^https://disabled\\.example\\.com/', enabled: false }),
+      ],
+    };
+
+    // The exclude's allow rule is shared by the header and both redirects.
+    const rules = buildRulesFromPages([page], getNextFixtureId);
+    expect(rules).toHaveLength(4);
+    compareWithFixture(rules, 'redirects', [
+      { headerName: 'X-Debug', priority: 1, conditionType: 'urlFilter', conditionValue: '||example.com/', shouldBePresent: true },
+      { actionType: 'redirect', priority: 1, conditionType: 'regexFilter', conditionValue: '^https://cdn\\.example\\.com/app\\.js$', shouldBePresent: true },
+      { actionType: 'redirect', priority: 1, conditionType: 'regexFilter', conditionValue: '^https://cdn\\.example\\.com/chunks/(.*)$', shouldBePresent: true },
+      { actionType: 'redirect', conditionType: 'excludedInitiatorDomains', conditionValue: 'partner.example.org', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'urlFilter', conditionValue: '||example.com/vendor/', shouldBePresent: true },
+      { actionType: 'redirect', conditionType: 'regexFilter', conditionValue: '^https://disabled\\.example\\.com/', shouldBePresent: false },
+    ]);
+  });
+
+  it('matches the blocks fixture', () => {
+    const page: Page = {
+      id: 0,
+      name: 'Default',
+      enabled: true,
+      keepEnabled: false,
+      showHeaderComments: true,
+      resourceTypes: ['script', 'xmlhttprequest'],
+      filters: [
+        createFilter({ id: '1', mode: 'url', value: '||example.com/' }),
+        createFilter({ id: '2', mode: 'initiator', value: 'admin.example.com', type: 'exclude' }),
+        createFilter({ id: '3', mode: 'url', value: '||example.com/checkout', type: 'exclude' }),
+      ],
+      headers: [createHeader({ id: 'header-1', headerName: 'X-Debug', headerValue: '1' })],
+      blocks: [
+        createBlock({ id: 'block-1' }),
+        createBlock({ id: 'block-2', mode: 'regex', value: '^https://flags\\.example\\.com/.*\\.json$', methods: ['get'] }),
+        createBlock({ id: 'block-3', mode: 'domain', value: 'tracker.example.net', resourceTypes: ['image'] }),
+        createBlock({ id: 'block-4', mode: 'url', value: '||disabled.example.com^', enabled: false }),
+      ],
+    };
+
+    // The exclude's allow rule is shared by the header and every block.
+    const rules = buildRulesFromPages([page], getNextFixtureId);
+    expect(rules).toHaveLength(5);
+    compareWithFixture(rules, 'blocks', [
+      { headerName: 'X-Debug', priority: 1, conditionType: 'urlFilter', conditionValue: '||example.com/', shouldBePresent: true },
+      { actionType: 'block', priority: 1, conditionType: 'urlFilter', conditionValue: '||analytics.example.com^', shouldBePresent: true },
+      { actionType: 'block', priority: 1, conditionType: 'regexFilter', conditionValue: '^https://flags\\.example\\.com/.*\\.json$', shouldBePresent: true },
+      { actionType: 'block', priority: 1, conditionType: 'requestDomains', conditionValue: 'tracker.example.net', shouldBePresent: true },
+      { actionType: 'block', conditionType: 'excludedInitiatorDomains', conditionValue: 'admin.example.com', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'urlFilter', conditionValue: '||example.com/checkout', shouldBePresent: true },
+      { actionType: 'block', conditionType: 'urlFilter', conditionValue: '||disabled.example.com^', shouldBePresent: false },
+    ]);
+  });
+
+  it('matches the query params fixture', () => {
+    const page: Page = {
+      id: 0,
+      name: 'Default',
+      enabled: true,
+      keepEnabled: false,
+      showHeaderComments: true,
+      filters: [
+        createFilter({ id: '1', mode: 'url', value: '||api.example.com/' }),
+        createFilter({ id: '2', mode: 'domain', value: 'staging.example.com' }),
+        createFilter({ id: '3', mode: 'url', value: '||api.example.com/health', type: 'exclude' }),
+      ],
+      headers: [createHeader({ id: 'header-1', headerName: 'X-Debug', headerValue: '1' })],
+      queryParams: [
+        createQueryParam({ id: 'query-1', operation: 'add', key: 'debug', value: '1' }),
+        createQueryParam({ id: 'query-2', operation: 'replace', key: 'locale', value: 'en-GB' }),
+        createQueryParam({ id: 'query-3', operation: 'remove', key: 'utm_source', value: '' }),
+        createQueryParam({ id: 'query-4', operation: 'add', key: 'trace', value: 'on', enabled: false }),
+        createQueryParam({ id: 'query-5', operation: 'add', key: 'bad key', value: 'x' }),
+      ],
+    };
+
+    // Per include filter: one modifyHeaders rule and one redirect carrying
+    // every parameter change, plus the shared allow rule.
+    const rules = buildRulesFromPages([page], getNextFixtureId);
+    expect(rules).toHaveLength(5);
+    compareWithFixture(rules, 'query-params', [
+      { headerName: 'X-Debug', priority: 1, conditionType: 'urlFilter', conditionValue: '||api.example.com/', shouldBePresent: true },
+      { actionType: 'redirect', priority: 1, conditionType: 'urlFilter', conditionValue: '||api.example.com/', shouldBePresent: true },
+      { actionType: 'redirect', priority: 1, conditionType: 'requestDomains', conditionValue: 'staging.example.com', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'urlFilter', conditionValue: '||api.example.com/health', shouldBePresent: true },
+      { actionType: 'redirect', conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: false },
+    ]);
+    const redirect = rules.find((rule) => rule.action.type === 'redirect');
+    expect(redirect?.action.redirect?.transform?.queryTransform).toEqual({
+      removeParams: ['utm_source'],
+      addOrReplaceParams: [
+        { key: 'debug', value: '1' },
+        { key: 'locale', value: 'en-GB', replaceOnly: true },
+      ],
+    });
+  });
+
+  it('matches the method filters fixture', () => {
+    const header = createHeader({ headerName: 'Idempotency-Key', headerValue: 'abc' });
+    const filters = [
+      createFilter({ id: '1', mode: 'url', value: '||api.example.com/', methods: ['post', 'put'] }),
+      createFilter({ id: '2', mode: 'url', value: '||api.example.com/health', type: 'exclude', methods: ['post'] }),
+    ];
+    compareWithFixture(buildHeaderRules(header, filters, getNextFixtureId), 'method-filters', [
+      { headerName: 'Idempotency-Key', operation: 'set', priority: 1, conditionType: 'urlFilter', conditionValue: '||api.example.com/', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'urlFilter', conditionValue: '||api.example.com/health', shouldBePresent: true },
+      { headerName: 'Idempotency-Key', operation: 'set', conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: false },
+    ]);
+  });
+
+  it('matches the domain filters fixture', () => {
+    const header = createHeader({ headerName: 'X-Api-Key', headerValue: 'secret' });
+    const filters = [
+      createFilter({ id: '1', mode: 'domain', value: 'api.example.com, api.example.org' }),
+      createFilter({ id: '2', mode: 'initiator', value: 'app.example.com' }),
+      createFilter({ id: '3', mode: 'domain', value: 'status.api.example.com', type: 'exclude' }),
+      createFilter({ id: '4', mode: 'initiator', value: 'admin.example.com', type: 'exclude', methods: ['delete'] }),
+    ];
+    compareWithFixture(buildHeaderRules(header, filters, getNextFixtureId), 'domain-filters', [
+      { headerName: 'X-Api-Key', priority: 1, conditionType: 'requestDomains', conditionValue: 'api.example.org', shouldBePresent: true },
+      { headerName: 'X-Api-Key', priority: 1, conditionType: 'initiatorDomains', conditionValue: 'app.example.com', shouldBePresent: true },
+      { headerName: 'X-Api-Key', conditionType: 'excludedRequestDomains', conditionValue: 'status.api.example.com', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'initiatorDomains', conditionValue: 'admin.example.com', shouldBePresent: true },
+      { actionType: 'allow', conditionType: 'requestDomains', shouldBePresent: false },
+      { headerName: 'X-Api-Key', conditionType: 'regexFilter', conditionValue: '|http*', shouldBePresent: false },
+    ]);
+  });
+
+  it('matches the response header conditions fixture', () => {
+    const header = createHeader({ headerName: 'Access-Control-Allow-Origin', headerValue: '*', headerType: 'response' });
+    const filters = [
+      createFilter({ id: '1', mode: 'url', value: '||api.example.com/' }),
+      createFilter({ id: '2', mode: 'responseHeader', value: 'Vary: Origin' }),
+      createFilter({ id: '3', mode: 'responseHeader', value: 'Access-Control-Allow-Origin', type: 'exclude' }),
+    ];
+    compareWithFixture(buildHeaderRules(header, filters, getNextFixtureId), 'response-header-conditions', [
+      { headerName: 'Access-Control-Allow-Origin', priority: 3, conditionType: 'urlFilter', conditionValue: '||api.example.com/', shouldBePresent: true },
+      { headerName: 'Access-Control-Allow-Origin', priority: 3, conditionType: 'responseHeaders', shouldBePresent: true },
+      { headerName: 'Access-Control-Allow-Origin', conditionType: 'excludedResponseHeaders', shouldBePresent: true },
+      { actionType: 'allow', shouldBePresent: false },
+    ]);
+  });
+
   it('matches the disabled and invalid filters fixture', () => {
     const header = createHeader();
     const filters = [
@@ -447,15 +777,15 @@ describe('buildHeaderRules fixtures', () => {
     ];
     compareWithFixture(buildHeaderRules(header, filters, getNextFixtureId), 'disabled-invalid-filters', [
       { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: 'https://enabled\\.com/.*', shouldBePresent: true },
-      { headerName: 'X-Test', operation: 'remove', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://exclude-enabled\\.com/.*', shouldBePresent: true },
+      { actionType: 'allow', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://exclude-enabled\\.com/.*', shouldBePresent: true },
       { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: 'https://disabled\\.com/.*', shouldBePresent: false },
       { headerName: 'X-Test', operation: 'set', priority: 1, conditionType: 'regexFilter', conditionValue: 'https://invalid\\.com/.*', shouldBePresent: false },
-      { headerName: 'X-Test', operation: 'remove', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://exclude-disabled\\.com/.*', shouldBePresent: false },
+      { actionType: 'allow', priority: 2, conditionType: 'regexFilter', conditionValue: 'https://exclude-disabled\\.com/.*', shouldBePresent: false },
     ]);
   });
 });
 
-describe('buildRulesFromPages migration regression', () => {
+describe('domain and initiator filters', () => {
   let idCounter: number;
   const getNextId = () => {
     idCounter += 1;
@@ -466,41 +796,1280 @@ describe('buildRulesFromPages migration regression', () => {
     idCounter = 0;
   });
 
-  it('still produces rules for filters stored before the mode field existed', () => {
-    // This is the exact shape an older version of the extension would have
-    // written to storage: filters have no `mode` and headers have no `headerType`.
-    const oldStoredPage: Page = {
-      id: 0,
-      name: 'Default',
-      enabled: true,
-      keepEnabled: false,
-      showHeaderComments: true,
-      filters: [
-        {
-          id: 'filter-1',
-          enabled: true,
-          valid: true,
-          type: 'include',
-          value: 'https://example\\.com/.*',
-        } as unknown as HeaderFilter,
-      ],
-      headers: [
-        {
-          id: 'header-1',
-          headerName: 'X-Migrated',
-          headerValue: 'yes',
-          headerComment: '',
-          headerEnabled: true,
-        } as unknown as HeaderSetting,
-      ],
-    };
+  it('emits a requestDomains rule for a domain include filter', () => {
+    const header = createHeader();
+    const filters = [createFilter({ id: '1', mode: 'domain', value: 'API.example.com, example.org' })];
 
-    // background.ts calls normalizePage before building rules.
-    const normalized = normalizePage(oldStoredPage);
-    const rules = buildRulesFromPages([normalized], getNextId);
+    const rules = buildHeaderRules(header, filters, getNextId);
 
     expect(rules).toHaveLength(1);
-    expect(rules[0].priority).toBe(1);
+    expect(rules[0].condition.requestDomains).toEqual(['api.example.com', 'example.org']);
+    expect(rules[0].condition.regexFilter).toBeUndefined();
+    expect(rules[0].condition.urlFilter).toBeUndefined();
+  });
+
+  it('emits an initiatorDomains rule for an initiator include filter', () => {
+    const header = createHeader();
+    const filters = [createFilter({ id: '1', mode: 'initiator', value: 'app.example.com' })];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].condition.initiatorDomains).toEqual(['app.example.com']);
+  });
+
+  it('folds domain and initiator excludes into the modifyHeaders rules instead of adding allow rules', () => {
+    const header = createHeader();
+    const filters = [
+      createFilter({ id: '1', mode: 'url', value: '||example.com/' }),
+      createFilter({ id: '2', mode: 'domain', value: 'static.example.com', type: 'exclude' }),
+      createFilter({ id: '3', mode: 'initiator', value: 'partner.com', type: 'exclude' }),
+      createFilter({ id: '4', mode: 'domain', value: 'cdn.example.com', type: 'exclude' }),
+    ];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].action.type).toBe('modifyHeaders');
+    expect(rules[0].condition.excludedRequestDomains).toEqual(['static.example.com', 'cdn.example.com']);
+    expect(rules[0].condition.excludedInitiatorDomains).toEqual(['partner.com']);
+  });
+
+  it('applies folded domain excludes to the default catch-all rule', () => {
+    const header = createHeader();
+    const filters = [createFilter({ id: '1', mode: 'domain', value: 'example.com', type: 'exclude' })];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].condition.regexFilter).toBe('|http*');
+    expect(rules[0].condition.excludedRequestDomains).toEqual(['example.com']);
+  });
+
+  it('keeps an allow rule for a domain exclude narrowed by methods or resource types', () => {
+    const header = createHeader();
+    const filters = [
+      createFilter({ id: '1', mode: 'domain', value: 'example.com', type: 'exclude', methods: ['post'] }),
+      createFilter({ id: '2', mode: 'domain', value: 'example.org', type: 'exclude', resourceTypes: ['image'] }),
+    ];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
+
+    expect(rules).toHaveLength(3);
+    expect(rules[0].condition.excludedRequestDomains).toBeUndefined();
+    expect(rules[1]).toMatchObject({
+      priority: 2,
+      action: { type: 'allow' },
+      condition: { requestDomains: ['example.com'], requestMethods: ['post'] },
+    });
+    expect(rules[2]).toMatchObject({
+      priority: 2,
+      action: { type: 'allow' },
+      condition: { requestDomains: ['example.org'], resourceTypes: ['image'] },
+    });
+  });
+});
+
+describe('filter groups', () => {
+  let idCounter: number;
+  const getNextId = () => {
+    idCounter += 1;
+    return idCounter;
+  };
+
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('combines the filters of a group into one rule', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'domain', value: 'api.example.com', groupId: 'g' }),
+      createFilter({ id: '2', mode: 'url', value: '|http*://*/v2', methods: ['get'], groupId: 'g' }),
+    ];
+
+    const rules = buildHeaderRules(createHeader(), filters, getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].condition).toEqual({
+      urlFilter: '|http*://*/v2',
+      requestDomains: ['api.example.com'],
+      requestMethods: ['get'],
+      resourceTypes: allResourceTypes,
+    });
+  });
+
+  it('ORs groups with each other and with filters on their own', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'domain', value: 'api.example.com', groupId: 'g' }),
+      createFilter({ id: '2', mode: 'initiator', value: 'app.example.com', groupId: 'g' }),
+      createFilter({ id: '3', mode: 'domain', value: 'example.org' }),
+      createFilter({ id: '4', mode: 'domain', value: 'example.net', groupId: 'h' }),
+    ];
+
+    const rules = buildHeaderRules(createHeader(), filters, getNextId);
+
+    expect(rules.map((rule) => rule.condition.requestDomains)).toEqual([
+      ['example.org'],
+      ['example.net'],
+      ['api.example.com'],
+    ]);
+    expect(rules[2].condition.initiatorDomains).toEqual(['app.example.com']);
+  });
+
+  it('leaves disabled filters out of their group', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'domain', value: 'api.example.com', groupId: 'g' }),
+      createFilter({ id: '2', mode: 'initiator', value: 'app.example.com', groupId: 'g', enabled: false }),
+    ];
+
+    const rules = buildHeaderRules(createHeader(), filters, getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].condition).toEqual({
+      requestDomains: ['api.example.com'],
+      resourceTypes: allResourceTypes,
+    });
+  });
+
+  it('leaves a group with an invalid filter out instead of widening it', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'domain', value: 'api.example.com', groupId: 'g' }),
+      createFilter({ id: '2', mode: 'initiator', value: 'app.example.com', groupId: 'g', valid: false }),
+    ];
+
+    // The group still counts as an include, so there's no catch-all either.
+    expect(buildHeaderRules(createHeader(), filters, getNextId)).toEqual([]);
+  });
+
+  it('does not exclude with a group that has an invalid filter', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'domain', value: 'api.example.com', type: 'exclude', groupId: 'g' }),
+      createFilter({ id: '2', mode: 'initiator', value: 'app.example.com', type: 'exclude', groupId: 'g', valid: false }),
+    ];
+
+    const rules = buildHeaderRules(createHeader(), filters, getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].action.type).toBe('modifyHeaders');
+    expect(rules[0].condition.regexFilter).toBe('|http*');
+  });
+
+  it('merges URL filters the builder can read into one pattern', () => {
+    const group = (first: Partial<HeaderFilter>, second: Partial<HeaderFilter>) => [
+      createFilter({ id: '1', groupId: 'g', ...first }),
+      createFilter({ id: '2', groupId: 'g', ...second }),
+    ];
+
+    expect(
+      buildFilterGroupCondition(
+        group({ mode: 'url', value: '||example.com/' }, { mode: 'url', value: '|http*://*/v2' })
+      )
+    ).toEqual({ condition: { urlFilter: '||example.com/v2', resourceTypes: allResourceTypes } });
+    expect(
+      buildFilterGroupCondition(
+        group(
+          { mode: 'url', value: '||example.com/' },
+          { mode: 'regex', value: '^https://api\\.example\\.com/v2' }
+        )
+      )
+    ).toEqual({
+      condition: {
+        regexFilter: '^https://api\\.example\\.com/v2',
+        resourceTypes: allResourceTypes,
+      },
+    });
+    // A urlFilter can't limit the scheme and include subdomains at once
+    expect(
+      buildFilterGroupCondition(
+        group({ mode: 'url', value: '||example.com/' }, { mode: 'url', value: '|https://*/' })
+      )
+    ).toEqual({
+      condition: {
+        regexFilter: '^https://(?:[^/?#]+\\.)?example\\.com/',
+        resourceTypes: allResourceTypes,
+      },
+    });
+  });
+
+  it('narrows domains, methods and resource types to the ones every filter allows', () => {
+    const result = buildFilterGroupCondition(
+      [
+        createFilter({ id: '1', mode: 'domain', value: 'example.com, example.org', methods: ['get', 'post'] }),
+        createFilter({ id: '2', mode: 'domain', value: 'api.example.com', methods: ['get'], resourceTypes: ['xmlhttprequest', 'script'] }),
+      ],
+      ['xmlhttprequest', 'image']
+    );
+
+    expect(result).toEqual({
+      condition: {
+        requestDomains: ['api.example.com'],
+        requestMethods: ['get'],
+        resourceTypes: ['xmlhttprequest'],
+      },
+    });
+  });
+
+  it.each([
+    [
+      'hand-written URL patterns',
+      [{ mode: 'regex', value: '^https://example\\.com/.*\\?debug' }, { mode: 'url', value: '/v2/' }],
+      /filter builder can read/,
+    ],
+    [
+      'a hand-written pattern next to one the builder can read',
+      [{ mode: 'regex', value: '^https://example\\.com/.*\\?debug' }, { mode: 'url', value: '||example.com/' }],
+      /filter builder can read/,
+    ],
+    [
+      'URL filters that never match the same URL',
+      [{ mode: 'url', value: '||example.com/' }, { mode: 'url', value: '||example.org/' }],
+      /never match the same URL/,
+    ],
+    [
+      'domains that don\'t overlap',
+      [{ mode: 'domain', value: 'example.com' }, { mode: 'domain', value: 'example.org' }],
+      /domains don't overlap/,
+    ],
+    [
+      'methods that don\'t overlap',
+      [{ mode: 'domain', value: 'example.com', methods: ['get'] }, { mode: 'domain', value: 'example.com', methods: ['post'] }],
+      /methods don't overlap/,
+    ],
+    [
+      'two response header filters',
+      [{ mode: 'responseHeader', value: 'Vary' }, { mode: 'responseHeader', value: 'Content-Type: text/html' }],
+      /only have one response header filter/,
+    ],
+  ] as [string, Partial<HeaderFilter>[], RegExp][])('rejects %s', (_, overrides, message) => {
+    const filters = overrides.map((override, index) =>
+      createFilter({ id: String(index + 1), groupId: 'g', ...override })
+    );
+
+    const result = buildFilterGroupCondition(filters);
+
+    expect('error' in result && result.error).toMatch(message);
+    // Still an include, so the header isn't applied everywhere instead
+    expect(
+      buildHeaderRules(createHeader({ headerType: 'response' }), filters, getNextId)
+    ).toEqual([]);
+  });
+
+  it('turns an exclude group into one allow rule instead of folding it', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'url', value: '||example.com/' }),
+      createFilter({ id: '2', type: 'exclude', mode: 'domain', value: 'static.example.com', groupId: 'g' }),
+      createFilter({ id: '3', type: 'exclude', mode: 'initiator', value: 'partner.com', groupId: 'g' }),
+    ];
+
+    const rules = buildHeaderRules(createHeader(), filters, getNextId);
+
+    expect(rules).toHaveLength(2);
+    expect(rules[0].condition.excludedRequestDomains).toBeUndefined();
+    expect(rules[1]).toMatchObject({
+      priority: 2,
+      action: { type: 'allow' },
+      condition: { requestDomains: ['static.example.com'], initiatorDomains: ['partner.com'] },
+    });
+  });
+
+  it('keeps include and exclude filters sharing a group id apart', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'domain', value: 'example.com', groupId: 'g' }),
+      createFilter({ id: '2', type: 'exclude', mode: 'domain', value: 'static.example.com', groupId: 'g' }),
+    ];
+
+    const rules = buildHeaderRules(createHeader(), filters, getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].condition).toMatchObject({
+      requestDomains: ['example.com'],
+      excludedRequestDomains: ['static.example.com'],
+    });
+  });
+
+  it("doesn't let a redirect's excludes drop a group's response header filter", () => {
+    const page: Page = {
+      id: 0,
+      pageId: 'page-a',
+      name: 'Page A',
+      enabled: true,
+      keepEnabled: false,
+      showHeaderComments: true,
+      headers: [],
+      redirects: [createRedirect()],
+      filters: [
+        createFilter({ id: '1', type: 'exclude', mode: 'domain', value: 'cdn.example.com', groupId: 'g' }),
+        createFilter({ id: '2', type: 'exclude', mode: 'responseHeader', value: 'Vary', groupId: 'g' }),
+      ],
+    };
+
+    const rules = buildRulesFromPages([page], getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].action.type).toBe('redirect');
+    expect(rules[0].condition.excludedRequestDomains).toBeUndefined();
+  });
+});
+
+describe('response header filters', () => {
+  let idCounter: number;
+  const getNextId = () => {
+    idCounter += 1;
+    return idCounter;
+  };
+
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('emits a responseHeaders condition for a response header include filter', () => {
+    const header = createHeader({ headerType: 'response', headerName: 'Content-Security-Policy' });
+    const filters = [createFilter({ id: '1', mode: 'responseHeader', value: 'Content-Type: text/html*' })];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
+    const condition = rules[0].condition as RuleCondition;
+
+    expect(rules).toHaveLength(1);
+    expect(condition.responseHeaders).toEqual([{ header: 'content-type', values: ['text/html*'] }]);
+    expect(condition.regexFilter).toBeUndefined();
+  });
+
+  it('matches on header presence when no value is given', () => {
+    const header = createHeader({ headerType: 'response' });
+    const filters = [createFilter({ id: '1', mode: 'responseHeader', value: 'Vary' })];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
+
+    expect((rules[0].condition as RuleCondition).responseHeaders).toEqual([{ header: 'vary' }]);
+  });
+
+  it('folds response header excludes into the modifyHeaders rules', () => {
+    const header = createHeader({ headerType: 'response' });
+    const filters = [createFilter({ id: '1', mode: 'responseHeader', value: 'Content-Type: application/json', type: 'exclude' })];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
+    const condition = rules[0].condition as RuleCondition;
+
+    expect(rules).toHaveLength(1);
+    expect(condition.regexFilter).toBe('|http*');
+    expect(condition.excludedResponseHeaders).toEqual([{ header: 'content-type', values: ['application/json'] }]);
+  });
+
+  it('emits no rule, and no catch-all, for request headers with a response header include', () => {
+    const header = createHeader({ headerType: 'request' });
+    const filters = [createFilter({ id: '1', mode: 'responseHeader', value: 'Vary: Origin' })];
+
+    expect(buildHeaderRules(header, filters, getNextId)).toHaveLength(0);
+  });
+
+  it('ignores response header excludes on request headers', () => {
+    const header = createHeader({ headerType: 'request' });
+    const filters = [createFilter({ id: '1', mode: 'responseHeader', value: 'Vary', type: 'exclude' })];
+
+    const rules = buildHeaderRules(header, filters, getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect((rules[0].condition as RuleCondition).excludedResponseHeaders).toBeUndefined();
+  });
+
+  it('drops response header conditions when the browser does not support them', () => {
+    const header = createHeader({ headerType: 'response' });
+    const filters = [
+      createFilter({ id: '1', mode: 'url', value: '||example.com/' }),
+      createFilter({ id: '2', mode: 'responseHeader', value: 'Vary: Origin' }),
+      createFilter({ id: '3', mode: 'responseHeader', value: 'Content-Type: image/*', type: 'exclude' }),
+    ];
+
+    const rules = buildHeaderRules(header, filters, getNextId, allResourceTypes, {
+      responseHeaderConditions: false,
+    });
+
+    expect(rules).toHaveLength(1);
+    const condition = rules[0].condition as RuleCondition;
+    expect(condition.urlFilter).toBe('||example.com/');
+    expect(condition.responseHeaders).toBeUndefined();
+    expect(condition.excludedResponseHeaders).toBeUndefined();
+  });
+
+  it('counts only enabled, valid response header filters on active pages', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'responseHeader', value: 'Vary' }),
+      createFilter({ id: '2', mode: 'responseHeader', value: 'Vary', enabled: false }),
+      createFilter({ id: '3', mode: 'responseHeader', value: 'Vary', valid: false }),
+      createFilter({ id: '4', mode: 'url', value: '||example.com/' }),
+    ];
+    const page: Page = {
+      id: 0,
+      name: 'Default',
+      enabled: true,
+      keepEnabled: false,
+      showHeaderComments: true,
+      filters,
+      headers: [createHeader()],
+    };
+
+    expect(countResponseHeaderFilters([page, { ...page, id: 1, enabled: false }])).toBe(1);
+  });
+});
+
+describe('"this tab only" pages', () => {
+  let idCounter: number;
+  const getNextId = () => {
+    idCounter += 1;
+    return idCounter;
+  };
+
+  const createPage = (overrides: Partial<Page> = {}): Page => ({
+    id: 0,
+    pageId: 'page-a',
+    name: 'Default',
+    enabled: true,
+    keepEnabled: false,
+    showHeaderComments: true,
+    filters: [],
+    headers: [createHeader()],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('leaves tab-scoped pages out of the global rules', () => {
+    const tabScopes = { 'page-a': [5] };
+
+    expect(buildRulesFromPages([createPage()], getNextId, { tabScopes })).toHaveLength(0);
+  });
+
+  it('limits a tab-scoped page to its tabs, whether or not it is selected', () => {
+    const tabScopes = { 'page-a': [5, 6] };
+    const rules = buildSessionRulesFromPages(
+      [createPage({ enabled: false, filters: [createFilter({ id: '1', type: 'exclude' })] })],
+      getNextId,
+      { tabScopes },
+    );
+
+    expect(rules).toHaveLength(2);
+    rules.forEach((rule) => expect(rule.condition.tabIds).toEqual([5, 6]));
+  });
+
+  it('still honours pause for a tab-scoped page', () => {
+    const tabScopes = { 'page-a': [5] };
+    const pages = [createPage({ paused: true })];
+
+    expect(buildSessionRulesFromPages(pages, getNextId, { tabScopes })).toHaveLength(0);
+    expect(buildRulesFromPages(pages, getNextId, { tabScopes })).toHaveLength(0);
+  });
+
+  it('ignores scopes for pages without a pageId', () => {
+    const tabScopes = { 'page-a': [5] };
+    const pages = [createPage({ pageId: undefined })];
+
+    expect(buildSessionRulesFromPages(pages, getNextId, { tabScopes })).toHaveLength(0);
+    expect(buildRulesFromPages(pages, getNextId, { tabScopes })).toHaveLength(1);
+  });
+
+  it('groups tab-scoped pages by tab', () => {
+    const pageA = createPage();
+    const pageB = createPage({ id: 1, pageId: 'page-b' });
+    const byTab = getTabScopedPages([pageA, pageB], { 'page-a': [5], 'page-b': [5, 6] });
+
+    expect(byTab.get(5)).toEqual([pageA, pageB]);
+    expect(byTab.get(6)).toEqual([pageB]);
+  });
+});
+
+describe('session-only pages', () => {
+  let idCounter: number;
+  const getNextId = () => {
+    idCounter += 1;
+    return idCounter;
+  };
+
+  const createPage = (overrides: Partial<Page> = {}): Page => ({
+    id: 0,
+    pageId: 'page-a',
+    name: 'Default',
+    enabled: true,
+    keepEnabled: false,
+    sessionOnly: true,
+    showHeaderComments: true,
+    filters: [],
+    headers: [createHeader()],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('compiles an active session-only page into session rules only', () => {
+    const pages = [createPage()];
+
+    expect(buildRulesFromPages(pages, getNextId)).toHaveLength(0);
+    const sessionRules = buildSessionRulesFromPages(pages, getNextId);
+    expect(sessionRules).toHaveLength(1);
+    expect(sessionRules[0].condition.tabIds).toBeUndefined();
+  });
+
+  it('skips session-only pages that are not selected, kept enabled or are paused', () => {
+    const pages = [
+      createPage({ enabled: false }),
+      createPage({ id: 1, pageId: 'page-b', paused: true }),
+    ];
+
+    expect(buildSessionRulesFromPages(pages, getNextId)).toHaveLength(0);
+  });
+
+  it('includes kept-enabled session-only pages', () => {
+    const pages = [createPage({ enabled: false, keepEnabled: true })];
+
+    expect(buildSessionRulesFromPages(pages, getNextId)).toHaveLength(1);
+  });
+
+  it('limits a session-only page in "this tab only" mode to its tab', () => {
+    const rules = buildSessionRulesFromPages([createPage()], getNextId, { tabScopes: { 'page-a': [9] } });
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].condition.tabIds).toEqual([9]);
+  });
+
+  it('never reuses an ID between dynamic and session rules sharing a counter', () => {
+    const pages = [createPage({ sessionOnly: false }), createPage({ id: 1, pageId: 'page-b', keepEnabled: true })];
+
+    const dynamicIds = buildRulesFromPages(pages, getNextId).map((rule) => rule.id);
+    const sessionIds = buildSessionRulesFromPages(pages, getNextId).map((rule) => rule.id);
+
+    expect(dynamicIds).toEqual([1]);
+    expect(sessionIds).toEqual([2]);
+  });
+});
+
+describe('resource type restrictions', () => {
+  let idCounter: number;
+  const getNextId = () => {
+    idCounter += 1;
+    return idCounter;
+  };
+
+  const createPage = (overrides: Partial<Page> = {}): Page => ({
+    id: 0,
+    name: 'Default',
+    enabled: true,
+    keepEnabled: false,
+    showHeaderComments: true,
+    filters: [],
+    headers: [createHeader()],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('applies the page resource types to the default catch-all rule', () => {
+    const rules = buildRulesFromPages(
+      [createPage({ resourceTypes: ['main_frame', 'xmlhttprequest'] })],
+      getNextId,
+    );
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].condition.resourceTypes).toEqual(['main_frame', 'xmlhttprequest']);
+  });
+
+  it('applies the page resource types to include and exclude rules', () => {
+    const rules = buildRulesFromPages(
+      [
+        createPage({
+          resourceTypes: ['script'],
+          filters: [
+            createFilter({ id: '1', value: 'https://include\\.com/.*' }),
+            createFilter({ id: '2', mode: 'url', value: '||exclude.com/', type: 'exclude' }),
+          ],
+        }),
+      ],
+      getNextId,
+    );
+
+    expect(rules).toHaveLength(2);
+    expect(rules[0].condition.resourceTypes).toEqual(['script']);
+    expect(rules[1].action.type).toBe('allow');
+    expect(rules[1].condition.resourceTypes).toEqual(['script']);
+  });
+
+  it('lets a filter override the page resource types', () => {
+    const rules = buildRulesFromPages(
+      [
+        createPage({
+          resourceTypes: ['script'],
+          filters: [
+            createFilter({ id: '1', value: 'https://a\\.com/.*', resourceTypes: ['image', 'media'] }),
+            createFilter({ id: '2', value: 'https://b\\.com/.*' }),
+          ],
+        }),
+      ],
+      getNextId,
+    );
+
+    expect(rules).toHaveLength(2);
+    expect(rules[0].condition.resourceTypes).toEqual(['image', 'media']);
+    expect(rules[1].condition.resourceTypes).toEqual(['script']);
+  });
+
+  it('falls back to every resource type when the page selection is empty', () => {
+    const rules = buildRulesFromPages([createPage({ resourceTypes: [] })], getNextId);
+
+    expect(rules[0].condition.resourceTypes).toEqual(allResourceTypes);
+  });
+});
+
+describe('combining headers into shared rules', () => {
+  let idCounter: number;
+  const getNextId = () => {
+    idCounter += 1;
+    return idCounter;
+  };
+
+  const createPage = (overrides: Partial<Page> = {}): Page => ({
+    id: 0,
+    name: 'Default',
+    enabled: true,
+    keepEnabled: false,
+    showHeaderComments: true,
+    filters: [createFilter({ id: '1', mode: 'url', value: '||example.com/' })],
+    headers: [
+      createHeader({ id: 'header-1', headerName: 'X-One', headerValue: '1' }),
+      createHeader({ id: 'header-2', headerName: 'X-Two', headerValue: '2' }),
+    ],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('puts headers with the same filters into one rule, in page order', () => {
+    const rules = buildRulesFromPages([createPage()], getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].action.requestHeaders).toEqual([
+      { header: 'X-One', operation: 'set', value: '1' },
+      { header: 'X-Two', operation: 'set', value: '2' },
+    ]);
+  });
+
+  it('combines request and response headers in one action', () => {
+    const rules = buildRulesFromPages(
+      [
+        createPage({
+          headers: [
+            createHeader({ id: 'header-1', headerName: 'X-Request' }),
+            createHeader({ id: 'header-2', headerName: 'X-Response', headerType: 'response' }),
+          ],
+        }),
+      ],
+      getNextId,
+    );
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].action.requestHeaders?.map((info) => info.header)).toEqual(['X-Request']);
+    expect(rules[0].action.responseHeaders?.map((info) => info.header)).toEqual(['X-Response']);
+  });
+
+  it('keeps a single allow rule per exclude filter', () => {
+    const rules = buildRulesFromPages(
+      [
+        createPage({
+          filters: [
+            createFilter({ id: '1', mode: 'url', value: '||example.com/' }),
+            createFilter({ id: '2', mode: 'url', value: '||example.com/health', type: 'exclude' }),
+          ],
+        }),
+      ],
+      getNextId,
+    );
+
+    expect(rules.filter((rule) => rule.action.type === 'allow')).toHaveLength(1);
+    expect(rules).toHaveLength(2);
+  });
+
+  it('keeps headers apart when their conditions differ', () => {
+    // A response header filter only applies to response headers, and a
+    // folded response header exclude only narrows their rules.
+    const rules = buildRulesFromPages(
+      [
+        createPage({
+          filters: [
+            createFilter({ id: '1', mode: 'url', value: '||example.com/' }),
+            createFilter({ id: '2', mode: 'responseHeader', value: 'X-Cached', type: 'exclude' }),
+          ],
+          headers: [
+            createHeader({ id: 'header-1', headerName: 'X-Request' }),
+            createHeader({ id: 'header-2', headerName: 'X-Response', headerType: 'response' }),
+          ],
+        }),
+      ],
+      getNextId,
+    );
+
+    expect(rules).toHaveLength(2);
+    expect(rules[0].action.requestHeaders?.[0].header).toBe('X-Request');
+    expect((rules[0].condition as RuleCondition).excludedResponseHeaders).toBeUndefined();
+    expect(rules[1].action.responseHeaders?.[0].header).toBe('X-Response');
+    expect((rules[1].condition as RuleCondition).excludedResponseHeaders).toEqual([{ header: 'x-cached' }]);
+  });
+
+  it('gives two headers with the same name their own rules', () => {
+    const rules = buildRulesFromPages(
+      [
+        createPage({
+          headers: [
+            createHeader({ id: 'header-1', headerName: 'X-Trace', headerValue: 'a', headerOperation: 'append' }),
+            createHeader({ id: 'header-2', headerName: 'x-trace', headerValue: 'b', headerOperation: 'append' }),
+            createHeader({ id: 'header-3', headerName: 'X-Other', headerValue: 'c' }),
+          ],
+        }),
+      ],
+      getNextId,
+    );
+
+    expect(rules).toHaveLength(2);
+    expect(rules[0].action.requestHeaders?.map((info) => info.header)).toEqual(['X-Trace', 'X-Other']);
+    expect(rules[1].action.requestHeaders?.map((info) => info.header)).toEqual(['x-trace']);
+  });
+
+  it('drops the duplicate rule of a filter that is listed twice', () => {
+    const rules = buildRulesFromPages(
+      [
+        createPage({
+          filters: [
+            createFilter({ id: '1', mode: 'url', value: '||example.com/' }),
+            createFilter({ id: '2', mode: 'url', value: '||example.com/' }),
+          ],
+        }),
+      ],
+      getNextId,
+    );
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].action.requestHeaders).toHaveLength(2);
+  });
+
+  it('does not combine headers from different pages', () => {
+    const rules = buildRulesFromPages(
+      [createPage(), createPage({ id: 1, pageId: 'page-b', enabled: false, keepEnabled: true })],
+      getNextId,
+    );
+
+    expect(rules).toHaveLength(2);
+  });
+});
+
+describe('page precedence', () => {
+  let idCounter: number;
+  const getNextId = () => {
+    idCounter += 1;
+    return idCounter;
+  };
+
+  const createPage = (id: number, overrides: Partial<Page> = {}): Page => ({
+    id,
+    pageId: `page-${id}`,
+    name: `Page ${id}`,
+    enabled: false,
+    keepEnabled: true,
+    showHeaderComments: true,
+    filters: [],
+    headers: [createHeader({ id: `header-${id}`, headerName: 'Authorization', headerValue: `Bearer ${id}` })],
+    ...overrides,
+  });
+
+  const priorityOf = (rules: ReturnType<typeof buildRulesFromPages>, value: string) =>
+    rules.find((rule) => rule.action.requestHeaders?.[0].value === value)?.priority;
+
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('gives the page higher up the list the higher rule priority', () => {
+    const rules = buildRulesFromPages([createPage(0), createPage(1)], getNextId);
+
+    expect(priorityOf(rules, 'Bearer 0')).toBe(6);
+    expect(priorityOf(rules, 'Bearer 1')).toBe(5);
+  });
+
+  it('lets an explicit priority override list order', () => {
+    const rules = buildRulesFromPages([createPage(0), createPage(1, { priority: 1 })], getNextId);
+
+    expect(priorityOf(rules, 'Bearer 1')).toBe(6);
+    expect(priorityOf(rules, 'Bearer 0')).toBe(5);
+  });
+
+  it('puts allow rules just above their own page\'s includes', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'url', value: '||example.com/' }),
+      createFilter({ id: '2', mode: 'url', value: '||example.com/health', type: 'exclude' }),
+    ];
+    const rules = buildRulesFromPages([createPage(0, { filters }), createPage(1, { filters })], getNextId);
+
+    expect(rules.map((rule) => [rule.action.type, rule.priority])).toEqual([
+      ['modifyHeaders', 3],
+      ['allow', 4],
+      ['modifyHeaders', 1],
+      ['allow', 2],
+    ]);
+  });
+
+  it('ranks only the applied pages, so an inactive one takes up no priority', () => {
+    const rules = buildRulesFromPages([createPage(0, { keepEnabled: false }), createPage(1)], getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].priority).toBe(3);
+  });
+
+  it('does not let one page\'s excludes affect another page\'s headers', () => {
+    const excludeFilter = createFilter({ id: '1', value: 'https://exclude\\.com/.*', type: 'exclude' });
+    const withExclude = createPage(0, {
+      filters: [excludeFilter],
+      headers: [createHeader({ id: 'header-a', headerName: 'X-A', headerValue: 'a' })],
+    });
+    const withoutExclude = createPage(1, {
+      headers: [createHeader({ id: 'header-b', headerName: 'X-B', headerValue: 'b' })],
+    });
+
+    [[withExclude, withoutExclude], [withoutExclude, withExclude]].forEach((pages) => {
+      const rules = buildRulesFromPages(pages, getNextId);
+      const allowRule = rules.find((rule) => rule.action.type === 'allow');
+
+      expect(allowRule?.condition.regexFilter).toBe('https://exclude\\.com/.*');
+      expect(priorityOf(rules, 'a')).toBeLessThan(allowRule!.priority!);
+      expect(priorityOf(rules, 'b')).toBeGreaterThan(allowRule!.priority!);
+    });
+  });
+
+  it('moves a lower page\'s header below a higher page\'s excludes only when they set the same header', () => {
+    const filters = [createFilter({ id: '1', value: 'https://exclude\\.com/.*', type: 'exclude' })];
+    const rules = buildRulesFromPages(
+      [
+        createPage(0, { filters }),
+        createPage(1, {
+          headers: [
+            createHeader({ id: 'header-1', headerName: 'Authorization', headerValue: 'Bearer 1' }),
+            createHeader({ id: 'header-2', headerName: 'X-Other', headerValue: 'other' }),
+          ],
+        }),
+      ],
+      getNextId,
+    );
+
+    expect(rules.map((rule) => [rule.action.type, rule.priority])).toEqual([
+      ['modifyHeaders', 3],
+      ['allow', 4],
+      ['modifyHeaders', 1],
+      ['modifyHeaders', 5],
+    ]);
+    expect(rules[2].action.requestHeaders?.[0].header).toBe('Authorization');
+    expect(rules[3].action.requestHeaders?.[0].header).toBe('X-Other');
+  });
+
+  it('reports a page whose excludes stop a lower page\'s entries', () => {
+    const pageA = createPage(0, {
+      filters: [createFilter({ id: 'a-1', value: '^https://example\\.com/private', type: 'exclude' })],
+      headers: [createHeader({ id: 'header-a', headerName: 'X-A', headerValue: 'a' })],
+    });
+    const pageB = createPage(1, {
+      filters: [createFilter({ id: 'b-1', value: '^https://example\\.com/public', type: 'exclude' })],
+      headers: [createHeader({ id: 'header-b', headerName: 'X-B', headerValue: 'b' })],
+    });
+
+    const clashes = getExcludeClashes(explainRulesFromPages([pageA, pageB], getNextId));
+
+    expect(clashes).toEqual([{ page: pageA, reachedPage: pageB, ownerIds: ['header-b'] }]);
+  });
+
+  it('reports no clash when only one page has excludes that need allow rules', () => {
+    const pageA = createPage(0, {
+      filters: [createFilter({ id: 'a-1', value: '^https://example\\.com/private', type: 'exclude' })],
+      headers: [createHeader({ id: 'header-a', headerName: 'X-A', headerValue: 'a' })],
+    });
+    const pageB = createPage(1, {
+      filters: [createFilter({ id: 'b-1', mode: 'domain', value: 'example.org', type: 'exclude' })],
+      headers: [createHeader({ id: 'header-b', headerName: 'X-B', headerValue: 'b' })],
+    });
+
+    expect(getExcludeClashes(explainRulesFromPages([pageA, pageB], getNextId))).toEqual([]);
+    expect(getExcludeClashes(explainRulesFromPages([pageB, pageA], getNextId))).toEqual([]);
+  });
+
+  it('applies the same precedence to session rules', () => {
+    const rules = buildSessionRulesFromPages(
+      [createPage(0, { sessionOnly: true }), createPage(1, { sessionOnly: true })],
+      getNextId,
+    );
+
+    expect(priorityOf(rules, 'Bearer 0')).toBe(6);
+    expect(priorityOf(rules, 'Bearer 1')).toBe(5);
+  });
+});
+
+describe('redirects', () => {
+  let idCounter: number;
+  const getNextId = () => {
+    idCounter += 1;
+    return idCounter;
+  };
+
+  const createPage = (overrides: Partial<Page> = {}): Page => ({
+    id: 0,
+    pageId: 'page-a',
+    name: 'Page A',
+    enabled: true,
+    keepEnabled: false,
+    showHeaderComments: true,
+    filters: [],
+    headers: [],
+    redirects: [createRedirect()],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('compiles a fixed target to a redirect URL', () => {
+    const rules = buildRulesFromPages([createPage()], getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].action).toEqual({
+      type: 'redirect',
+      redirect: { url: 'http://localhost:3000/app.js' },
+    });
+    expect(rules[0].condition.regexFilter).toBe('^https://cdn\\.example\\.com/app\\.js$');
+    expect(rules[0].condition.resourceTypes).toEqual(allResourceTypes);
+  });
+
+  it('compiles a target with capture groups to a regex substitution', () => {
+    const redirects = [
+      createRedirect({ source: '^https://cdn\\.example\\.com/(.*)$', target: 'http://localhost:3000/\\1' }),
+    ];
+    const rules = buildRulesFromPages([createPage({ redirects })], getNextId);
+
+    expect(rules[0].action.redirect).toEqual({ regexSubstitution: 'http://localhost:3000/\\1' });
+  });
+
+  it('leaves out disabled, invalid and incomplete redirects', () => {
+    const redirects = [
+      createRedirect({ id: 'redirect-1', enabled: false }),
+      createRedirect({ id: 'redirect-2', valid: false }),
+      createRedirect({ id: 'redirect-3', target: '' }),
+    ];
+
+    expect(buildRulesFromPages([createPage({ redirects })], getNextId)).toEqual([]);
+  });
+
+  it('only applies while its page is active', () => {
+    expect(buildRulesFromPages([createPage({ enabled: false })], getNextId)).toEqual([]);
+    expect(buildRulesFromPages([createPage({ paused: true })], getNextId)).toEqual([]);
+  });
+
+  it('compiles to session rules on a session-only page', () => {
+    const page = createPage({ sessionOnly: true });
+
+    expect(buildRulesFromPages([page], getNextId)).toEqual([]);
+    expect(buildSessionRulesFromPages([page], getNextId)[0].action.type).toBe('redirect');
+  });
+
+  it('matches on its source rather than the page\'s include filters', () => {
+    const filters = [createFilter({ id: '1', mode: 'url', value: '||example.com/' })];
+    const rules = buildRulesFromPages([createPage({ filters })], getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].condition.urlFilter).toBeUndefined();
+    expect(rules[0].condition.regexFilter).toBe('^https://cdn\\.example\\.com/app\\.js$');
+  });
+
+  it('is stopped by the page\'s excludes', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'domain', value: 'cdn.example.com', type: 'exclude' }),
+      createFilter({ id: '2', mode: 'url', value: '||example.com/', type: 'exclude', methods: ['post'] }),
+    ];
+    const rules = buildRulesFromPages([createPage({ filters })], getNextId);
+
+    expect(rules).toHaveLength(2);
+    expect(rules[0].condition.excludedRequestDomains).toEqual(['cdn.example.com']);
+    expect(rules[1]).toMatchObject({ priority: 2, action: { type: 'allow' } });
+  });
+
+  it('gives two redirects with the same source a rule each', () => {
+    const redirects = [
+      createRedirect({ id: 'redirect-1' }),
+      createRedirect({ id: 'redirect-2', target: 'http://localhost:4000/app.js' }),
+    ];
+    const rules = buildRulesFromPages([createPage({ redirects })], getNextId);
+
+    expect(rules.map((rule) => rule.action.redirect?.url)).toEqual([
+      'http://localhost:3000/app.js',
+      'http://localhost:4000/app.js',
+    ]);
+  });
+
+  it('takes its page\'s precedence', () => {
+    const other = createPage({ id: 1, pageId: 'page-b', enabled: false, keepEnabled: true, redirects: [] });
+
+    expect(buildRulesFromPages([other, createPage()], getNextId)[0].priority).toBe(5);
+    expect(buildRulesFromPages([other, createPage({ priority: 1 })], getNextId)[0].priority).toBe(6);
+  });
+});
+
+describe('block entries', () => {
+  let idCounter: number;
+  const getNextId = () => {
+    idCounter += 1;
+    return idCounter;
+  };
+
+  const createPage = (overrides: Partial<Page> = {}): Page => ({
+    id: 0,
+    pageId: 'page-a',
+    name: 'Page A',
+    enabled: true,
+    keepEnabled: false,
+    showHeaderComments: true,
+    filters: [],
+    headers: [],
+    blocks: [createBlock()],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('compiles to a block rule matching like a filter in the same mode', () => {
+    const rules = buildRulesFromPages([createPage()], getNextId);
+
+    expect(rules).toEqual([
+      {
+        id: 1,
+        priority: 3,
+        action: { type: 'block' },
+        condition: { urlFilter: '||analytics.example.com^', resourceTypes: allResourceTypes },
+      },
+    ]);
+  });
+
+  it('narrows to its methods and resource types', () => {
+    const blocks = [createBlock({ methods: ['post'], resourceTypes: ['ping'] })];
+    const rules = buildRulesFromPages([createPage({ blocks, resourceTypes: ['script'] })], getNextId);
+
+    expect(rules[0].condition.requestMethods).toEqual(['post']);
+    expect(rules[0].condition.resourceTypes).toEqual(['ping']);
+  });
+
+  it('falls back to the page\'s resource types', () => {
+    const rules = buildRulesFromPages([createPage({ resourceTypes: ['script'] })], getNextId);
+
+    expect(rules[0].condition.resourceTypes).toEqual(['script']);
+  });
+
+  it('leaves out disabled, invalid and empty entries', () => {
+    const blocks = [
+      createBlock({ id: 'block-1', enabled: false }),
+      createBlock({ id: 'block-2', valid: false }),
+      createBlock({ id: 'block-3', value: '' }),
+    ];
+
+    expect(buildRulesFromPages([createPage({ blocks })], getNextId)).toEqual([]);
+  });
+
+  it('only applies while its page is active', () => {
+    expect(buildRulesFromPages([createPage({ enabled: false })], getNextId)).toEqual([]);
+    expect(buildRulesFromPages([createPage({ paused: true })], getNextId)).toEqual([]);
+  });
+
+  it('is limited to its tabs on a "this tab only" page', () => {
+    const rules = buildSessionRulesFromPages([createPage()], getNextId, { tabScopes: { 'page-a': [7] } });
+
+    expect(rules[0]).toMatchObject({ action: { type: 'block' }, condition: { tabIds: [7] } });
+    expect(buildRulesFromPages([createPage()], getNextId, { tabScopes: { 'page-a': [7] } })).toEqual([]);
+  });
+
+  it('ignores the page\'s include filters but not its excludes', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'url', value: '||example.com/' }),
+      createFilter({ id: '2', mode: 'domain', value: 'partner.example.com', type: 'exclude' }),
+    ];
+    const rules = buildRulesFromPages([createPage({ filters })], getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].condition.urlFilter).toBe('||analytics.example.com^');
+    expect(rules[0].condition.excludedRequestDomains).toEqual(['partner.example.com']);
+  });
+
+  it('combines duplicate entries into one rule', () => {
+    const blocks = [createBlock({ id: 'block-1' }), createBlock({ id: 'block-2' })];
+
+    expect(buildRulesFromPages([createPage({ blocks })], getNextId)).toHaveLength(1);
+  });
+});
+
+describe('query parameters', () => {
+  let idCounter: number;
+  const getNextId = () => {
+    idCounter += 1;
+    return idCounter;
+  };
+
+  const createPage = (overrides: Partial<Page> = {}): Page => ({
+    id: 0,
+    pageId: 'page-a',
+    name: 'Page A',
+    enabled: true,
+    keepEnabled: false,
+    showHeaderComments: true,
+    filters: [],
+    headers: [],
+    queryParams: [createQueryParam()],
+    ...overrides,
+  });
+
+  const queryTransformOf = (rule: ReturnType<typeof buildRulesFromPages>[number]) =>
+    rule.action.redirect?.transform?.queryTransform;
+
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('compiles to a query transform on every URL without include filters', () => {
+    const rules = buildRulesFromPages([createPage()], getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].condition.regexFilter).toBe('|http*');
+    expect(rules[0].action).toEqual({
+      type: 'redirect',
+      redirect: { transform: { queryTransform: { addOrReplaceParams: [{ key: 'debug', value: '1' }] } } },
+    });
+  });
+
+  it('maps each operation onto the query transform', () => {
+    const queryParams = [
+      createQueryParam({ id: 'query-1', operation: 'replace', key: 'locale', value: 'fr' }),
+      createQueryParam({ id: 'query-2', operation: 'remove', key: 'utm_source', value: 'ignored' }),
+    ];
+    const rules = buildRulesFromPages([createPage({ queryParams })], getNextId);
+
+    expect(queryTransformOf(rules[0])).toEqual({
+      removeParams: ['utm_source'],
+      addOrReplaceParams: [{ key: 'locale', value: 'fr', replaceOnly: true }],
+    });
+  });
+
+  it('follows the page\'s include and exclude filters', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'url', value: '||api.example.com/' }),
+      createFilter({ id: '2', mode: 'domain', value: 'admin.example.com', type: 'exclude' }),
+    ];
+    const rules = buildRulesFromPages([createPage({ filters })], getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].condition).toMatchObject({
+      urlFilter: '||api.example.com/',
+      excludedRequestDomains: ['admin.example.com'],
+    });
+  });
+
+  it('ignores response header filters, since a redirect happens before the response', () => {
+    const filters = [
+      createFilter({ id: '1', mode: 'responseHeader', value: 'content-type: text/html' }),
+    ];
+
+    expect(buildRulesFromPages([createPage({ filters })], getNextId)).toEqual([]);
+  });
+
+  it('leaves out disabled and invalid changes', () => {
+    const queryParams = [
+      createQueryParam({ id: 'query-1', enabled: false }),
+      createQueryParam({ id: 'query-2', key: '' }),
+      createQueryParam({ id: 'query-3', value: 'a&b' }),
+    ];
+
+    expect(buildRulesFromPages([createPage({ queryParams })], getNextId)).toEqual([]);
+  });
+
+  it('gives a second change to the same parameter a rule of its own', () => {
+    const queryParams = [
+      createQueryParam({ id: 'query-1', key: 'debug', value: '1' }),
+      createQueryParam({ id: 'query-2', key: 'debug', operation: 'remove' }),
+      createQueryParam({ id: 'query-3', key: 'Debug', value: '2' }),
+    ];
+    const rules = buildRulesFromPages([createPage({ queryParams })], getNextId);
+
+    expect(rules.map(queryTransformOf)).toEqual([
+      { addOrReplaceParams: [{ key: 'debug', value: '1' }, { key: 'Debug', value: '2' }] },
+      { removeParams: ['debug'] },
+    ]);
+  });
+
+  it('keeps query transforms apart from other redirects', () => {
+    const page = createPage({
+      redirects: [createRedirect({ source: '|http*' })],
+    });
+    const rules = buildRulesFromPages([page], getNextId);
+
+    expect(rules).toHaveLength(2);
+    expect(rules.map((rule) => rule.action.redirect)).toEqual([
+      { transform: { queryTransform: { addOrReplaceParams: [{ key: 'debug', value: '1' }] } } },
+      { url: 'http://localhost:3000/app.js' },
+    ]);
+  });
+});
+
+describe('buildRulesFromPages migration regression', () => {
+  let idCounter: number;
+  const getNextId = () => {
+    idCounter += 1;
+    return idCounter;
+  };
+
+  beforeEach(() => {
+    idCounter = 0;
+  });
+
+  it('still produces rules for filters stored before the mode field existed', () => {
+    // This is the exact shape an older version of the extension would have
+    // written to storage: filters have no `mode` and headers have no `headerType`.
+    const oldStoredPage: Page = {
+      id: 0,
+      name: 'Default',
+      enabled: true,
+      keepEnabled: false,
+      showHeaderComments: true,
+      filters: [
+        {
+          id: 'filter-1',
+          enabled: true,
+          valid: true,
+          type: 'include',
+          value: 'https://example\\.com/.*',
+        } as unknown as HeaderFilter,
+      ],
+      headers: [
+        {
+          id: 'header-1',
+          headerName: 'X-Migrated',
+          headerValue: 'yes',
+          headerComment: '',
+          headerEnabled: true,
+        } as unknown as HeaderSetting,
+      ],
+    };
+
+    // background.ts calls normalizePage before building rules.
+    const normalized = normalizePage(oldStoredPage);
+    const rules = buildRulesFromPages([normalized], getNextId);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].priority).toBe(3);
     expect(rules[0].condition.regexFilter).toBe('https://example\\.com/.*');
 
     const action = rules[0].action as { type: 'modifyHeaders'; requestHeaders: Array<{ header: string; operation: string; value: string }> };
@@ -1,4 +1,4 @@
-import { PAGE_KEY_PREFIX, SETTINGS_V3_META_KEY, PAGE_TOMBSTONES_KEY, SYNC_INTERVAL, LAST_SYNC_TIME_KEY, LAST_MERGE_TIME_KEY, LOCAL_MODIFIED_TIME_KEY, SYNC_ENABLED_KEY, ERRORS_STATE_KEY, SETTINGS_SAVE_DEBOUNCE_TIME, SYNC_ITEM_BYTE_LIMIT } from "../constants";
+import { PAGE_KEY_PREFIX, SETTINGS_V3_META_KEY, PAGE_TOMBSTONES_KEY, TAB_SCOPES_KEY, SYNC_INTERVAL, LAST_SYNC_TIME_KEY, LAST_MERGE_TIME_KEY, LOCAL_MODIFIED_TIME_KEY, SYNC_ENABLED_KEY, ERRORS_STATE_KEY, SETTINGS_SAVE_DEBOUNCE_TIME, SYNC_ITEM_BYTE_LIMIT, RULE_HEALTH_CHECK_INTERVAL, RULE_HEALTH_CHECK_REQUEST_KEY, MATCH_LOG_ENABLED_KEY, MATCH_LOG_FLUSH_DELAY, MATCH_LOG_POLL_INTERVAL } from "../constants";
 import type { Page, SettingsV3Meta } from "../utils/settings";
 import { defaultPage } from "../utils/settings";
 import browser from "webextension-polyfill";
@@ -8,19 +8,39 @@ import { normalizePage } from "../utils/domain/headers";
 import { mergeSyncState, mergeTombstones, applyTombstones, synthesizeFallbackPage, pruneExpiredTombstones, type PageTombstone } from "../utils/domain/pageMerge";
 import { readPageStorage, type StoredPageSettings } from "../utils/storage/pageStorage";
 import { addStoredError, clearStoredErrors } from "../utils/storage/errors";
-
-import { buildRulesFromPages } from "./rules";
-import { setActionBadge, setActionIcon } from "./icon";
+import { clearTabScopes, getTabScopes, removeTabFromScopes, type TabScopes } from "../utils/storage/tabScopes";
+import { saveRuleUsage } from "../utils/storage/ruleUsage";
+import { getRuleHealth, saveRuleHealth, type RuleHealthState } from "../utils/storage/ruleHealth";
+import { saveRejectedRules } from "../utils/storage/rejectedRules";
+import { appendMatchLog, getMatchLog, isMatchLogEnabled, MATCH_LOG_PERMISSION, type MatchLogEntry } from "../utils/storage/matchLog";
+
+import { countResponseHeaderFilters, explainRulesFromPages, getExcludeClashes, getPageTabIds, getTabScopedPages, type ExcludeClash, type ExplainedRule, type RuleBuildOptions, type RuleSet } from "./rules";
+import { indexExplainedRules } from "./ruleInspector";
+import { createMatchLogEntry, type DnrFeedback, type MatchedRuleInfoDebug } from "./matchLog";
+import { createRuleIdAllocator, diffRules } from "./ruleIds";
+import { countRuleUsage } from "./ruleQuota";
+import { isolateRejectedEntries, recordRejectedEntries, type RejectedEntry } from "./ruleIsolation";
+import { loadRuleInputs } from "./ruleInputs";
+import { hasTabBadge, setActionBadge, setActionIcon } from "./icon";
+import { getAppliedEntries } from "./pageEntries";
 
 async function applyActionState(
   settings: StoredPageSettings | null,
+  tabScopes: TabScopes,
   force = false
 ): Promise<void> {
   const selectedPage = settings?.pages.find(
     (page) => page.id === settings.meta.selectedPage
   );
+  // A selected page in "this tab only" mode isn't applied everywhere, so it
+  // only counts towards its tabs' badges.
+  const globalPage =
+    selectedPage && getPageTabIds(selectedPage, tabScopes).length === 0
+      ? selectedPage
+      : undefined;
+  const tabPages = getTabScopedPages(settings?.pages ?? [], tabScopes);
   await Promise.all([
-    setActionBadge(selectedPage, force),
+    setActionBadge(globalPage, force, tabPages),
     setActionIcon(selectedPage?.paused ?? false, force),
   ]);
 }
@@ -28,42 +48,257 @@ async function applyActionState(
 async function restoreActionState(): Promise<void> {
   try {
     const settings = await readPageStorage(browser.storage.local);
-    await applyActionState(settings, true);
+    await applyActionState(settings, await getTabScopes(), true);
   } catch (error) {
     console.error("Error restoring extension action state", error);
   }
 }
 
-export async function getAndApplyHeaderRules() {
+/**
+ * One line per entry left out of the rules, for an error's details.
+ */
+function describeEntries(entries: { pageName: string; name: string; error?: string }[]): string {
+  return entries
+    .map((entry) => `${entry.pageName}: ${entry.name}${entry.error ? ` - ${entry.error}` : ""}`)
+    .join("\n");
+}
+
+/**
+ * One line per page whose excludes stop another page's entries.
+ */
+const describeExcludeClashes = (clashes: ExcludeClash[]): string =>
+  clashes
+    .map(({ page, reachedPage, ownerIds }) => {
+      const names = getAppliedEntries(reachedPage)
+        .filter((entry) => ownerIds.includes(entry.ownerId))
+        .map((entry) => entry.name);
+      return `${page.name} excludes stop ${reachedPage.name}: ${names.join(", ")}`;
+    })
+    .join("\n");
+
+// Serializes rule application the way runSyncSerially does for sync. Every
+// run reads the live rules and swaps out the ones that changed, so two runs
+// interleaving would each diff against the same snapshot and race on
+// updateDynamicRules (duplicate IDs, or the older run's rules landing last).
+// A run that hasn't started yet hasn't read anything either, so triggers that
+// arrive while one is waiting simply share it - a burst of changes costs at
+// most the run in flight plus one more.
+let applyQueueTail: Promise<unknown> = Promise.resolve();
+function runApplySerially<T>(fn: () => Promise<T>): Promise<T> {
+  const run = applyQueueTail.then(fn, fn);
+  applyQueueTail = run.then(() => undefined, () => undefined);
+  return run;
+}
+
+let queuedApply: Promise<void> | undefined;
+export function getAndApplyHeaderRules(): Promise<void> {
+  if (queuedApply) {
+    return queuedApply;
+  }
+  const run = runApplySerially(() => {
+    queuedApply = undefined;
+    return applyHeaderRules();
+  });
+  queuedApply = run;
+  return run;
+}
+
+/**
+ * Checks the applied rules against what the pages compile to right now, and
+ * re-applies them if they've drifted - after an extension update, a crash
+ * mid-apply or another extension touching them. Queued with the applies, so
+ * it never compares against a half-finished one.
+ */
+export function verifyAppliedRules(): Promise<RuleHealthState> {
+  return runApplySerially(checkAppliedRules);
+}
+
+/**
+ * How many applied rules are missing, extra or different from the ones the
+ * pages compile to.
+ */
+async function countDriftedRules(): Promise<number> {
+  const { options, fitted } = await loadRuleInputs();
+  const expected = compileRules(fitted.pages, options);
+  const appliedRules = (await browser.declarativeNetRequest.getDynamicRules()) ?? [];
+  const appliedSessionRules = (await browser.declarativeNetRequest.getSessionRules()) ?? [];
+
+  return [
+    diffRules(appliedRules, expected.rules),
+    diffRules(appliedSessionRules, expected.sessionRules),
+  ].reduce(
+    (count, { removeRuleIds, addRules }) =>
+      count + new Set([...removeRuleIds, ...addRules.map((rule) => rule.id)]).size,
+    0
+  );
+}
+
+async function checkAppliedRules(): Promise<RuleHealthState> {
+  const previous = await getRuleHealth();
+  let health: RuleHealthState = {
+    checkedAt: Date.now(),
+    result: "ok",
+    differingRules: 0,
+    driftCount: previous?.driftCount ?? 0,
+    lastDriftAt: previous?.lastDriftAt,
+  };
+
   try {
-    // Get existing rules
-    const oldRules = await browser.declarativeNetRequest.getDynamicRules();
-    const oldRuleIds = oldRules ? oldRules.map((rule) => rule.id) : [];
+    const differingRules = await countDriftedRules();
+    if (differingRules > 0) {
+      log(`BACKGROUND: ${differingRules} applied rule(s) drifted from the pages, re-applying`, "error");
+      await applyHeaderRules();
+      const remaining = await countDriftedRules();
+      health = {
+        ...health,
+        result: remaining === 0 ? "repaired" : "failed",
+        differingRules,
+        driftCount: health.driftCount + 1,
+        lastDriftAt: health.checkedAt,
+        error: remaining === 0
+          ? undefined
+          : `${remaining} rule(s) still differ after re-applying - see the apply errors for why.`,
+      };
+    }
+  } catch (error) {
+    console.error("Error in verifyAppliedRules", error);
+    health = {
+      ...health,
+      result: "failed",
+      error: error instanceof Error ? error.message : "Failed to check the applied rules",
+    };
+  }
 
-    let nextRuleId = 1;
-    const getUniqueRuleID = () => nextRuleId++;
+  await saveRuleHealth(health);
+  return health;
+}
 
-    const localSettings = await readPageStorage(browser.storage.local);
+/**
+ * Session-only and "this tab only" pages go in as session rules. They share
+ * the ID allocator with the dynamic rules so the two sets never reuse an ID.
+ */
+function compileRules(pages: Page[], options: RuleBuildOptions) {
+  const explained = explainRulesFromPages(pages, createRuleIdAllocator(), options);
+  const rulesOf = (ruleSet: RuleSet) =>
+    explained.filter((entry) => entry.ruleSet === ruleSet).map(({ rule }) => rule);
+  return { rules: rulesOf("dynamic"), sessionRules: rulesOf("session"), explained };
+}
+
+// Where the applied rules came from, for tracing matched requests back to
+// their pages. Rebuilt by every apply, including the one every wake starts
+// with.
+let appliedRuleOrigins = new Map<string, ExplainedRule>();
+
+async function applyHeaderRules() {
+  try {
+    // Get existing rules
+    const oldRules = (await browser.declarativeNetRequest.getDynamicRules()) ?? [];
+    const oldSessionRules = (await browser.declarativeNetRequest.getSessionRules()) ?? [];
+
+    const { localSettings, pages, tabScopes, options, quota, rejected, fitted } = await loadRuleInputs();
     if (!localSettings) {
       console.log("FlexHeader: No settings metadata found, applying empty rules");
     }
-    const pages: Page[] = localSettings?.pages ?? [];
-
     console.log(
       "%cBACKGROUND: Pages loaded",
       "color: #1976d2; font-weight: bold;"
     );
-    const headers = buildRulesFromPages(pages, getUniqueRuleID);
+    const { responseHeaderConditions } = options;
+
+    // Rule IDs are stable per page/header/filter, so only rules that
+    // actually changed are swapped out - the rest keep applying throughout.
+    let currentRules = oldRules;
+    let currentSessionRules = oldSessionRules;
+    let currentExplained: ExplainedRule[] = [];
+    const applyPages = async (pagesToApply: Page[]) => {
+      const { rules, sessionRules, explained } = compileRules(pagesToApply, options);
+
+      await browser.declarativeNetRequest.updateDynamicRules(diffRules(currentRules, rules));
+      currentRules = rules;
+      await browser.declarativeNetRequest.updateSessionRules(diffRules(currentSessionRules, sessionRules));
+      currentSessionRules = sessionRules;
+      appliedRuleOrigins = indexExplainedRules(explained);
+      currentExplained = explained;
+    };
 
-    await browser.declarativeNetRequest.updateDynamicRules({
-      removeRuleIds: oldRuleIds,
-      addRules: headers,
-    });
+    let newlyRejected: RejectedEntry[] = [];
+    let leftOut: RejectedEntry[] = [];
+    try {
+      await applyPages(fitted.pages);
+    } catch (error) {
+      // The browser rejects the whole batch over one bad rule - single out
+      // the entries responsible and apply everything else.
+      const isolated = await isolateRejectedEntries(fitted.pages, async (candidate) => {
+        try {
+          await applyPages(candidate);
+          return null;
+        } catch (candidateError) {
+          return candidateError instanceof Error ? candidateError.message : String(candidateError);
+        }
+      });
+      if (!isolated) {
+        throw error;
+      }
+      newlyRejected = isolated.rejected;
+      leftOut = isolated.leftOut;
+      log(`BACKGROUND: The browser rejected ${newlyRejected.length} entries, applied the rest`, "error");
+      // Kept on this device only - the pages (and other devices) are left
+      // alone.
+      await saveRejectedRules(recordRejectedEntries(pages, [...rejected, ...newlyRejected]));
+    }
 
-    await applyActionState(localSettings);
+    await applyActionState(localSettings, tabScopes);
+
+    await saveRuleUsage({
+      usage: countRuleUsage(currentRules, currentSessionRules),
+      quota,
+      omitted: fitted.omitted,
+    });
 
     // Clear apply errors once rules have been successfully updated
     await clearStoredErrors("apply");
+
+    if (fitted.omitted.length > 0) {
+      await addStoredError(
+        "apply",
+        `The browser's rule limit was reached - ${fitted.omitted.length} header(s) or other entries weren't applied. Remove or combine filters on the pages below, or move the entries you need most to an earlier page.`,
+        describeEntries(fitted.omitted)
+      );
+    }
+
+    if (leftOut.length > 0) {
+      await addStoredError(
+        "apply",
+        `The browser turned down ${leftOut.length} header(s) or other entries over one of its rule limits, so they aren't applied for now.`,
+        describeEntries(leftOut)
+      );
+    }
+
+    const allRejected = [...rejected, ...newlyRejected];
+    if (allRejected.length > 0) {
+      await addStoredError(
+        "apply",
+        `The browser rejected ${allRejected.length} header(s) or other entries, so they aren't applied. Edit one to try it again.`,
+        describeEntries(allRejected)
+      );
+    }
+
+    const clashes = getExcludeClashes(currentExplained);
+    if (clashes.length > 0) {
+      await addStoredError(
+        "apply",
+        "Some pages' excludes also stop other pages' headers or other entries on the URLs they match - the browser can't limit an exclude to one page. Domain, initiator and host-only URL excludes don't have this problem.",
+        describeExcludeClashes(clashes)
+      );
+    }
+
+    const ignoredFilters = responseHeaderConditions ? 0 : countResponseHeaderFilters(pages, tabScopes);
+    if (ignoredFilters > 0) {
+      await addStoredError(
+        "apply",
+        `This browser can't match on response headers (Chrome 128+ is required) - ${ignoredFilters} response header filter(s) are being ignored.`
+      );
+    }
   } catch (error) {
     console.error("Error in getAndApplyHeaderRules", error);
     const message = error instanceof Error ? error.message : "Failed to apply header rules";
@@ -258,6 +493,46 @@ async function writePagesToLocalStorage(pages: Page[], selectedPage: number, tom
   }
 }
 
+/**
+ * Pauses the active session-only pages when the browser starts. Their session
+ * rules are already gone by then, but without this the first rule apply would
+ * just recreate them from storage. lastModified is bumped like any other edit
+ * so an older synced copy can't undo the pause.
+ */
+export async function pauseSessionOnlyPages() {
+  try {
+    const localSettings = await readPageStorage(browser.storage.local);
+    if (!localSettings) {
+      return;
+    }
+
+    const now = Date.now();
+    let pausedCount = 0;
+    const pages = localSettings.pages.map((page) => {
+      if (!page.sessionOnly || page.paused || !(page.enabled || page.keepEnabled)) {
+        return page;
+      }
+      pausedCount += 1;
+      return { ...page, paused: true, lastModified: now };
+    });
+
+    if (pausedCount === 0) {
+      return;
+    }
+
+    log(`BACKGROUND: Pausing ${pausedCount} session-only page(s) after browser restart`, "info");
+    await writePagesToLocalStorage(pages, localSettings.meta.selectedPage, localSettings.tombstones);
+  } catch (error) {
+    console.error("Failed to pause session-only pages:", error);
+    const message = error instanceof Error ? error.message : "Failed to pause session-only pages";
+    await addStoredError(
+      "save",
+      message,
+      error instanceof Error ? error.stack : undefined
+    );
+  }
+}
+
 /**
  * Runs on an interval and on storage.sync.onChanged so pages/edits/deletes
  * from another browser show up without a reload. mergeSyncState guarantees
@@ -361,6 +636,108 @@ function schedulePushSoon(): void {
   }, SETTINGS_SAVE_DEBOUNCE_TIME);
 }
 
+// Matches arrive one request at a time, so they're buffered and written in
+// batches rather than with a storage round-trip each. Writes are chained so
+// a slow one can't be overtaken by the next batch.
+let pendingMatches: MatchLogEntry[] = [];
+let matchFlushHandle: ReturnType<typeof setTimeout> | undefined;
+let matchLogWrites: Promise<void> = Promise.resolve();
+function queueMatches(entries: MatchLogEntry[]): void {
+  pendingMatches.push(...entries);
+  if (matchFlushHandle !== undefined) return;
+  matchFlushHandle = setTimeout(() => {
+    matchFlushHandle = undefined;
+    const batch = pendingMatches;
+    pendingMatches = [];
+    matchLogWrites = matchLogWrites.then(() => appendMatchLog(batch));
+  }, MATCH_LOG_FLUSH_DELAY);
+}
+
+function recordDebugMatch(info: MatchedRuleInfoDebug): void {
+  const entry = createMatchLogEntry(
+    info.rule,
+    {
+      timeStamp: Date.now(),
+      tabId: info.request.tabId,
+      url: info.request.url,
+      method: info.request.method,
+      type: info.request.type,
+    },
+    appliedRuleOrigins
+  );
+  if (entry) queueMatches([entry]);
+}
+
+let lastPolledMatch = 0;
+
+/**
+ * Picks up the matches since the last poll. They don't say which URL was
+ * requested, so each is logged with its tab's current URL instead.
+ */
+async function pollMatchedRules(): Promise<void> {
+  try {
+    const dnr = browser.declarativeNetRequest as unknown as DnrFeedback;
+    const { rulesMatchedInfo } = await dnr.getMatchedRules!({ minTimeStamp: lastPolledMatch + 1 });
+    const tabUrls = new Map<number, Promise<string | undefined>>();
+    const getTabUrl = (tabId: number) => {
+      if (tabId < 0) return Promise.resolve(undefined);
+      if (!tabUrls.has(tabId)) {
+        tabUrls.set(tabId, browser.tabs.get(tabId).then((tab) => tab.url, () => undefined));
+      }
+      return tabUrls.get(tabId)!;
+    };
+
+    const entries = await Promise.all(
+      rulesMatchedInfo.map(async (info) =>
+        createMatchLogEntry(
+          info.rule,
+          { timeStamp: info.timeStamp, tabId: info.tabId, tabUrl: await getTabUrl(info.tabId) },
+          appliedRuleOrigins
+        )
+      )
+    );
+    lastPolledMatch = Math.max(lastPolledMatch, ...rulesMatchedInfo.map((info) => info.timeStamp));
+    queueMatches(entries.filter((entry): entry is MatchLogEntry => entry !== null));
+  } catch (error) {
+    console.error("Error polling matched rules", error);
+  }
+}
+
+let matchPollHandle: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * Starts or stops recording matched requests to follow the user's setting
+ * and the optional permission (which can also be revoked from the browser's
+ * own extension settings). Matches are reported as they happen where the
+ * browser allows it, and polled otherwise.
+ */
+export async function updateMatchLogRecording(): Promise<void> {
+  try {
+    const enabled =
+      (await isMatchLogEnabled()) &&
+      (await browser.permissions.contains({ permissions: [MATCH_LOG_PERMISSION] }));
+    const dnr = browser.declarativeNetRequest as unknown as DnrFeedback;
+
+    dnr.onRuleMatchedDebug?.removeListener(recordDebugMatch);
+    if (matchPollHandle !== undefined) {
+      clearInterval(matchPollHandle);
+      matchPollHandle = undefined;
+    }
+    if (!enabled) return;
+
+    if (dnr.onRuleMatchedDebug) {
+      dnr.onRuleMatchedDebug.addListener(recordDebugMatch);
+    } else if (dnr.getMatchedRules) {
+      // Don't log matches again that an earlier wake already did.
+      const [newest] = await getMatchLog();
+      lastPolledMatch = newest?.timeStamp ?? 0;
+      matchPollHandle = setInterval(pollMatchedRules, MATCH_LOG_POLL_INTERVAL);
+    }
+  } catch (error) {
+    console.error("Error updating the matched request log", error);
+  }
+}
+
 /**
  * Wires up the background service worker's listeners and kicks off the
  * initial rule application + sync. Called from the WXT background
@@ -375,6 +752,28 @@ export function initBackground() {
   browser.runtime.onStartup.addListener(restoreActionState);
   browser.windows.onCreated.addListener(restoreActionState);
 
+  // Tab ids from the last browser session are meaningless (and may even be
+  // reused), so "this tab only" pages start this one back in normal mode.
+  browser.runtime.onStartup.addListener(clearTabScopes);
+
+  // Serialized with sync so the pause can't race a pull/push writing pages.
+  browser.runtime.onStartup.addListener(() => runSyncSerially(pauseSessionOnlyPages));
+
+  // Removing a closed tab's scope re-applies the rules through the
+  // storage.local.onChanged listener below, dropping its session rules.
+  browser.tabs.onRemoved.addListener((tabId) => {
+    removeTabFromScopes(tabId).catch((error) => {
+      console.error("Failed to drop a closed tab from the tab scopes", error);
+    });
+  });
+
+  // Firefox resets a tab's own badge when it navigates - put it back.
+  browser.tabs.onUpdated.addListener((tabId, changeInfo) => {
+    if (changeInfo.status === "loading" && hasTabBadge(tabId)) {
+      restoreActionState();
+    }
+  });
+
   browser.storage.local.onChanged.addListener(function (changes) {
     // Trigger update if any settings change (v3 meta or any page_* key)
     const settingsChanged = SETTINGS_V3_META_KEY in changes ||
@@ -391,9 +790,23 @@ export function initBackground() {
       // the backstop for when this debounce timer itself doesn't survive a
       // SW suspension.
       schedulePushSoon();
+    } else if (TAB_SCOPES_KEY in changes) {
+      // Tab scopes are per-device and never synced, so they only need the
+      // rules re-applied, not a push.
+      getAndApplyHeaderRules();
+    } else if (MATCH_LOG_ENABLED_KEY in changes) {
+      updateMatchLogRecording();
+    } else if (RULE_HEALTH_CHECK_REQUEST_KEY in changes) {
+      // The settings page's "verify rules now" - the result is saved for it
+      // to pick up.
+      verifyAppliedRules();
     }
   });
 
+  browser.permissions.onAdded.addListener(updateMatchLogRecording);
+  browser.permissions.onRemoved.addListener(updateMatchLogRecording);
+  updateMatchLogRecording();
+
   // React to another signed-in browser's push immediately, rather than
   // waiting on this browser's own reload or the periodic interval.
   browser.storage.sync.onChanged.addListener(function () {
@@ -404,6 +817,10 @@ export function initBackground() {
     runSyncSerially(() => syncRemoteToLocalStorage().then(syncLocalToRemoteStorage));
   }, SYNC_INTERVAL);
 
+  // Like the sync interval, this only ticks while the worker is awake - and
+  // every wake applies the rules afresh anyway.
+  setInterval(verifyAppliedRules, RULE_HEALTH_CHECK_INTERVAL);
+
   // Pull before pushing so we never push a stale local page set over
   // what's already in sync storage.
   runSyncSerially(() => syncRemoteToLocalStorage().then(() => {
@@ -58,6 +58,8 @@ const browserMock = vi.hoisted(() => ({
   declarativeNetRequest: {
     getDynamicRules: vi.fn().mockResolvedValue([]),
     updateDynamicRules: vi.fn().mockResolvedValue(undefined),
+    getSessionRules: vi.fn().mockResolvedValue([]),
+    updateSessionRules: vi.fn().mockResolvedValue(undefined),
   },
   action: {
     setBadgeText: vi.fn().mockResolvedValue(undefined),
@@ -70,6 +72,16 @@ const browserMock = vi.hoisted(() => ({
   windows: {
     onCreated: { addListener: vi.fn(), removeListener: vi.fn() },
   },
+  tabs: {
+    get: vi.fn(),
+    onRemoved: { addListener: vi.fn(), removeListener: vi.fn() },
+    onUpdated: { addListener: vi.fn(), removeListener: vi.fn() },
+  },
+  permissions: {
+    contains: vi.fn().mockResolvedValue(false),
+    onAdded: { addListener: vi.fn(), removeListener: vi.fn() },
+    onRemoved: { addListener: vi.fn(), removeListener: vi.fn() },
+  },
 }));
 
 vi.mock('webextension-polyfill', () => ({
@@ -77,9 +89,9 @@ vi.mock('webextension-polyfill', () => ({
   ...browserMock,
 }));
 
-import { syncRemoteToLocalStorage, syncLocalToRemoteStorage, initBackground, getAndApplyHeaderRules } from './background';
+import { syncRemoteToLocalStorage, syncLocalToRemoteStorage, initBackground, getAndApplyHeaderRules, pauseSessionOnlyPages, verifyAppliedRules, updateMatchLogRecording } from './background';
 import { resetActionCache } from './icon';
-import { PAGE_KEY_PREFIX, SETTINGS_V3_META_KEY, PAGE_TOMBSTONES_KEY, SYNC_ENABLED_KEY, LAST_MERGE_TIME_KEY, SELECTED_PAGE_KEY, SETTINGS_SAVE_DEBOUNCE_TIME } from '../constants';
+import { PAGE_KEY_PREFIX, SETTINGS_V3_META_KEY, PAGE_TOMBSTONES_KEY, SYNC_ENABLED_KEY, LAST_MERGE_TIME_KEY, SELECTED_PAGE_KEY, SETTINGS_SAVE_DEBOUNCE_TIME, ERRORS_STATE_KEY, TAB_SCOPES_KEY, RULE_USAGE_KEY, REJECTED_RULES_KEY, RULE_HEALTH_KEY, RULE_HEALTH_CHECK_REQUEST_KEY, MATCH_LOG_KEY, MATCH_LOG_ENABLED_KEY, MATCH_LOG_FLUSH_DELAY, MATCH_LOG_POLL_INTERVAL } from '../constants';
 import type { PageTombstone } from '../utils/domain/pageMerge';
 
 const createPage = (
@@ -664,3 +676,689 @@ describe('getAndApplyHeaderRules icon/badge wiring', () => {
     expect(browserMock.action.setBadgeText).toHaveBeenCalledWith({ text: '' });
   });
 });
+
+describe('getAndApplyHeaderRules response header conditions', () => {
+  let localArea: MockArea;
+
+  const createResponseHeaderPage = (): Page => ({
+    ...createPage(0, 'Page A'),
+    headers: [
+      {
+        id: '0-1',
+        headerName: 'Access-Control-Allow-Origin',
+        headerValue: '*',
+        headerComment: '',
+        headerEnabled: true,
+        headerType: 'response',
+      },
+    ],
+    filters: [
+      { id: 'f-1', enabled: true, valid: true, type: 'include', mode: 'responseHeader', value: 'Vary: Origin' },
+    ],
+  });
+
+  const mockUserAgent = (userAgent: string) =>
+    vi.spyOn(window.navigator, 'userAgent', 'get').mockReturnValue(userAgent);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetActionCache();
+    localArea = createMockArea();
+    browserMock.storage.local.get.mockImplementation(localArea.get);
+    browserMock.storage.local.set.mockImplementation(localArea.set);
+    browserMock.storage.local.remove.mockImplementation(localArea.remove);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('compiles response header filters on a supporting Chrome without warning', async () => {
+    mockUserAgent('Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36');
+    seedArea(localArea, [createResponseHeaderPage()], 0);
+
+    await getAndApplyHeaderRules();
+
+    const { addRules } = browserMock.declarativeNetRequest.updateDynamicRules.mock.calls[0][0];
+    expect(addRules).toHaveLength(1);
+    expect(addRules[0].condition.responseHeaders).toEqual([{ header: 'vary', values: ['Origin'] }]);
+    expect(localArea.store[ERRORS_STATE_KEY]).toBeUndefined();
+  });
+
+  it('ignores response header filters and records a warning on older browsers', async () => {
+    mockUserAgent('Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+    seedArea(localArea, [createResponseHeaderPage()], 0);
+
+    await getAndApplyHeaderRules();
+
+    const { addRules } = browserMock.declarativeNetRequest.updateDynamicRules.mock.calls[0][0];
+    expect(addRules).toHaveLength(0);
+    const errors = localArea.store[ERRORS_STATE_KEY].errors;
+    expect(errors).toHaveLength(1);
+    expect(errors[0].category).toBe('apply');
+    expect(errors[0].message).toContain('1 response header filter(s) are being ignored');
+  });
+});
+
+describe('getAndApplyHeaderRules rule quotas', () => {
+  let localArea: MockArea;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetActionCache();
+    localArea = createMockArea();
+    browserMock.storage.local.get.mockImplementation(localArea.get);
+    browserMock.storage.local.set.mockImplementation(localArea.set);
+    browserMock.storage.local.remove.mockImplementation(localArea.remove);
+  });
+
+  afterEach(() => {
+    delete (browserMock.declarativeNetRequest as Record<string, unknown>).MAX_NUMBER_OF_DYNAMIC_RULES;
+  });
+
+  it('applies what fits, reports the headers left out and records usage', async () => {
+    Object.assign(browserMock.declarativeNetRequest, { MAX_NUMBER_OF_DYNAMIC_RULES: 1 });
+    seedArea(localArea, [createPage(0, 'Page A', 'a'), { ...createPage(1, 'Page B', 'b'), keepEnabled: true }], 0);
+
+    await getAndApplyHeaderRules();
+
+    const { addRules } = browserMock.declarativeNetRequest.updateDynamicRules.mock.calls[0][0];
+    expect(addRules).toHaveLength(1);
+    expect(addRules[0].action.requestHeaders[0].value).toBe('a');
+
+    const errors = localArea.store[ERRORS_STATE_KEY].errors;
+    expect(errors).toHaveLength(1);
+    expect(errors[0].category).toBe('apply');
+    expect(errors[0].message).toContain("1 header(s) or other entries weren't applied");
+    expect(errors[0].details).toBe('Page B: X-Test');
+
+    expect(localArea.store[RULE_USAGE_KEY]).toEqual({
+      usage: { dynamicRules: 1, dynamicRegexRules: 1, sessionRules: 0, sessionRegexRules: 0 },
+      quota: { dynamicRules: 1, dynamicRegexRules: 1000, sessionRules: 5000, sessionRegexRules: 1000 },
+      omitted: [{ pageName: 'Page B', ownerId: '1-1', name: 'X-Test' }],
+    });
+  });
+
+  it('records usage without an error when everything fits', async () => {
+    seedArea(localArea, [createPage(0, 'Page A')], 0);
+
+    await getAndApplyHeaderRules();
+
+    expect(localArea.store[ERRORS_STATE_KEY]).toBeUndefined();
+    expect(localArea.store[RULE_USAGE_KEY].usage.dynamicRules).toBe(1);
+    expect(localArea.store[RULE_USAGE_KEY].omitted).toEqual([]);
+  });
+});
+
+describe('getAndApplyHeaderRules exclude clashes', () => {
+  let localArea: MockArea;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetActionCache();
+    localArea = createMockArea();
+    browserMock.storage.local.get.mockImplementation(localArea.get);
+    browserMock.storage.local.set.mockImplementation(localArea.set);
+    browserMock.storage.local.remove.mockImplementation(localArea.remove);
+  });
+
+  const withExclude = (page: Page, value: string): Page => ({
+    ...page,
+    filters: [{ id: `${page.id}-f`, enabled: true, valid: true, type: 'exclude', mode: 'regex', value }],
+  });
+
+  it('warns when one page\'s excludes stop another page\'s headers', async () => {
+    seedArea(
+      localArea,
+      [
+        withExclude(createPage(0, 'Page A', 'a'), '^https://example\\.com/private'),
+        withExclude({ ...createPage(1, 'Page B', 'b'), keepEnabled: true }, '^https://example\\.com/public'),
+      ],
+      0
+    );
+
+    await getAndApplyHeaderRules();
+
+    const errors = localArea.store[ERRORS_STATE_KEY].errors;
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain("excludes also stop other pages' headers");
+    expect(errors[0].details).toBe('Page A excludes stop Page B: X-Test');
+  });
+});
+
+describe('getAndApplyHeaderRules rejected headers', () => {
+  let localArea: MockArea;
+
+  // Stands in for the browser's dynamic rules: a batch with a header name
+  // containing a newline is rejected as a whole, like DNR does.
+  let liveRules: any[];
+  const rejectNewlines = async ({ removeRuleIds, addRules }: { removeRuleIds: number[]; addRules: any[] }) => {
+    const bad = addRules.some((rule) =>
+      (rule.action.requestHeaders ?? []).some((info: { header: string }) => info.header.includes('\n'))
+    );
+    if (bad) throw new Error('Rule with id 1 specifies an invalid request header to be modified.');
+    liveRules = [...liveRules.filter((rule) => !removeRuleIds.includes(rule.id)), ...addRules];
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetActionCache();
+    localArea = createMockArea();
+    browserMock.storage.local.get.mockImplementation(localArea.get);
+    browserMock.storage.local.set.mockImplementation(localArea.set);
+    browserMock.storage.local.remove.mockImplementation(localArea.remove);
+    liveRules = [];
+    browserMock.declarativeNetRequest.updateDynamicRules.mockImplementation(rejectNewlines);
+    browserMock.declarativeNetRequest.getDynamicRules.mockImplementation(async () => liveRules);
+  });
+
+  afterEach(() => {
+    browserMock.declarativeNetRequest.updateDynamicRules.mockReset();
+    browserMock.declarativeNetRequest.updateDynamicRules.mockResolvedValue(undefined);
+    browserMock.declarativeNetRequest.getDynamicRules.mockReset();
+    browserMock.declarativeNetRequest.getDynamicRules.mockResolvedValue([]);
+  });
+
+  const pageWithBadHeader = (): Page => ({
+    ...createPage(0, 'Page A'),
+    headers: [
+      { id: '0-1', headerName: 'X-Good', headerValue: 'a', headerComment: '', headerEnabled: true, headerType: 'request' },
+      { id: '0-2', headerName: 'X-Bad\n', headerValue: 'b', headerComment: '', headerEnabled: true, headerType: 'request' },
+    ],
+  });
+
+  it('applies the other headers and records the rejected one on this device only', async () => {
+    seedArea(localArea, [pageWithBadHeader()], 0);
+
+    await getAndApplyHeaderRules();
+
+    expect(liveRules).toHaveLength(1);
+    expect(liveRules[0].action.requestHeaders).toEqual([
+      { header: 'X-Good', operation: 'set', value: 'a' },
+    ]);
+
+    // The synced pages are left alone, so other devices don't inherit it.
+    expect(readLocalPages(localArea)).toEqual([pageWithBadHeader()]);
+    expect(localArea.store[REJECTED_RULES_KEY]).toEqual({
+      browserVersion: navigator.userAgent,
+      pages: {
+        'page-0': {
+          '0-2': {
+            error: 'Rule with id 1 specifies an invalid request header to be modified.',
+            entry: expect.any(String),
+          },
+        },
+      },
+    });
+
+    const errors = localArea.store[ERRORS_STATE_KEY].errors;
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain('The browser rejected 1 header(s)');
+    expect(errors[0].details).toBe('Page A: X-Bad\n - Rule with id 1 specifies an invalid request header to be modified.');
+  });
+
+  it('leaves a rejected header out on the next apply and keeps reporting it', async () => {
+    seedArea(localArea, [pageWithBadHeader()], 0);
+    await getAndApplyHeaderRules();
+    browserMock.declarativeNetRequest.updateDynamicRules.mockClear();
+
+    await getAndApplyHeaderRules();
+
+    // Nothing changed, so nothing needs replacing - and nothing is rejected.
+    expect(browserMock.declarativeNetRequest.updateDynamicRules).toHaveBeenCalledTimes(1);
+    const errors = localArea.store[ERRORS_STATE_KEY].errors;
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain('The browser rejected 1 header(s)');
+  });
+
+  it('records the failure when no header is to blame', async () => {
+    browserMock.declarativeNetRequest.updateDynamicRules.mockRejectedValue(new Error('Internal error'));
+    seedArea(localArea, [pageWithBadHeader()], 0);
+
+    await getAndApplyHeaderRules();
+
+    const errors = localArea.store[ERRORS_STATE_KEY].errors;
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toBe('Internal error');
+    expect(localArea.store[REJECTED_RULES_KEY]).toBeUndefined();
+  });
+});
+
+describe('getAndApplyHeaderRules overlapping triggers', () => {
+  let localArea: MockArea;
+
+  // Stands in for the browser's dynamic rules. Updates take a tick (and wait
+  // on the gate, if one is held) so runs have a window to overlap in, and
+  // duplicate IDs are rejected like DNR does.
+  let liveRules: any[];
+  let activeUpdates: number;
+  let maxActiveUpdates: number;
+  let updateGate: Promise<void>;
+  let releaseUpdates: () => void;
+  const holdUpdates = () => {
+    updateGate = new Promise((resolve) => {
+      releaseUpdates = resolve;
+    });
+  };
+  const slowUpdate = async ({ removeRuleIds, addRules }: { removeRuleIds: number[]; addRules: any[] }) => {
+    activeUpdates++;
+    maxActiveUpdates = Math.max(maxActiveUpdates, activeUpdates);
+    await updateGate;
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    activeUpdates--;
+    const kept = liveRules.filter((rule) => !removeRuleIds.includes(rule.id));
+    if (addRules.some((rule) => kept.some((existing) => existing.id === rule.id))) {
+      throw new Error(`Rule with id ${addRules[0].id} does not have a unique ID.`);
+    }
+    liveRules = [...kept, ...addRules];
+  };
+
+  const setHeaderValue = (value: string) => {
+    seedArea(localArea, [createPage(0, 'Page A', value)], 0);
+  };
+  const appliedValue = () => liveRules[0]?.action.requestHeaders[0].value;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetActionCache();
+    localArea = createMockArea();
+    browserMock.storage.local.get.mockImplementation(localArea.get);
+    browserMock.storage.local.set.mockImplementation(localArea.set);
+    browserMock.storage.local.remove.mockImplementation(localArea.remove);
+    liveRules = [];
+    activeUpdates = 0;
+    maxActiveUpdates = 0;
+    updateGate = Promise.resolve();
+    browserMock.declarativeNetRequest.updateDynamicRules.mockImplementation(slowUpdate);
+    browserMock.declarativeNetRequest.getDynamicRules.mockImplementation(async () => liveRules);
+  });
+
+  afterEach(() => {
+    browserMock.declarativeNetRequest.updateDynamicRules.mockReset();
+    browserMock.declarativeNetRequest.updateDynamicRules.mockResolvedValue(undefined);
+    browserMock.declarativeNetRequest.getDynamicRules.mockReset();
+    browserMock.declarativeNetRequest.getDynamicRules.mockResolvedValue([]);
+  });
+
+  it('never runs two rule updates at once', async () => {
+    holdUpdates();
+    setHeaderValue('a');
+    const first = getAndApplyHeaderRules();
+    await vi.waitFor(() => expect(activeUpdates).toBe(1));
+    setHeaderValue('b');
+    const second = getAndApplyHeaderRules();
+    releaseUpdates();
+
+    await Promise.all([first, second]);
+
+    expect(maxActiveUpdates).toBe(1);
+    expect(liveRules).toHaveLength(1);
+    expect(appliedValue()).toBe('b');
+    expect(localArea.store[ERRORS_STATE_KEY]).toBeUndefined();
+  });
+
+  it('coalesces a burst that arrives mid-run into a single follow-up run', async () => {
+    holdUpdates();
+    setHeaderValue('a');
+    const first = getAndApplyHeaderRules();
+    await vi.waitFor(() => expect(activeUpdates).toBe(1));
+
+    const burst = ['b', 'c', 'd'].map((value) => {
+      setHeaderValue(value);
+      return getAndApplyHeaderRules();
+    });
+    expect(new Set(burst).size).toBe(1);
+    releaseUpdates();
+
+    await Promise.all([first, ...burst]);
+
+    expect(browserMock.declarativeNetRequest.getDynamicRules).toHaveBeenCalledTimes(2);
+    expect(browserMock.declarativeNetRequest.updateDynamicRules).toHaveBeenCalledTimes(2);
+    expect(appliedValue()).toBe('d');
+  });
+
+  it('queues the re-applies triggered by storage changes', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval'] });
+    try {
+      initBackground();
+      const onLocalChanged = (browserMock.storage.local.onChanged.addListener as any).mock.calls[0][0] as
+        (changes: Record<string, unknown>) => void;
+
+      for (const value of ['a', 'b', 'c']) {
+        setHeaderValue(value);
+        onLocalChanged({ [SETTINGS_V3_META_KEY]: { newValue: {}, oldValue: {} } });
+        onLocalChanged({ [TAB_SCOPES_KEY]: { newValue: {}, oldValue: {} } });
+        await new Promise((resolve) => setTimeout(resolve, 2));
+      }
+      await getAndApplyHeaderRules();
+
+      expect(maxActiveUpdates).toBe(1);
+      expect(appliedValue()).toBe('c');
+      expect(localArea.store[ERRORS_STATE_KEY]).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('verifyAppliedRules', () => {
+  let localArea: MockArea;
+
+  let liveRules: any[];
+  const updateLiveRules = async ({ removeRuleIds, addRules }: { removeRuleIds: number[]; addRules: any[] }) => {
+    liveRules = [...liveRules.filter((rule) => !removeRuleIds.includes(rule.id)), ...addRules];
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetActionCache();
+    localArea = createMockArea();
+    browserMock.storage.local.get.mockImplementation(localArea.get);
+    browserMock.storage.local.set.mockImplementation(localArea.set);
+    browserMock.storage.local.remove.mockImplementation(localArea.remove);
+    liveRules = [];
+    browserMock.declarativeNetRequest.updateDynamicRules.mockImplementation(updateLiveRules);
+    browserMock.declarativeNetRequest.getDynamicRules.mockImplementation(async () => liveRules);
+  });
+
+  afterEach(() => {
+    browserMock.declarativeNetRequest.updateDynamicRules.mockReset();
+    browserMock.declarativeNetRequest.updateDynamicRules.mockResolvedValue(undefined);
+    browserMock.declarativeNetRequest.getDynamicRules.mockReset();
+    browserMock.declarativeNetRequest.getDynamicRules.mockResolvedValue([]);
+  });
+
+  it('records a clean check without touching the rules when they match the pages', async () => {
+    seedArea(localArea, [createPage(0, 'Page A')], 0);
+    await getAndApplyHeaderRules();
+    browserMock.declarativeNetRequest.updateDynamicRules.mockClear();
+
+    const health = await verifyAppliedRules();
+
+    expect(health).toMatchObject({ result: 'ok', differingRules: 0, driftCount: 0 });
+    expect(localArea.store[RULE_HEALTH_KEY]).toEqual(health);
+    expect(browserMock.declarativeNetRequest.updateDynamicRules).not.toHaveBeenCalled();
+  });
+
+  it('re-applies drifted rules and counts the drift', async () => {
+    seedArea(localArea, [createPage(0, 'Page A', 'a'), { ...createPage(1, 'Page B', 'b'), keepEnabled: true }], 0);
+    await getAndApplyHeaderRules();
+    const expected = liveRules;
+    // One rule lost, one changed behind the extension's back and one foreign.
+    liveRules = [
+      { ...expected[0], action: { ...expected[0].action, requestHeaders: [] } },
+      { id: 99, priority: 1, action: { type: 'block' }, condition: { urlFilter: 'example.com' } },
+    ];
+
+    const health = await verifyAppliedRules();
+
+    expect(health).toMatchObject({ result: 'repaired', differingRules: 3, driftCount: 1 });
+    expect(health.lastDriftAt).toBe(health.checkedAt);
+    expect(liveRules).toEqual(expect.arrayContaining(expected));
+    expect(liveRules).toHaveLength(expected.length);
+
+    liveRules = [];
+    expect((await verifyAppliedRules()).driftCount).toBe(2);
+  });
+
+  it('reports drift it could not repair', async () => {
+    seedArea(localArea, [createPage(0, 'Page A')], 0);
+    browserMock.declarativeNetRequest.updateDynamicRules.mockRejectedValue(new Error('Internal error'));
+
+    const health = await verifyAppliedRules();
+
+    expect(health.result).toBe('failed');
+    expect(health.driftCount).toBe(1);
+    expect(health.error).toContain('1 rule(s) still differ');
+  });
+
+  it('runs when the settings page asks for a check', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval'] });
+    try {
+      seedArea(localArea, [createPage(0, 'Page A')], 0);
+      initBackground();
+      const onLocalChanged = (browserMock.storage.local.onChanged.addListener as any).mock.calls[0][0] as
+        (changes: Record<string, unknown>) => void;
+      // Let the startup apply land first.
+      await vi.waitFor(() => expect(liveRules).toHaveLength(1));
+
+      onLocalChanged({ [RULE_HEALTH_CHECK_REQUEST_KEY]: { newValue: Date.now() } });
+
+      await vi.waitFor(() => expect(localArea.store[RULE_HEALTH_KEY]).toBeDefined());
+      expect(localArea.store[RULE_HEALTH_KEY].result).toBe('ok');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('matched request log', () => {
+  let localArea: MockArea;
+  let liveRules: any[];
+  const dnr = browserMock.declarativeNetRequest as Record<string, unknown>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    resetActionCache();
+    localArea = createMockArea();
+    browserMock.storage.local.get.mockImplementation(localArea.get);
+    browserMock.storage.local.set.mockImplementation(localArea.set);
+    browserMock.storage.local.remove.mockImplementation(localArea.remove);
+    liveRules = [];
+    browserMock.declarativeNetRequest.updateDynamicRules.mockImplementation(async ({ addRules }: { addRules: any[] }) => {
+      liveRules = addRules;
+    });
+    seedArea(localArea, [createPage(0, 'Page A')], 0);
+    await getAndApplyHeaderRules();
+  });
+
+  afterEach(async () => {
+    browserMock.permissions.contains.mockResolvedValue(false);
+    await updateMatchLogRecording();
+    delete dnr.onRuleMatchedDebug;
+    delete dnr.getMatchedRules;
+    browserMock.declarativeNetRequest.updateDynamicRules.mockReset();
+    browserMock.declarativeNetRequest.updateDynamicRules.mockResolvedValue(undefined);
+    vi.useRealTimers();
+  });
+
+  const enable = async () => {
+    localArea.store[MATCH_LOG_ENABLED_KEY] = true;
+    browserMock.permissions.contains.mockResolvedValue(true);
+    await updateMatchLogRecording();
+  };
+
+  it('records matches as they happen, traced back to their page', async () => {
+    vi.useFakeTimers();
+    const onRuleMatchedDebug = { addListener: vi.fn(), removeListener: vi.fn() };
+    dnr.onRuleMatchedDebug = onRuleMatchedDebug;
+    await enable();
+
+    const listener = onRuleMatchedDebug.addListener.mock.calls[0][0];
+    listener({
+      rule: { ruleId: liveRules[0].id, rulesetId: '_dynamic' },
+      request: { url: 'https://example.com/api', method: 'get', type: 'xmlhttprequest', tabId: 4 },
+    });
+    await vi.advanceTimersByTimeAsync(MATCH_LOG_FLUSH_DELAY);
+
+    expect(localArea.store[MATCH_LOG_KEY]).toEqual([
+      expect.objectContaining({
+        tabId: 4,
+        url: 'https://example.com/api',
+        ruleId: liveRules[0].id,
+        pageName: 'Page A',
+        sources: ['Request header X-Test'],
+      }),
+    ]);
+  });
+
+  it('polls for matches where they aren\'t reported as they happen', async () => {
+    vi.useFakeTimers();
+    const getMatchedRules = vi.fn().mockResolvedValue({
+      rulesMatchedInfo: [{ rule: { ruleId: liveRules[0].id, rulesetId: '_dynamic' }, tabId: 4, timeStamp: 100 }],
+    });
+    dnr.getMatchedRules = getMatchedRules;
+    browserMock.tabs.get.mockResolvedValue({ id: 4, url: 'https://example.com/app' });
+    await enable();
+
+    await vi.advanceTimersByTimeAsync(MATCH_LOG_POLL_INTERVAL + MATCH_LOG_FLUSH_DELAY);
+
+    expect(getMatchedRules).toHaveBeenCalledWith({ minTimeStamp: 1 });
+    expect(localArea.store[MATCH_LOG_KEY]).toEqual([
+      expect.objectContaining({ tabId: 4, tabUrl: 'https://example.com/app', timeStamp: 100, pageName: 'Page A' }),
+    ]);
+
+    getMatchedRules.mockResolvedValue({ rulesMatchedInfo: [] });
+    await vi.advanceTimersByTimeAsync(MATCH_LOG_POLL_INTERVAL);
+    expect(getMatchedRules).toHaveBeenLastCalledWith({ minTimeStamp: 101 });
+  });
+
+  it('records nothing without the permission', async () => {
+    const onRuleMatchedDebug = { addListener: vi.fn(), removeListener: vi.fn() };
+    dnr.onRuleMatchedDebug = onRuleMatchedDebug;
+    localArea.store[MATCH_LOG_ENABLED_KEY] = true;
+
+    await updateMatchLogRecording();
+
+    expect(onRuleMatchedDebug.addListener).not.toHaveBeenCalled();
+  });
+
+  it('stops recording when it\'s turned off', async () => {
+    const onRuleMatchedDebug = { addListener: vi.fn(), removeListener: vi.fn() };
+    dnr.onRuleMatchedDebug = onRuleMatchedDebug;
+    await enable();
+
+    localArea.store[MATCH_LOG_ENABLED_KEY] = false;
+    await updateMatchLogRecording();
+
+    expect(onRuleMatchedDebug.removeListener).toHaveBeenLastCalledWith(
+      onRuleMatchedDebug.addListener.mock.calls[0][0]
+    );
+    expect(onRuleMatchedDebug.addListener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getAndApplyHeaderRules "this tab only" pages', () => {
+  let localArea: MockArea;
+
+  const scopedPage = (): Page => ({
+    ...createPage(1, 'Staging', 'staging'),
+    pageId: 'staging-page',
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetActionCache();
+    localArea = createMockArea();
+    browserMock.storage.local.get.mockImplementation(localArea.get);
+    browserMock.storage.local.set.mockImplementation(localArea.set);
+    browserMock.storage.local.remove.mockImplementation(localArea.remove);
+  });
+
+  it('compiles a tab-scoped page into session rules limited to its tab', async () => {
+    seedArea(localArea, [createPage(0, 'Page A'), scopedPage()], 0);
+    localArea.store[TAB_SCOPES_KEY] = { 'staging-page': [42] };
+
+    await getAndApplyHeaderRules();
+
+    const dynamic = browserMock.declarativeNetRequest.updateDynamicRules.mock.calls[0][0];
+    const session = browserMock.declarativeNetRequest.updateSessionRules.mock.calls[0][0];
+    expect(dynamic.addRules).toHaveLength(1);
+    expect(dynamic.addRules[0].action.requestHeaders[0].value).toBe('value');
+    expect(session.addRules).toHaveLength(1);
+    expect(session.addRules[0].action.requestHeaders[0].value).toBe('staging');
+    expect(session.addRules[0].condition.tabIds).toEqual([42]);
+    expect(session.addRules[0].id).not.toBe(dynamic.addRules[0].id);
+  });
+
+  it('replaces the previous session rules on every apply', async () => {
+    browserMock.declarativeNetRequest.getSessionRules.mockResolvedValueOnce([{ id: 7 }, { id: 8 }]);
+    seedArea(localArea, [createPage(0, 'Page A')], 0);
+
+    await getAndApplyHeaderRules();
+
+    expect(browserMock.declarativeNetRequest.updateSessionRules).toHaveBeenCalledWith({
+      removeRuleIds: [7, 8],
+      addRules: [],
+    });
+  });
+
+  it('shows the tab-scoped header count on that tab only', async () => {
+    seedArea(localArea, [createPage(0, 'Page A'), scopedPage()], 0);
+    localArea.store[TAB_SCOPES_KEY] = { 'staging-page': [42] };
+
+    await getAndApplyHeaderRules();
+
+    expect(browserMock.action.setBadgeText).toHaveBeenCalledWith({ text: '1' });
+    expect(browserMock.action.setBadgeText).toHaveBeenCalledWith({ text: '2', tabId: 42 });
+  });
+
+  it('forgets a closed tab, which re-applies the rules without it', async () => {
+    localArea.store[TAB_SCOPES_KEY] = { 'staging-page': [42, 43] };
+
+    initBackground();
+    const onTabRemoved = (browserMock.tabs.onRemoved.addListener as any).mock.calls[0][0] as
+      (tabId: number) => void;
+    onTabRemoved(42);
+    await vi.waitFor(() => expect(localArea.store[TAB_SCOPES_KEY]).toEqual({ 'staging-page': [43] }));
+  });
+});
+
+describe('session-only pages', () => {
+  let localArea: MockArea;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetActionCache();
+    localArea = createMockArea();
+    browserMock.storage.local.get.mockImplementation(localArea.get);
+    browserMock.storage.local.set.mockImplementation(localArea.set);
+    browserMock.storage.local.remove.mockImplementation(localArea.remove);
+  });
+
+  it('applies a selected session-only page as session rules', async () => {
+    seedArea(localArea, [{ ...createPage(0, 'Debug'), sessionOnly: true }], 0);
+
+    await getAndApplyHeaderRules();
+
+    expect(browserMock.declarativeNetRequest.updateDynamicRules.mock.calls[0][0].addRules).toHaveLength(0);
+    expect(browserMock.declarativeNetRequest.updateSessionRules.mock.calls[0][0].addRules).toHaveLength(1);
+  });
+
+  it('pauses active session-only pages and bumps their lastModified', async () => {
+    seedArea(localArea, [
+      { ...createPage(0, 'Debug'), sessionOnly: true, lastModified: 1 },
+      { ...createPage(1, 'Background debug'), sessionOnly: true, keepEnabled: true, lastModified: 1 },
+      { ...createPage(2, 'Inactive debug'), sessionOnly: true, lastModified: 1 },
+      { ...createPage(3, 'Normal'), keepEnabled: true, lastModified: 1 },
+    ], 0);
+
+    await pauseSessionOnlyPages();
+
+    const pages = readLocalPages(localArea);
+    expect(pages.map((page) => !!page.paused)).toEqual([true, true, false, false]);
+    expect(pages[0].lastModified).toBeGreaterThan(1);
+    expect(pages[2].lastModified).toBe(1);
+  });
+
+  it('does not write when there is nothing to pause', async () => {
+    seedArea(localArea, [createPage(0, 'Normal')], 0);
+
+    await pauseSessionOnlyPages();
+
+    expect(browserMock.storage.local.set).not.toHaveBeenCalled();
+  });
+
+  it('pauses session-only pages when the browser starts', async () => {
+    vi.useFakeTimers();
+    seedArea(localArea, [{ ...createPage(0, 'Debug'), sessionOnly: true }], 0);
+
+    initBackground();
+    const onStartupListeners = (browserMock.runtime.onStartup.addListener as any).mock.calls.map(
+      (call: any[]) => call[0]
+    ) as Array<() => Promise<void>>;
+    await Promise.all(onStartupListeners.map((listener) => listener()));
+    await vi.waitFor(() => expect(readLocalPages(localArea)[0].paused).toBe(true));
+    vi.useRealTimers();
+  });
+});
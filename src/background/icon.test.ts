@@ -72,6 +72,37 @@ describe("setActionBadge", () => {
     expect(browserMock.action.setBadgeBackgroundColor).toHaveBeenCalledWith({ color: "#282828" });
   });
 
+  it("gives tabs with tab-scoped pages their own badge counting those headers too", async () => {
+    const tabPages = new Map([[7, [createPage([createHeader(true), createHeader(true)])]]]);
+    await setActionBadge(createPage([createHeader(true)]), false, tabPages);
+    expect(browserMock.action.setBadgeText).toHaveBeenCalledWith({ text: "1" });
+    expect(browserMock.action.setBadgeText).toHaveBeenCalledWith({ text: "3", tabId: 7 });
+    expect(browserMock.action.setBadgeBackgroundColor).toHaveBeenCalledWith({ color: "#1976d2", tabId: 7 });
+  });
+
+  it("resets a tab's own badge once it has no tab-scoped pages left", async () => {
+    const tabPages = new Map([[7, [createPage([createHeader(true)])]]]);
+    await setActionBadge(undefined, false, tabPages);
+    vi.clearAllMocks();
+
+    await setActionBadge(undefined, false, new Map());
+    expect(browserMock.action.setBadgeText).toHaveBeenCalledWith({ text: null, tabId: 7 });
+  });
+
+  it("keeps updating other tabs when one tab's badge can't be set", async () => {
+    browserMock.action.setBadgeText.mockImplementation(async (details: { tabId?: number }) => {
+      if (details.tabId === 7) throw new Error("No tab with id: 7");
+    });
+    const tabPages = new Map([
+      [7, [createPage([createHeader(true)])]],
+      [8, [createPage([createHeader(true)])]],
+    ]);
+
+    await expect(setActionBadge(undefined, false, tabPages)).resolves.toBeUndefined();
+    expect(browserMock.action.setBadgeText).toHaveBeenCalledWith({ text: "1", tabId: 8 });
+    browserMock.action.setBadgeText.mockResolvedValue(undefined);
+  });
+
   it("clears the badge when paused, even with enabled headers", async () => {
     await setActionBadge(createPage([createHeader(true), createHeader(true)], true));
     expect(browserMock.action.setBadgeText).toHaveBeenCalledWith({ text: "" });
@@ -2,34 +2,96 @@ import browser from "webextension-polyfill";
 import type { Page } from "../utils/settings";
 
 const COUNT_BADGE_COLOR = "#282828";
+// Marks a tab that has pages running in "this tab only" mode.
+const TAB_BADGE_COLOR = "#1976d2";
 
 let lastBadgeText: string | undefined;
 let lastIconPath: string | undefined;
+let lastTabBadgeTexts = new Map<number, string>();
 
 /** Test-only: clears the applied-value cache so each test starts fresh. */
 export function resetActionCache(): void {
   lastBadgeText = undefined;
   lastIconPath = undefined;
+  lastTabBadgeTexts = new Map();
 }
 
+/** Whether a tab currently has its own badge from setActionBadge. */
+export function hasTabBadge(tabId: number): boolean {
+  return lastTabBadgeTexts.has(tabId);
+}
+
+const countActiveHeaders = (page: Page | undefined): number =>
+  page?.paused
+    ? 0
+    : page?.headers.filter((header) => header.headerEnabled).length ?? 0;
+
+/**
+ * Shows the selected page's active header count on the toolbar badge. Tabs
+ * with pages in "this tab only" mode (`tabPages`) get their own badge on top
+ * of that, counting those pages' headers too, in a different color.
+ */
 export async function setActionBadge(
   selectedPage: Page | undefined,
-  force = false
+  force = false,
+  tabPages: Map<number, Page[]> = new Map()
 ): Promise<void> {
-  const activeHeaderCount = selectedPage?.paused
-    ? 0
-    : selectedPage?.headers.filter((header) => header.headerEnabled).length ?? 0;
+  const activeHeaderCount = countActiveHeaders(selectedPage);
   const text = activeHeaderCount === 0 ? "" : activeHeaderCount.toString();
 
-  if (!force && text === lastBadgeText) {
-    return;
-  }
-  lastBadgeText = text;
+  if (force || text !== lastBadgeText) {
+    lastBadgeText = text;
 
-  await browser.action.setBadgeText({ text });
-  if (text !== "") {
-    await browser.action.setBadgeBackgroundColor({ color: COUNT_BADGE_COLOR });
+    await browser.action.setBadgeText({ text });
+    if (text !== "") {
+      await browser.action.setBadgeBackgroundColor({ color: COUNT_BADGE_COLOR });
+    }
   }
+
+  await setTabBadges(activeHeaderCount, tabPages, force);
+}
+
+async function setTabBadges(
+  globalHeaderCount: number,
+  tabPages: Map<number, Page[]>,
+  force: boolean
+): Promise<void> {
+  const nextTabBadgeTexts = new Map<number, string>();
+  tabPages.forEach((pages, tabId) => {
+    const count = pages.reduce(
+      (total, page) => total + countActiveHeaders(page),
+      globalHeaderCount
+    );
+    nextTabBadgeTexts.set(tabId, count.toString());
+  });
+
+  const previousTabBadgeTexts = lastTabBadgeTexts;
+  lastTabBadgeTexts = nextTabBadgeTexts;
+
+  // Each tab is updated on its own: the tab may already be closed, which
+  // rejects, and that mustn't stop the other tabs' badges from updating.
+  const updates: Promise<void>[] = [];
+  nextTabBadgeTexts.forEach((text, tabId) => {
+    if (!force && previousTabBadgeTexts.get(tabId) === text) return;
+    updates.push(
+      (async () => {
+        await browser.action.setBadgeText({ text, tabId });
+        await browser.action.setBadgeBackgroundColor({ color: TAB_BADGE_COLOR, tabId });
+      })()
+    );
+  });
+  previousTabBadgeTexts.forEach((_text, tabId) => {
+    if (nextTabBadgeTexts.has(tabId)) return;
+    // A null text falls back to the global badge for that tab.
+    updates.push(
+      (async () => {
+        await browser.action.setBadgeText({ text: null, tabId });
+        await browser.action.setBadgeBackgroundColor({ color: COUNT_BADGE_COLOR, tabId });
+      })()
+    );
+  });
+
+  await Promise.allSettled(updates);
 }
 
 const ICON_DEFAULT = "/logo128.png";
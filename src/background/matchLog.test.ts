@@ -0,0 +1,49 @@
+/**
+ * Tests for tracing matched rules back to their pages.
+ */
+
+import { explainRulesFromPages } from './rules';
+import { createRuleIdAllocator } from './ruleIds';
+import { indexExplainedRules } from './ruleInspector';
+import { createMatchLogEntry } from './matchLog';
+import type { Page } from '../utils/settings';
+
+const page: Page = {
+  id: 0,
+  pageId: 'page-a',
+  name: 'Page A',
+  enabled: true,
+  keepEnabled: false,
+  showHeaderComments: true,
+  filters: [],
+  headers: [
+    { id: 'h1', headerName: 'X-One', headerValue: '1', headerComment: '', headerEnabled: true, headerType: 'request' },
+    { id: 'h2', headerName: 'X-Two', headerValue: '2', headerComment: '', headerEnabled: true, headerType: 'response' },
+  ],
+};
+
+const origins = indexExplainedRules(explainRulesFromPages([page], createRuleIdAllocator()));
+const [ruleId] = [...origins.values()].map(({ rule }) => rule.id);
+const request = { timeStamp: 5, tabId: 3, url: 'https://example.com/' };
+
+describe('createMatchLogEntry', () => {
+  it('traces a dynamic rule back to its page and merged headers', () => {
+    expect(createMatchLogEntry({ ruleId, rulesetId: '_dynamic' }, request, origins)).toEqual({
+      ...request,
+      ruleId,
+      ruleSet: 'dynamic',
+      pageName: 'Page A',
+      sources: ['Request header X-One', 'Response header X-Two'],
+    });
+  });
+
+  it('keeps a match it can\'t trace, without a page', () => {
+    const entry = createMatchLogEntry({ ruleId, rulesetId: '_session' }, request, origins);
+
+    expect(entry).toMatchObject({ ruleSet: 'session', pageName: undefined, sources: [] });
+  });
+
+  it('ignores rules from other rule sets', () => {
+    expect(createMatchLogEntry({ ruleId: 1, rulesetId: 'static_rules' }, request, origins)).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Turns the browser's reports of which rules matched into match log entries.
+ *
+ * Reports only carry a rule's ID and rule set, so each one is traced back
+ * through the rules of the latest apply (see explainRulesFromPages) when
+ * it's recorded - an edit made later doesn't rewrite what already matched.
+ */
+
+import type { MatchLogEntry } from "../utils/storage/matchLog";
+import type { ExplainedRule, RuleSet } from "./rules";
+import { describeSource } from "./ruleInspector";
+
+/**
+ * The rule a match report is about. Rule sets other than ours (static
+ * rulesets, which we don't have) aren't logged.
+ */
+export type MatchedRule = {
+  ruleId: number;
+  rulesetId: string;
+};
+
+export type MatchedRuleInfo = {
+  rule: MatchedRule;
+  tabId: number;
+  timeStamp: number;
+};
+
+export type MatchedRuleInfoDebug = {
+  rule: MatchedRule;
+  request: {
+    url: string;
+    method: string;
+    type: string;
+    tabId: number;
+  };
+};
+
+/**
+ * The feedback half of the DNR namespace. It's only there with the
+ * declarativeNetRequestFeedback permission - and onRuleMatchedDebug only
+ * for unpacked extensions - and the polyfill's types don't have it.
+ */
+export type DnrFeedback = {
+  onRuleMatchedDebug?: {
+    addListener(listener: (info: MatchedRuleInfoDebug) => void): void;
+    removeListener(listener: (info: MatchedRuleInfoDebug) => void): void;
+  };
+  getMatchedRules?: (filter?: {
+    tabId?: number;
+    minTimeStamp?: number;
+  }) => Promise<{ rulesMatchedInfo: MatchedRuleInfo[] }>;
+};
+
+const RULESET_IDS: Record<string, RuleSet> = {
+  _dynamic: "dynamic",
+  _session: "session",
+};
+
+/**
+ * A log entry for a match of `rule`, or null when it isn't one of our
+ * dynamic or session rules. `explainedRules` is indexed as by
+ * indexExplainedRules.
+ */
+export function createMatchLogEntry(
+  rule: MatchedRule,
+  request: Omit<MatchLogEntry, "ruleId" | "ruleSet" | "pageName" | "sources">,
+  explainedRules: Map<string, ExplainedRule>
+): MatchLogEntry | null {
+  const ruleSet = RULESET_IDS[rule.rulesetId];
+  if (!ruleSet) return null;
+
+  const explained = explainedRules.get(`${ruleSet}:${rule.ruleId}`);
+  return {
+    ...request,
+    ruleId: rule.ruleId,
+    ruleSet,
+    pageName: explained?.page.name,
+    sources:
+      explained?.sources.map((source) => describeSource(explained.page, source).label) ?? [],
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * A page's entries - headers, query parameters, redirects and blocks - as
+ * the units its rules are built from, for the code that has to leave some of
+ * them out: the quota fitting (see ruleQuota) and the rejected rule
+ * isolation (see ruleIsolation).
+ */
+
+import type { Page } from "../utils/settings";
+import {
+  isBlockApplied,
+  isHeaderApplied,
+  isQueryParamApplied,
+  isRedirectApplied,
+} from "../utils/domain/headers";
+
+/**
+ * An entry that goes into the rules. `ownerId` is its rule source id (see
+ * RuleSource), `name` what the errors panel calls it.
+ */
+export type PageEntry = { ownerId: string; name: string; entry: unknown };
+
+/**
+ * What per-entry state is recorded under for a page - the same identity its
+ * rule keys use.
+ */
+export const getPageKey = (page: Page): string => page.pageId ?? `page-${page.id}`;
+
+/**
+ * A page's entries that go into the rules, headers first and each kind in
+ * page order.
+ */
+export function getAppliedEntries(page: Page): PageEntry[] {
+  return [
+    ...page.headers
+      .filter(isHeaderApplied)
+      .map((header) => ({ ownerId: header.id, name: header.headerName, entry: header })),
+    ...(page.queryParams ?? [])
+      .filter(isQueryParamApplied)
+      .map((param) => ({ ownerId: `query:${param.id}`, name: `Query parameter ${param.key}`, entry: param })),
+    ...(page.redirects ?? [])
+      .filter(isRedirectApplied)
+      .map((redirect) => ({ ownerId: `redirect:${redirect.id}`, name: `Redirect ${redirect.source}`, entry: redirect })),
+    ...(page.blocks ?? [])
+      .filter(isBlockApplied)
+      .map((block) => ({ ownerId: `block:${block.id}`, name: `Block ${block.value}`, entry: block })),
+  ];
+}
+
+/**
+ * Copies of `pages` with every entry `keep` turns down switched off.
+ */
+export function withEntries(
+  pages: Page[],
+  keep: (pageIndex: number, ownerId: string) => boolean
+): Page[] {
+  return pages.map((page, pageIndex) => ({
+    ...page,
+    headers: page.headers.map((header) =>
+      keep(pageIndex, header.id) ? header : { ...header, headerEnabled: false }
+    ),
+    queryParams: page.queryParams?.map((param) =>
+      keep(pageIndex, `query:${param.id}`) ? param : { ...param, enabled: false }
+    ),
+    redirects: page.redirects?.map((redirect) =>
+      keep(pageIndex, `redirect:${redirect.id}`) ? redirect : { ...redirect, enabled: false }
+    ),
+    blocks: page.blocks?.map((block) =>
+      keep(pageIndex, `block:${block.id}`) ? block : { ...block, enabled: false }
+    ),
+  }));
+}
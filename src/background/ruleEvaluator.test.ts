@@ -0,0 +1,328 @@
+/**
+ * Tests for the offline evaluation of compiled rules against a URL.
+ */
+
+import { explainRulesFromPages } from './rules';
+import { createRuleIdAllocator } from './ruleIds';
+import {
+  applyQueryTransform,
+  evaluateRequest,
+  matchesUrlFilter,
+  summarizeRequests,
+  type TestRequest,
+} from './ruleEvaluator';
+import type { HeaderFilter, HeaderSetting, Page } from '../utils/settings';
+
+const createHeader = (overrides: Partial<HeaderSetting> = {}): HeaderSetting => ({
+  id: 'header-1',
+  headerName: 'X-Test',
+  headerValue: 'test-value',
+  headerComment: '',
+  headerEnabled: true,
+  headerType: 'request',
+  ...overrides,
+});
+
+const createFilter = (overrides: Partial<HeaderFilter> = {}): HeaderFilter => ({
+  id: 'filter-1',
+  enabled: true,
+  valid: true,
+  type: 'include',
+  mode: 'url',
+  value: '||example.com^',
+  ...overrides,
+});
+
+const createPage = (overrides: Partial<Page> = {}): Page => ({
+  id: 0,
+  pageId: 'page-a',
+  name: 'Page A',
+  enabled: true,
+  keepEnabled: false,
+  showHeaderComments: true,
+  filters: [],
+  headers: [createHeader()],
+  ...overrides,
+});
+
+const explain = (pages: Page[], tabScopes = {}) =>
+  explainRulesFromPages(pages, createRuleIdAllocator(), { responseHeaderConditions: true, tabScopes });
+
+const evaluate = (pages: Page[], request: Partial<TestRequest> = {}) =>
+  evaluateRequest(explain(pages), {
+    url: 'https://www.example.com/path',
+    method: 'get',
+    resourceType: 'main_frame',
+    ...request,
+  });
+
+describe('matchesUrlFilter', () => {
+  it.each([
+    ['||example.com', 'https://example.com/', true],
+    ['||example.com', 'https://api.example.com/v1', true],
+    ['||example.com', 'https://notexample.com/', false],
+    ['||example.com^', 'https://example.com.evil.test/', false],
+    ['||example.com^', 'https://example.com:8080/', true],
+    ['|https://a.test/', 'https://a.test/x', true],
+    ['|https://a.test/', 'http://x.test/?r=https://a.test/', false],
+    ['.png|', 'https://a.test/logo.png', true],
+    ['.png|', 'https://a.test/logo.png?v=2', false],
+    ['/api/*/users', 'https://a.test/api/v2/users', true],
+    ['example', 'https://a.test/?q=EXAMPLE', true],
+    ['a.test/x^', 'https://a.test/x', true],
+    ['a.test/x^', 'https://a.test/xy', false],
+  ])('%s against %s is %s', (filter, url, expected) => {
+    expect(matchesUrlFilter(filter, url)).toBe(expected);
+  });
+
+  it('is case-sensitive when asked to be', () => {
+    expect(matchesUrlFilter('/Path', 'https://a.test/path', true)).toBe(false);
+  });
+});
+
+describe('applyQueryTransform', () => {
+  const url = new URL('https://a.test/?keep=1&drop=2');
+
+  it('removes, replaces and adds parameters', () => {
+    expect(
+      applyQueryTransform(url, {
+        removeParams: ['drop'],
+        addOrReplaceParams: [{ key: 'keep', value: '3' }, { key: 'new', value: '4' }],
+      })
+    ).toBe('https://a.test/?keep=3&new=4');
+  });
+
+  it('leaves the URL alone when there is nothing to change', () => {
+    expect(
+      applyQueryTransform(url, {
+        removeParams: ['missing'],
+        addOrReplaceParams: [
+          { key: 'keep', value: '1' },
+          { key: 'absent', value: 'x', replaceOnly: true },
+        ],
+      })
+    ).toBe(url.href);
+  });
+});
+
+describe('evaluateRequest', () => {
+  it('reports the headers an include filter applies, and the filter that matched', () => {
+    const [step] = evaluate([createPage({ filters: [createFilter()] })]);
+
+    expect(step.outcome).toBe('modified');
+    expect(step.headers).toEqual([
+      {
+        pageName: 'Page A',
+        ruleSet: 'dynamic',
+        headerType: 'request',
+        headerName: 'X-Test',
+        operation: 'set',
+        value: 'test-value',
+        filter: 'Include URL: ||example.com^',
+        status: 'applied',
+        dependsOnResponse: false,
+      },
+    ]);
+  });
+
+  it('leaves URLs the include filters do not match alone', () => {
+    const [step] = evaluate([createPage({ filters: [createFilter()] })], {
+      url: 'https://other.test/',
+    });
+
+    expect(step).toEqual({ url: 'https://other.test/', outcome: 'untouched', headers: [] });
+  });
+
+  it('respects the filter methods and resource types', () => {
+    const page = createPage({
+      filters: [createFilter({ methods: ['post'], resourceTypes: ['xmlhttprequest'] })],
+    });
+
+    expect(evaluate([page])[0].outcome).toBe('untouched');
+    expect(evaluate([page], { method: 'post', resourceType: 'xmlhttprequest' })[0].outcome).toBe(
+      'modified'
+    );
+  });
+
+  it('marks headers an exclude stops, naming the exclude', () => {
+    const page = createPage({
+      filters: [
+        createFilter(),
+        createFilter({ id: 'filter-2', type: 'exclude', mode: 'regex', value: '/path$' }),
+      ],
+    });
+
+    const [step] = evaluate([page]);
+
+    expect(step.outcome).toBe('untouched');
+    expect(step.allowedBy).toEqual({
+      pageName: 'Page A',
+      label: 'Request header X-Test',
+      filter: 'Exclude regex: /path$',
+    });
+    expect(step.headers[0]).toMatchObject({
+      status: 'excluded',
+      reason: 'Page A: Exclude regex: /path$',
+    });
+  });
+
+  it('treats a folded initiator exclude as matching only requests with that initiator', () => {
+    const page = createPage({
+      filters: [createFilter({ id: 'filter-2', type: 'exclude', mode: 'initiator', value: 'app.test' })],
+    });
+
+    expect(evaluate([page])[0].outcome).toBe('modified');
+    expect(evaluate([page], { initiator: 'https://app.test' })[0].outcome).toBe('untouched');
+  });
+
+  it('lets the higher page win a header both pages set', () => {
+    const pages = [
+      createPage({ headers: [createHeader({ headerValue: 'from-a' })] }),
+      createPage({
+        id: 1,
+        pageId: 'page-b',
+        name: 'Page B',
+        keepEnabled: true,
+        headers: [createHeader({ id: 'header-2', headerValue: 'from-b' })],
+      }),
+    ];
+
+    const [step] = evaluate(pages);
+
+    expect(step.headers.map(({ pageName, value, status, reason }) => [pageName, value, status, reason])).toEqual([
+      ['Page A', 'from-a', 'applied', undefined],
+      ['Page B', 'from-b', 'overridden', 'Page A'],
+    ]);
+  });
+
+  it('flags headers whose rule depends on the response', () => {
+    const page = createPage({
+      filters: [createFilter({ mode: 'responseHeader', value: 'Content-Type: text/html*' })],
+      headers: [createHeader({ headerType: 'response' })],
+    });
+
+    const [step] = evaluate([page]);
+
+    expect(step.headers[0]).toMatchObject({ status: 'applied', dependsOnResponse: true });
+  });
+
+  it('follows a query parameter redirect, then reports the headers', () => {
+    const page = createPage({
+      filters: [createFilter()],
+      queryParams: [{ id: 'q1', enabled: true, operation: 'add', key: 'debug', value: '1' }],
+    });
+
+    const steps = evaluate([page]);
+
+    expect(steps.map(({ url, outcome }) => [url, outcome])).toEqual([
+      ['https://www.example.com/path', 'redirected'],
+      ['https://www.example.com/path?debug=1', 'modified'],
+    ]);
+    expect(steps[0].decidedBy).toEqual({
+      pageName: 'Page A',
+      label: 'Query parameter add: debug',
+      filter: 'Include URL: ||example.com^',
+    });
+  });
+
+  it('fills in capture groups for a substitution redirect', () => {
+    const page = createPage({
+      headers: [],
+      redirects: [
+        {
+          id: 'r1',
+          enabled: true,
+          valid: true,
+          source: '^https://www\\.example\\.com/(.*)',
+          target: 'https://staging.test/\\1',
+          comment: '',
+        },
+      ],
+    });
+
+    const [step] = evaluate([page]);
+
+    expect(step.outcome).toBe('redirected');
+    expect(step.redirectUrl).toBe('https://staging.test/path');
+  });
+
+  it('reports a block', () => {
+    const page = createPage({
+      blocks: [{ id: 'b1', enabled: true, valid: true, mode: 'domain', value: 'example.com' }],
+    });
+
+    const [step] = evaluate([page]);
+
+    expect(step.outcome).toBe('blocked');
+    expect(step.decidedBy?.label).toBe('Block example.com');
+    expect(step.headers).toEqual([]);
+  });
+
+  it('returns no steps for something that is not a URL', () => {
+    expect(evaluate([createPage()], { url: 'http://' })).toEqual([]);
+  });
+
+  it('reads a URL without a scheme as https', () => {
+    expect(evaluate([createPage()], { url: 'example.com/a' })[0].url).toBe('https://example.com/a');
+  });
+});
+
+describe('summarizeRequests', () => {
+  const summarize = (pages: Page[], tabScopes = {}, tabId?: number) =>
+    summarizeRequests(explain(pages, tabScopes), {
+      url: 'https://www.example.com/path',
+      method: 'get',
+      tabId,
+    });
+
+  it('counts headers that apply to any resource type, once', () => {
+    const page = createPage({
+      filters: [createFilter({ resourceTypes: ['xmlhttprequest'] })],
+      headers: [createHeader(), createHeader({ id: 'header-2', headerName: 'X-Gone', headerOperation: 'remove' })],
+    });
+
+    const summary = summarize([page]);
+
+    expect(summary?.applied.map(({ headerName, operation }) => [headerName, operation])).toEqual([
+      ['X-Test', 'set'],
+      ['X-Gone', 'remove'],
+    ]);
+  });
+
+  it('lists the excludes that match the URL', () => {
+    const page = createPage({
+      filters: [createFilter({ id: 'filter-2', type: 'exclude', mode: 'url', value: '/path' })],
+    });
+
+    const summary = summarize([page]);
+
+    expect(summary?.applied).toEqual([]);
+    expect(summary?.excludedBy).toEqual([
+      { pageName: 'Page A', label: 'Request header X-Test', filter: 'Exclude URL: /path' },
+    ]);
+  });
+
+  it("only counts a \"this tab only\" page in its own tabs", () => {
+    const pages = [createPage({ enabled: false })];
+
+    expect(summarize(pages, { 'page-a': [7] }, 7)?.applied).toHaveLength(1);
+    expect(summarize(pages, { 'page-a': [7] }, 8)?.applied).toEqual([]);
+  });
+
+  it('reports blocks and redirects', () => {
+    const page = createPage({
+      headers: [],
+      blocks: [{ id: 'b1', enabled: true, valid: true, mode: 'url', value: '/path', resourceTypes: ['script'] }],
+      redirects: [
+        { id: 'r1', enabled: true, valid: true, source: '^https://www\\.example', target: 'https://a.test/', comment: '' },
+      ],
+    });
+
+    const summary = summarize([page]);
+
+    expect(summary?.blockedBy.map(({ label }) => label)).toEqual(['Block /path']);
+    expect(summary?.redirectedBy.map(({ label }) => label)).toEqual([
+      'Redirect ^https://www\\.example → https://a.test/',
+    ]);
+  });
+});
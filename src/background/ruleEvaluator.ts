@@ -0,0 +1,479 @@
+/**
+ * Works out offline what the compiled rules would do to a request - which
+ * headers get set or removed, and whether it's redirected or blocked -
+ * without asking the browser. Used by the settings page's URL tester, which
+ * also runs in dev:web mode where there's no declarativeNetRequest at all.
+ *
+ * It evaluates the rules explainRulesFromPages produces rather than the
+ * pages themselves, so filters, excludes and page precedence behave exactly
+ * as they do once applied. DNR's matching is reproduced as documented:
+ * urlFilter's `||`, `|`, `^` and `*`, regex filters (with JavaScript's
+ * engine, which agrees with RE2 on what isRegexSupported accepts), domain,
+ * method and resource type conditions, priorities with the action order for
+ * ties, and how allow rules and higher-priority header changes win.
+ */
+
+import type browser from "webextension-polyfill";
+import type { RequestMethod, ResourceType } from "../utils/settings";
+import { resourceTypeSchema } from "../utils/domain/schemas";
+import type { ExplainedRule, RuleCondition, RuleSet, RuleSource } from "./rules";
+import { describeSource } from "./ruleInspector";
+
+type QueryTransform = NonNullable<
+  NonNullable<browser.DeclarativeNetRequest.RuleActionRedirectType["transform"]>["queryTransform"]
+>;
+
+/**
+ * The request to test. Without an initiator it's treated like a URL typed
+ * into the address bar, which DNR gives no initiator either. Without a tab
+ * ID, "this tab only" pages are treated as applying.
+ */
+export type TestRequest = {
+  url: string;
+  method: RequestMethod;
+  resourceType: ResourceType;
+  initiator?: string;
+  tabId?: number;
+};
+
+/**
+ * A header one matching rule would change. "overridden" means a
+ * higher-priority rule already set or removed the same header, "excluded"
+ * that an exclude's allow rule outranks it.
+ */
+export type HeaderEffect = {
+  pageName: string;
+  ruleSet: RuleSet;
+  headerType: "request" | "response";
+  headerName: string;
+  operation: "set" | "append" | "remove";
+  value?: string;
+  filter: string;
+  status: "applied" | "overridden" | "excluded";
+  // The page that wins the header, or the exclude that stops it
+  reason?: string;
+  // The rule also has response header conditions, which can't be known
+  // until there's a response
+  dependsOnResponse: boolean;
+};
+
+/**
+ * The page entry and filter a redirect, block or allow rule came from.
+ */
+export type DecidingRule = {
+  pageName: string;
+  label: string;
+  filter: string;
+};
+
+/**
+ * What happens to one request. A redirect starts a new request to the
+ * target, which is evaluated as the next step.
+ */
+export type EvaluationStep = {
+  url: string;
+  outcome: "modified" | "untouched" | "redirected" | "blocked";
+  redirectUrl?: string;
+  decidedBy?: DecidingRule;
+  // The highest exclude that matched, stopping lower-priority rules
+  allowedBy?: DecidingRule;
+  headers: HeaderEffect[];
+};
+
+type ConditionMatch = "match" | "noMatch" | "dependsOnResponse";
+
+// The browser gives up on redirect chains well before this - it's just
+// here so a loop doesn't hang the tester.
+const MAX_REDIRECTS = 10;
+
+// DNR's order for rules of the same priority.
+const ACTION_RANK: Record<string, number> = {
+  allow: 0,
+  allowAllRequests: 1,
+  block: 2,
+  upgradeScheme: 3,
+  redirect: 4,
+  modifyHeaders: 5,
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.+?${}()|[\]\\/]/g, "\\$&");
+
+/**
+ * Translates a DNR urlFilter into the regular expression it stands for:
+ * `||` anchors to the host or any of its subdomains, `|` to the start or
+ * end of the URL, `*` is any run of characters and `^` a separator -
+ * anything but a letter, digit or `_ - . %`, or the end of the URL.
+ */
+export function urlFilterToRegExp(urlFilter: string, caseSensitive = false): RegExp {
+  let pattern = urlFilter;
+  let prefix = "";
+  let suffix = "";
+
+  if (pattern.startsWith("||")) {
+    pattern = pattern.slice(2);
+    prefix = "^[a-z][a-z0-9+.-]*:(?://)?(?:[^/?#@]*@)?(?:[^/?#]*\\.)?";
+  } else if (pattern.startsWith("|")) {
+    pattern = pattern.slice(1);
+    prefix = "^";
+  }
+  if (pattern.endsWith("|")) {
+    pattern = pattern.slice(0, -1);
+    suffix = "$";
+  }
+
+  const body = [...pattern]
+    .map((char) =>
+      char === "*" ? ".*" : char === "^" ? "(?:[^A-Za-z0-9_.%-]|$)" : escapeRegExp(char)
+    )
+    .join("");
+
+  return new RegExp(prefix + body + suffix, caseSensitive ? "" : "i");
+}
+
+/**
+ * Whether a URL matches a DNR urlFilter - see urlFilterToRegExp.
+ */
+export function matchesUrlFilter(urlFilter: string, url: string, caseSensitive = false): boolean {
+  return urlFilterToRegExp(urlFilter, caseSensitive).test(url);
+}
+
+function toRegExp(regexFilter: string, caseSensitive = false): RegExp | null {
+  try {
+    return new RegExp(regexFilter, caseSensitive ? "" : "i");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A host matches a domain condition when it's the domain or one of its
+ * subdomains.
+ */
+function matchesDomain(host: string, domains: string[]): boolean {
+  return domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+/**
+ * Reads a URL as the tester expects it, adding https:// when there's no
+ * scheme. Null when it still isn't a URL.
+ */
+export function parseTestUrl(value: string): URL | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a rule's condition matches the request. Conditions on the
+ * response's headers can't be checked yet, so a rule that otherwise matches
+ * but has them "depends on the response". tabIds are only checked for a
+ * request from a known tab.
+ */
+function matchCondition(condition: RuleCondition, request: TestRequest, url: URL): ConditionMatch {
+  const caseSensitive = condition.isUrlFilterCaseSensitive ?? false;
+  const initiatorHost = request.initiator ? parseTestUrl(request.initiator)?.hostname : undefined;
+
+  if (condition.urlFilter !== undefined && !matchesUrlFilter(condition.urlFilter, url.href, caseSensitive)) {
+    return "noMatch";
+  }
+  if (condition.regexFilter !== undefined && !toRegExp(condition.regexFilter, caseSensitive)?.test(url.href)) {
+    return "noMatch";
+  }
+  if (condition.requestDomains && !matchesDomain(url.hostname, condition.requestDomains)) {
+    return "noMatch";
+  }
+  if (condition.excludedRequestDomains && matchesDomain(url.hostname, condition.excludedRequestDomains)) {
+    return "noMatch";
+  }
+  if (
+    condition.initiatorDomains &&
+    (!initiatorHost || !matchesDomain(initiatorHost, condition.initiatorDomains))
+  ) {
+    return "noMatch";
+  }
+  if (
+    condition.excludedInitiatorDomains &&
+    initiatorHost &&
+    matchesDomain(initiatorHost, condition.excludedInitiatorDomains)
+  ) {
+    return "noMatch";
+  }
+  if (condition.requestMethods && !condition.requestMethods.includes(request.method)) {
+    return "noMatch";
+  }
+  if (condition.excludedRequestMethods?.includes(request.method)) {
+    return "noMatch";
+  }
+  if (condition.resourceTypes && !condition.resourceTypes.includes(request.resourceType)) {
+    return "noMatch";
+  }
+  if (condition.excludedResourceTypes?.includes(request.resourceType)) {
+    return "noMatch";
+  }
+  if (request.tabId !== undefined && condition.tabIds && !condition.tabIds.includes(request.tabId)) {
+    return "noMatch";
+  }
+  if (request.tabId !== undefined && condition.excludedTabIds?.includes(request.tabId)) {
+    return "noMatch";
+  }
+  return condition.responseHeaders?.length || condition.excludedResponseHeaders?.length
+    ? "dependsOnResponse"
+    : "match";
+}
+
+/**
+ * Applies a queryTransform the way the browser does: removed parameters go
+ * entirely, and added ones replace an existing value or are appended unless
+ * they're replace-only. Returns the URL unchanged when there's nothing to
+ * do, which the browser doesn't redirect for.
+ */
+export function applyQueryTransform(url: URL, transform: QueryTransform): string {
+  const params = new URLSearchParams(url.search);
+  let changed = false;
+
+  transform.removeParams?.forEach((key) => {
+    if (params.has(key)) {
+      params.delete(key);
+      changed = true;
+    }
+  });
+  transform.addOrReplaceParams?.forEach(({ key, value, replaceOnly }) => {
+    const values = params.getAll(key);
+    if (values.length > 0) {
+      if (values.length > 1 || values[0] !== value) {
+        params.set(key, value);
+        changed = true;
+      }
+    } else if (!replaceOnly) {
+      params.append(key, value);
+      changed = true;
+    }
+  });
+
+  if (!changed) return url.href;
+  const redirected = new URL(url.href);
+  redirected.search = params.toString();
+  return redirected.href;
+}
+
+/**
+ * Where a redirect rule sends the request: a fixed URL, the first match of
+ * its regex replaced with the substitution (`\0` to `\9` filled in), or the
+ * URL with its query transformed.
+ */
+function getRedirectUrl(rule: browser.DeclarativeNetRequest.Rule, url: URL): string | null {
+  const redirect = rule.action.redirect;
+  if (!redirect) return null;
+  if (redirect.url) return redirect.url;
+
+  if (redirect.regexSubstitution !== undefined && rule.condition.regexFilter !== undefined) {
+    const match = toRegExp(rule.condition.regexFilter, rule.condition.isUrlFilterCaseSensitive)?.exec(url.href);
+    if (!match) return null;
+    const substituted = redirect.regexSubstitution.replace(
+      /\\([0-9])/g,
+      (_, group: string) => match[Number(group)] ?? ""
+    );
+    return url.href.slice(0, match.index) + substituted + url.href.slice(match.index + match[0].length);
+  }
+
+  if (redirect.transform?.queryTransform) {
+    return applyQueryTransform(url, redirect.transform.queryTransform);
+  }
+  return null;
+}
+
+function describeDecidingRule({ page, sources }: ExplainedRule): DecidingRule {
+  const source = describeSource(page, sources[0] ?? { ownerId: "" });
+  return { pageName: page.name, label: source.label, filter: source.filter };
+}
+
+/**
+ * The header changes a modifyHeaders rule carries, one per header merged
+ * into it, described from the page's own header entries.
+ */
+function listHeaderChanges(
+  { page, sources, ruleSet }: ExplainedRule,
+  dependsOnResponse: boolean
+): HeaderEffect[] {
+  return sources.flatMap((source: RuleSource) => {
+    const header = page.headers.find((candidate) => candidate.id === source.ownerId);
+    if (!header) return [];
+    const operation = header.headerOperation ?? "set";
+    return [
+      {
+        pageName: page.name,
+        ruleSet,
+        headerType: header.headerType === "response" ? "response" : "request",
+        headerName: header.headerName,
+        operation,
+        ...(operation === "remove" ? {} : { value: header.headerValue }),
+        filter: describeSource(page, source).filter,
+        status: "applied",
+        dependsOnResponse,
+      } satisfies HeaderEffect,
+    ];
+  });
+}
+
+const byPriority = (a: ExplainedRule, b: ExplainedRule): number =>
+  (b.rule.priority ?? 1) - (a.rule.priority ?? 1) ||
+  ACTION_RANK[a.rule.action.type] - ACTION_RANK[b.rule.action.type];
+
+/**
+ * Evaluates a single request (no redirects followed).
+ */
+function evaluateStep(explained: ExplainedRule[], request: TestRequest, url: URL): EvaluationStep {
+  const matches = explained
+    .map((entry) => ({ entry, match: matchCondition(entry.rule.condition, request, url) }))
+    .filter(({ match }) => match !== "noMatch");
+  const certain = matches
+    .filter(({ match }) => match === "match")
+    .map(({ entry }) => entry)
+    .sort(byPriority);
+
+  // The highest allow, block or redirect decides what happens to the
+  // request. A redirect that wouldn't change the URL isn't followed, so the
+  // next rule down gets its turn.
+  let allow: ExplainedRule | undefined;
+  for (const entry of certain) {
+    const type = entry.rule.action.type;
+    if (type === "modifyHeaders") continue;
+    if (type === "allow" || type === "allowAllRequests") {
+      allow = entry;
+      break;
+    }
+    if (type === "block") {
+      return { url: url.href, outcome: "blocked", decidedBy: describeDecidingRule(entry), headers: [] };
+    }
+    if (type === "redirect") {
+      const redirectUrl = getRedirectUrl(entry.rule, url);
+      if (redirectUrl && redirectUrl !== url.href) {
+        return {
+          url: url.href,
+          outcome: "redirected",
+          redirectUrl,
+          decidedBy: describeDecidingRule(entry),
+          headers: [],
+        };
+      }
+    }
+  }
+
+  // Header changes apply above the highest matching allow rule. An allow
+  // rule that depends on the response may or may not stop the ones below it.
+  const allowPriority = allow ? allow.rule.priority ?? 1 : 0;
+  const conditionalAllowPriority = Math.max(
+    0,
+    ...matches
+      .filter(({ entry, match }) => match === "dependsOnResponse" && entry.rule.action.type === "allow")
+      .map(({ entry }) => entry.rule.priority ?? 1)
+  );
+  const allowedBy = allow ? describeDecidingRule(allow) : undefined;
+
+  // Higher priorities first; a header that's been set or removed can't be
+  // changed again, one that's been appended to can only be appended to.
+  const claimed = new Map<string, HeaderEffect["operation"]>();
+  const claimedByPage = new Map<string, string>();
+  const headers = matches
+    .filter(({ entry }) => entry.rule.action.type === "modifyHeaders")
+    .sort((a, b) => byPriority(a.entry, b.entry))
+    .flatMap(({ entry, match }) => {
+      const priority = entry.rule.priority ?? 1;
+      const dependsOnResponse = match === "dependsOnResponse" || priority < conditionalAllowPriority;
+
+      return listHeaderChanges(entry, dependsOnResponse).map((effect): HeaderEffect => {
+        if (priority <= allowPriority) {
+          return {
+            ...effect,
+            status: "excluded",
+            reason: `${allowedBy?.pageName}: ${allowedBy?.filter}`,
+          };
+        }
+        const key = `${effect.headerType}:${effect.headerName.toLowerCase()}`;
+        const claimedBy = claimed.get(key);
+        if (claimedBy && !(claimedBy === "append" && effect.operation === "append")) {
+          return { ...effect, status: "overridden", reason: claimedByPage.get(key) };
+        }
+        if (!dependsOnResponse && !claimedBy) {
+          claimed.set(key, effect.operation);
+          claimedByPage.set(key, effect.pageName);
+        }
+        return effect;
+      });
+    });
+
+  return {
+    url: url.href,
+    outcome: headers.some(({ status }) => status === "applied") ? "modified" : "untouched",
+    ...(allowedBy ? { allowedBy } : {}),
+    headers,
+  };
+}
+
+/**
+ * Evaluates a request against the compiled rules, following redirects to
+ * where the request finally ends up.
+ */
+export function evaluateRequest(explained: ExplainedRule[], request: TestRequest): EvaluationStep[] {
+  const steps: EvaluationStep[] = [];
+  let url = parseTestUrl(request.url);
+
+  while (url && steps.length <= MAX_REDIRECTS) {
+    const step = evaluateStep(explained, request, url);
+    steps.push(step);
+    if (step.outcome !== "redirected" || !step.redirectUrl) break;
+    if (steps.some((earlier) => earlier.url === step.redirectUrl)) break;
+    url = parseTestUrl(step.redirectUrl);
+  }
+  return steps;
+}
+
+
+/**
+ * What the rules do to a URL across every resource type - for the popup's
+ * summary of its tab, where the page itself and what it loads all count.
+ * Redirects aren't followed: it's about the URL itself.
+ */
+export type RequestSummary = {
+  // Header changes that apply to at least one resource type
+  applied: HeaderEffect[];
+  // Excludes that matched, for at least one resource type
+  excludedBy: DecidingRule[];
+  redirectedBy: DecidingRule[];
+  blockedBy: DecidingRule[];
+};
+
+/**
+ * Summarizes what the rules do to requests for a URL, whatever their
+ * resource type. Null when it isn't a URL.
+ */
+export function summarizeRequests(
+  explained: ExplainedRule[],
+  request: Omit<TestRequest, "resourceType">
+): RequestSummary | null {
+  const url = parseTestUrl(request.url);
+  if (!url) return null;
+
+  const steps = resourceTypeSchema.options.map((resourceType) =>
+    evaluateStep(explained, { ...request, resourceType }, url)
+  );
+  const unique = <T>(items: T[]): T[] => {
+    const byKey = new Map(items.map((item) => [JSON.stringify(item), item]));
+    return [...byKey.values()];
+  };
+  const decidedBy = (outcome: EvaluationStep["outcome"]) =>
+    unique(steps.flatMap((step) => (step.outcome === outcome && step.decidedBy ? [step.decidedBy] : [])));
+
+  return {
+    applied: unique(
+      steps.flatMap((step) => step.headers.filter(({ status }) => status === "applied"))
+    ),
+    excludedBy: unique(steps.flatMap((step) => (step.allowedBy ? [step.allowedBy] : []))),
+    redirectedBy: decidedBy("redirected"),
+    blockedBy: decidedBy("blocked"),
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Tests for stable rule IDs and incremental rule diffing.
+ *
+ * An edit to one header/filter should only swap out the rules it affects -
+ * everything else keeps its ID and stays applied.
+ */
+
+import { buildRulesFromPages, buildSessionRulesFromPages } from './rules';
+import { createRuleIdAllocator, diffRules } from './ruleIds';
+import type { HeaderFilter, HeaderSetting, Page } from '../utils/settings';
+
+const createHeader = (overrides: Partial<HeaderSetting> = {}): HeaderSetting => ({
+  id: 'header-1',
+  headerName: 'X-Test',
+  headerValue: 'test-value',
+  headerComment: '',
+  headerEnabled: true,
+  headerType: 'request',
+  ...overrides,
+});
+
+const createFilter = (overrides: Partial<HeaderFilter> = {}): HeaderFilter => ({
+  id: 'filter-1',
+  enabled: true,
+  valid: true,
+  type: 'include',
+  mode: 'url',
+  value: '||example.com/',
+  ...overrides,
+});
+
+const createPage = (overrides: Partial<Page> = {}): Page => ({
+  id: 0,
+  pageId: 'page-a',
+  name: 'Default',
+  enabled: true,
+  keepEnabled: false,
+  showHeaderComments: true,
+  filters: [
+    createFilter({ id: 'include-a', value: '||a.example.com/' }),
+    createFilter({ id: 'include-b', value: '||b.example.com/' }),
+    createFilter({ id: 'exclude-c', value: '||c.example.com/', type: 'exclude' }),
+  ],
+  headers: [
+    createHeader({ id: 'header-1', headerName: 'X-One' }),
+    createHeader({ id: 'header-2', headerName: 'X-Two' }),
+  ],
+  ...overrides,
+});
+
+const build = (pages: Page[]) => buildRulesFromPages(pages, createRuleIdAllocator());
+
+describe('createRuleIdAllocator', () => {
+  it('gives the same key the same ID across allocators', () => {
+    const first = createRuleIdAllocator();
+    const second = createRuleIdAllocator();
+
+    expect(first('dynamic:page-a:header-1/filter-1')).toBe(second('dynamic:page-a:header-1/filter-1'));
+  });
+
+  it('hands out positive 32-bit IDs', () => {
+    const getRuleId = createRuleIdAllocator();
+    for (let i = 0; i < 200; i++) {
+      const id = getRuleId(`key-${i}`);
+      expect(id).toBeGreaterThanOrEqual(1);
+      expect(id).toBeLessThanOrEqual(0x7fffffff);
+    }
+  });
+
+  it('never hands out the same ID twice, even for a repeated key', () => {
+    const getRuleId = createRuleIdAllocator();
+    const first = getRuleId('same-key');
+    const second = getRuleId('same-key');
+
+    expect(second).not.toBe(first);
+  });
+});
+
+describe('diffRules', () => {
+  it('changes nothing when the rules are identical', () => {
+    const rules = build([createPage()]);
+
+    expect(diffRules(rules, build([createPage()]))).toEqual({ removeRuleIds: [], addRules: [] });
+  });
+
+  it('ignores property order in rules read back from the browser', () => {
+    const rules = build([createPage()]);
+    const reordered = rules.map((rule) => ({
+      condition: rule.condition,
+      action: rule.action,
+      priority: rule.priority,
+      id: rule.id,
+    }));
+
+    expect(diffRules(reordered, rules)).toEqual({ removeRuleIds: [], addRules: [] });
+  });
+
+  it('replaces only the rules of an edited header value', () => {
+    const before = build([createPage()]);
+    const edited = createPage({
+      headers: [
+        createHeader({ id: 'header-1', headerName: 'X-One', headerValue: 'changed' }),
+        createHeader({ id: 'header-2', headerName: 'X-Two' }),
+      ],
+    });
+    const after = build([edited]);
+
+    const { removeRuleIds, addRules } = diffRules(before, after);
+
+    // Both include rules carry the value; the shared allow rule does not.
+    expect(removeRuleIds).toHaveLength(2);
+    expect(addRules).toHaveLength(2);
+    expect(addRules.map((rule) => rule.id).sort()).toEqual([...removeRuleIds].sort());
+    addRules.forEach((rule) => {
+      expect(rule.action.requestHeaders?.[0]).toMatchObject({ header: 'X-One', value: 'changed' });
+    });
+    expect(after.filter((rule) => !removeRuleIds.includes(rule.id))).toHaveLength(1);
+  });
+
+  it('only removes the rules of a deleted filter', () => {
+    const before = build([createPage()]);
+    const withoutB = createPage();
+    withoutB.filters = withoutB.filters.filter((filter) => filter.id !== 'include-b');
+
+    const { removeRuleIds, addRules } = diffRules(before, build([withoutB]));
+
+    expect(removeRuleIds).toHaveLength(1);
+    expect(addRules).toHaveLength(0);
+  });
+
+  it('changes nothing when a page that is not applied is added', () => {
+    const before = build([createPage()]);
+    const disabled = createPage({ id: 1, pageId: 'page-b', enabled: false });
+
+    expect(diffRules(before, build([disabled, createPage()]))).toEqual({ removeRuleIds: [], addRules: [] });
+  });
+
+  it('keeps rule IDs when another applied page moves the priorities', () => {
+    const before = build([createPage()]);
+    const other = createPage({
+      id: 1,
+      pageId: 'page-b',
+      enabled: false,
+      keepEnabled: true,
+      filters: [],
+      headers: [createHeader({ id: 'header-b', headerName: 'X-Other' })],
+    });
+
+    const after = build([createPage(), other]).filter((rule) =>
+      before.some((existing) => existing.id === rule.id)
+    );
+
+    expect(after).toHaveLength(before.length);
+    expect(after.map((rule) => rule.priority)).not.toEqual(before.map((rule) => rule.priority));
+  });
+
+  it('keeps existing IDs when a header is added to the page', () => {
+    const before = build([createPage()]);
+    const withThird = createPage();
+    withThird.headers = [...withThird.headers, createHeader({ id: 'header-3', headerName: 'X-Three' })];
+
+    const after = build([withThird]);
+    const { removeRuleIds, addRules } = diffRules(before, after);
+
+    // The new header joins the existing include rules, which keep their IDs.
+    expect(after.map((rule) => rule.id)).toEqual(before.map((rule) => rule.id));
+    expect(removeRuleIds).toHaveLength(2);
+    expect(addRules.map((rule) => rule.id).sort()).toEqual([...removeRuleIds].sort());
+  });
+
+  it('leaves another page alone when one page is edited', () => {
+    const pageB = createPage({ id: 1, pageId: 'page-b', keepEnabled: true, enabled: false });
+    const before = build([createPage(), pageB]);
+    const editedA = createPage({ headers: [createHeader({ id: 'header-1', headerName: 'X-Renamed' })] });
+
+    const { removeRuleIds } = diffRules(before, build([editedA, pageB]));
+    const pageBRules = build([pageB]);
+
+    pageBRules.forEach((rule) => expect(removeRuleIds).not.toContain(rule.id));
+  });
+
+  it('gives a page different IDs as session rules than as dynamic rules', () => {
+    const dynamicIds = build([createPage()]).map((rule) => rule.id);
+    const sessionIds = buildSessionRulesFromPages(
+      [createPage({ sessionOnly: true })],
+      createRuleIdAllocator(),
+    ).map((rule) => rule.id);
+
+    sessionIds.forEach((id) => expect(dynamicIds).not.toContain(id));
+  });
+});
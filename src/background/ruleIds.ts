@@ -0,0 +1,90 @@
+/**
+ * Stable rule IDs and incremental rule updates for the background worker.
+ *
+ * Rule IDs used to be renumbered from 1 on every apply, so any edit changed
+ * every rule's ID and the whole set had to be removed and re-added. Deriving
+ * each ID from what the rule is for (page, header, filter) keeps it the same
+ * across applies, so diffRules can leave unchanged rules alone.
+ */
+
+import type browser from "webextension-polyfill";
+import type { GetRuleId } from "./rules";
+
+// DNR rule IDs are positive 32-bit integers.
+const MAX_RULE_ID = 0x7fffffff;
+
+/**
+ * 32-bit FNV-1a - small, fast and well spread, which is all an ID needs.
+ */
+function hashKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a GetRuleId that derives each rule's ID from its key, so the same
+ * page/header/filter gets the same ID on every apply without storing a
+ * mapping anywhere. A hash collision - vanishingly rare at a few thousand
+ * rules - is resolved by taking the next free ID, which can shift that one
+ * rule's ID between applies but never produces a duplicate.
+ *
+ * Use one allocator per apply, shared by the dynamic and session rule sets,
+ * so no ID is handed out twice.
+ */
+export function createRuleIdAllocator(): GetRuleId {
+  const usedIds = new Set<number>();
+
+  return (key: string) => {
+    let id = (hashKey(key) % MAX_RULE_ID) + 1;
+    while (usedIds.has(id)) {
+      id = (id % MAX_RULE_ID) + 1;
+    }
+    usedIds.add(id);
+    return id;
+  };
+}
+
+/**
+ * JSON with object keys sorted, so two rules compare equal regardless of the
+ * order the browser hands their properties back in.
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.keys(nested)
+            .sort()
+            .map((key) => [key, nested[key]])
+        )
+      : nested
+  );
+}
+
+/**
+ * Works out the smallest update that turns `currentRules` into `nextRules`:
+ * rules that are gone or changed are removed, rules that are new or changed
+ * are added, and identical ones are left in place. DNR applies removals
+ * before additions in one update, so a changed rule can keep its ID.
+ */
+export function diffRules(
+  currentRules: browser.DeclarativeNetRequest.Rule[],
+  nextRules: browser.DeclarativeNetRequest.Rule[]
+): { removeRuleIds: number[]; addRules: browser.DeclarativeNetRequest.Rule[] } {
+  const currentById = new Map(
+    currentRules.map((rule) => [rule.id, canonicalJson(rule)])
+  );
+  const nextById = new Map(nextRules.map((rule) => [rule.id, canonicalJson(rule)]));
+
+  const removeRuleIds = currentRules
+    .filter((rule) => nextById.get(rule.id) !== currentById.get(rule.id))
+    .map((rule) => rule.id);
+  const addRules = nextRules.filter(
+    (rule) => currentById.get(rule.id) !== nextById.get(rule.id)
+  );
+
+  return { removeRuleIds, addRules };
+}
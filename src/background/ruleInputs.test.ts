@@ -0,0 +1,79 @@
+/**
+ * Tests for loading what the rules are compiled from.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HeaderSetting, Page } from '../utils/settings';
+import type { RejectedRules } from '../utils/storage/rejectedRules';
+
+const { storageMock } = vi.hoisted(() => ({
+  storageMock: {
+    pages: [] as Page[],
+    rejectedRules: null as RejectedRules | null,
+  },
+}));
+
+vi.mock('webextension-polyfill', () => ({
+  default: { storage: { local: {} }, declarativeNetRequest: {} },
+}));
+vi.mock('../utils/storage/pageStorage', () => ({
+  readPageStorage: vi.fn(async () => ({ pages: storageMock.pages })),
+}));
+vi.mock('../utils/storage/tabScopes', () => ({
+  getTabScopes: vi.fn(async () => ({})),
+}));
+vi.mock('../utils/storage/rejectedRules', () => ({
+  getBrowserVersion: () => 'test-browser',
+  getRejectedRules: vi.fn(async () => storageMock.rejectedRules),
+}));
+
+import { loadRuleInputs } from './ruleInputs';
+import { recordRejectedEntries } from './ruleIsolation';
+
+const createHeader = (overrides: Partial<HeaderSetting> = {}): HeaderSetting => ({
+  id: 'header-1',
+  headerName: 'X-Test',
+  headerValue: 'test-value',
+  headerComment: '',
+  headerEnabled: true,
+  headerType: 'request',
+  ...overrides,
+});
+
+const createPage = (overrides: Partial<Page> = {}): Page => ({
+  id: 0,
+  pageId: 'page-a',
+  name: 'Page A',
+  enabled: true,
+  keepEnabled: false,
+  showHeaderComments: true,
+  filters: [],
+  headers: [],
+  ...overrides,
+});
+
+describe('loadRuleInputs', () => {
+  beforeEach(() => {
+    storageMock.pages = [];
+    storageMock.rejectedRules = null;
+  });
+
+  it('leaves the entries the browser rejected out of the fitted pages', async () => {
+    const page = createPage({
+      headers: [createHeader(), createHeader({ id: 'header-2', headerName: 'X-Other' })],
+    });
+    storageMock.pages = [page];
+    storageMock.rejectedRules = recordRejectedEntries(
+      [page],
+      [{ pageKey: 'page-a', pageName: 'Page A', ownerId: 'header-2', name: 'X-Other', error: 'Invalid header' }],
+      'test-browser'
+    );
+
+    const { rejected, fitted } = await loadRuleInputs();
+
+    expect(rejected.map((entry) => entry.ownerId)).toEqual(['header-2']);
+    expect(
+      fitted.pages[0].headers.filter((header) => header.headerEnabled).map((header) => header.id)
+    ).toEqual(['header-1']);
+  });
+});
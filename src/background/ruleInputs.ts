@@ -0,0 +1,35 @@
+/**
+ * Loads what the rules are compiled from, for the background's apply and
+ * anything that has to compile the same rules to compare against the
+ * applied ones (the rule health check, the settings page's inspector).
+ */
+
+import browser from "webextension-polyfill";
+import type { Page } from "../utils/settings";
+import { readPageStorage } from "../utils/storage/pageStorage";
+import { getTabScopes } from "../utils/storage/tabScopes";
+import { getRejectedRules } from "../utils/storage/rejectedRules";
+import { supportsResponseHeaderConditions } from "../utils/browserContext";
+import type { RuleBuildOptions } from "./rules";
+import { fitPagesToQuota, getRuleQuota, type DnrLimits } from "./ruleQuota";
+import { getRejectedEntries, withoutRejectedEntries } from "./ruleIsolation";
+
+/**
+ * Everything an apply (or a check of what was applied) works from: the
+ * stored pages, the entries this browser rejected before, and the pages
+ * without those that fit the browser's quotas.
+ */
+export async function loadRuleInputs() {
+  const localSettings = await readPageStorage(browser.storage.local);
+  const pages: Page[] = localSettings?.pages ?? [];
+  const responseHeaderConditions = supportsResponseHeaderConditions();
+  const tabScopes = await getTabScopes();
+  const options: RuleBuildOptions = { responseHeaderConditions, tabScopes };
+  // Going over a quota would make the browser reject the whole update, so
+  // entries that don't fit are left out up front and reported by the apply.
+  const quota = getRuleQuota(browser.declarativeNetRequest as DnrLimits);
+  const rejected = getRejectedEntries(pages, await getRejectedRules());
+  const fitted = fitPagesToQuota(withoutRejectedEntries(pages, rejected), quota, options);
+
+  return { localSettings, pages, tabScopes, options, quota, rejected, fitted };
+}
@@ -0,0 +1,146 @@
+/**
+ * Tests for mapping applied rules back to the pages they came from.
+ */
+
+import { explainRulesFromPages } from './rules';
+import { createRuleIdAllocator } from './ruleIds';
+import { inspectRules } from './ruleInspector';
+import type { HeaderFilter, HeaderSetting, Page } from '../utils/settings';
+
+const createHeader = (overrides: Partial<HeaderSetting> = {}): HeaderSetting => ({
+  id: 'header-1',
+  headerName: 'X-Test',
+  headerValue: 'test-value',
+  headerComment: '',
+  headerEnabled: true,
+  headerType: 'request',
+  ...overrides,
+});
+
+const createFilter = (overrides: Partial<HeaderFilter> = {}): HeaderFilter => ({
+  id: 'filter-1',
+  enabled: true,
+  valid: true,
+  type: 'include',
+  mode: 'url',
+  value: 'example.com',
+  ...overrides,
+});
+
+const createPage = (overrides: Partial<Page> = {}): Page => ({
+  id: 0,
+  pageId: 'page-a',
+  name: 'Page A',
+  enabled: true,
+  keepEnabled: false,
+  showHeaderComments: true,
+  filters: [],
+  headers: [createHeader()],
+  ...overrides,
+});
+
+const explain = (pages: Page[], tabScopes = {}) =>
+  explainRulesFromPages(pages, createRuleIdAllocator(), { tabScopes });
+
+describe('explainRulesFromPages', () => {
+  it('lists every header merged into a rule with the filter it was built for', () => {
+    const page = createPage({
+      filters: [createFilter()],
+      headers: [createHeader(), createHeader({ id: 'header-2', headerName: 'X-Other' })],
+    });
+
+    const [explained, ...rest] = explain([page]);
+
+    expect(rest).toEqual([]);
+    expect(explained.ruleSet).toBe('dynamic');
+    expect(explained.page).toBe(page);
+    expect(explained.sources).toEqual([
+      { ownerId: 'header-1', filterId: 'filter-1' },
+      { ownerId: 'header-2', filterId: 'filter-1' },
+    ]);
+  });
+
+  it('explains the session rules of a "this tab only" page after the dynamic ones', () => {
+    const explained = explain(
+      [createPage(), createPage({ id: 1, pageId: 'page-b', name: 'Page B', enabled: false })],
+      { 'page-b': [7] }
+    );
+
+    expect(explained.map(({ ruleSet, page }) => [ruleSet, page.name])).toEqual([
+      ['dynamic', 'Page A'],
+      ['session', 'Page B'],
+    ]);
+    expect(explained[1].rule.condition.tabIds).toEqual([7]);
+  });
+});
+
+describe('inspectRules', () => {
+  it('maps applied rules to their page, entries and filters', () => {
+    const page = createPage({
+      filters: [createFilter(), createFilter({ id: 'filter-2', type: 'exclude', mode: 'regex', value: '.*\\.png' })],
+      redirects: [
+        { id: 'r1', enabled: true, valid: true, source: '^https://a\\.test/', target: 'https://b.test/', comment: '' },
+      ],
+    });
+    const expected = explain([page]);
+
+    const inspected = inspectRules(
+      { dynamic: expected.map(({ rule }) => rule), session: [] },
+      expected
+    );
+
+    expect(inspected.every(({ status }) => status === 'current')).toBe(true);
+    expect(inspected.map(({ pageName }) => pageName)).toEqual(['Page A', 'Page A', 'Page A']);
+    expect(inspected.map(({ sources }) => sources)).toEqual([
+      [{ kind: 'header', label: 'Request header X-Test', filter: 'Include URL: example.com' }],
+      [
+        { kind: 'header', label: 'Request header X-Test', filter: 'Exclude regex: .*\\.png' },
+        { kind: 'redirect', label: 'Redirect ^https://a\\.test/ → https://b.test/', filter: 'Exclude regex: .*\\.png' },
+      ],
+      [
+        { kind: 'redirect', label: 'Redirect ^https://a\\.test/ → https://b.test/', filter: 'Its own source pattern' },
+      ],
+    ]);
+  });
+
+  it('describes every filter of a group', () => {
+    const page = createPage({
+      filters: [
+        createFilter({ mode: 'domain', value: 'api.example.com', groupId: 'g' }),
+        createFilter({ id: 'filter-2', mode: 'url', value: '|http*://*/v2', groupId: 'g' }),
+        createFilter({ id: 'filter-3', mode: 'initiator', value: 'app.example.com', groupId: 'g', enabled: false }),
+      ],
+    });
+    const expected = explain([page]);
+
+    const inspected = inspectRules({ dynamic: expected.map(({ rule }) => rule), session: [] }, expected);
+
+    expect(inspected).toHaveLength(1);
+    expect(inspected[0].sources[0].filter).toBe(
+      'Include domain: api.example.com and URL: |http*://*/v2'
+    );
+  });
+
+  it('describes the catch-all of a header with no include filters', () => {
+    const expected = explain([createPage()]);
+
+    const [inspected] = inspectRules({ dynamic: [expected[0].rule], session: [] }, expected);
+
+    expect(inspected.sources[0].filter).toBe('Every URL (no include filters)');
+  });
+
+  it('flags rules the pages compile differently now, and rules they never produce', () => {
+    const expected = explain([createPage()]);
+    const stale = { ...expected[0].rule, priority: 99 };
+    const foreign = { id: 12345, priority: 1, action: { type: 'block' as const }, condition: {} };
+
+    const inspected = inspectRules({ dynamic: [stale], session: [foreign] }, expected);
+
+    expect(inspected.map(({ ruleSet, status }) => [ruleSet, status])).toEqual([
+      ['dynamic', 'outdated'],
+      ['session', 'unknown'],
+    ]);
+    expect(inspected[0].pageName).toBe('Page A');
+    expect(inspected[1].sources).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Maps the rules the browser is applying back to the pages they came from.
+ *
+ * Rule IDs are hashes of what a rule is for (see ruleIds), so they can't be
+ * read back on their own. Instead the pages are compiled again with their
+ * provenance kept (explainRulesFromPages) and the applied rules are matched
+ * against that by ID and content.
+ */
+
+import type browser from "webextension-polyfill";
+import type { HeaderFilter, Page } from "../utils/settings";
+import type { ExplainedRule, RuleSet, RuleSource } from "./rules";
+import { getFilterGroupMembers } from "../utils/domain/filterGroups";
+import { canonicalJson } from "./ruleIds";
+
+/**
+ * Whether an applied rule is what the pages compile to now ("current"),
+ * what they used to compile to under the same ID ("outdated" - the next
+ * apply replaces it), or not something the pages produce at all
+ * ("unknown").
+ */
+export type InspectedRuleStatus = "current" | "outdated" | "unknown";
+
+/**
+ * One page entry merged into a rule, described for display.
+ */
+export type DescribedSource = {
+  kind: "header" | "queryParam" | "redirect" | "block";
+  label: string;
+  filter: string;
+};
+
+export type InspectedRule = {
+  ruleSet: RuleSet;
+  rule: browser.DeclarativeNetRequest.Rule;
+  status: InspectedRuleStatus;
+  pageName?: string;
+  sources: DescribedSource[];
+};
+
+const FILTER_MODE_LABELS: Record<HeaderFilter["mode"], string> = {
+  regex: "regex",
+  url: "URL",
+  domain: "domain",
+  initiator: "initiator",
+  responseHeader: "response header",
+};
+
+/**
+ * Describes the filters a rule was built for: one, or every filter of a
+ * group joined with "and" (see getFilterGroups).
+ */
+function describeFilters(filters: HeaderFilter[]): string {
+  if (filters.length === 0) return "A filter that no longer exists";
+  const type = filters[0].type === "include" ? "Include" : "Exclude";
+  return `${type} ${filters
+    .map((filter) => `${FILTER_MODE_LABELS[filter.mode]}: ${filter.value}`)
+    .join(" and ")}`;
+}
+
+/**
+ * Describes what a rule source refers to in its page - see RuleSource for
+ * the owner ID prefixes.
+ */
+export function describeSource(page: Page, source: RuleSource): DescribedSource {
+  const filter = source.filterId
+    ? describeFilters(getFilterGroupMembers(page.filters, source.filterId))
+    : undefined;
+  const [, prefix, id] = /^(?:(query|redirect|block):)?(.*)$/.exec(source.ownerId) ?? [];
+
+  switch (prefix) {
+    case "query": {
+      const param = page.queryParams?.find((candidate) => candidate.id === id);
+      return {
+        kind: "queryParam",
+        label: param ? `Query parameter ${param.operation}: ${param.key}` : "Query parameter",
+        filter: filter ?? "Every URL (no include filters)",
+      };
+    }
+    case "redirect": {
+      const redirect = page.redirects?.find((candidate) => candidate.id === id);
+      return {
+        kind: "redirect",
+        label: redirect ? `Redirect ${redirect.source} → ${redirect.target}` : "Redirect",
+        filter: filter ?? "Its own source pattern",
+      };
+    }
+    case "block": {
+      const block = page.blocks?.find((candidate) => candidate.id === id);
+      return {
+        kind: "block",
+        label: block ? `Block ${block.value}` : "Block",
+        filter: filter ?? "Its own pattern",
+      };
+    }
+    default: {
+      const header = page.headers.find((candidate) => candidate.id === id);
+      return {
+        kind: "header",
+        label: header
+          ? `${header.headerType === "response" ? "Response" : "Request"} header ${header.headerName}`
+          : "Header",
+        filter: filter ?? "Every URL (no include filters)",
+      };
+    }
+  }
+}
+
+/**
+ * Explained rules by rule set and ID, as `${ruleSet}:${id}`.
+ */
+export function indexExplainedRules(explained: ExplainedRule[]): Map<string, ExplainedRule> {
+  return new Map(explained.map((entry) => [`${entry.ruleSet}:${entry.rule.id}`, entry]));
+}
+
+/**
+ * Matches the applied dynamic and session rules against what the pages
+ * compile to. Applied rules come back in their own order, by rule set.
+ */
+export function inspectRules(
+  applied: Record<RuleSet, browser.DeclarativeNetRequest.Rule[]>,
+  expected: ExplainedRule[]
+): InspectedRule[] {
+  const expectedByKey = indexExplainedRules(expected);
+
+  return (["dynamic", "session"] as const).flatMap((ruleSet) =>
+    applied[ruleSet].map((rule): InspectedRule => {
+      const explained = expectedByKey.get(`${ruleSet}:${rule.id}`);
+      if (!explained) {
+        return { ruleSet, rule, status: "unknown", sources: [] };
+      }
+      return {
+        ruleSet,
+        rule,
+        status: canonicalJson(rule) === canonicalJson(explained.rule) ? "current" : "outdated",
+        pageName: explained.page.name,
+        sources: explained.sources.map((source) => describeSource(explained.page, source)),
+      };
+    })
+  );
+}
@@ -0,0 +1,249 @@
+/**
+ * Tests for singling out the page entries whose rules the browser rejects.
+ */
+
+import { buildRulesFromPages } from './rules';
+import {
+  getRejectedEntries,
+  isolateRejectedEntries,
+  recordRejectedEntries,
+  withoutRejectedEntries,
+  type TryApply,
+} from './ruleIsolation';
+import type { HeaderSetting, Page, RedirectSetting } from '../utils/settings';
+
+const createHeader = (overrides: Partial<HeaderSetting> = {}): HeaderSetting => ({
+  id: 'header-1',
+  headerName: 'X-Test',
+  headerValue: 'test-value',
+  headerComment: '',
+  headerEnabled: true,
+  headerType: 'request',
+  ...overrides,
+});
+
+const createPage = (overrides: Partial<Page> = {}): Page => ({
+  id: 0,
+  pageId: 'page-a',
+  name: 'Page A',
+  enabled: true,
+  keepEnabled: false,
+  showHeaderComments: true,
+  filters: [],
+  headers: [],
+  ...overrides,
+});
+
+const createRedirect = (overrides: Partial<RedirectSetting> = {}): RedirectSetting => ({
+  id: 'redirect-1',
+  enabled: true,
+  valid: true,
+  source: '^https://example\\.com/app\\.js$',
+  target: 'http://localhost:3000/app.js',
+  comment: '',
+  ...overrides,
+});
+
+const appliedHeaderNames = (pages: Page[]) =>
+  buildRulesFromPages(pages, () => 0).flatMap((rule) =>
+    (rule.action.requestHeaders ?? []).map((info) => info.header)
+  );
+
+const appliedRedirectTargets = (pages: Page[]) =>
+  buildRulesFromPages(pages, () => 0).flatMap((rule) =>
+    rule.action.redirect?.url ? [rule.action.redirect.url] : []
+  );
+
+/**
+ * Stands in for the browser: rejects any batch with a header name
+ * containing a newline, or a redirect to a URL it can't parse, like DNR
+ * does.
+ */
+const createBrowser = () => {
+  const attempts: string[][] = [];
+  let applied: string[] = [];
+  const tryApply: TryApply = async (pages) => {
+    const names = [...appliedHeaderNames(pages), ...appliedRedirectTargets(pages)];
+    attempts.push(names);
+    const bad = names.find((name) => name.includes('\n'));
+    if (bad) return `Rule specifies an invalid request header: ${JSON.stringify(bad)}`;
+    const badTarget = names.find((name) => name.startsWith('not a url'));
+    if (badTarget) return 'Rule specifies an invalid redirect URL';
+    applied = names;
+    return null;
+  };
+  return { tryApply, attempts, getApplied: () => applied };
+};
+
+describe('isolateRejectedEntries', () => {
+  it('singles out the one bad header and applies the rest', async () => {
+    const page = createPage({
+      headers: [
+        createHeader({ id: 'h-1', headerName: 'X-One' }),
+        createHeader({ id: 'h-2', headerName: 'X-Two' }),
+        createHeader({ id: 'h-3', headerName: 'X-Bad\n' }),
+        createHeader({ id: 'h-4', headerName: 'X-Four' }),
+        createHeader({ id: 'h-5', headerName: 'X-Five' }),
+      ],
+    });
+    const browser = createBrowser();
+
+    const result = await isolateRejectedEntries([page], browser.tryApply);
+
+    expect(result!.rejected).toEqual([
+      {
+        pageKey: 'page-a',
+        pageName: 'Page A',
+        ownerId: 'h-3',
+        name: 'X-Bad\n',
+        error: 'Rule specifies an invalid request header: "X-Bad\\n"',
+      },
+    ]);
+    expect(browser.getApplied()).toEqual(['X-One', 'X-Two', 'X-Four', 'X-Five']);
+    expect(appliedHeaderNames(result!.pages)).toEqual(['X-One', 'X-Two', 'X-Four', 'X-Five']);
+  });
+
+  it('leaves out entries that only go over a rule limit without recording them as rejected', async () => {
+    const page = createPage({
+      headers: [
+        createHeader({ id: 'h-1', headerName: 'X-One' }),
+        createHeader({ id: 'h-2', headerName: 'X-One', headerValue: 'second' }),
+      ],
+    });
+    // Same-named headers need a rule each, and this browser only takes one.
+    const tryApply: TryApply = async (pages) =>
+      buildRulesFromPages(pages, () => 0).length > 1 ? 'Dynamic rule count exceeded.' : null;
+
+    const result = await isolateRejectedEntries([page], tryApply);
+
+    expect(result!.rejected).toEqual([]);
+    expect(result!.leftOut).toEqual([
+      {
+        pageKey: 'page-a',
+        pageName: 'Page A',
+        ownerId: 'h-2',
+        name: 'X-One',
+        error: 'Dynamic rule count exceeded.',
+      },
+    ]);
+  });
+
+  it('finds several bad headers across pages', async () => {
+    const pages = [
+      createPage({
+        headers: [
+          createHeader({ id: 'a-1', headerName: 'X-Bad-A\n' }),
+          createHeader({ id: 'a-2', headerName: 'X-Good-A' }),
+        ],
+      }),
+      createPage({
+        id: 1,
+        pageId: 'page-b',
+        name: 'Page B',
+        enabled: false,
+        keepEnabled: true,
+        headers: [
+          createHeader({ id: 'b-1', headerName: 'X-Good-B' }),
+          createHeader({ id: 'b-2', headerName: 'X-Bad-B\n' }),
+        ],
+      }),
+    ];
+    const browser = createBrowser();
+
+    const result = await isolateRejectedEntries(pages, browser.tryApply);
+
+    expect(result!.rejected.map((entry) => entry.ownerId)).toEqual(['a-1', 'b-2']);
+    expect(browser.getApplied()).toEqual(['X-Good-A', 'X-Good-B']);
+  });
+
+  it('needs far fewer attempts than trying every header on its own', async () => {
+    const headers = Array.from({ length: 64 }, (_, index) =>
+      createHeader({ id: `h-${index}`, headerName: index === 40 ? 'X-Bad\n' : `X-${index}` })
+    );
+    const browser = createBrowser();
+
+    await isolateRejectedEntries([createPage({ headers })], browser.tryApply);
+
+    expect(browser.attempts.length).toBeLessThan(20);
+  });
+
+  it('singles out a rejected redirect and applies the rest', async () => {
+    const page = createPage({
+      headers: [createHeader({ id: 'h-1', headerName: 'X-One' })],
+      redirects: [
+        createRedirect({ id: 'r-1' }),
+        createRedirect({ id: 'r-2', source: '^https://example\\.com/other\\.js$', target: 'not a url' }),
+      ],
+    });
+    const browser = createBrowser();
+
+    const result = await isolateRejectedEntries([page], browser.tryApply);
+
+    expect(result!.rejected).toEqual([
+      {
+        pageKey: 'page-a',
+        pageName: 'Page A',
+        ownerId: 'redirect:r-2',
+        name: 'Redirect ^https://example\\.com/other\\.js$',
+        error: 'Rule specifies an invalid redirect URL',
+      },
+    ]);
+    expect(browser.getApplied()).toEqual(['X-One', 'http://localhost:3000/app.js']);
+  });
+
+  it('gives up when the rules are rejected without any entries', async () => {
+    const page = createPage({ headers: [createHeader()] });
+    const tryApply: TryApply = async () => 'Internal error';
+
+    expect(await isolateRejectedEntries([page], tryApply)).toBeNull();
+  });
+
+  it('ignores headers that are switched off', async () => {
+    const page = createPage({
+      headers: [
+        createHeader({ id: 'h-1', headerName: 'X-Off\n', headerEnabled: false }),
+        createHeader({ id: 'h-3', headerName: 'X-Good' }),
+      ],
+    });
+    const browser = createBrowser();
+
+    const result = await isolateRejectedEntries([page], browser.tryApply);
+
+    expect(result!.rejected).toEqual([]);
+    expect(browser.getApplied()).toEqual(['X-Good']);
+  });
+});
+
+describe('recorded rejections', () => {
+  const page = createPage({
+    headers: [
+      createHeader({ id: 'h-1', headerName: 'X-Bad\n' }),
+      createHeader({ id: 'h-2', headerName: 'X-Good' }),
+    ],
+  });
+  const rejectedRules = recordRejectedEntries(
+    [page],
+    [{ pageKey: 'page-a', pageName: 'Page A', ownerId: 'h-1', name: 'X-Bad\n', error: 'Invalid header' }],
+    'Browser 1',
+  );
+
+  it('leaves the rejected entries out until they are edited', () => {
+    const rejected = getRejectedEntries([page], rejectedRules, 'Browser 1');
+
+    expect(rejected.map((entry) => [entry.ownerId, entry.error])).toEqual([['h-1', 'Invalid header']]);
+    expect(appliedHeaderNames(withoutRejectedEntries([page], rejected))).toEqual(['X-Good']);
+
+    const edited = { ...page, headers: [createHeader({ id: 'h-1', headerName: 'X-Fixed' }), page.headers[1]] };
+    expect(getRejectedEntries([edited], rejectedRules, 'Browser 1')).toEqual([]);
+  });
+
+  it('does not report entries that are switched off', () => {
+    const switchedOff = { ...page, headers: [{ ...page.headers[0], headerEnabled: false }, page.headers[1]] };
+
+    expect(getRejectedEntries([switchedOff], rejectedRules, 'Browser 1')).toEqual([]);
+  });
+
+  it('tries the entries again on another browser version', () => {
+    expect(getRejectedEntries([page], rejectedRules, 'Browser 2')).toEqual([]);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Finds the page entries (headers, query parameters, redirects and blocks)
+ * whose rules the browser rejects.
+ *
+ * updateDynamicRules validates the whole batch and rejects all of it when a
+ * single rule is bad (a header name with a newline, a header the browser
+ * refuses to modify), which used to take every page down with it. When that
+ * happens the entries are bisected - applying halves of them until each
+ * rejected entry is pinned down - so everything else can still apply.
+ *
+ * The browser has no way to check rules without applying them, so each
+ * attempt goes in for real: while bisecting, the entries not being tried are
+ * briefly missing from the applied rules. That's accepted - it only happens
+ * on an apply that already failed, and lasts a handful of updates.
+ */
+
+import type { Page } from "../utils/settings";
+import {
+  getBrowserVersion,
+  type RejectedRules,
+  type StoredRejection,
+} from "../utils/storage/rejectedRules";
+import { canonicalJson } from "./ruleIds";
+import { getAppliedEntries, getPageKey, withEntries } from "./pageEntries";
+
+/**
+ * An entry the browser wouldn't accept, with its error message. `ownerId`
+ * is the entry's rule source id (see RuleSource), `name` what the errors
+ * panel calls it.
+ */
+export type RejectedEntry = {
+  pageKey: string;
+  pageName: string;
+  ownerId: string;
+  name: string;
+  error: string;
+};
+
+/**
+ * Applies the rules built from `pages`, resolving to the browser's error
+ * message if it rejected them and null if they went in.
+ */
+export type TryApply = (pages: Page[]) => Promise<string | null>;
+
+type EntryRef = { pageIndex: number; ownerId: string; name: string };
+
+/**
+ * Whether the browser turned the rules down over one of its limits (rule
+ * counts, regex rules) rather than over a bad rule. Adding an entry can
+ * cross a limit without anything being wrong with the entry, so those
+ * aren't recorded against it.
+ */
+const isLimitError = (error: string): boolean => /exceed/i.test(error);
+
+const includesRef = (refs: EntryRef[]) => (pageIndex: number, ownerId: string) =>
+  refs.some((ref) => ref.pageIndex === pageIndex && ref.ownerId === ownerId);
+
+/**
+ * Bisects the applied entries of `pages` to find the ones the browser
+ * rejects, leaving the rules of all the others applied. Returns null when
+ * the browser rejects the rules even with no entries at all - then the
+ * problem isn't an entry, and there's nothing to single out.
+ *
+ * An entry is only blamed when the entries accepted so far apply without it
+ * and not with it, so one bad entry never takes a good one down with it.
+ * One that only went over a limit (see isLimitError) is left out of this
+ * apply as `leftOut` instead, since it may fit next time.
+ */
+export async function isolateRejectedEntries(
+  pages: Page[],
+  tryApply: TryApply
+): Promise<{ pages: Page[]; rejected: RejectedEntry[]; leftOut: RejectedEntry[] } | null> {
+  if ((await tryApply(withEntries(pages, () => false))) !== null) {
+    return null;
+  }
+
+  const candidates: EntryRef[] = pages.flatMap((page, pageIndex) =>
+    getAppliedEntries(page).map(({ ownerId, name }) => ({ pageIndex, ownerId, name }))
+  );
+  const accepted: EntryRef[] = [];
+  const rejected: RejectedEntry[] = [];
+  const leftOut: RejectedEntry[] = [];
+
+  const check = async (group: EntryRef[]): Promise<void> => {
+    if (group.length === 0) return;
+
+    const error = await tryApply(withEntries(pages, includesRef([...accepted, ...group])));
+    if (error === null) {
+      accepted.push(...group);
+      return;
+    }
+    if (group.length === 1) {
+      const { pageIndex, ownerId, name } = group[0];
+      const page = pages[pageIndex];
+      (isLimitError(error) ? leftOut : rejected).push({
+        pageKey: getPageKey(page),
+        pageName: page.name,
+        ownerId,
+        name,
+        error,
+      });
+      return;
+    }
+
+    const middle = Math.ceil(group.length / 2);
+    await check(group.slice(0, middle));
+    await check(group.slice(middle));
+  };
+
+  await check(candidates);
+
+  // The last attempt may have been a rejected one - make sure what's left
+  // applied is exactly the accepted entries.
+  const acceptedPages = withEntries(pages, includesRef(accepted));
+  await tryApply(acceptedPages);
+
+  return { pages: acceptedPages, rejected, leftOut };
+}
+
+/**
+ * The entries an earlier apply found rejected that are still switched on and
+ * unchanged, so they stay out of the rules and keep being reported until
+ * they're edited. Rejections recorded by another browser version don't
+ * count - it may accept them now.
+ */
+export function getRejectedEntries(
+  pages: Page[],
+  rejectedRules: RejectedRules | null,
+  browserVersion = getBrowserVersion()
+): RejectedEntry[] {
+  if (!rejectedRules || rejectedRules.browserVersion !== browserVersion) return [];
+  return pages.flatMap((page) => {
+    const pageRejections = rejectedRules.pages[getPageKey(page)] ?? {};
+    return getAppliedEntries(page).flatMap(({ ownerId, name, entry }) => {
+      const rejection = pageRejections[ownerId];
+      return rejection && rejection.entry === canonicalJson(entry)
+        ? [{ pageKey: getPageKey(page), pageName: page.name, ownerId, name, error: rejection.error }]
+        : [];
+    });
+  });
+}
+
+/**
+ * Copies of `pages` with the rejected entries switched off.
+ */
+export function withoutRejectedEntries(pages: Page[], rejected: RejectedEntry[]): Page[] {
+  if (rejected.length === 0) return pages;
+  return withEntries(
+    pages,
+    (pageIndex, ownerId) =>
+      !rejected.some(
+        (entry) => entry.pageKey === getPageKey(pages[pageIndex]) && entry.ownerId === ownerId
+      )
+  );
+}
+
+/**
+ * The rejections to store for `rejected` (see RejectedRules), each with the
+ * entry as it is in `pages`.
+ */
+export function recordRejectedEntries(
+  pages: Page[],
+  rejected: RejectedEntry[],
+  browserVersion = getBrowserVersion()
+): RejectedRules {
+  const byPage: RejectedRules["pages"] = {};
+  pages.forEach((page) => {
+    const pageKey = getPageKey(page);
+    const pageRejections: Record<string, StoredRejection> = {};
+    getAppliedEntries(page).forEach(({ ownerId, entry }) => {
+      const rejection = rejected.find(
+        (candidate) => candidate.pageKey === pageKey && candidate.ownerId === ownerId
+      );
+      if (rejection) {
+        pageRejections[ownerId] = { error: rejection.error, entry: canonicalJson(entry) };
+      }
+    });
+    if (Object.keys(pageRejections).length > 0) byPage[pageKey] = pageRejections;
+  });
+  return { browserVersion, pages: byPage };
+}
@@ -0,0 +1,287 @@
+/**
+ * Tests for fitting compiled rules into the browser's DNR quotas.
+ */
+
+import { buildRulesFromPages } from './rules';
+import { DEFAULT_RULE_QUOTA, countRuleUsage, fitPagesToQuota, getRuleQuota } from './ruleQuota';
+import type { HeaderFilter, HeaderSetting, Page, RedirectSetting } from '../utils/settings';
+import type { RuleCounts } from '../utils/storage/ruleUsage';
+
+const createHeader = (overrides: Partial<HeaderSetting> = {}): HeaderSetting => ({
+  id: 'header-1',
+  headerName: 'X-Test',
+  headerValue: 'test-value',
+  headerComment: '',
+  headerEnabled: true,
+  headerType: 'request',
+  ...overrides,
+});
+
+const createFilter = (overrides: Partial<HeaderFilter> = {}): HeaderFilter => ({
+  id: 'filter-1',
+  enabled: true,
+  valid: true,
+  type: 'include',
+  mode: 'regex',
+  value: 'https://example\\.com/.*',
+  ...overrides,
+});
+
+const createRedirect = (overrides: Partial<RedirectSetting> = {}): RedirectSetting => ({
+  id: 'redirect-1',
+  enabled: true,
+  valid: true,
+  source: '^https://example\\.com/app\\.js$',
+  target: 'http://localhost:3000/app.js',
+  comment: '',
+  ...overrides,
+});
+
+const createPage = (overrides: Partial<Page> = {}): Page => ({
+  id: 0,
+  pageId: 'page-a',
+  name: 'Page A',
+  enabled: true,
+  keepEnabled: false,
+  showHeaderComments: true,
+  filters: [],
+  headers: [createHeader()],
+  ...overrides,
+});
+
+const quota = (overrides: Partial<RuleCounts> = {}): RuleCounts => ({
+  ...DEFAULT_RULE_QUOTA,
+  ...overrides,
+});
+
+const countOnly = () => 0;
+
+describe('fitPagesToQuota', () => {
+  it('returns the pages untouched when everything fits', () => {
+    const pages = [createPage()];
+
+    const fitted = fitPagesToQuota(pages, quota());
+
+    expect(fitted.pages).toBe(pages);
+    expect(fitted.omitted).toEqual([]);
+  });
+
+  it('leaves out the headers of later pages first', () => {
+    const pages = [
+      createPage({ headers: [createHeader({ id: 'a-1', headerName: 'X-First' })] }),
+      createPage({
+        id: 1,
+        pageId: 'page-b',
+        name: 'Page B',
+        enabled: false,
+        keepEnabled: true,
+        headers: [createHeader({ id: 'b-1', headerName: 'X-Second' })],
+      }),
+    ];
+
+    const fitted = fitPagesToQuota(pages, quota({ dynamicRules: 1 }));
+
+    expect(fitted.omitted).toEqual([
+      { pageId: 'page-b', pageName: 'Page B', ownerId: 'b-1', name: 'X-Second' },
+    ]);
+    const rules = buildRulesFromPages(fitted.pages, countOnly);
+    expect(rules).toHaveLength(1);
+    expect(rules[0].action.requestHeaders?.[0].header).toBe('X-First');
+  });
+
+  it('admits a page with a higher explicit priority first', () => {
+    const pages = [
+      createPage({ headers: [createHeader({ id: 'a-1', headerName: 'X-First' })] }),
+      createPage({
+        id: 1,
+        pageId: 'page-b',
+        name: 'Page B',
+        enabled: false,
+        keepEnabled: true,
+        priority: 1,
+        headers: [createHeader({ id: 'b-1', headerName: 'X-Second' })],
+      }),
+    ];
+
+    const fitted = fitPagesToQuota(pages, quota({ dynamicRules: 1 }));
+
+    expect(fitted.omitted.map(({ ownerId }) => ownerId)).toEqual(['a-1']);
+  });
+
+  it('leaves out later headers within a page first', () => {
+    // Same-named headers can't share a rule, so each one costs a rule.
+    const page = createPage({
+      headers: [
+        createHeader({ id: 'h-1', headerValue: '1' }),
+        createHeader({ id: 'h-2', headerValue: '2' }),
+        createHeader({ id: 'h-3', headerValue: '3' }),
+      ],
+    });
+
+    const fitted = fitPagesToQuota([page], quota({ dynamicRules: 2 }));
+
+    expect(fitted.omitted.map(({ ownerId }) => ownerId)).toEqual(['h-3']);
+    expect(fitted.pages[0].headers.map((header) => header.headerEnabled)).toEqual([true, true, false]);
+  });
+
+  it('keeps admitting later headers that still fit', () => {
+    const pages = [
+      createPage({
+        filters: [createFilter({ id: 'f-1' })],
+        headers: [createHeader({ id: 'a-1', headerName: 'X-Regex' })],
+      }),
+      createPage({
+        id: 1,
+        pageId: 'page-b',
+        name: 'Page B',
+        enabled: false,
+        keepEnabled: true,
+        filters: [createFilter({ id: 'f-2', value: 'https://other\\.com/.*' })],
+        headers: [createHeader({ id: 'b-1', headerName: 'X-Regex-Too' })],
+      }),
+      createPage({
+        id: 2,
+        pageId: 'page-c',
+        name: 'Page C',
+        enabled: false,
+        keepEnabled: true,
+        filters: [createFilter({ id: 'f-3', mode: 'url', value: '||example.com/' })],
+        headers: [createHeader({ id: 'c-1', headerName: 'X-Url' })],
+      }),
+    ];
+
+    const fitted = fitPagesToQuota(pages, quota({ dynamicRegexRules: 1 }));
+
+    expect(fitted.omitted.map(({ ownerId }) => ownerId)).toEqual(['b-1']);
+    expect(buildRulesFromPages(fitted.pages, countOnly)).toHaveLength(2);
+  });
+
+  it('only reports enabled headers', () => {
+    const page = createPage({
+      headers: [
+        createHeader({ id: 'h-1' }),
+        createHeader({ id: 'h-2', headerEnabled: false }),
+        createHeader({ id: 'h-3' }),
+      ],
+    });
+
+    const fitted = fitPagesToQuota([page], quota({ dynamicRules: 1 }));
+
+    expect(fitted.omitted.map(({ ownerId }) => ownerId)).toEqual(['h-3']);
+  });
+
+  it('leaves out redirects and blocks that do not fit, not just headers', () => {
+    const pages = [
+      createPage({
+        headers: [],
+        redirects: [createRedirect({ id: 'r-1' })],
+      }),
+      createPage({
+        id: 1,
+        pageId: 'page-b',
+        name: 'Page B',
+        enabled: false,
+        keepEnabled: true,
+        headers: [],
+        redirects: [createRedirect({ id: 'r-2', source: '^https://example\\.com/other\\.js$' })],
+        blocks: [
+          { id: 'b-1', enabled: true, valid: true, mode: 'domain', value: 'ads.example.com' },
+        ],
+      }),
+    ];
+
+    const fitted = fitPagesToQuota(pages, quota({ dynamicRules: 1 }));
+
+    expect(fitted.omitted).toEqual([
+      { pageId: 'page-b', pageName: 'Page B', ownerId: 'redirect:r-2', name: 'Redirect ^https://example\\.com/other\\.js$' },
+      { pageId: 'page-b', pageName: 'Page B', ownerId: 'block:b-1', name: 'Block ads.example.com' },
+    ]);
+    const rules = buildRulesFromPages(fitted.pages, countOnly);
+    expect(rules).toHaveLength(1);
+    expect(rules[0].action.redirect?.url).toBe('http://localhost:3000/app.js');
+  });
+
+  it('counts the rules pages only have together', () => {
+    // Page B's Authorization moves below page A's exclude (see
+    // lowerConflictingDrafts), so it no longer shares a rule with X-Other.
+    const pages = [
+      createPage({
+        filters: [createFilter({ id: 'f-1', type: 'exclude' })],
+        headers: [createHeader({ id: 'a-1', headerName: 'Authorization' })],
+      }),
+      createPage({
+        id: 1,
+        pageId: 'page-b',
+        name: 'Page B',
+        enabled: false,
+        keepEnabled: true,
+        headers: [
+          createHeader({ id: 'b-1', headerName: 'Authorization' }),
+          createHeader({ id: 'b-2', headerName: 'X-Other' }),
+        ],
+      }),
+    ];
+    expect(buildRulesFromPages(pages, countOnly)).toHaveLength(4);
+
+    const fitted = fitPagesToQuota(pages, quota({ dynamicRules: 3 }));
+
+    expect(fitted.omitted.map(({ ownerId }) => ownerId)).toEqual(['b-2']);
+    expect(buildRulesFromPages(fitted.pages, countOnly)).toHaveLength(3);
+  });
+
+  it('counts session rules against their own quota', () => {
+    const page = createPage({
+      sessionOnly: true,
+      headers: [
+        createHeader({ id: 'h-1', headerValue: '1' }),
+        createHeader({ id: 'h-2', headerValue: '2' }),
+      ],
+    });
+
+    expect(fitPagesToQuota([page], quota({ dynamicRules: 0 })).omitted).toEqual([]);
+    expect(fitPagesToQuota([page], quota({ sessionRules: 1 })).omitted).toHaveLength(1);
+  });
+});
+
+describe('countRuleUsage', () => {
+  it('counts regex rules per rule set', () => {
+    const page = createPage({
+      filters: [
+        createFilter({ id: 'f-1' }),
+        createFilter({ id: 'f-2', mode: 'url', value: '||example.com/' }),
+      ],
+    });
+    const rules = buildRulesFromPages([page], countOnly);
+
+    expect(countRuleUsage(rules, [])).toEqual({
+      dynamicRules: 2,
+      dynamicRegexRules: 1,
+      sessionRules: 0,
+      sessionRegexRules: 0,
+    });
+  });
+});
+
+describe('getRuleQuota', () => {
+  it('falls back to the documented limits when the browser exposes none', () => {
+    expect(getRuleQuota({})).toEqual(DEFAULT_RULE_QUOTA);
+  });
+
+  it('uses the lower unsafe rule limit where there is one', () => {
+    expect(
+      getRuleQuota({
+        MAX_NUMBER_OF_DYNAMIC_RULES: 30000,
+        MAX_NUMBER_OF_UNSAFE_DYNAMIC_RULES: 5000,
+        MAX_NUMBER_OF_SESSION_RULES: 5000,
+        MAX_NUMBER_OF_REGEX_RULES: 1000,
+      })
+    ).toEqual({ dynamicRules: 5000, dynamicRegexRules: 1000, sessionRules: 5000, sessionRegexRules: 1000 });
+  });
+
+  it('falls back to the old shared dynamic and session limit', () => {
+    const limits = getRuleQuota({ MAX_NUMBER_OF_DYNAMIC_AND_SESSION_RULES: 3000 });
+
+    expect(limits.dynamicRules).toBe(3000);
+    expect(limits.sessionRules).toBe(3000);
+  });
+});
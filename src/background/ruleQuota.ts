@@ -0,0 +1,154 @@
+/**
+ * Keeps the compiled rules within the browser's DNR quotas.
+ *
+ * updateDynamicRules rejects the whole update when it would go over a quota,
+ * which used to leave the user with no rules at all. Instead entries
+ * (headers, query parameters, redirects and blocks) are admitted in priority
+ * order - pages by precedence (see pagePriority), entries in page order -
+ * and the ones that don't fit are left out and reported.
+ */
+
+import type browser from "webextension-polyfill";
+import type { Page } from "../utils/settings";
+import type { OmittedEntry, RuleCounts } from "../utils/storage/ruleUsage";
+import { sortByPrecedence } from "../utils/domain/pagePriority";
+import { explainRulesFromPages, type RuleBuildOptions, type RuleSet } from "./rules";
+import { getAppliedEntries, withEntries } from "./pageEntries";
+
+/**
+ * Chrome's documented limits, for browsers that don't expose the
+ * constants.
+ */
+export const DEFAULT_RULE_QUOTA: RuleCounts = {
+  dynamicRules: 5000,
+  dynamicRegexRules: 1000,
+  sessionRules: 5000,
+  sessionRegexRules: 1000,
+};
+
+/**
+ * The DNR namespace's limit constants. Older browsers lack some of them, and
+ * the "unsafe" ones (Chrome 121+) aren't in the polyfill's types yet.
+ */
+export type DnrLimits = {
+  MAX_NUMBER_OF_DYNAMIC_RULES?: number;
+  MAX_NUMBER_OF_SESSION_RULES?: number;
+  MAX_NUMBER_OF_DYNAMIC_AND_SESSION_RULES?: number;
+  MAX_NUMBER_OF_UNSAFE_DYNAMIC_RULES?: number;
+  MAX_NUMBER_OF_UNSAFE_SESSION_RULES?: number;
+  MAX_NUMBER_OF_REGEX_RULES?: number;
+};
+
+function lowestLimit(fallback: number, ...limits: (number | undefined)[]): number {
+  const known = limits.filter((limit): limit is number => typeof limit === "number");
+  return known.length > 0 ? Math.min(...known) : fallback;
+}
+
+/**
+ * Reads the quotas from the browser's DNR constants. Chrome counts
+ * modifyHeaders and redirect rules against its lower "unsafe" rule limit,
+ * and most rules here are one of the two, so that one wins where it exists.
+ */
+export function getRuleQuota(limits: DnrLimits): RuleCounts {
+  const regexRules = lowestLimit(
+    DEFAULT_RULE_QUOTA.dynamicRegexRules,
+    limits.MAX_NUMBER_OF_REGEX_RULES
+  );
+  return {
+    dynamicRules: lowestLimit(
+      DEFAULT_RULE_QUOTA.dynamicRules,
+      limits.MAX_NUMBER_OF_DYNAMIC_RULES ?? limits.MAX_NUMBER_OF_DYNAMIC_AND_SESSION_RULES,
+      limits.MAX_NUMBER_OF_UNSAFE_DYNAMIC_RULES
+    ),
+    dynamicRegexRules: regexRules,
+    sessionRules: lowestLimit(
+      DEFAULT_RULE_QUOTA.sessionRules,
+      limits.MAX_NUMBER_OF_SESSION_RULES ?? limits.MAX_NUMBER_OF_DYNAMIC_AND_SESSION_RULES,
+      limits.MAX_NUMBER_OF_UNSAFE_SESSION_RULES
+    ),
+    sessionRegexRules: regexRules,
+  };
+}
+
+const countRegexRules = (rules: browser.DeclarativeNetRequest.Rule[]) =>
+  rules.filter((rule) => rule.condition.regexFilter !== undefined).length;
+
+/**
+ * Counts a compiled rule set the way the quotas do.
+ */
+export function countRuleUsage(
+  dynamicRules: browser.DeclarativeNetRequest.Rule[],
+  sessionRules: browser.DeclarativeNetRequest.Rule[]
+): RuleCounts {
+  return {
+    dynamicRules: dynamicRules.length,
+    dynamicRegexRules: countRegexRules(dynamicRules),
+    sessionRules: sessionRules.length,
+    sessionRegexRules: countRegexRules(sessionRules),
+  };
+}
+
+const ruleCountKeys = Object.keys(DEFAULT_RULE_QUOTA) as (keyof RuleCounts)[];
+
+export function isWithinQuota(usage: RuleCounts, quota: RuleCounts): boolean {
+  return ruleCountKeys.every((key) => usage[key] <= quota[key]);
+}
+
+// Only the counts matter here - the real IDs are handed out when the
+// fitted pages are built for applying.
+const countOnly = () => 0;
+
+/**
+ * Counts the rules `pages` compile to, all of them at once: a page's rules
+ * can depend on the others' (see lowerConflictingDrafts), so they can't be
+ * counted page by page.
+ */
+function countPagesUsage(pages: Page[], options: RuleBuildOptions): RuleCounts {
+  const explained = explainRulesFromPages(pages, countOnly, options);
+  const rulesOf = (ruleSet: RuleSet) =>
+    explained.filter((entry) => entry.ruleSet === ruleSet).map(({ rule }) => rule);
+  return countRuleUsage(rulesOf("dynamic"), rulesOf("session"));
+}
+
+/**
+ * Returns the pages to build rules from so they fit `quota`, and the entries
+ * that had to be left out (disabled in the returned copies). When everything
+ * fits the pages come back untouched.
+ *
+ * Otherwise every entry starts out disabled and is switched back on in
+ * priority order if the rules still fit. An entry that doesn't fit doesn't
+ * stop later ones: a URL-filtered header can still fit after one with regex
+ * filters ran out of regex quota.
+ */
+export function fitPagesToQuota(
+  pages: Page[],
+  quota: RuleCounts,
+  options: RuleBuildOptions = {}
+): { pages: Page[]; omitted: OmittedEntry[] } {
+  if (isWithinQuota(countPagesUsage(pages, options), quota)) {
+    return { pages, omitted: [] };
+  }
+
+  const admitted = pages.map(() => new Set<string>());
+  let fitted = withEntries(pages, () => false);
+  const omitted: OmittedEntry[] = [];
+
+  sortByPrecedence(pages).forEach((page) => {
+    const pageIndex = pages.indexOf(page);
+    getAppliedEntries(page).forEach(({ ownerId, name }) => {
+      const candidate = withEntries(
+        pages,
+        (index, id) => admitted[index].has(id) || (index === pageIndex && id === ownerId)
+      );
+
+      if (isWithinQuota(countPagesUsage(candidate, options), quota)) {
+        admitted[pageIndex].add(ownerId);
+        fitted = candidate;
+      } else {
+        omitted.push({ pageId: page.pageId, pageName: page.name, ownerId, name });
+      }
+    });
+  });
+
+  return { pages: fitted, omitted };
+}
@@ -6,159 +6,1105 @@
  */
 
 import type browser from "webextension-polyfill";
-import type { HeaderFilter, HeaderSetting, Page } from "../utils/settings";
-
-export const allResourceTypes: browser.DeclarativeNetRequest.ResourceType[] = [
-  "main_frame",
-  "sub_frame",
-  "stylesheet",
-  "script",
-  "image",
-  "font",
-  "object",
-  "xmlhttprequest",
-  "ping",
-  "csp_report",
-  "media",
-  "websocket",
-  "other",
+import type {
+  BlockSetting,
+  HeaderFilter,
+  HeaderSetting,
+  Page,
+  QueryParamSetting,
+  RedirectSetting,
+  ResourceType,
+} from "../utils/settings";
+import type { TabScopes } from "../utils/storage/tabScopes";
+import { filterModeSchema, resourceTypeSchema } from "../utils/domain/schemas";
+import { parseDomainList } from "../utils/domain/domainList";
+import {
+  buildFilterValue,
+  mergeFilterParts,
+  parseFilterValue,
+  type FilterParts,
+} from "../utils/domain/filterBuilder";
+import { getEnabledFilterGroups } from "../utils/domain/filterGroups";
+import {
+  isBlockApplied,
+  isHeaderApplied,
+  isQueryParamApplied,
+  isRedirectApplied,
+} from "../utils/domain/headers";
+import { usesCaptureGroups } from "../utils/domain/redirects";
+import { getPrecedenceLevels } from "../utils/domain/pagePriority";
+import {
+  parseResponseHeaderCondition,
+  type ResponseHeaderCondition,
+} from "../utils/domain/responseHeaderCondition";
+import { canonicalJson } from "./ruleIds";
+
+export const allResourceTypes: ResourceType[] = [
+  ...resourceTypeSchema.options,
 ];
 
 /**
- * Builds the DNR rules for a single enabled header within a page.
+ * DNR's rule condition plus the response header fields Chrome 128 added,
+ * which @types/webextension-polyfill doesn't know about yet.
  */
-export function buildHeaderRules(
-  header: HeaderSetting,
+export type RuleCondition = browser.DeclarativeNetRequest.RuleConditionType & {
+  responseHeaders?: ResponseHeaderCondition[];
+  excludedResponseHeaders?: ResponseHeaderCondition[];
+};
+
+/**
+ * Hands out the ID for a rule given a key naming what it's for (page,
+ * header, filter). See createRuleIdAllocator for why the key matters; tests
+ * that don't care can ignore it and just count.
+ */
+export type GetRuleId = (key: string) => number;
+
+export type RuleBuildOptions = {
+  // False on browsers without response header conditions - see
+  // supportsResponseHeaderConditions. Their filters are then ignored.
+  responseHeaderConditions?: boolean;
+  // Pages in "this tab only" mode. They're compiled by
+  // buildSessionRulesFromPages instead of buildRulesFromPages.
+  tabScopes?: TabScopes;
+};
+
+/**
+ * Builds the modifyHeaders entry for a header. DNR rejects a `value` on
+ * "remove" (and requires one for "set"/"append"), so it's only included
+ * when the operation actually uses it.
+ */
+export function buildHeaderInfo(
+  header: HeaderSetting
+): browser.DeclarativeNetRequest.RuleActionRequestHeadersItemType {
+  const operation = header.headerOperation ?? "set";
+  if (operation === "remove") {
+    return { header: header.headerName, operation };
+  }
+  return { header: header.headerName, operation, value: header.headerValue };
+}
+
+/**
+ * A filter's own resource types win over its page's; an empty selection at
+ * either level means "not restricted" rather than "matches nothing", which
+ * DNR would reject anyway.
+ */
+function resolveResourceTypes(
+  filterResourceTypes: ResourceType[] | undefined,
+  pageResourceTypes: ResourceType[]
+): ResourceType[] {
+  if (filterResourceTypes && filterResourceTypes.length > 0) {
+    return filterResourceTypes;
+  }
+  return pageResourceTypes.length > 0 ? pageResourceTypes : allResourceTypes;
+}
+
+/**
+ * What a filter or block entry matches on - see buildFilterCondition.
+ */
+type MatchSpec = Pick<HeaderFilter, "value" | "methods" | "resourceTypes"> & {
+  mode: HeaderFilter["mode"] | BlockSetting["mode"];
+};
+
+/**
+ * The part of a filter's condition that decides which URLs it matches,
+ * depending on its mode.
+ */
+function buildMatchCondition(filter: MatchSpec): RuleCondition {
+  switch (filter.mode) {
+    case "url":
+      return { urlFilter: filter.value };
+    case "domain":
+      return { requestDomains: parseDomainList(filter.value) };
+    case "initiator":
+      return { initiatorDomains: parseDomainList(filter.value) };
+    case "responseHeader":
+      return { responseHeaders: [parseResponseHeaderCondition(filter.value)] };
+    default:
+      return { regexFilter: filter.value };
+  }
+}
+
+/**
+ * Builds the DNR condition a single filter matches on. An exclude filter's
+ * methods narrow its allow rule the same way an include's narrow its
+ * modifyHeaders rule, so "exclude POSTs to X" still modifies GETs to X.
+ */
+export function buildFilterCondition(
+  filter: MatchSpec,
+  pageResourceTypes: ResourceType[] = allResourceTypes
+): RuleCondition {
+  return {
+    ...buildMatchCondition(filter),
+    ...(filter.methods && filter.methods.length > 0
+      ? { requestMethods: filter.methods }
+      : {}),
+    resourceTypes: resolveResourceTypes(filter.resourceTypes, pageResourceTypes),
+  };
+}
+
+/**
+ * What a group of filters compiles to (see buildFilterGroupCondition), or
+ * why it can't be.
+ */
+export type FilterGroupCondition = { condition: RuleCondition } | { error: string };
+
+const coversDomain = (domain: string, other: string) =>
+  domain === other || domain.endsWith(`.${other}`);
+
+/**
+ * The domains both lists match. requestDomains/initiatorDomains match
+ * subdomains too, so api.example.com and example.com overlap in
+ * api.example.com.
+ */
+function intersectDomains(a: string[], b: string[]): string[] {
+  return [
+    ...new Set([
+      ...a.filter((domain) => b.some((other) => coversDomain(domain, other))),
+      ...b.filter((domain) => a.some((other) => coversDomain(domain, other))),
+    ]),
+  ];
+}
+
+/**
+ * The domains every "domain" (or "initiator") filter of a group matches -
+ * undefined when it has none.
+ */
+function intersectDomainFilters(
   filters: HeaderFilter[],
-  getRuleId: () => number
-): browser.DeclarativeNetRequest.Rule[] {
-  const enabledFilters = filters.filter((filter) => filter.enabled && filter.valid);
-
-  const regexIncludes = enabledFilters
-    .filter((filter) => filter.type === "include" && filter.mode === "regex")
-    .map((filter) => filter.value);
-  const urlIncludes = enabledFilters
-    .filter((filter) => filter.type === "include" && filter.mode === "url")
-    .map((filter) => filter.value);
-
-  const regexExcludes = enabledFilters
-    .filter((filter) => filter.type === "exclude" && filter.mode === "regex")
-    .map((filter) => filter.value);
-  const urlExcludes = enabledFilters
-    .filter((filter) => filter.type === "exclude" && filter.mode === "url")
-    .map((filter) => filter.value);
+  mode: "domain" | "initiator"
+): string[] | undefined {
+  const lists = filters
+    .filter((filter) => filter.mode === mode)
+    .map((filter) => parseDomainList(filter.value));
+  return lists.length > 0 ? lists.reduce(intersectDomains) : undefined;
+}
 
-  const hType = header.headerType || "request";
-  const modifyHeadersAction: browser.DeclarativeNetRequest.Rule["action"] = {
-    type: "modifyHeaders",
-    ...(hType === "request"
-      ? {
-        requestHeaders: [
-          {
-            header: header.headerName,
-            operation: "set",
-            value: header.headerValue,
-          },
-        ],
-      }
-      : {
-        responseHeaders: [
-          {
-            header: header.headerName,
-            operation: "set",
-            value: header.headerValue,
-          },
-        ],
-      }),
+function intersect<T>(a: T[], b: T[]): T[] {
+  return a.filter((item) => b.includes(item));
+}
+
+/**
+ * The URL part of a group's condition. A rule has room for one urlFilter or
+ * regexFilter, so two or more URL and regex filters have to be combined into
+ * one pattern: read back into the filter builder's parts (see
+ * parseFilterValue), merged, and built again - as a urlFilter when they all
+ * were one and it can still be, a regex otherwise. RE2 has no lookaheads, so
+ * hand-written patterns can't be AND'ed any other way.
+ */
+function buildGroupUrlCondition(filters: HeaderFilter[]): FilterGroupCondition {
+  if (filters.length === 0) return { condition: {} };
+  if (filters.length === 1) return { condition: buildMatchCondition(filters[0]) };
+
+  const parts = filters.map((filter) =>
+    parseFilterValue(filter.value, filter.mode === "url" ? "url" : "regex")
+  );
+  if (parts.some((part) => !part)) {
+    return {
+      error:
+        "When a group has more than one URL or regex filter, all of them have to be ones the filter builder can read, so they can be combined into one pattern.",
+    };
+  }
+  const merged = (parts as FilterParts[]).reduce<FilterParts | null>(
+    (result, part) => result && mergeFilterParts(result, part),
+    parts[0]
+  );
+  if (!merged) {
+    return { error: "These URL and regex filters never match the same URL, so the group never matches." };
+  }
+
+  if (filters.every((filter) => filter.mode === "url")) {
+    const built = buildFilterValue(merged, "url");
+    if ("value" in built) return { condition: { urlFilter: built.value } };
+  }
+  const built = buildFilterValue(merged, "regex");
+  return "value" in built ? { condition: { regexFilter: built.value } } : built;
+}
+
+/**
+ * Builds the condition for a group of filters that must all match (see
+ * getFilterGroups) - a single filter's is buildFilterCondition's. URL and
+ * regex filters combine into one pattern (see buildGroupUrlCondition), and
+ * domains, methods and resource types are narrowed to the ones every filter
+ * allows.
+ *
+ * Returns an error instead when the browser can't express the combination,
+ * or nothing could match it: a rule's response header conditions are OR'ed,
+ * so a group can only have one of those.
+ */
+export function buildFilterGroupCondition(
+  filters: HeaderFilter[],
+  pageResourceTypes: ResourceType[] = allResourceTypes
+): FilterGroupCondition {
+  if (filters.length === 1) {
+    return { condition: buildFilterCondition(filters[0], pageResourceTypes) };
+  }
+
+  const responseHeaderFilters = filters.filter((filter) => filter.mode === "responseHeader");
+  if (responseHeaderFilters.length > 1) {
+    return {
+      error:
+        "A group can only have one response header filter - the browser matches a rule when any of its response headers do, not all.",
+    };
+  }
+
+  const url = buildGroupUrlCondition(
+    filters.filter((filter) => filter.mode === "url" || filter.mode === "regex")
+  );
+  if ("error" in url) return url;
+
+  const requestDomains = intersectDomainFilters(filters, "domain");
+  const initiatorDomains = intersectDomainFilters(filters, "initiator");
+  if (requestDomains?.length === 0 || initiatorDomains?.length === 0) {
+    return { error: "These filters' domains don't overlap, so the group never matches." };
+  }
+
+  const methodLists = filters
+    .map((filter) => filter.methods ?? [])
+    .filter((methods) => methods.length > 0);
+  const requestMethods = methodLists.length > 0 ? methodLists.reduce(intersect) : undefined;
+  if (requestMethods?.length === 0) {
+    return { error: "These filters' methods don't overlap, so the group never matches." };
+  }
+
+  const resourceTypes = filters
+    .map((filter) => resolveResourceTypes(filter.resourceTypes, pageResourceTypes))
+    .reduce(intersect);
+  if (resourceTypes.length === 0) {
+    return { error: "These filters' page types don't overlap, so the group never matches." };
+  }
+
+  return {
+    condition: {
+      ...url.condition,
+      ...(requestDomains ? { requestDomains } : {}),
+      ...(initiatorDomains ? { initiatorDomains } : {}),
+      ...(responseHeaderFilters.length > 0
+        ? { responseHeaders: [parseResponseHeaderCondition(responseHeaderFilters[0].value)] }
+        : {}),
+      ...(requestMethods ? { requestMethods } : {}),
+      resourceTypes,
+    },
   };
+}
 
-  const removeHeadersAction: browser.DeclarativeNetRequest.Rule["action"] = {
-    type: "modifyHeaders",
-    ...(hType === "request"
-      ? {
-        requestHeaders: [
-          {
-            header: header.headerName,
-            operation: "remove",
-          },
-        ],
-      }
-      : {
-        responseHeaders: [
-          {
-            header: header.headerName,
-            operation: "remove",
-          },
-        ],
-      }),
+/**
+ * The part of a rule key naming the filters a rule was built for - just the
+ * filter's id for a filter on its own, as before groups.
+ */
+const getGroupKey = (group: HeaderFilter[]): string =>
+  group.map((filter) => filter.id).join("+");
+
+/**
+ * The host a URL filter like `||example.com^` matches, subdomains included,
+ * and nothing else - which excludedRequestDomains says just as well. The
+ * `^` matters: `||example.com` also matches example.community, and
+ * `||example.com/` leaves out URLs with a port.
+ */
+function getHostOnlyUrlFilter(filter: HeaderFilter): string | null {
+  if (filter.mode !== "url" || !filter.value.trim().endsWith("^")) return null;
+  const parts = parseFilterValue(filter.value, "url");
+  return parts?.host &&
+    parts.includeSubdomains &&
+    parts.scheme === "any" &&
+    !parts.port &&
+    !parts.pathPrefix &&
+    !parts.extension
+    ? parts.host
+    : null;
+}
+
+/**
+ * Domain, initiator and response header excludes that apply to every request
+ * can be folded into the header's own modifyHeaders rules as
+ * excludedRequestDomains / excludedInitiatorDomains / excludedResponseHeaders
+ * instead of costing an allow rule, and so can a URL exclude naming just a
+ * host (see getHostOnlyUrlFilter). Ones narrowed by methods or resource
+ * types can't - those conditions would then apply to the whole rule - so
+ * they still become allow rules.
+ */
+function isFoldableExclude(filter: HeaderFilter): boolean {
+  return (
+    (filter.mode === "domain" ||
+      filter.mode === "initiator" ||
+      filter.mode === "responseHeader" ||
+      getHostOnlyUrlFilter(filter) !== null) &&
+    !filter.methods?.length &&
+    !filter.resourceTypes?.length
+  );
+}
+
+/**
+ * Orders filter groups so rules come out in a stable order regardless of
+ * how the filters were added: filters on their own by mode (regex, url,
+ * domain, initiator), then groups of several in list order.
+ */
+function sortByMode(groups: HeaderFilter[][]): HeaderFilter[][] {
+  return [
+    ...filterModeSchema.options.flatMap((mode) =>
+      groups.filter((group) => group.length === 1 && group[0].mode === mode)
+    ),
+    ...groups.filter((group) => group.length > 1),
+  ];
+}
+
+/**
+ * Splits a page entry's usable exclude groups into the filters folded into
+ * its own rules (see isFoldableExclude) and the groups that need an allow
+ * rule. A group of several always does: folding one of its filters would
+ * exclude on that filter alone.
+ */
+function splitExcludes(excludes: HeaderFilter[][]): {
+  foldedExcludesCondition: RuleCondition;
+  allowExcludes: HeaderFilter[][];
+} {
+  const isFoldableGroup = (group: HeaderFilter[]) =>
+    group.length === 1 && isFoldableExclude(group[0]);
+  const foldedExcludes = excludes.filter(isFoldableGroup).map(([filter]) => filter);
+
+  const excludedRequestDomains = foldedExcludes.flatMap((filter) =>
+    filter.mode === "domain" ? parseDomainList(filter.value) : getHostOnlyUrlFilter(filter) ?? []
+  );
+  const excludedInitiatorDomains = foldedExcludes
+    .filter((filter) => filter.mode === "initiator")
+    .flatMap((filter) => parseDomainList(filter.value));
+  const excludedResponseHeaders = foldedExcludes
+    .filter((filter) => filter.mode === "responseHeader")
+    .map((filter) => parseResponseHeaderCondition(filter.value));
+
+  return {
+    foldedExcludesCondition: {
+      ...(excludedRequestDomains.length > 0 ? { excludedRequestDomains } : {}),
+      ...(excludedInitiatorDomains.length > 0 ? { excludedInitiatorDomains } : {}),
+      ...(excludedResponseHeaders.length > 0 ? { excludedResponseHeaders } : {}),
+    },
+    allowExcludes: excludes.filter((group) => !isFoldableGroup(group)),
+  };
+}
+
+/**
+ * The DNR priorities for a page's precedence level among the applied pages
+ * (see getAppliedPrecedenceLevels), out of `levelCount` levels. An allow rule stops every lower-priority rule
+ * on the request, not just the ones of the entry it was built for, so the
+ * priorities come in two bands:
+ *
+ * - Entries with allow rules (see buildAllowRuleDrafts) sit in the lower
+ *   band, each level with its own pair: the entry's rules on the odd
+ *   priority (exemptPriority), its allow rules on the even one above. A
+ *   higher page's allow rules are above them too (see getExcludeClashes).
+ * - Every other entry sits in the upper band (includePriority), above all
+ *   allow rules, where no exclude reaches it.
+ *
+ * Within a band a higher page's rules win over a lower page's. An upper
+ * band rule would also win over a higher page's lower band one, so where
+ * the two conflict it moves down (see lowerConflictingDrafts).
+ */
+function getPriorities(precedence: number, levelCount: number) {
+  const exemptPriority = 1 + precedence * 2;
+  return {
+    includePriority: 1 + levelCount * 2 + precedence,
+    exemptPriority,
+    allowPriority: exemptPriority + 1,
   };
+}
+
+type Priorities = ReturnType<typeof getPriorities>;
+
+// A lone page, or a header built on its own by buildHeaderRules.
+const singlePagePriorities = getPriorities(0, 1);
+
+/**
+ * A rule before it's given an ID, with the key its ID will be derived from.
+ */
+type RuleDraft = {
+  key: string;
+  rule: Omit<browser.DeclarativeNetRequest.Rule, "id">;
+  // The page filter the rule was built for - the first of its group's, see
+  // getFilterGroupMembers. Missing for a catch-all, and for a redirect or
+  // block matching on its own pattern.
+  filterId?: string;
+};
 
-  const rules: browser.DeclarativeNetRequest.Rule[] = [];
+/**
+ * The drafts of one page entry, `ownerId` naming it (see RuleSource).
+ */
+type OwnerDrafts = { ownerId: string; drafts: RuleDraft[] };
 
-  regexIncludes.forEach((regexFilter) => {
-    rules.push({
-      id: getRuleId(),
-      priority: 1,
-      action: modifyHeadersAction,
-      condition: {
-        regexFilter,
-        resourceTypes: allResourceTypes,
+/**
+ * The allow rules for exclude groups that couldn't be folded into the rules
+ * of the page entry (header, query parameter, redirect or block) `ownerId`.
+ * A group the browser can't express (see buildFilterGroupCondition) never
+ * excludes.
+ *
+ * Exclude filters stop our modification rather than stripping the header:
+ * a higher-priority "allow" rule makes DNR skip every lower-priority
+ * modifyHeaders, redirect and block rule for that request, so the
+ * browser/server-sent value passes through untouched. Allow rules aren't
+ * scoped to a single entry, which is why the entry's own rules have to move
+ * below them (see getPriorities) while other entries' stay above.
+ */
+function buildAllowRuleDrafts(
+  ownerId: string,
+  allowExcludes: HeaderFilter[][],
+  resourceTypes: ResourceType[],
+  { allowPriority }: Priorities
+): RuleDraft[] {
+  return allowExcludes.flatMap((group) => {
+    const built = buildFilterGroupCondition(group, resourceTypes);
+    if ("error" in built) return [];
+    return [
+      {
+        key: `${ownerId}/${getGroupKey(group)}`,
+        filterId: group[0].id,
+        rule: {
+          priority: allowPriority,
+          action: { type: "allow" },
+          condition: built.condition,
+        },
       },
-    });
+    ];
   });
+}
+
+/**
+ * The priority of an entry's own rules: in the lower band, under its allow
+ * rules, when it has any - otherwise in the upper one (see getPriorities).
+ */
+const getEntryPriority = (allowDrafts: RuleDraft[], priorities: Priorities): number =>
+  allowDrafts.length > 0 ? priorities.exemptPriority : priorities.includePriority;
+
+/**
+ * Builds the rules that apply `action` wherever a page's filters say so,
+ * minus their IDs: one per include filter group (see
+ * getEnabledFilterGroups), or a catch-all when there are no include filters,
+ * with the excludes folded in or turned into allow rules. Shared by headers
+ * and query parameters - `ownerId` names which one.
+ *
+ * `priorities` are the page's, see getPriorities.
+ */
+function buildFilteredRuleDrafts(
+  ownerId: string,
+  action: browser.DeclarativeNetRequest.Rule["action"],
+  filters: HeaderFilter[],
+  resourceTypes: ResourceType[],
+  canMatchResponseHeaders: boolean,
+  priorities: Priorities
+): RuleDraft[] {
+  const groups = getEnabledFilterGroups(filters);
+
+  // A response header filter that can't match (see buildHeaderRuleDrafts)
+  // still counts as an include, so the catch-all doesn't kick in and apply
+  // the action everywhere, but produces no rule; as an exclude it never
+  // excludes. The same goes for a group it's in, for a group with an
+  // invalid filter (see getEnabledFilterGroups) and for a group the browser
+  // can't express (see buildFilterGroupCondition).
+  const isUsable = (group: HeaderFilter[]) =>
+    group.every(
+      (filter) =>
+        filter.valid && (filter.mode !== "responseHeader" || canMatchResponseHeaders)
+    );
+
+  const includeGroups = groups.filter((group) => group[0].type === "include");
+  const includes = sortByMode(includeGroups.filter(isUsable));
+  const excludes = sortByMode(
+    groups.filter((group) => group[0].type === "exclude").filter(isUsable)
+  );
+  const { foldedExcludesCondition, allowExcludes } = splitExcludes(excludes);
+
+  const allowDrafts = buildAllowRuleDrafts(ownerId, allowExcludes, resourceTypes, priorities);
+  const priority = getEntryPriority(allowDrafts, priorities);
 
-  urlIncludes.forEach((urlFilter) => {
-    rules.push({
-      id: getRuleId(),
-      priority: 1,
-      action: modifyHeadersAction,
-      condition: {
-        urlFilter,
-        resourceTypes: allResourceTypes,
+  const drafts: RuleDraft[] = [];
+
+  includes.forEach((group) => {
+    const built = buildFilterGroupCondition(group, resourceTypes);
+    if ("error" in built) return;
+    drafts.push({
+      key: `${ownerId}/${getGroupKey(group)}`,
+      filterId: group[0].id,
+      rule: {
+        priority,
+        action,
+        condition: {
+          ...built.condition,
+          ...foldedExcludesCondition,
+        },
       },
     });
   });
 
   // Default catch-all: only when no include filters are defined
-  if (regexIncludes.length === 0 && urlIncludes.length === 0) {
-    rules.push({
-      id: getRuleId(),
-      priority: 1,
-      action: modifyHeadersAction,
-      condition: {
-        regexFilter: "|http*",
-        resourceTypes: allResourceTypes,
+  if (includeGroups.length === 0) {
+    drafts.push({
+      key: `${ownerId}/*`,
+      rule: {
+        priority,
+        action,
+        condition: {
+          regexFilter: "|http*",
+          ...foldedExcludesCondition,
+          resourceTypes: resolveResourceTypes(undefined, resourceTypes),
+        },
       },
     });
   }
 
-  if (regexExcludes.length > 0) {
-    regexExcludes.forEach((regexFilter) => {
-      rules.push({
-        id: getRuleId(),
-        priority: 2,
-        action: removeHeadersAction,
+  return [...drafts, ...allowDrafts];
+}
+
+/**
+ * Builds the rules for a single enabled header, minus their IDs.
+ */
+function buildHeaderRuleDrafts(
+  header: HeaderSetting,
+  filters: HeaderFilter[],
+  resourceTypes: ResourceType[],
+  options: RuleBuildOptions,
+  priorities = singlePagePriorities
+): RuleDraft[] {
+  const hType = header.headerType || "request";
+
+  // Response header conditions are only evaluated once the response
+  // arrives, long after request headers were sent, and not at all on
+  // browsers that don't support them.
+  const canMatchResponseHeaders =
+    hType === "response" && options.responseHeaderConditions !== false;
+
+  const modifyHeadersAction: browser.DeclarativeNetRequest.Rule["action"] = {
+    type: "modifyHeaders",
+    ...(hType === "request"
+      ? { requestHeaders: [buildHeaderInfo(header)] }
+      : { responseHeaders: [buildHeaderInfo(header)] }),
+  };
+
+  return buildFilteredRuleDrafts(
+    header.id,
+    modifyHeadersAction,
+    filters,
+    resourceTypes,
+    canMatchResponseHeaders,
+    priorities
+  );
+}
+
+/**
+ * Builds the queryTransform for a query parameter change. "add" sets the
+ * parameter whether or not the URL has it; "replace" leaves URLs without it
+ * alone.
+ */
+export function buildQueryTransform(
+  param: QueryParamSetting
+): QueryTransform {
+  switch (param.operation) {
+    case "remove":
+      return { removeParams: [param.key] };
+    case "replace":
+      return { addOrReplaceParams: [{ key: param.key, value: param.value, replaceOnly: true }] };
+    default:
+      return { addOrReplaceParams: [{ key: param.key, value: param.value }] };
+  }
+}
+
+/**
+ * Builds the rules for a single applied query parameter change, minus their
+ * IDs. Applied under the page's filters like a header, as a redirect that
+ * only transforms the query. The browser doesn't follow a redirect that
+ * leaves the URL unchanged, so once the parameters are in place the
+ * redirected request goes through - and gets the page's headers.
+ */
+function buildQueryParamRuleDrafts(
+  param: QueryParamSetting,
+  filters: HeaderFilter[],
+  resourceTypes: ResourceType[],
+  priorities: Priorities
+): RuleDraft[] {
+  return buildFilteredRuleDrafts(
+    `query:${param.id}`,
+    { type: "redirect", redirect: { transform: { queryTransform: buildQueryTransform(param) } } },
+    filters,
+    resourceTypes,
+    // A redirect happens before there's a response.
+    false,
+    priorities
+  );
+}
+
+/**
+ * A page's usable exclude groups for rules that act before there's a
+ * response (redirects and blocks), which response header filters - and
+ * groups with one - can't match. Groups with an invalid filter are left out
+ * as in buildFilteredRuleDrafts.
+ */
+function getRequestExcludes(filters: HeaderFilter[]): HeaderFilter[][] {
+  return sortByMode(
+    getEnabledFilterGroups(filters).filter(
+      (group) =>
+        group[0].type === "exclude" &&
+        group.every((filter) => filter.valid && filter.mode !== "responseHeader")
+    )
+  );
+}
+
+/**
+ * Builds the redirect action for a redirect. A target with capture group
+ * references fills them in from the source's match, anything else is a
+ * fixed URL.
+ */
+export function buildRedirectAction(
+  redirect: RedirectSetting
+): browser.DeclarativeNetRequest.Rule["action"] {
+  return {
+    type: "redirect",
+    redirect: usesCaptureGroups(redirect.target)
+      ? { regexSubstitution: redirect.target }
+      : { url: redirect.target },
+  };
+}
+
+/**
+ * Builds the rules for a single applied redirect, minus their IDs.
+ *
+ * A redirect matches on its own source pattern rather than its page's
+ * include filters (a rule can only have one regexFilter), but otherwise
+ * behaves like the page's headers: it's only applied while the page is, at
+ * the page's precedence, for the page's resource types, and the page's
+ * excludes stop it. Response header filters never match: the redirect
+ * happens before there's a response.
+ */
+function buildRedirectRuleDrafts(
+  redirect: RedirectSetting,
+  filters: HeaderFilter[],
+  resourceTypes: ResourceType[],
+  priorities: Priorities
+): RuleDraft[] {
+  const { foldedExcludesCondition, allowExcludes } = splitExcludes(
+    getRequestExcludes(filters)
+  );
+  const ownerId = `redirect:${redirect.id}`;
+  const allowDrafts = buildAllowRuleDrafts(ownerId, allowExcludes, resourceTypes, priorities);
+
+  return [
+    {
+      key: ownerId,
+      rule: {
+        priority: getEntryPriority(allowDrafts, priorities),
+        action: buildRedirectAction(redirect),
+        condition: {
+          regexFilter: redirect.source,
+          ...foldedExcludesCondition,
+          resourceTypes: resolveResourceTypes(undefined, resourceTypes),
+        },
+      },
+    },
+    ...allowDrafts,
+  ];
+}
+
+/**
+ * Builds the rules for a single applied block entry, minus their IDs. Like
+ * a redirect it matches on its own pattern - read as a filter in the same
+ * mode would be - and otherwise follows its page, excludes included.
+ */
+function buildBlockRuleDrafts(
+  block: BlockSetting,
+  filters: HeaderFilter[],
+  resourceTypes: ResourceType[],
+  priorities: Priorities
+): RuleDraft[] {
+  const { foldedExcludesCondition, allowExcludes } = splitExcludes(
+    getRequestExcludes(filters)
+  );
+  const ownerId = `block:${block.id}`;
+  const allowDrafts = buildAllowRuleDrafts(ownerId, allowExcludes, resourceTypes, priorities);
+
+  return [
+    {
+      key: ownerId,
+      rule: {
+        priority: getEntryPriority(allowDrafts, priorities),
+        action: { type: "block" },
         condition: {
-          regexFilter,
-          resourceTypes: allResourceTypes,
+          ...buildFilterCondition(block, resourceTypes),
+          ...foldedExcludesCondition,
         },
+      },
+    },
+    ...allowDrafts,
+  ];
+}
+
+/**
+ * Builds the DNR rules for a single enabled header within a page.
+ */
+export function buildHeaderRules(
+  header: HeaderSetting,
+  filters: HeaderFilter[],
+  getRuleId: GetRuleId,
+  resourceTypes: ResourceType[] = allResourceTypes,
+  options: RuleBuildOptions = {}
+): browser.DeclarativeNetRequest.Rule[] {
+  return buildHeaderRuleDrafts(header, filters, resourceTypes, options).map(
+    ({ key, rule }) => ({ id: getRuleId(key), ...rule })
+  );
+}
+
+type HeaderInfo = browser.DeclarativeNetRequest.RuleActionRequestHeadersItemType;
+type QueryTransform = browser.DeclarativeNetRequest.URLTransformQueryTransformType;
+type QueryParamInfo =
+  browser.DeclarativeNetRequest.URLTransformQueryTransformAddOrReplaceParamsItemType;
+
+type RuleGroup = {
+  key: string;
+  priority: number;
+  action: browser.DeclarativeNetRequest.Rule["action"];
+  condition: RuleCondition;
+  requestHeaders: HeaderInfo[];
+  responseHeaders: HeaderInfo[];
+  addOrReplaceParams: QueryParamInfo[];
+  removeParams: string[];
+  // The headers, query parameters, redirects and blocks whose rules were
+  // merged into this one.
+  ownerIds: Set<string>;
+  sources: RuleSource[];
+};
+
+/**
+ * A page entry a rule was built for - a header's id, or a query parameter's,
+ * redirect's or block's prefixed with "query:", "redirect:" or "block:" -
+ * and the filter it was built for (see RuleDraft).
+ */
+export type RuleSource = {
+  ownerId: string;
+  filterId?: string;
+};
+
+/**
+ * A merged rule before it's given an ID, with every entry merged into it.
+ */
+type MergedRuleDraft = RuleDraft & { sources: RuleSource[] };
+
+/**
+ * Combines the rules of a page's headers that share a condition into one
+ * rule, since a modifyHeaders action can carry any number of request and
+ * response headers. Every header of a page shares its filters, so without
+ * this a page with 20 headers and 5 filters costs 100 rules instead of 5 -
+ * and regex rules have a much smaller quota than that. Allow rules for the
+ * same exclude are identical for every entry of the page, so they collapse
+ * to one.
+ *
+ * Two headers with the same name never share a rule (the second gets a
+ * rule of its own with the same condition), so "set" and "append" on one
+ * header keep behaving as they did as separate rules.
+ *
+ * Query parameter changes combine the same way, into one queryTransform -
+ * which they have to, since the browser only follows one redirect per
+ * request.
+ */
+function mergeHeaderRules(ownerDrafts: OwnerDrafts[]): MergedRuleDraft[] {
+  const groups: RuleGroup[] = [];
+  const groupsByCondition = new Map<string, RuleGroup[]>();
+  const groupCountsByKey = new Map<string, number>();
+
+  ownerDrafts.forEach(({ ownerId, drafts }) => {
+    drafts.forEach(({ rule, filterId }) => {
+      const source: RuleSource = filterId ? { ownerId, filterId } : { ownerId };
+      const queryTransform = rule.action.redirect?.transform?.queryTransform;
+      // The priority decides what can merge but stays out of the rule key:
+      // it moves whenever a page is added or reordered, and the rules (and
+      // their IDs) shouldn't all move with it.
+      const ruleKey = canonicalJson({
+        type: queryTransform ? "queryTransform" : rule.action.type,
+        condition: rule.condition,
       });
+      const conditionKey = `${rule.priority ?? 1}:${ruleKey}`;
+      const candidates = groupsByCondition.get(conditionKey) ?? [];
+      const requestHeaders = rule.action.requestHeaders ?? [];
+      const responseHeaders = rule.action.responseHeaders ?? [];
+      const hasHeader = (group: RuleGroup) =>
+        requestHeaders.some((info) =>
+          group.requestHeaders.some((other) => sameHeaderName(info, other))
+        ) ||
+        responseHeaders.some((info) =>
+          group.responseHeaders.some((other) => sameHeaderName(info, other))
+        );
+      const addOrReplaceParams = queryTransform?.addOrReplaceParams ?? [];
+      const removeParams = queryTransform?.removeParams ?? [];
+      // Parameter names are case-sensitive, unlike header names.
+      const hasParam = (group: RuleGroup) =>
+        [...addOrReplaceParams.map(({ key }) => key), ...removeParams].some(
+          (key) =>
+            group.addOrReplaceParams.some((other) => other.key === key) ||
+            group.removeParams.includes(key)
+        );
+
+      // A header with two filters that compile to the same condition (a
+      // duplicated filter) only needs one of them.
+      if (candidates.some((group) => group.ownerIds.has(ownerId))) return;
+
+      // Redirects never share a rule - each has its own target - while
+      // identical allow or block rules are one and the same.
+      const group =
+        rule.action.type === "modifyHeaders"
+          ? candidates.find((candidate) => !hasHeader(candidate))
+          : queryTransform
+            ? candidates.find((candidate) => !hasParam(candidate))
+            : rule.action.type === "allow" || rule.action.type === "block"
+              ? candidates[0]
+              : undefined;
+      if (group) {
+        group.requestHeaders.push(...requestHeaders);
+        group.responseHeaders.push(...responseHeaders);
+        group.addOrReplaceParams.push(...addOrReplaceParams);
+        group.removeParams.push(...removeParams);
+        group.ownerIds.add(ownerId);
+        group.sources.push(source);
+        return;
+      }
+
+      const keyCount = groupCountsByKey.get(ruleKey) ?? 0;
+      groupCountsByKey.set(ruleKey, keyCount + 1);
+      const newGroup: RuleGroup = {
+        key: keyCount === 0 ? ruleKey : `${ruleKey}#${keyCount}`,
+        priority: rule.priority ?? 1,
+        action: rule.action,
+        condition: rule.condition,
+        requestHeaders: [...requestHeaders],
+        responseHeaders: [...responseHeaders],
+        addOrReplaceParams: [...addOrReplaceParams],
+        removeParams: [...removeParams],
+        ownerIds: new Set([ownerId]),
+        sources: [source],
+      };
+      groups.push(newGroup);
+      groupsByCondition.set(conditionKey, [...candidates, newGroup]);
     });
-  }
+  });
+
+  return groups.map((group) => ({
+    key: group.key,
+    rule: {
+      priority: group.priority,
+      action: buildGroupAction(group),
+      condition: group.condition,
+    },
+    sources: group.sources,
+  }));
+}
 
-  urlExcludes.forEach((urlFilter) => {
-    rules.push({
-      id: getRuleId(),
-      priority: 2,
-      action: removeHeadersAction,
-      condition: {
-        urlFilter,
-        resourceTypes: allResourceTypes,
+/**
+ * A merged rule group's action, carrying every header or query parameter
+ * change merged into it.
+ */
+function buildGroupAction(group: RuleGroup): browser.DeclarativeNetRequest.Rule["action"] {
+  if (group.action.type === "modifyHeaders") {
+    return {
+      type: "modifyHeaders",
+      ...(group.requestHeaders.length > 0 ? { requestHeaders: group.requestHeaders } : {}),
+      ...(group.responseHeaders.length > 0 ? { responseHeaders: group.responseHeaders } : {}),
+    };
+  }
+  if (group.action.redirect?.transform?.queryTransform) {
+    return {
+      type: "redirect",
+      redirect: {
+        transform: {
+          queryTransform: {
+            ...(group.removeParams.length > 0 ? { removeParams: group.removeParams } : {}),
+            ...(group.addOrReplaceParams.length > 0
+              ? { addOrReplaceParams: group.addOrReplaceParams }
+              : {}),
+          },
+        },
       },
-    });
+    };
+  }
+  return group.action;
+}
+
+/**
+ * Header names are case-insensitive.
+ */
+function sameHeaderName(a: HeaderInfo, b: HeaderInfo): boolean {
+  return a.header.toLowerCase() === b.header.toLowerCase();
+}
+
+/**
+ * The tabs a page is limited to in "this tab only" mode - empty when it
+ * isn't in that mode.
+ */
+export function getPageTabIds(page: Page, tabScopes: TabScopes = {}): number[] {
+  return page.pageId ? tabScopes[page.pageId] ?? [] : [];
+}
+
+/**
+ * Whether a page's rules should be applied everywhere: paused always wins
+ * over being the selected page (enabled) or keepEnabled, and a page in
+ * "this tab only" mode only applies to its tabs.
+ */
+function isPageActive(page: Page, tabScopes: TabScopes = {}): boolean {
+  if (page.paused) return false;
+  if (getPageTabIds(page, tabScopes).length > 0) return false;
+  return page.enabled || page.keepEnabled;
+}
+
+/**
+ * Whether a page is running in "this tab only" mode. Its selection and
+ * keepEnabled don't matter then, but pausing it still does.
+ */
+function isPageTabScoped(page: Page, tabScopes: TabScopes = {}): boolean {
+  return !page.paused && getPageTabIds(page, tabScopes).length > 0;
+}
+
+export type RuleSet = "dynamic" | "session";
+
+/**
+ * A compiled rule with where it came from, for the rule inspector.
+ */
+export type ExplainedRule = {
+  rule: browser.DeclarativeNetRequest.Rule;
+  ruleSet: RuleSet;
+  page: Page;
+  sources: RuleSource[];
+};
+
+/**
+ * Builds one page's header, query parameter, redirect and block rules,
+ * before they're merged, at the page's priorities (see getPriorities).
+ */
+function buildPageDrafts(
+  page: Page,
+  options: RuleBuildOptions,
+  priorities: Priorities
+): OwnerDrafts[] {
+  const resourceTypes = page.resourceTypes ?? allResourceTypes;
+  const headerDrafts = page.headers
+    .filter(isHeaderApplied)
+    .map((header) => ({
+      ownerId: header.id,
+      drafts: buildHeaderRuleDrafts(
+        header,
+        page.filters || [],
+        resourceTypes,
+        options,
+        priorities
+      ),
+    }));
+  const redirectDrafts = (page.redirects ?? [])
+    .filter(isRedirectApplied)
+    .map((redirect) => ({
+      ownerId: `redirect:${redirect.id}`,
+      drafts: buildRedirectRuleDrafts(
+        redirect,
+        page.filters || [],
+        resourceTypes,
+        priorities
+      ),
+    }));
+
+  const queryParamDrafts = (page.queryParams ?? [])
+    .filter(isQueryParamApplied)
+    .map((param) => ({
+      ownerId: `query:${param.id}`,
+      drafts: buildQueryParamRuleDrafts(param, page.filters || [], resourceTypes, priorities),
+    }));
+  const blockDrafts = (page.blocks ?? [])
+    .filter(isBlockApplied)
+    .map((block) => ({
+      ownerId: `block:${block.id}`,
+      drafts: buildBlockRuleDrafts(block, page.filters || [], resourceTypes, priorities),
+    }));
+
+  return [...headerDrafts, ...queryParamDrafts, ...redirectDrafts, ...blockDrafts];
+}
+
+/**
+ * What an entry's rules compete with other entries' over: the headers they
+ * set, and for redirects, query parameters and blocks, what happens to the
+ * request.
+ */
+function getConflictKeys(drafts: RuleDraft[]): string[] {
+  return drafts.flatMap(({ rule }) => [
+    ...(rule.action.requestHeaders ?? []).map(({ header }) => `request:${header.toLowerCase()}`),
+    ...(rule.action.responseHeaders ?? []).map(({ header }) => `response:${header.toLowerCase()}`),
+    ...(rule.action.type === "redirect" || rule.action.type === "block" ? ["request"] : []),
+  ]);
+}
+
+/**
+ * Moves upper band entries down to their level's exemptPriority where they
+ * conflict with a higher page's lower band entry (see getPriorities), so
+ * the higher page still wins. The higher page's excludes reach the moved
+ * entries then, which is the price of keeping precedence - entries that
+ * don't conflict stay out of their reach. Pages not applied anywhere are
+ * null.
+ */
+function lowerConflictingDrafts(
+  pageDrafts: (OwnerDrafts[] | null)[],
+  precedence: number[],
+  levelCount: number
+): (OwnerDrafts[] | null)[] {
+  const lowered = [...pageDrafts];
+  const exemptKeys = new Set<string>();
+  const byPrecedence = pageDrafts
+    .map((_, index) => index)
+    .sort((a, b) => precedence[b] - precedence[a]);
+
+  byPrecedence.forEach((index) => {
+    const owners = pageDrafts[index];
+    if (!owners) return;
+    const { exemptPriority } = getPriorities(precedence[index], levelCount);
+    const isExempt = (owner: OwnerDrafts) =>
+      owner.drafts.some(({ rule }) => rule.priority === exemptPriority);
+
+    lowered[index] = owners.map((owner) =>
+      !isExempt(owner) && getConflictKeys(owner.drafts).some((key) => exemptKeys.has(key))
+        ? {
+            ...owner,
+            drafts: owner.drafts.map((draft) => ({
+              ...draft,
+              rule: { ...draft.rule, priority: exemptPriority },
+            })),
+          }
+        : owner
+    );
+    lowered[index]
+      ?.filter(isExempt)
+      .forEach((owner) => getConflictKeys(owner.drafts).forEach((key) => exemptKeys.add(key)));
   });
+  return lowered;
+}
 
-  return rules;
+/**
+ * The rule set a page's rules go to, or null when it isn't applied
+ * anywhere.
+ */
+function getPageRuleSet(page: Page, tabScopes: TabScopes = {}): RuleSet | null {
+  if (isPageTabScoped(page, tabScopes)) return "session";
+  if (!isPageActive(page, tabScopes)) return null;
+  return page.sessionOnly ? "session" : "dynamic";
+}
+
+/**
+ * Merges one page's drafts (see mergeHeaderRules) and gives them IDs. Rule
+ * keys are prefixed with the page's identity (header ids aren't unique
+ * across pages - duplicating a page copies them) and with the rule set, so
+ * a page moving between dynamic and session rules never hands the same ID
+ * to both sets.
+ */
+function buildPageRules(
+  page: Page,
+  ownerDrafts: OwnerDrafts[],
+  getRuleId: GetRuleId,
+  ruleSet: RuleSet
+): ExplainedRule[] {
+  const pageKey = page.pageId ?? `page-${page.id}`;
+  const getPageRuleId: GetRuleId = (key) => getRuleId(`${ruleSet}:${pageKey}:${key}`);
+
+  return mergeHeaderRules(ownerDrafts).map(({ key, rule, sources }) => ({
+    rule: { id: getPageRuleId(key), ...rule },
+    ruleSet,
+    page,
+    sources,
+  }));
 }
 
 /**
@@ -168,23 +1114,184 @@ export function buildHeaderRules(
  * It is tested separately so we can verify migration behaviour (e.g. old
  * stored pages whose filters lack a `mode`) without loading
  * webextension-polyfill.
+ *
+ * Only covers the persistent (dynamic) rules - session-only and "this tab
+ * only" pages are compiled by buildSessionRulesFromPages.
+ *
+ * Pass every page, not just the active ones: a page's rule priorities come
+ * from its precedence among the applied ones (see getPriorities), whichever
+ * rule set they go to, so two pages setting the same header resolve the
+ * same way in both.
  */
 export function buildRulesFromPages(
   pages: Page[],
-  getRuleId: () => number
+  getRuleId: GetRuleId,
+  options: RuleBuildOptions = {}
+): browser.DeclarativeNetRequest.Rule[] {
+  return explainRuleSet(pages, getRuleId, options, "dynamic").map(({ rule }) => rule);
+}
+
+/**
+ * Builds the session rules, which unlike dynamic ones don't outlive the
+ * browser session: active pages flagged `sessionOnly`, and pages in "this
+ * tab only" mode - their usual rules with a tabIds condition limiting them
+ * to their tabs (tab ids don't outlive the session either).
+ *
+ * Pass the same getRuleId as buildRulesFromPages so no session rule reuses
+ * a dynamic rule's ID.
+ */
+export function buildSessionRulesFromPages(
+  pages: Page[],
+  getRuleId: GetRuleId,
+  options: RuleBuildOptions = {}
 ): browser.DeclarativeNetRequest.Rule[] {
-  const rules: browser.DeclarativeNetRequest.Rule[] = [];
+  return explainRuleSet(pages, getRuleId, options, "session").map(({ rule }) => rule);
+}
+
+/**
+ * The dynamic and session rules, in the order the background compiles them
+ * (so a fresh getRuleId hands out the same IDs), each with the page and
+ * entries it came from.
+ */
+export function explainRulesFromPages(
+  pages: Page[],
+  getRuleId: GetRuleId,
+  options: RuleBuildOptions = {}
+): ExplainedRule[] {
+  return [
+    ...explainRuleSet(pages, getRuleId, options, "dynamic"),
+    ...explainRuleSet(pages, getRuleId, options, "session"),
+  ];
+}
+
+/**
+ * The precedence levels (see getPrecedenceLevels) of the pages applied
+ * anywhere, ranked among themselves, indexed like `pages` - 0 for the rest.
+ * Pages that aren't applied don't take up a level, so adding, pausing or
+ * switching off one doesn't move every other page's rule priorities.
+ */
+function getAppliedPrecedenceLevels(pages: Page[], ruleSets: (RuleSet | null)[]): number[] {
+  const appliedPages = pages.filter((_, index) => ruleSets[index] !== null);
+  const levels = getPrecedenceLevels(appliedPages);
+  return pages.map((page) => {
+    const appliedIndex = appliedPages.indexOf(page);
+    return appliedIndex === -1 ? 0 : levels[appliedIndex];
+  });
+}
+
+function explainRuleSet(
+  pages: Page[],
+  getRuleId: GetRuleId,
+  options: RuleBuildOptions,
+  ruleSet: RuleSet
+): ExplainedRule[] {
+  // Both rule sets are built, whichever is asked for: the browser
+  // evaluates them together, so one set's excludes can move the other's
+  // rules down (see lowerConflictingDrafts).
+  const ruleSets = pages.map((page) => getPageRuleSet(page, options.tabScopes));
+  const precedence = getAppliedPrecedenceLevels(pages, ruleSets);
+  const levelCount = ruleSets.filter((pageRuleSet) => pageRuleSet !== null).length;
+  const pageDrafts = lowerConflictingDrafts(
+    pages.map((page, index) =>
+      ruleSets[index]
+        ? buildPageDrafts(page, options, getPriorities(precedence[index], levelCount))
+        : null
+    ),
+    precedence,
+    levelCount
+  );
 
-  pages.forEach((page) => {
-    if (page.paused) return;
-    if (!page.enabled && !page.keepEnabled) return;
+  return pages.flatMap((page, index) => {
+    const ownerDrafts = pageDrafts[index];
+    if (ruleSets[index] !== ruleSet || !ownerDrafts) return [];
+    const rules = buildPageRules(page, ownerDrafts, getRuleId, ruleSet);
+    if (!isPageTabScoped(page, options.tabScopes)) return rules;
 
-    page.headers.forEach((header) => {
-      if (header.headerEnabled && header.headerName) {
-        rules.push(...buildHeaderRules(header, page.filters || [], getRuleId));
+    // "This tab only" pages get their usual rules, limited to their tabs.
+    const tabIds = getPageTabIds(page, options.tabScopes);
+    return rules.map((explained) => ({
+      ...explained,
+      rule: {
+        ...explained.rule,
+        condition: { ...explained.rule.condition, tabIds },
+      },
+    }));
+  });
+}
+
+/**
+ * Another page's entries that a page's excludes stop too, by their rule
+ * source ids (see RuleSource).
+ */
+export type ExcludeClash = { page: Page; reachedPage: Page; ownerIds: string[] };
+
+/**
+ * Where one page's excludes stop another page's entries. An allow rule
+ * stops every lower-priority rule on the request, whichever page it's from,
+ * so a page's allow rules reach the lower band entries of the pages below
+ * it (see getPriorities): ones with allow rules of their own, and ones
+ * moved down by lowerConflictingDrafts. No choice of priorities avoids
+ * that - of two pages with allow rules, one's always sit above the other's
+ * entries - so it's reported instead.
+ */
+export function getExcludeClashes(explained: ExplainedRule[]): ExcludeClash[] {
+  const isAllow = ({ rule }: ExplainedRule) => rule.action.type === "allow";
+  const pagesWithAllows = [...new Set(explained.filter(isAllow).map(({ page }) => page))];
+
+  return pagesWithAllows.flatMap((page) => {
+    const allowPriority = Math.max(
+      ...explained
+        .filter((entry) => entry.page === page && isAllow(entry))
+        .map(({ rule }) => rule.priority ?? 1)
+    );
+    const reached = new Map<Page, Set<string>>();
+    explained.forEach((entry) => {
+      if (entry.page === page || isAllow(entry) || (entry.rule.priority ?? 1) >= allowPriority) {
+        return;
       }
+      const ownerIds = reached.get(entry.page) ?? new Set<string>();
+      entry.sources.forEach(({ ownerId }) => ownerIds.add(ownerId));
+      reached.set(entry.page, ownerIds);
     });
+    return [...reached].map(([reachedPage, ownerIds]) => ({
+      page,
+      reachedPage,
+      ownerIds: [...ownerIds],
+    }));
   });
+}
 
-  return rules;
+/**
+ * Groups the pages in "this tab only" mode by tab, for the per-tab badge.
+ */
+export function getTabScopedPages(
+  pages: Page[],
+  tabScopes: TabScopes = {}
+): Map<number, Page[]> {
+  const byTab = new Map<number, Page[]>();
+  pages
+    .filter((page) => isPageTabScoped(page, tabScopes))
+    .forEach((page) => {
+      getPageTabIds(page, tabScopes).forEach((tabId) => {
+        byTab.set(tabId, [...(byTab.get(tabId) ?? []), page]);
+      });
+    });
+  return byTab;
+}
+
+/**
+ * Counts the enabled, valid response header filters on pages that are
+ * applied anywhere, so the background can warn when the browser is going to
+ * ignore them.
+ */
+export function countResponseHeaderFilters(
+  pages: Page[],
+  tabScopes: TabScopes = {}
+): number {
+  return pages
+    .filter((page) => isPageActive(page, tabScopes) || isPageTabScoped(page, tabScopes))
+    .flatMap((page) => page.filters || [])
+    .filter(
+      (filter) => filter.enabled && filter.valid && filter.mode === "responseHeader"
+    ).length;
 }
@@ -0,0 +1,138 @@
+import Button from "../button";
+import {
+  useSettingsState,
+  useSettingsActions,
+} from "../../context/settingsContext";
+import { useAlert } from "../../context/alertContext";
+import useActiveTabSummary from "../../utils/hooks/useActiveTabSummary";
+import { parseDomainList } from "../../utils/domain/domainList";
+import { isValidDomainList } from "../../utils/domain/filterValidation";
+import type { DecidingRule, HeaderEffect } from "../../background/ruleEvaluator";
+import "./index.css";
+
+const describeHeader = ({ headerName, headerType, operation }: HeaderEffect): string => {
+  const notes = [
+    ...(operation === "remove" ? ["removed"] : operation === "append" ? ["appended"] : []),
+    ...(headerType === "response" ? ["response"] : []),
+  ];
+  return notes.length > 0 ? `${headerName} (${notes.join(", ")})` : headerName;
+};
+
+/**
+ * Header changes by page, in the order they apply.
+ */
+const groupByPage = (headers: HeaderEffect[]): [string, HeaderEffect[]][] => {
+  const groups = new Map<string, HeaderEffect[]>();
+  headers.forEach((effect) => {
+    groups.set(effect.pageName, [...(groups.get(effect.pageName) ?? []), effect]);
+  });
+  return [...groups];
+};
+
+const describeRule = ({ pageName, label }: DecidingRule) => `${pageName}: ${label}`;
+
+/**
+ * A compact line-up of the pages and headers that apply to the tab the popup
+ * was opened over, and the excludes that stop them, with a shortcut to
+ * limit the current page to the tab's site.
+ */
+const ActiveTabSummary = () => {
+  const { pages, currentPage } = useSettingsState();
+  const { addFilter } = useSettingsActions();
+  const alertContext = useAlert();
+  const { url, hostname, summary } = useActiveTabSummary(pages);
+
+  if (!url) return null;
+
+  if (!hostname || !summary) {
+    return (
+      <div className="active-tab-summary" data-testid="active-tab-summary">
+        <span className="active-tab-summary__empty">
+          Headers can't be changed on this tab's page.
+        </span>
+      </div>
+    );
+  }
+
+  const hasSiteFilter = currentPage.filters.some(
+    (filter) =>
+      filter.type === "include" &&
+      filter.mode === "domain" &&
+      parseDomainList(filter.value).includes(hostname)
+  );
+
+  // Hosts like IP addresses in brackets can't go into a domain filter, so
+  // the shortcut is only offered for a host the filter would accept.
+  const canAddSiteFilter = isValidDomainList(hostname);
+
+  const handleAddSiteFilter = () => {
+    addFilter(currentPage.id, {
+      type: "include",
+      mode: "domain",
+      value: hostname,
+      enabled: true,
+      valid: canAddSiteFilter,
+    });
+    alertContext.setAlert({
+      alertText: `${currentPage.name} now includes ${hostname}`,
+      alertType: "success",
+      location: "bottom",
+    });
+  };
+
+  const nothingApplies =
+    summary.applied.length === 0 &&
+    summary.redirectedBy.length === 0 &&
+    summary.blockedBy.length === 0;
+
+  return (
+    <div className="active-tab-summary" data-testid="active-tab-summary">
+      <div className="active-tab-summary__header">
+        <span className="active-tab-summary__title">
+          Active on this tab <span className="active-tab-summary__host">{hostname}</span>
+        </span>
+        {canAddSiteFilter && !hasSiteFilter && (
+          <Button
+            content="Include this site"
+            title={`Add an include filter for ${hostname} to ${currentPage.name}`}
+            size="small"
+            color="secondary"
+            onClick={handleAddSiteFilter}
+            testId="add-site-filter"
+          />
+        )}
+      </div>
+      <ul className="active-tab-summary__list">
+        {groupByPage(summary.applied).map(([pageName, effects]) => (
+          <li key={pageName} data-testid="active-tab-summary-page">
+            <span className="active-tab-summary__page">{pageName}</span>:{" "}
+            {effects.map((effect, index) => (
+              <span key={index} title={effect.filter}>
+                {index > 0 && ", "}
+                {describeHeader(effect)}
+              </span>
+            ))}
+          </li>
+        ))}
+        {summary.redirectedBy.map((rule) => (
+          <li key={`redirect-${describeRule(rule)}`}>Redirected by {describeRule(rule)}</li>
+        ))}
+        {summary.blockedBy.map((rule) => (
+          <li key={`block-${describeRule(rule)}`} className="active-tab-summary__blocked">
+            Blocked by {describeRule(rule)}
+          </li>
+        ))}
+        {summary.excludedBy.map((rule) => (
+          <li key={`exclude-${rule.pageName}-${rule.filter}`} className="active-tab-summary__excluded">
+            {rule.pageName} excluded by {rule.filter}
+          </li>
+        ))}
+        {nothingApplies && summary.excludedBy.length === 0 && (
+          <li className="active-tab-summary__empty">No active page changes this tab's requests.</li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default ActiveTabSummary;
@@ -18,9 +18,11 @@ interface AppFooterProps {
 
 const AppFooter = ({ onPositiveAction, hasReviewed, onOpenReview }: AppFooterProps) => {
   const { pages, currentPage } = useSettingsState();
-  const { addHeader, addFilter } = useSettingsActions();
+  const { addHeader, addFilter, addRedirect, addBlock, addQueryParam } = useSettingsActions();
   const currentPageId = currentPage.id;
   const [headerToFocus, setHeaderToFocus] = useState<string | null>(null);
+  const [redirectToFocus, setRedirectToFocus] = useState<string | null>(null);
+  const [queryParamToFocus, setQueryParamToFocus] = useState<string | null>(null);
 
   useEffect(() => {
     if (headerToFocus !== null) {
@@ -36,6 +38,34 @@ const AppFooter = ({ onPositiveAction, hasReviewed, onOpenReview }: AppFooterPro
     }
   }, [headerToFocus]);
 
+  useEffect(() => {
+    if (redirectToFocus !== null) {
+      const sourceElement = document.querySelector(
+        `[data-redirectid="${redirectToFocus}"] .redirect-row__source input`
+      ) as HTMLInputElement;
+
+      if (sourceElement) {
+        sourceElement.focus();
+      }
+
+      setRedirectToFocus(null);
+    }
+  }, [redirectToFocus]);
+
+  useEffect(() => {
+    if (queryParamToFocus !== null) {
+      const keyElement = document.querySelector(
+        `[data-queryparamid="${queryParamToFocus}"] .query-param-row__key input`
+      ) as HTMLInputElement;
+
+      if (keyElement) {
+        keyElement.focus();
+      }
+
+      setQueryParamToFocus(null);
+    }
+  }, [queryParamToFocus]);
+
   const handleAddHeader = () => {
     const newHeader = addHeader(currentPageId, {
       headerName: "",
@@ -43,6 +73,7 @@ const AppFooter = ({ onPositiveAction, hasReviewed, onOpenReview }: AppFooterPro
       headerComment: "",
       headerEnabled: true,
       headerType: "request",
+      headerOperation: "set",
     });
 
     if (newHeader?.id) {
@@ -63,11 +94,50 @@ const AppFooter = ({ onPositiveAction, hasReviewed, onOpenReview }: AppFooterPro
     });
   };
 
+  const handleAddQueryParam = () => {
+    const newQueryParam = addQueryParam(currentPageId, {
+      enabled: true,
+      operation: "add",
+      key: "",
+      value: "",
+    });
+
+    if (newQueryParam?.id) {
+      setQueryParamToFocus(newQueryParam.id);
+    }
+  };
+
+  const handleAddRedirect = () => {
+    const newRedirect = addRedirect(currentPageId, {
+      enabled: true,
+      valid: false,
+      source: "",
+      target: "",
+      comment: "",
+    });
+
+    if (newRedirect?.id) {
+      setRedirectToFocus(newRedirect.id);
+    }
+  };
+
+  const handleAddBlock = () => {
+    addBlock(currentPageId, {
+      enabled: true,
+      valid: false,
+      mode: "url",
+      value: "",
+    });
+  };
+
   return (
     <div className="app-footer">
       <div className="app-footer__action_block">
         <Button content="Add Header" onClick={handleAddHeader} testId="add-header" />
         <Button content="Add Filter Rule" onClick={handleAddFilter} testId="add-filter" />
+        <Button content="Add Query Param" onClick={handleAddQueryParam} testId="add-query-param" />
+        <Button content="Add Redirect" onClick={handleAddRedirect} testId="add-redirect" />
+        <Button content="Add Block" onClick={handleAddBlock} testId="add-block" />
       </div>
       {!hasReviewed && onOpenReview && (
         <button
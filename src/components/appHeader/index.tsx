@@ -23,7 +23,7 @@ import ImportIcon from "../icons/Import";
 import SettingsIcon from "../icons/Settings";
 
 const AppHeader = () => {
-  const { darkModeEnabled, syncEnabled, pages, errors, lastSyncTime, localModifiedTime, canUndo, canRedo } =
+  const { darkModeEnabled, syncEnabled, pages, errors, ruleUsage, lastSyncTime, localModifiedTime, canUndo, canRedo } =
     useSettingsState();
   const { toggleDarkMode, toggleSync, importSettings, clearErrors, undo, redo } =
     useSettingsActions();
@@ -114,7 +114,7 @@ const AppHeader = () => {
         statusText={syncStatus.label}
       />
       <div className="app-header__actions">
-        <ErrorsIcon errors={errors} clearErrors={clearErrors} />
+        <ErrorsIcon errors={errors} clearErrors={clearErrors} ruleUsage={ruleUsage} />
         {isFirefoxPopup ? (
           <Button
             content={
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import {
+  BlockMode,
+  BlockSetting,
+  RequestMethod,
+  ResourceType,
+  requestMethodSchema,
+  resourceTypeSchema,
+} from "../../utils/settings";
+import { explainRegexProblem } from "../../utils/domain/regexSyntax";
+import CheckboxDropdown from "../checkboxDropdown";
+import Button from "../button";
+import "../filterRow/index.css";
+import Basket from "../icons/Basket";
+
+const placeholders: Record<BlockMode, string> = {
+  url: "||analytics.example.com^",
+  regex: "^https://flags\\.example\\.com/.*",
+  domain: "tracker.example.com, ads.example.org",
+  initiator: "widget.example.com",
+};
+
+const BlockRow = ({
+  id,
+  enabled,
+  mode,
+  value,
+  valid,
+  methods = [],
+  resourceTypes = [],
+  onRemove,
+  onUpdate,
+}: BlockSetting & {
+  onRemove: (id: string) => void;
+  onUpdate: (block: Omit<BlockSetting, "valid">) => void;
+}) => {
+  const [cachedValue, setCachedValue] = useState(value);
+
+  const updateBlock = (patch: Partial<BlockSetting>) => {
+    onUpdate({
+      id,
+      enabled,
+      mode,
+      value: cachedValue,
+      methods,
+      resourceTypes,
+      ...patch,
+    });
+  };
+
+  const updateMode = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    updateBlock({ mode: e.target.value as BlockMode });
+  };
+
+  const updateValue = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCachedValue(e.target.value);
+    updateBlock({ value: e.target.value });
+  };
+
+  const updateMethods = (methods: RequestMethod[]) => {
+    updateBlock({ methods });
+  };
+
+  const updateResourceTypes = (resourceTypes: ResourceType[]) => {
+    updateBlock({ resourceTypes });
+  };
+
+  const updateEnabled = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateBlock({ enabled: e.target.checked });
+  };
+
+  const handleFocus = (e: React.FocusEvent<HTMLInputElement>) => {
+    e.target.select();
+  };
+
+  // A new entry starts out empty - only flag it once there's something to
+  // be wrong.
+  const showInvalid = !valid && !!cachedValue;
+  const regexProblem =
+    showInvalid && mode === "regex"
+      ? (explainRegexProblem(cachedValue) ?? "The browser doesn't support this regex.")
+      : undefined;
+
+  return (
+    <div className="filter-row" data-blockid={id} data-testid="block-row">
+      <div className="filter-row__checkbox">
+        <label className="toggle-switch">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={updateEnabled}
+            aria-label="Block enabled"
+            data-testid="block-enabled"
+          />
+          <span className="toggle-switch__slider"></span>
+        </label>
+      </div>
+      <div className="filter-row__mode">
+        <select value={mode} onChange={updateMode} aria-label="Block match mode" data-testid="block-mode">
+          <option value="url">URL</option>
+          <option value="regex">Regex</option>
+          <option value="domain">Domain</option>
+          <option value="initiator">Initiator</option>
+        </select>
+      </div>
+      <CheckboxDropdown
+        options={requestMethodSchema.options}
+        selected={methods}
+        onChange={updateMethods}
+        emptyLabel="Any method"
+        formatOption={(method) => method.toUpperCase()}
+        testId="block-methods"
+      />
+      <CheckboxDropdown
+        options={resourceTypeSchema.options}
+        selected={resourceTypes}
+        onChange={updateResourceTypes}
+        emptyLabel="Page types"
+        testId="block-resource-types"
+      />
+      <div className="filter-row__value">
+        <input
+          type="text"
+          placeholder={placeholders[mode]}
+          value={cachedValue}
+          onChange={updateValue}
+          onFocus={handleFocus}
+          title={regexProblem}
+          aria-label="Requests to block"
+          aria-invalid={showInvalid || undefined}
+          style={
+            showInvalid
+              ? {
+                  borderColor: "var(--color-error)",
+                  backgroundColor: "rgba(244, 67, 54, 0.12)",
+                }
+              : undefined
+          }
+          data-testid="block-value"
+        />
+      </div>
+      <div className="filter-row__remove" onClick={() => onRemove(id)}>
+        <Button
+          content={<Basket role="img" aria-label="Remove Block" />}
+          style={{ height: "28px", padding: "6px 8px" }}
+          testId="block-remove"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BlockRow;
@@ -0,0 +1,48 @@
+import { BlockSetting } from "../../utils/settings";
+import BlockRow from "../blockRow";
+import "../filterSection/index.css";
+import {
+  useSettingsState,
+  useSettingsActions,
+} from "../../context/settingsContext";
+
+const BlockSection = () => {
+  const { currentPage } = useSettingsState();
+  const { updateBlock, removeBlock } = useSettingsActions();
+
+  const blocks = currentPage.blocks ?? [];
+
+  const handleUpdate = (block: Omit<BlockSetting, "valid">) => {
+    updateBlock(currentPage.id, block);
+  };
+
+  const handleRemove = (id: string) => {
+    removeBlock(currentPage.id, id);
+  };
+
+  if (blocks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="filter-section block-section" data-testid="block-section">
+      <div className="filter-section__header">
+        <span title="Requests matching these are blocked while the page is active. The page's exclude filters still apply.">
+          Blocked requests ({blocks.length})
+        </span>
+      </div>
+      <div className="filter-section__container">
+        {blocks.map((block) => (
+          <BlockRow
+            key={`block-row__${block.id}`}
+            {...block}
+            onRemove={handleRemove}
+            onUpdate={handleUpdate}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BlockSection;
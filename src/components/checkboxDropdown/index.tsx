@@ -0,0 +1,59 @@
+import "./index.css";
+import { cx } from "../../utils/cx";
+
+/**
+ * Compact multi-select built on <details>, used where a row only has room
+ * for a short summary (e.g. a filter's methods or resource types). Values
+ * are always reported back in `options` order so the stored list doesn't
+ * depend on the order boxes were ticked in.
+ */
+function CheckboxDropdown<T extends string>({
+  options,
+  selected,
+  onChange,
+  emptyLabel,
+  formatOption = (option) => option,
+  className,
+  testId,
+}: {
+  options: readonly T[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+  emptyLabel: string;
+  formatOption?: (option: T) => string;
+  className?: string;
+  testId?: string;
+}) {
+  const toggle = (option: T) => {
+    const next = selected.includes(option)
+      ? selected.filter((value) => value !== option)
+      : [...selected, option];
+    onChange(options.filter((value) => next.includes(value)));
+  };
+
+  const label =
+    selected.length === 0 ? emptyLabel : selected.map(formatOption).join(", ");
+
+  return (
+    <details className={cx("checkbox-dropdown", className)} data-testid={testId}>
+      <summary title={label} data-testid={testId && `${testId}-summary`}>
+        {label}
+      </summary>
+      <div className="checkbox-dropdown__menu">
+        {options.map((option) => (
+          <label key={option} className="checkbox-dropdown__option">
+            <input
+              type="checkbox"
+              checked={selected.includes(option)}
+              onChange={() => toggle(option)}
+              data-testid={testId && `${testId}-${option}`}
+            />
+            {formatOption(option)}
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+export default CheckboxDropdown;
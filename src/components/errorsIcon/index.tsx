@@ -1,12 +1,14 @@
 import { useState, useRef, useEffect } from "react";
 import { ISSUES_URL } from "../../constants";
 import { AppError, formatErrorReport } from "../../utils/storage/errors";
+import type { RuleCounts, RuleUsageState } from "../../utils/storage/ruleUsage";
 import AlertTriangle from "../icons/AlertTriangle";
 import "./index.css";
 
 export type ErrorsIconProps = {
   errors: AppError[];
   clearErrors: (category?: AppError["category"]) => Promise<void>;
+  ruleUsage?: RuleUsageState | null;
 };
 
 const categoryLabels: Record<AppError["category"], string> = {
@@ -21,7 +23,53 @@ const categoryDescriptions: Record<AppError["category"], string> = {
   sync: "FlexHeader could not sync your settings to remote storage.",
 };
 
-export const ErrorsIcon = ({ errors, clearErrors }: ErrorsIconProps) => {
+const usageRows: { key: keyof RuleCounts; label: string }[] = [
+  { key: "dynamicRules", label: "Rules" },
+  { key: "dynamicRegexRules", label: "Regex rules" },
+  { key: "sessionRules", label: "Session rules" },
+  { key: "sessionRegexRules", label: "Session regex rules" },
+];
+
+// Usage at or above this share of a quota is highlighted.
+const HIGH_USAGE_RATIO = 0.9;
+
+/**
+ * The compiled rule counts from the last apply against the browser's
+ * quotas. Session rows only show when session rules are in use.
+ */
+const RuleUsageSummary = ({ ruleUsage }: { ruleUsage: RuleUsageState }) => {
+  const { usage, quota, omitted } = ruleUsage;
+  const rows = usageRows.filter(
+    ({ key }) => !key.startsWith("session") || usage.sessionRules > 0
+  );
+
+  return (
+    <div className="errors-icon__usage" data-testid="rule-usage">
+      <ul className="errors-icon__usage-list">
+        {rows.map(({ key, label }) => (
+          <li
+            key={key}
+            className={`errors-icon__usage-row${
+              usage[key] >= quota[key] * HIGH_USAGE_RATIO ? " errors-icon__usage-row--high" : ""
+            }`}
+          >
+            <span>{label}</span>
+            <span>
+              {usage[key].toLocaleString()} / {quota[key].toLocaleString()}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {omitted.length > 0 && (
+        <p className="errors-icon__usage-omitted">
+          {omitted.length} {omitted.length === 1 ? "entry" : "entries"} left out to stay within the limits.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export const ErrorsIcon = ({ errors, clearErrors, ruleUsage }: ErrorsIconProps) => {
   const [isOpen, setIsOpen] = useState(false);
   const [copyText, setCopyText] = useState("Copy");
   const panelRef = useRef<HTMLDivElement>(null);
@@ -106,6 +154,7 @@ export const ErrorsIcon = ({ errors, clearErrors }: ErrorsIconProps) => {
           <p className="errors-icon__intro">
             Something went wrong. You can copy the details below or report the issue on GitHub.
           </p>
+          {ruleUsage && <RuleUsageSummary ruleUsage={ruleUsage} />}
           <ul className="errors-icon__list">
             {errors.map((error) => (
               <li key={error.id} className={`errors-icon__item errors-icon__item--${error.category}`}>
@@ -96,6 +96,11 @@ const ExportPopup = ({ pages }: { pages: Page[] }) => {
                 <div className="export-popup__page__filters">
                   {`${page.filters.length} filter(s)`}
                 </div>
+                {!!page.blocks?.length && (
+                  <div className="export-popup__page__filters">
+                    {`${page.blocks.length} block(s)`}
+                  </div>
+                )}
               </div>
             );
           })}
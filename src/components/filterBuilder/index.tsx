@@ -0,0 +1,153 @@
+import { useState } from "react";
+import Button from "../button";
+import {
+  buildFilterValue,
+  emptyFilterParts,
+  getSampleUrls,
+  parseFilterValue,
+  type BuildableMode,
+  type FilterParts,
+} from "../../utils/domain/filterBuilder";
+import { matchesUrlFilter } from "../../background/ruleEvaluator";
+import { cx } from "../../utils/cx";
+import "./index.css";
+
+interface FilterBuilderProps {
+  mode: BuildableMode;
+  value: string;
+  onChange: (value: string) => void;
+  onSwitchToRegex: (value: string) => void;
+}
+
+/**
+ * Whether a sample URL matches the filter's current value, the way the
+ * browser would read it. Null for a regex that doesn't compile.
+ */
+const matchesValue = (mode: BuildableMode, value: string, url: string): boolean | null => {
+  if (mode === "url") return matchesUrlFilter(value, url);
+  try {
+    return new RegExp(value, "i").test(url);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Builds a "url" or "regex" filter value from scheme, host, port, path and
+ * extension fields, with a preview of which sample URLs it matches.
+ */
+const FilterBuilder = ({ mode, value, onChange, onSwitchToRegex }: FilterBuilderProps) => {
+  const [initialParts] = useState(() => parseFilterValue(value, mode));
+  const [parts, setParts] = useState<FilterParts>(initialParts ?? emptyFilterParts);
+  const built = buildFilterValue(parts, mode);
+  const regex = mode === "url" ? buildFilterValue(parts, "regex") : null;
+
+  const update = (patch: Partial<FilterParts>) => {
+    const next = { ...parts, ...patch };
+    setParts(next);
+    const result = buildFilterValue(next, mode);
+    if ("value" in result) {
+      onChange(result.value);
+    }
+  };
+
+  return (
+    <div className="filter-builder" data-testid="filter-builder">
+      {!initialParts && value && (
+        <p className="filter-builder__note">
+          This filter doesn't fit the builder's fields - editing them replaces it.
+        </p>
+      )}
+      <div className="filter-builder__fields">
+        <select
+          value={parts.scheme}
+          onChange={(e) => update({ scheme: e.target.value as FilterParts["scheme"] })}
+          aria-label="Scheme"
+          data-testid="filter-builder-scheme"
+        >
+          <option value="any">http(s)</option>
+          <option value="https">https</option>
+          <option value="http">http</option>
+        </select>
+        <input
+          type="text"
+          value={parts.host}
+          onChange={(e) => update({ host: e.target.value.trim() })}
+          placeholder="Any host"
+          aria-label="Host"
+          data-testid="filter-builder-host"
+        />
+        <label className="filter-builder__subdomains">
+          <input
+            type="checkbox"
+            checked={parts.includeSubdomains}
+            onChange={(e) => update({ includeSubdomains: e.target.checked })}
+            data-testid="filter-builder-subdomains"
+          />
+          Subdomains
+        </label>
+        <input
+          type="text"
+          value={parts.port}
+          onChange={(e) => update({ port: e.target.value.trim() })}
+          placeholder="Port"
+          aria-label="Port"
+          className="filter-builder__port"
+          data-testid="filter-builder-port"
+        />
+        <input
+          type="text"
+          value={parts.pathPrefix}
+          onChange={(e) => update({ pathPrefix: e.target.value.trim() })}
+          placeholder="/path prefix"
+          aria-label="Path prefix"
+          data-testid="filter-builder-path"
+        />
+        <input
+          type="text"
+          value={parts.extension}
+          onChange={(e) => update({ extension: e.target.value.trim() })}
+          placeholder="Extension"
+          aria-label="File extension"
+          className="filter-builder__extension"
+          data-testid="filter-builder-extension"
+        />
+      </div>
+      {"error" in built && (
+        <p className="filter-builder__error" data-testid="filter-builder-error">
+          {built.error}
+          {regex && "value" in regex && (
+            <>
+              {" "}
+              <Button
+                content="Switch to regex"
+                size="small"
+                color="secondary"
+                onClick={() => onSwitchToRegex(regex.value)}
+                testId="filter-builder-switch"
+              />
+            </>
+          )}
+        </p>
+      )}
+      <ul className="filter-builder__samples">
+        {getSampleUrls(parts).map((url) => {
+          const matches = value ? matchesValue(mode, value, url) : null;
+          return (
+            <li
+              key={url}
+              className={cx("filter-builder__sample", {
+                "filter-builder__sample--match": matches === true,
+              })}
+              data-testid="filter-builder-sample"
+            >
+              <span className="filter-builder__mark">{matches ? "✓" : "✗"}</span> {url}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default FilterBuilder;
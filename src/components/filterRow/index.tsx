@@ -1,9 +1,33 @@
 import { useState } from "react";
-import { FilterMode, FilterType, HeaderFilter } from "../../utils/settings";
+import {
+  FilterMode,
+  FilterType,
+  HeaderFilter,
+  RequestMethod,
+  ResourceType,
+  requestMethodSchema,
+  resourceTypeSchema,
+} from "../../utils/settings";
+import { supportsResponseHeaderConditions } from "../../utils/browserContext";
+import {
+  convertFilterValue,
+  isBuildableMode,
+} from "../../utils/domain/filterBuilder";
+import { explainRegexProblem } from "../../utils/domain/regexSyntax";
+import CheckboxDropdown from "../checkboxDropdown";
 import Button from "../button";
+import FilterBuilder from "../filterBuilder";
 import "./index.css";
 import Basket from "../icons/Basket";
 
+const placeholders: Record<FilterMode, string> = {
+  url: "||example.com/",
+  regex: "^https://example\\.com/.*",
+  domain: "api.example.com, example.org",
+  initiator: "app.example.com",
+  responseHeader: "Content-Type: text/html*",
+};
+
 const FilterRow = ({
   id,
   enabled,
@@ -11,6 +35,9 @@ const FilterRow = ({
   mode,
   value,
   valid,
+  methods = [],
+  resourceTypes = [],
+  groupId,
   onRemove,
   onUpdate,
 }: HeaderFilter & {
@@ -18,6 +45,7 @@ const FilterRow = ({
   onUpdate: (filter: Omit<HeaderFilter, "valid">) => void;
 }) => {
   const [cachedFilterValue, setCachedFilterValue] = useState(value);
+  const [builderOpen, setBuilderOpen] = useState(false);
 
   const updateFilter = (patch: Partial<HeaderFilter>) => {
     onUpdate({
@@ -26,6 +54,9 @@ const FilterRow = ({
       type,
       mode,
       value,
+      methods,
+      resourceTypes,
+      groupId,
       ...patch,
     });
   };
@@ -35,14 +66,42 @@ const FilterRow = ({
     updateFilter({ type });
   };
 
+  // Switching between URL and regex converts the value too, when it's in a
+  // shape the filter builder can read.
   const updateMode = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const mode: FilterMode = e.target.value as FilterMode;
-    updateFilter({ mode });
+    const newMode: FilterMode = e.target.value as FilterMode;
+    const converted =
+      isBuildableMode(mode) && isBuildableMode(newMode) && mode !== newMode
+        ? convertFilterValue(cachedFilterValue, mode, newMode)
+        : null;
+    if (converted !== null) {
+      setCachedFilterValue(converted);
+      updateFilter({ mode: newMode, value: converted });
+    } else {
+      updateFilter({ mode: newMode });
+    }
+  };
+
+  const setValue = (value: string) => {
+    setCachedFilterValue(value);
+    updateFilter({ value });
   };
 
   const updateValue = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setCachedFilterValue(e.target.value);
-    updateFilter({ value: e.target.value });
+    setValue(e.target.value);
+  };
+
+  const switchToRegex = (value: string) => {
+    setCachedFilterValue(value);
+    updateFilter({ mode: "regex", value });
+  };
+
+  const updateMethods = (methods: RequestMethod[]) => {
+    updateFilter({ methods });
+  };
+
+  const updateResourceTypes = (resourceTypes: ResourceType[]) => {
+    updateFilter({ resourceTypes });
   };
 
   const updateEnabled = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -54,53 +113,105 @@ const FilterRow = ({
     e.target.select();
   };
 
-  const placeholder = mode === "url" ? "||example.com/" : "^https://example\\.com/.*";
+  const placeholder = placeholders[mode];
+  const unsupported =
+    mode === "responseHeader" && !supportsResponseHeaderConditions();
+  const regexProblem =
+    !valid && mode === "regex" && cachedFilterValue
+      ? (explainRegexProblem(cachedFilterValue) ?? "The browser doesn't support this regex.")
+      : undefined;
 
   return (
     <div className="filter-row" data-testid="filter-row">
-      <div className="filter-row__checkbox">
-        <label className="toggle-switch">
-          <input type="checkbox" checked={enabled} onChange={updateEnabled} data-testid="filter-enabled" />
-          <span className="toggle-switch__slider"></span>
-        </label>
-      </div>
-      <div className="filter-row__type">
-        <select value={type} onChange={updateType} data-testid="filter-type">
-          <option value="include">Include</option>
-          <option value="exclude">Exclude</option>
-        </select>
-      </div>
-      <div className="filter-row__mode">
-        <select value={mode} onChange={updateMode} data-testid="filter-mode">
-          <option value="url">URL</option>
-          <option value="regex">Regex</option>
-        </select>
-      </div>
-      <div className="filter-row__value">
-        <input
-          type="text"
-          placeholder={placeholder}
-          value={cachedFilterValue}
-          onChange={updateValue}
-          onFocus={handleFocus}
-          style={
-            valid
-              ? undefined
-              : {
-                  borderColor: "var(--color-error)",
-                  backgroundColor: "rgba(244, 67, 54, 0.12)",
-                }
-          }
-          data-testid="filter-value"
+      <div className="filter-row__controls">
+        <div className="filter-row__checkbox">
+          <label className="toggle-switch">
+            <input type="checkbox" checked={enabled} onChange={updateEnabled} data-testid="filter-enabled" />
+            <span className="toggle-switch__slider"></span>
+          </label>
+        </div>
+        <div className="filter-row__type">
+          <select value={type} onChange={updateType} data-testid="filter-type">
+            <option value="include">Include</option>
+            <option value="exclude">Exclude</option>
+          </select>
+        </div>
+        <div className="filter-row__mode">
+          <select value={mode} onChange={updateMode} data-testid="filter-mode">
+            <option value="url">URL</option>
+            <option value="regex">Regex</option>
+            <option value="domain">Domain</option>
+            <option value="initiator">Initiator</option>
+            <option value="responseHeader">Response header</option>
+          </select>
+        </div>
+        <CheckboxDropdown
+          options={requestMethodSchema.options}
+          selected={methods}
+          onChange={updateMethods}
+          emptyLabel="Any method"
+          formatOption={(method) => method.toUpperCase()}
+          testId="filter-methods"
         />
-      </div>
-      <div className="filter-row__remove" onClick={() => onRemove(id)}>
-        <Button
-          content={<Basket role="img" aria-label="Remove Filter" />}
-          style={{ height: "28px", padding: "6px 8px" }}
-          testId="filter-remove"
+        <CheckboxDropdown
+          options={resourceTypeSchema.options}
+          selected={resourceTypes}
+          onChange={updateResourceTypes}
+          emptyLabel="Page types"
+          testId="filter-resource-types"
         />
+        <div className="filter-row__value">
+          <input
+            type="text"
+            placeholder={placeholder}
+            value={cachedFilterValue}
+            onChange={updateValue}
+            onFocus={handleFocus}
+            title={
+              unsupported
+                ? "This browser can't match on response headers (Chrome 128+ is required), so this filter is ignored."
+                : regexProblem
+            }
+            style={
+              !valid
+                ? {
+                    borderColor: "var(--color-error)",
+                    backgroundColor: "rgba(244, 67, 54, 0.12)",
+                  }
+                : unsupported
+                  ? { borderColor: "var(--color-warning)" }
+                  : undefined
+            }
+            data-testid="filter-value"
+          />
+        </div>
+        {isBuildableMode(mode) && (
+          <Button
+            content="Build"
+            title="Build this filter from a host, path and extension"
+            size="small"
+            color={builderOpen ? "primary" : "secondary"}
+            onClick={() => setBuilderOpen(!builderOpen)}
+            testId="filter-builder-toggle"
+          />
+        )}
+        <div className="filter-row__remove" onClick={() => onRemove(id)}>
+          <Button
+            content={<Basket role="img" aria-label="Remove Filter" />}
+            style={{ height: "28px", padding: "6px 8px" }}
+            testId="filter-remove"
+          />
+        </div>
       </div>
+      {builderOpen && isBuildableMode(mode) && (
+        <FilterBuilder
+          key={mode}
+          mode={mode}
+          value={cachedFilterValue}
+          onChange={setValue}
+          onSwitchToRegex={switchToRegex}
+        />
+      )}
     </div>
   );
 };
@@ -1,5 +1,14 @@
-import { HeaderFilter } from "../../utils/settings";
+import { Fragment } from "react";
+import {
+  HeaderFilter,
+  ResourceType,
+  resourceTypeSchema,
+} from "../../utils/settings";
+import { isJoinedWithPrevious } from "../../utils/domain/filterGroups";
+import { buildFilterGroupCondition } from "../../background/rules";
 import FilterRow from "../filterRow";
+import CheckboxDropdown from "../checkboxDropdown";
+import Button from "../button";
 import "./index.css";
 import {
   useSettingsState,
@@ -8,9 +17,10 @@ import {
 
 const FilterSection = () => {
   const { currentPage } = useSettingsState();
-  const { updateFilter, removeFilter } = useSettingsActions();
+  const { updateFilter, removeFilter, setFilterJoined, updatePage } = useSettingsActions();
 
   const filters = currentPage.filters;
+  const resourceTypes = currentPage.resourceTypes ?? [];
 
   const handleUpdate = (filter: Omit<HeaderFilter, "valid">) => {
     updateFilter(currentPage.id, filter);
@@ -20,23 +30,83 @@ const FilterSection = () => {
     removeFilter(currentPage.id, id);
   };
 
-  if (filters.length === 0) {
-    return null;
-  }
+  /**
+   * Why the group ending at `index` can't become a rule, if it's the last
+   * filter of a group: an invalid filter in it (see getEnabledFilterGroups),
+   * or a condition the browser can't express (see buildFilterGroupCondition).
+   */
+  const getGroupProblem = (index: number): string | null => {
+    if (!isJoinedWithPrevious(filters, index) || isJoinedWithPrevious(filters, index + 1)) {
+      return null;
+    }
+    let start = index;
+    while (isJoinedWithPrevious(filters, start)) start -= 1;
+    const members = filters.slice(start, index + 1).filter((filter) => filter.enabled);
+    if (members.length < 2) return null;
+    if (members.some((filter) => !filter.valid)) {
+      return (
+        "A filter in this group isn't valid, and without it the group would match more than it says."
+      );
+    }
+    const built = buildFilterGroupCondition(members, resourceTypes);
+    return "error" in built ? built.error : null;
+  };
+
+  const handleResourceTypesChange = (resourceTypes: ResourceType[]) => {
+    updatePage({ ...currentPage, resourceTypes });
+  };
 
   return (
     <div className="filter-section">
-      <div className="filter-section__header">Filters ({filters.length})</div>
-      <div className="filter-section__container">
-        {filters.map((filter) => (
-          <FilterRow
-            key={`filter-row__${filter.id}`}
-            {...filter}
-            onRemove={handleRemove}
-            onUpdate={handleUpdate}
+      <div className="filter-section__header">
+        <span>Filters ({filters.length})</span>
+        <div className="filter-section__resource-types">
+          Applies to
+          <CheckboxDropdown
+            options={resourceTypeSchema.options}
+            selected={resourceTypes}
+            onChange={handleResourceTypesChange}
+            emptyLabel="All types"
+            testId="page-resource-types"
           />
-        ))}
+        </div>
       </div>
+      {/* The section shows even with no filters: the page's resource types
+          apply without any, e.g. a header only on xmlhttprequest. */}
+      {filters.length > 0 && (
+        <div className="filter-section__container">
+          {filters.map((filter, index) => {
+            const joined = isJoinedWithPrevious(filters, index);
+            const groupProblem = getGroupProblem(index);
+            return (
+              <Fragment key={`filter-row__${filter.id}`}>
+                {index > 0 && filters[index - 1].type === filter.type && (
+                  <div className="filter-section__join">
+                    <Button
+                      content={joined ? "and" : "or"}
+                      size="small"
+                      color={joined ? "primary" : "secondary"}
+                      onClick={() => setFilterJoined(currentPage.id, filter.id, !joined)}
+                      title={
+                        joined
+                          ? "Both filters have to match - click to let either match"
+                          : "Either filter can match - click to require both"
+                      }
+                      testId="filter-join"
+                    />
+                  </div>
+                )}
+                <FilterRow {...filter} onRemove={handleRemove} onUpdate={handleUpdate} />
+                {groupProblem && (
+                  <p className="filter-section__group-error" data-testid="filter-group-error">
+                    {groupProblem} This group is left out of the rules.
+                  </p>
+                )}
+              </Fragment>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,13 +1,23 @@
 import { useId, useMemo, useRef, useState } from "react";
 import type * as React from "react";
 import type { DraggableProvidedDragHandleProps } from "@hello-pangea/dnd";
-import { HeaderSetting } from "../../utils/settings";
+import { HeaderOperation, HeaderSetting } from "../../utils/settings";
 import { POPULAR_HEADER_NAMES } from "../../constants";
 import { cx } from "../../utils/cx";
+import { canAppendHeader } from "../../utils/domain/headers";
+import { supportsRequestHeaderAppend } from "../../utils/browserContext";
 import Button from "../button";
 import "./index.css";
 import DraggableIcon from "../icons/Draggable";
 import Basket from "../icons/Basket";
+import AlertTriangle from "../icons/AlertTriangle";
+import Warning from "../icons/Warning";
+
+const operationTitles: Record<HeaderOperation, string> = {
+  set: "Set (overwrite the header)",
+  append: "Append to the existing header value",
+  remove: "Remove the header",
+};
 
 const HeaderRow = ({
   id,
@@ -16,12 +26,19 @@ const HeaderRow = ({
   headerComment,
   headerEnabled,
   headerType,
+  headerOperation = "set",
+  rejectedReason,
+  shadowedBy,
   onRemove,
   onUpdate,
   showComment,
   isDragging,
   dragHandleProps,
 }: HeaderSetting & {
+  /** The browser's error, if it rejected this header's rule. */
+  rejectedReason?: string;
+  /** Name of a higher-precedence active page that overrides this header. */
+  shadowedBy?: string;
   showComment: boolean;
   onRemove: (id: string) => void;
   onUpdate: (header: HeaderSetting) => void;
@@ -36,6 +53,7 @@ const HeaderRow = ({
       headerComment,
       headerEnabled,
       headerType,
+      headerOperation,
       ...patch,
     });
   };
@@ -60,10 +78,17 @@ const HeaderRow = ({
     updateHeader({ headerType: e.target.value as "request" | "response" });
   };
 
+  const updateOperation = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    updateHeader({ headerOperation: e.target.value as HeaderOperation });
+  };
+
   const handleFocus = (e: React.FocusEvent<HTMLInputElement>) => {
     e.target.select();
   };
 
+  const appendSupported = canAppendHeader({ headerName, headerType }, supportsRequestHeaderAppend());
+  const appendUnsupported = headerOperation === "append" && !appendSupported;
+
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const nameInputRef = useRef<HTMLInputElement>(null);
   const dropdownId = useId();
@@ -99,6 +124,8 @@ const HeaderRow = ({
         "header-row--comments-hidden": !showComment,
         "header-row--dragging": isDragging,
         "header-row--disabled": !headerEnabled,
+        "header-row--rejected": !!rejectedReason,
+        "header-row--shadowed": !rejectedReason && !!shadowedBy,
       })}
       data-headerid={id}
       data-testid="header-row"
@@ -123,6 +150,28 @@ const HeaderRow = ({
           />
           <span className="toggle-switch__slider"></span>
         </label>
+        {rejectedReason && (
+          <span
+            className="header-row__rejected"
+            role="img"
+            aria-label={`Rejected by the browser: ${rejectedReason}`}
+            title={`The browser rejected this header, so it isn't applied: ${rejectedReason}\nEdit it to try again.`}
+            data-testid="header-rejected"
+          >
+            <AlertTriangle />
+          </span>
+        )}
+        {!rejectedReason && shadowedBy && (
+          <span
+            className="header-row__shadowed"
+            role="img"
+            aria-label={`Overridden by page ${shadowedBy}`}
+            title={`"${shadowedBy}" also changes this header and takes precedence where both pages' filters match.`}
+            data-testid="header-shadowed"
+          >
+            <Warning />
+          </span>
+        )}
       </div>
       <div className="header-row__name header-row__name--autocomplete">
         <input
@@ -139,6 +188,7 @@ const HeaderRow = ({
           aria-expanded={isDropdownOpen && filteredSuggestions.length > 0}
           role="combobox"
           autoComplete="off"
+          aria-invalid={!!rejectedReason || undefined}
           data-testid="header-name"
         />
         {filteredSuggestions.length > 0 && (
@@ -166,10 +216,12 @@ const HeaderRow = ({
       <div className="header-row__value">
         <input
           type="text"
-          placeholder="Value"
+          placeholder={headerOperation === "remove" ? "Removed" : "Value"}
           value={headerValue}
           onChange={updateValue}
           onFocus={handleFocus}
+          disabled={headerOperation === "remove"}
+          aria-invalid={!!rejectedReason || undefined}
           data-testid="header-value"
         />
       </div>
@@ -185,6 +237,28 @@ const HeaderRow = ({
           />
         </div>
       )}
+      <div className="header-row__operation">
+        <select
+          value={headerOperation}
+          onChange={updateOperation}
+          className="compact-select"
+          title={
+            appendUnsupported
+              ? "The browser can only add to a few request headers (like Accept, Cookie and User-Agent), so it will reject this one. Use Set, or make it a response header."
+              : operationTitles[headerOperation]
+          }
+          style={appendUnsupported ? { borderColor: "var(--color-warning)" } : undefined}
+          aria-label="Header operation"
+          aria-invalid={appendUnsupported || undefined}
+          data-testid="header-operation"
+        >
+          <option value="set">Set</option>
+          <option value="append" disabled={!appendSupported && !appendUnsupported}>
+            Add
+          </option>
+          <option value="remove">Del</option>
+        </select>
+      </div>
       <div className="header-row__type">
         <select
           value={headerType}
@@ -1,6 +1,12 @@
 import { DragDropContext, Droppable, Draggable, type DropResult } from "@hello-pangea/dnd";
-import { HeaderSetting } from "../../utils/settings";
+import { useMemo } from "react";
+import { HeaderSetting, QueryParamSetting, RedirectSetting } from "../../utils/settings";
+import { getShadowingPages } from "../../utils/domain/pagePriority";
+import useRejectedRules from "../../utils/hooks/useRejectedRules";
+import { getRejectedEntries } from "../../background/ruleIsolation";
 import HeaderRow from "../headerRow";
+import RedirectRow from "../redirectRow";
+import QueryParamRow from "../queryParamRow";
 import "./index.css";
 import {
   useSettingsState,
@@ -20,12 +26,34 @@ const reorder = (
 };
 
 const HeadersList = () => {
-  const { currentPage } = useSettingsState();
-  const { removeHeader, updateHeader, saveHeaders } = useSettingsActions();
+  const { pages, currentPage } = useSettingsState();
+  const {
+    removeHeader,
+    updateHeader,
+    saveHeaders,
+    removeRedirect,
+    updateRedirect,
+    removeQueryParam,
+    updateQueryParam,
+  } = useSettingsActions();
 
   const currentPageId = currentPage.id;
   const headers = currentPage.headers;
+  const redirects = currentPage.redirects ?? [];
+  const queryParams = currentPage.queryParams ?? [];
   const showComments = currentPage.showHeaderComments;
+  const shadowingPages = useMemo(
+    () => getShadowingPages(pages, currentPage),
+    [pages, currentPage]
+  );
+  const rejectedRules = useRejectedRules();
+  const rejectedReasons = useMemo(
+    () =>
+      new Map(
+        getRejectedEntries([currentPage], rejectedRules).map(({ ownerId, error }) => [ownerId, error])
+      ),
+    [currentPage, rejectedRules]
+  );
 
   const handleRemoveHeader = (id: string) => {
     removeHeader(currentPageId, id);
@@ -35,6 +63,22 @@ const HeadersList = () => {
     updateHeader(currentPageId, header);
   };
 
+  const handleRemoveRedirect = (id: string) => {
+    removeRedirect(currentPageId, id);
+  };
+
+  const handleUpdateRedirect = (redirect: Omit<RedirectSetting, "valid">) => {
+    updateRedirect(currentPageId, redirect);
+  };
+
+  const handleRemoveQueryParam = (id: string) => {
+    removeQueryParam(currentPageId, id);
+  };
+
+  const handleUpdateQueryParam = (param: QueryParamSetting) => {
+    updateQueryParam(currentPageId, param);
+  };
+
   const handleDragEnd = (result: DropResult) => {
     if (!result.destination) return;
 
@@ -48,52 +92,83 @@ const HeadersList = () => {
   };
 
   return (
-    <DragDropContext onDragEnd={handleDragEnd}>
-      <Droppable droppableId="droppable-headers">
-        {(provided) => (
-          <div
-            {...provided.droppableProps}
-            ref={provided.innerRef}
-            className="app__body__headers"
-          >
-            {headers.map(
-              (
-                {
-                  id,
-                  headerName,
-                  headerValue,
-                  headerComment,
-                  headerEnabled,
-                  headerType,
-                },
-                index
-              ) => (
-                <Draggable key={id} draggableId={id} index={index}>
-                  {(provided, snapshot) => (
-                    <div ref={provided.innerRef} {...provided.draggableProps}>
-                      <HeaderRow
-                        id={id}
-                        headerName={headerName}
-                        headerValue={headerValue}
-                        headerComment={headerComment}
-                        headerEnabled={headerEnabled}
-                        headerType={headerType}
-                        showComment={showComments}
-                        onRemove={handleRemoveHeader}
-                        onUpdate={handleUpdateHeader}
-                        isDragging={snapshot.isDragging}
-                        dragHandleProps={provided.dragHandleProps}
-                      />
-                    </div>
-                  )}
-                </Draggable>
-              )
-            )}
-            {provided.placeholder}
-          </div>
-        )}
-      </Droppable>
-    </DragDropContext>
+    <>
+      <DragDropContext onDragEnd={handleDragEnd}>
+        <Droppable droppableId="droppable-headers">
+          {(provided) => (
+            <div
+              {...provided.droppableProps}
+              ref={provided.innerRef}
+              className="app__body__headers"
+            >
+              {headers.map(
+                (
+                  {
+                    id,
+                    headerName,
+                    headerValue,
+                    headerComment,
+                    headerEnabled,
+                    headerType,
+                    headerOperation,
+                  },
+                  index
+                ) => (
+                  <Draggable key={id} draggableId={id} index={index}>
+                    {(provided, snapshot) => (
+                      <div ref={provided.innerRef} {...provided.draggableProps}>
+                        <HeaderRow
+                          id={id}
+                          headerName={headerName}
+                          headerValue={headerValue}
+                          headerComment={headerComment}
+                          headerEnabled={headerEnabled}
+                          headerType={headerType}
+                          headerOperation={headerOperation}
+                          rejectedReason={rejectedReasons.get(id)}
+                          shadowedBy={shadowingPages.get(id)?.name}
+                          showComment={showComments}
+                          onRemove={handleRemoveHeader}
+                          onUpdate={handleUpdateHeader}
+                          isDragging={snapshot.isDragging}
+                          dragHandleProps={provided.dragHandleProps}
+                        />
+                      </div>
+                    )}
+                  </Draggable>
+                )
+              )}
+              {provided.placeholder}
+            </div>
+          )}
+        </Droppable>
+      </DragDropContext>
+      {queryParams.length > 0 && (
+        <div className="app__body__query-params" data-testid="query-params-list">
+          {queryParams.map((param) => (
+            <QueryParamRow
+              key={param.id}
+              param={param}
+              onRemove={handleRemoveQueryParam}
+              onUpdate={handleUpdateQueryParam}
+            />
+          ))}
+        </div>
+      )}
+      {redirects.length > 0 && (
+        <div className="app__body__redirects" data-testid="redirects-list">
+          {redirects.map((redirect) => (
+            <RedirectRow
+              key={redirect.id}
+              {...redirect}
+              showComment={showComments}
+              onRemove={handleRemoveRedirect}
+              onUpdate={handleUpdateRedirect}
+            />
+          ))}
+        </div>
+      )}
+    </>
   );
 };
 
@@ -0,0 +1,20 @@
+import type { SVGProps } from "react";
+
+const Tab = (props: SVGProps<SVGSVGElement>) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    aria-hidden="true"
+    {...props}
+  >
+    <path d="M3 8V6a2 2 0 0 1 2-2h5a2 2 0 0 1 2 2v2" />
+    <path d="M3 8h18v10a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8z" />
+  </svg>
+);
+
+export default Tab;
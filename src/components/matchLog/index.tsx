@@ -0,0 +1,101 @@
+import { useMemo, useState } from "react";
+import Button from "../button";
+import {
+  filterMatchLog,
+  type MatchLogEntry,
+  type MatchLogFilters,
+} from "../../utils/storage/matchLog";
+import "./index.css";
+
+interface MatchLogProps {
+  entries: MatchLogEntry[];
+  onClear: () => void;
+}
+
+// Select values for the "any" option, and for matches not traced to a page
+const ALL = "";
+const UNTRACED = "\u0000untraced";
+
+const describeTab = (tabId: number) => (tabId < 0 ? "No tab" : `Tab ${tabId}`);
+
+const MatchLog = ({ entries, onClear }: MatchLogProps) => {
+  const [tab, setTab] = useState(ALL);
+  const [page, setPage] = useState(ALL);
+  const [url, setUrl] = useState("");
+
+  const tabIds = useMemo(
+    () => [...new Set(entries.map((entry) => entry.tabId))].sort((a, b) => a - b),
+    [entries]
+  );
+  const pageNames = useMemo(
+    () => [...new Set(entries.map((entry) => entry.pageName ?? UNTRACED))].sort(),
+    [entries]
+  );
+
+  const filters: MatchLogFilters = {
+    tabId: tab === ALL ? undefined : Number(tab),
+    pageName: page === ALL ? undefined : page === UNTRACED ? null : page,
+    url,
+  };
+  const visible = filterMatchLog(entries, filters);
+
+  return (
+    <div className="match-log" data-testid="match-log">
+      <div className="match-log__filters">
+        <select value={tab} onChange={(e) => setTab(e.target.value)} aria-label="Filter by tab" data-testid="match-log-tab">
+          <option value={ALL}>All tabs</option>
+          {tabIds.map((tabId) => (
+            <option key={tabId} value={String(tabId)}>
+              {describeTab(tabId)}
+            </option>
+          ))}
+        </select>
+        <select value={page} onChange={(e) => setPage(e.target.value)} aria-label="Filter by page" data-testid="match-log-page">
+          <option value={ALL}>All pages</option>
+          {pageNames.map((name) => (
+            <option key={name} value={name}>
+              {name === UNTRACED ? "Unknown page" : name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="Filter by URL"
+          aria-label="Filter by URL"
+          data-testid="match-log-url"
+        />
+        <Button onClick={onClear} content="Clear" color="secondary" testId="match-log-clear" />
+      </div>
+      {entries.length === 0 ? (
+        <p>No matched requests yet. Browse a site your pages apply to and they'll show up here.</p>
+      ) : visible.length === 0 ? (
+        <p>No matched requests fit these filters.</p>
+      ) : (
+        <ul className="match-log__list">
+          {visible.map((entry, index) => (
+            <li key={`${entry.timeStamp}-${entry.ruleId}-${index}`} className="match-log__entry" data-testid="match-log-entry">
+              <div className="match-log__summary">
+                <span>{new Date(entry.timeStamp).toLocaleTimeString()}</span>
+                <span>{describeTab(entry.tabId)}</span>
+                <span className="match-log__page">{entry.pageName ?? "Unknown page"}</span>
+                {entry.method && <span>{entry.method.toUpperCase()}</span>}
+                {entry.type && <span>{entry.type}</span>}
+                <span className="match-log__rule">Rule #{entry.ruleId}</span>
+              </div>
+              <div className="match-log__url" title={entry.url ?? entry.tabUrl}>
+                {entry.url ?? (entry.tabUrl ? `In tab: ${entry.tabUrl}` : "URL not reported")}
+              </div>
+              {entry.sources.length > 0 && (
+                <div className="match-log__sources">{entry.sources.join(", ")}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MatchLog;
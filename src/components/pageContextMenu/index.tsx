@@ -4,8 +4,11 @@ import "./index.css";
 import { useSettingsActions } from "../../context/settingsContext";
 import Power from "../icons/Power";
 import Pause from "../icons/Pause";
+import Clock from "../icons/Clock";
 import Duplicate from "../icons/Duplicate";
 import Delete from "../icons/Delete";
+import ArrowUp from "../icons/ArrowUp";
+import ArrowDown from "../icons/ArrowDown";
 import { cx } from "../../utils/cx";
 
 interface PageContextMenuProps {
@@ -17,7 +20,12 @@ interface PageContextMenuProps {
 }
 
 const MENU_WIDTH = 190;
-const MENU_HEIGHT = 200;
+const MENU_HEIGHT = 280;
+
+// Explicit page priorities are kept small - they only need to order a
+// handful of pages.
+const MIN_PRIORITY = -9;
+const MAX_PRIORITY = 9;
 
 export const PageContextMenu = ({
   page,
@@ -68,6 +76,19 @@ export const PageContextMenu = ({
     updatePage({ ...page, paused: !page.paused });
   };
 
+  const handleToggleSessionOnly = () => {
+    updatePage({ ...page, sessionOnly: !page.sessionOnly });
+  };
+
+  const priority = page.priority ?? 0;
+
+  const handleChangePriority = (delta: number) => {
+    const next = Math.min(MAX_PRIORITY, Math.max(MIN_PRIORITY, priority + delta));
+    if (next !== priority) {
+      updatePage({ ...page, priority: next });
+    }
+  };
+
   const handleDuplicate = () => {
     addPage({
       ...page,
@@ -125,6 +146,55 @@ export const PageContextMenu = ({
           {page.paused ? "Resume Page" : "Pause Page"}
         </button>
       </div>
+      <div className="page-context-menu__item">
+        <button
+          type="button"
+          className={cx("page-context-menu__button", {
+            "page-context-menu__button--session-active": page.sessionOnly,
+            "page-context-menu__button--session": !page.sessionOnly,
+          })}
+          onClick={handleToggleSessionOnly}
+          aria-label={
+            page.sessionOnly
+              ? "Keep page across browser restarts"
+              : "Pause page on browser restart"
+          }
+          title="Session-only pages are paused again when the browser restarts"
+          data-testid="page-context-toggle-session-only"
+        >
+          <Clock className="page-context-menu__icon" />
+          Session only
+        </button>
+      </div>
+      <div
+        className="page-context-menu__item page-context-menu__priority"
+        title="When active pages change the same header, the higher priority wins. Pages with the same priority go by their order in the list."
+      >
+        <span className="page-context-menu__priority-label">Priority</span>
+        <button
+          type="button"
+          className="page-context-menu__priority-button"
+          onClick={() => handleChangePriority(-1)}
+          disabled={priority <= MIN_PRIORITY}
+          aria-label="Lower page priority"
+          data-testid="page-context-priority-down"
+        >
+          <ArrowDown className="page-context-menu__icon" />
+        </button>
+        <span className="page-context-menu__priority-value" data-testid="page-context-priority">
+          {priority}
+        </span>
+        <button
+          type="button"
+          className="page-context-menu__priority-button"
+          onClick={() => handleChangePriority(1)}
+          disabled={priority >= MAX_PRIORITY}
+          aria-label="Raise page priority"
+          data-testid="page-context-priority-up"
+        >
+          <ArrowUp className="page-context-menu__icon" />
+        </button>
+      </div>
       <div className="page-context-menu__item">
         <button
           type="button"
@@ -13,14 +13,19 @@ import CircleSlash from "../icons/CircleSlash";
 import CommentToggle from "../icons/CommentToggle";
 import Pause from "../icons/Pause";
 import Play from "../icons/Play";
+import Tab from "../icons/Tab";
 import SortHeadersDropdown from "../sortHeadersDropdown";
 import { HeaderSetting } from "../../utils/settings";
+import { isRunningInActionPopup } from "../../utils/browserContext";
+import useActiveTabScope from "../../utils/hooks/useActiveTabScope";
 
 const PageTitle = () => {
   const { pages, currentPage } = useSettingsState();
   const { updatePage, changePageIndex, saveHeaders, setAllHeadersEnabled } =
     useSettingsActions();
   const alertContext = useAlert();
+  const { available: tabScopeAvailable, thisTabOnly, toggleThisTabOnly } =
+    useActiveTabScope(currentPage.pageId);
 
   const name = currentPage.name;
   const showHeaderComments = currentPage.showHeaderComments;
@@ -46,6 +51,17 @@ const PageTitle = () => {
     updatePage({ ...currentPage, paused: !currentPage.paused });
   };
 
+  const onToggleThisTabOnly = async () => {
+    await toggleThisTabOnly();
+    alertContext.setAlert({
+      alertText: thisTabOnly
+        ? `${name} is back to normal`
+        : `${name} now applies to this tab only`,
+      alertType: "success",
+      location: "bottom",
+    });
+  };
+
   const anyHeaderEnabled = currentPage.headers.some(
     (header) => header.headerEnabled
   );
@@ -147,6 +163,25 @@ const PageTitle = () => {
           }
           testId="toggle-page-pause"
         />
+        {/* "This tab" only means something in the popup - the settings
+            page's active tab is itself. */}
+        {tabScopeAvailable && isRunningInActionPopup() && (
+          <Button
+            onClick={onToggleThisTabOnly}
+            color={thisTabOnly ? "primary" : "secondary"}
+            title={
+              thisTabOnly
+                ? "Apply this page normally again"
+                : "Apply this page to this tab only"
+            }
+            content={
+              <span className="page-title__toggle-button-content">
+                <Tab className="page-title__toggle-icon page-title__toggle-icon--tab" />
+              </span>
+            }
+            testId="toggle-this-tab-only"
+          />
+        )}
         <Button
           onClick={onToggleShowHeaderComments}
           color={showHeaderComments ? "primary" : "secondary"}
@@ -4,6 +4,7 @@ import Button from "../button";
 import PageContextMenu from "../pageContextMenu";
 import CollapseArrow from "../icons/CollapseArrow";
 import Pause from "../icons/Pause";
+import Clock from "../icons/Clock";
 import { cx } from "../../utils/cx";
 import "./index.css";
 import {
@@ -41,6 +42,7 @@ export const PagesList = () => {
       enabled: true,
       keepEnabled: false,
       paused: false,
+      sessionOnly: false,
       showHeaderComments: true,
       name: "New Page",
       headers: [],
@@ -163,6 +165,9 @@ const PageListItem = ({
       ) : (
         <>
           <h3>{page.name}</h3>
+          {page.sessionOnly && !paused && (
+            <Clock className="page-list-item__session-icon" aria-label="Session only" />
+          )}
           {paused && (
             <Pause className="page-list-item__paused-icon" aria-label="Paused" />
           )}
@@ -0,0 +1,137 @@
+import type * as React from "react";
+import { QueryParamOperation, QueryParamSetting } from "../../utils/settings";
+import { isValidQueryParamKey, isValidQueryParamValue } from "../../utils/domain/queryParams";
+import { cx } from "../../utils/cx";
+import Button from "../button";
+import "../headerRow/index.css";
+import "../redirectRow/index.css";
+import "./index.css";
+import Basket from "../icons/Basket";
+
+const operationTitles: Record<QueryParamOperation, string> = {
+  add: "Add the parameter, replacing any existing value",
+  replace: "Replace the parameter's value, only where the URL already has it",
+  remove: "Remove the parameter",
+};
+
+// Takes the change as one prop: its `key` field couldn't be spread in, as
+// React reserves that prop name.
+const QueryParamRow = ({
+  param,
+  onRemove,
+  onUpdate,
+}: {
+  param: QueryParamSetting;
+  onRemove: (id: string) => void;
+  onUpdate: (param: QueryParamSetting) => void;
+}) => {
+  const { id, enabled, operation, key: paramKey, value } = param;
+
+  const updateQueryParam = (patch: Partial<QueryParamSetting>) => {
+    onUpdate({ ...param, ...patch });
+  };
+
+  const updateKey = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateQueryParam({ key: e.target.value });
+  };
+
+  const updateValue = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateQueryParam({ value: e.target.value });
+  };
+
+  const updateOperation = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    updateQueryParam({ operation: e.target.value as QueryParamOperation });
+  };
+
+  const updateEnabled = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateQueryParam({ enabled: e.target.checked });
+  };
+
+  const handleFocus = (e: React.FocusEvent<HTMLInputElement>) => {
+    e.target.select();
+  };
+
+  // A new change starts out with an empty name - only flag it once there's
+  // something to be wrong.
+  const keyInvalid = !!paramKey && !isValidQueryParamKey(paramKey);
+  const valueInvalid = operation !== "remove" && !isValidQueryParamValue(value);
+
+  return (
+    <div
+      className={cx("header-row", "query-param-row", {
+        "header-row--disabled": !enabled,
+      })}
+      data-queryparamid={id}
+      data-testid="query-param-row"
+    >
+      <div className="header-row__checkbox">
+        <span className="redirect-row__label" aria-hidden="true">
+          Query
+        </span>
+        <label className="toggle-switch">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={updateEnabled}
+            aria-label="Query parameter enabled"
+            data-testid="query-param-enabled"
+          />
+          <span className="toggle-switch__slider"></span>
+        </label>
+      </div>
+      <div className="header-row__name query-param-row__key">
+        <input
+          type="text"
+          placeholder="Parameter"
+          value={paramKey}
+          onChange={updateKey}
+          onFocus={handleFocus}
+          title={keyInvalid ? "Parameter names can't contain spaces, &, = or #." : undefined}
+          aria-label="Query parameter name"
+          aria-invalid={keyInvalid || undefined}
+          data-testid="query-param-key"
+        />
+      </div>
+      <span className="redirect-row__arrow" aria-hidden="true">
+        =
+      </span>
+      <div className="header-row__value query-param-row__value">
+        <input
+          type="text"
+          placeholder={operation === "remove" ? "Removed" : "Value"}
+          value={value}
+          onChange={updateValue}
+          onFocus={handleFocus}
+          disabled={operation === "remove"}
+          title={valueInvalid ? "Values can't contain spaces, & or # - use %20 for a space." : undefined}
+          aria-label="Query parameter value"
+          aria-invalid={valueInvalid || undefined}
+          data-testid="query-param-value"
+        />
+      </div>
+      <div className="header-row__operation query-param-row__operation">
+        <select
+          value={operation}
+          onChange={updateOperation}
+          className="compact-select"
+          title={operationTitles[operation]}
+          aria-label="Query parameter operation"
+          data-testid="query-param-operation"
+        >
+          <option value="add">Add</option>
+          <option value="replace">Repl</option>
+          <option value="remove">Del</option>
+        </select>
+      </div>
+      <div className="header-row__remove" onClick={() => onRemove(id)}>
+        <Button
+          content={<Basket role="img" aria-label="Remove Query Parameter" />}
+          style={{ height: "28px", padding: "6px 8px" }}
+          testId="query-param-remove"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default QueryParamRow;
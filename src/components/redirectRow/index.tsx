@@ -0,0 +1,159 @@
+import { useState } from "react";
+import type * as React from "react";
+import { RedirectSetting } from "../../utils/settings";
+import { usesCaptureGroups } from "../../utils/domain/redirects";
+import { explainRegexProblem } from "../../utils/domain/regexSyntax";
+import { cx } from "../../utils/cx";
+import Button from "../button";
+import "../headerRow/index.css";
+import "./index.css";
+import Basket from "../icons/Basket";
+
+const invalidTitle =
+  "The source has to be a regex the browser supports, and the target a full URL (http://, https://, ws://, wss:// or data:) or a substitution using \\1-\\9. A fixed target can't match its own source.";
+
+const RedirectRow = ({
+  id,
+  enabled,
+  valid,
+  source,
+  target,
+  comment,
+  showComment,
+  onRemove,
+  onUpdate,
+}: RedirectSetting & {
+  showComment: boolean;
+  onRemove: (id: string) => void;
+  onUpdate: (redirect: Omit<RedirectSetting, "valid">) => void;
+}) => {
+  // Validation is asynchronous (see redirectIsValid), so the inputs keep
+  // their own copy to stay responsive while typing - as FilterRow does.
+  const [cachedSource, setCachedSource] = useState(source);
+  const [cachedTarget, setCachedTarget] = useState(target);
+
+  const updateRedirect = (patch: Partial<RedirectSetting>) => {
+    onUpdate({
+      id,
+      enabled,
+      source: cachedSource,
+      target: cachedTarget,
+      comment,
+      ...patch,
+    });
+  };
+
+  const updateSource = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCachedSource(e.target.value);
+    updateRedirect({ source: e.target.value });
+  };
+
+  const updateTarget = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCachedTarget(e.target.value);
+    updateRedirect({ target: e.target.value });
+  };
+
+  const updateComment = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateRedirect({ comment: e.target.value });
+  };
+
+  const updateEnabled = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateRedirect({ enabled: e.target.checked });
+  };
+
+  const handleFocus = (e: React.FocusEvent<HTMLInputElement>) => {
+    e.target.select();
+  };
+
+  // A brand new redirect starts out empty - only flag it once there's
+  // something to be wrong.
+  const showInvalid = !valid && (!!cachedSource || !!cachedTarget);
+  const sourceProblem = showInvalid && cachedSource ? explainRegexProblem(cachedSource) : null;
+
+  return (
+    <div
+      className={cx("header-row", "redirect-row", {
+        "header-row--comments-hidden": !showComment,
+        "header-row--disabled": !enabled,
+        "redirect-row--invalid": showInvalid,
+      })}
+      data-redirectid={id}
+      data-testid="redirect-row"
+    >
+      <div className="header-row__checkbox">
+        <span className="redirect-row__label" aria-hidden="true">
+          Redirect
+        </span>
+        <label className="toggle-switch">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={updateEnabled}
+            aria-label="Redirect enabled"
+            data-testid="redirect-enabled"
+          />
+          <span className="toggle-switch__slider"></span>
+        </label>
+      </div>
+      <div className="header-row__name redirect-row__source">
+        <input
+          type="text"
+          placeholder="^https://cdn\.example\.com/(.*)"
+          value={cachedSource}
+          onChange={updateSource}
+          onFocus={handleFocus}
+          title={
+            sourceProblem ??
+            (showInvalid ? invalidTitle : "Regex matched against the request URL")
+          }
+          aria-label="Redirect source"
+          aria-invalid={showInvalid || undefined}
+          data-testid="redirect-source"
+        />
+      </div>
+      <span className="redirect-row__arrow" aria-hidden="true">
+        →
+      </span>
+      <div className="header-row__value redirect-row__target">
+        <input
+          type="text"
+          placeholder="http://localhost:3000/\1"
+          value={cachedTarget}
+          onChange={updateTarget}
+          onFocus={handleFocus}
+          title={
+            showInvalid
+              ? invalidTitle
+              : usesCaptureGroups(cachedTarget)
+                ? "Filled in from the source's capture groups"
+                : "Fixed URL - use \\1-\\9 to fill in the source's capture groups"
+          }
+          aria-label="Redirect target"
+          aria-invalid={showInvalid || undefined}
+          data-testid="redirect-target"
+        />
+      </div>
+      {showComment && (
+        <div className="header-row__comment">
+          <input
+            type="text"
+            placeholder="Comment"
+            value={comment}
+            onChange={updateComment}
+            onFocus={handleFocus}
+            data-testid="redirect-comment"
+          />
+        </div>
+      )}
+      <div className="header-row__remove" onClick={() => onRemove(id)}>
+        <Button
+          content={<Basket role="img" aria-label="Remove Redirect" />}
+          style={{ height: "28px", padding: "6px 8px" }}
+          testId="redirect-remove"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RedirectRow;
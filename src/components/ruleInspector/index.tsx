@@ -0,0 +1,92 @@
+import { useState } from "react";
+import Button from "../button";
+import useRuleInspector from "../../utils/hooks/useRuleInspector";
+import type { InspectedRule, InspectedRuleStatus } from "../../background/ruleInspector";
+import { cx } from "../../utils/cx";
+import "./index.css";
+
+const STATUS_LABELS: Record<Exclude<InspectedRuleStatus, "current">, string> = {
+  outdated: "Out of date - the next apply replaces it",
+  unknown: "Not from your pages",
+};
+
+/**
+ * What "Copy as JSON" puts on the clipboard: each rule as the browser has
+ * it, with where it came from.
+ */
+const formatRules = (rules: InspectedRule[]): string =>
+  JSON.stringify(
+    rules.map(({ ruleSet, status, pageName, sources, rule }) => ({
+      ruleSet,
+      status,
+      page: pageName ?? null,
+      sources,
+      rule,
+    })),
+    null,
+    2
+  );
+
+const RuleInspector = () => {
+  const { rules, error, refresh } = useRuleInspector();
+  const [copyText, setCopyText] = useState("Copy as JSON");
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatRules(rules ?? []));
+      setCopyText("Copied!");
+    } catch {
+      setCopyText("Failed");
+    }
+    setTimeout(() => setCopyText("Copy as JSON"), 2000);
+  };
+
+  return (
+    <div className="rule-inspector" data-testid="rule-inspector">
+      <div className="rule-inspector__actions">
+        <Button onClick={refresh} content="Refresh" color="secondary" testId="rule-inspector-refresh" />
+        <Button onClick={handleCopy} content={copyText} color="secondary" testId="rule-inspector-copy" />
+      </div>
+      {error && <p className="rule-inspector__error">{error}</p>}
+      {rules && rules.length === 0 && <p>No rules are applied right now.</p>}
+      {rules && rules.length > 0 && (
+        <ul className="rule-inspector__list">
+          {rules.map(({ ruleSet, status, pageName, sources, rule }) => (
+            <li
+              key={`${ruleSet}:${rule.id}`}
+              className={cx("rule-inspector__rule", {
+                "rule-inspector__rule--stale": status !== "current",
+              })}
+              data-testid="rule-inspector-rule"
+            >
+              <div className="rule-inspector__summary">
+                <span className="rule-inspector__id">#{rule.id}</span>
+                <span>{ruleSet === "session" ? "Session" : "Dynamic"}</span>
+                <span>{rule.action.type}</span>
+                <span>Priority {rule.priority ?? 1}</span>
+                {pageName && <span className="rule-inspector__page">{pageName}</span>}
+                {status !== "current" && (
+                  <span className="rule-inspector__status">{STATUS_LABELS[status]}</span>
+                )}
+              </div>
+              {sources.length > 0 && (
+                <ul className="rule-inspector__sources">
+                  {sources.map((source, index) => (
+                    <li key={index}>
+                      {source.label} <span className="rule-inspector__filter">- {source.filter}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <pre className="rule-inspector__condition">
+                {JSON.stringify(rule.condition, null, 2)}
+              </pre>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RuleInspector;
@@ -3,12 +3,19 @@ import Divider from "../divider";
 import DragDropFile from "../dragDropFile";
 import ExportPopup from "../exportPopup";
 import SyncToggleButton from "../syncToggleButton";
+import RuleInspector from "../ruleInspector";
+import MatchLog from "../matchLog";
+import UrlTester from "../urlTester";
+import useMatchLog from "../../utils/hooks/useMatchLog";
 import {
   useSettingsState,
   useSettingsActions,
 } from "../../context/settingsContext";
 import { getSyncStatus } from "../../utils/sync/syncStatus";
+import { formatRelativeTime } from "../../utils/sync/formatRelativeTime";
+import type { RuleHealthState } from "../../utils/storage/ruleHealth";
 import { cx } from "../../utils/cx";
+import { MATCH_LOG_LIMIT } from "../../constants";
 import "./index.css";
 
 interface SettingsPageProps {
@@ -16,6 +23,24 @@ interface SettingsPageProps {
   onOpenReview?: () => void;
 }
 
+/**
+ * One line for the latest applied-rule check, and one for the drift history.
+ */
+const describeRuleHealth = (health: RuleHealthState): string[] => {
+  const checked = `Checked ${formatRelativeTime(health.checkedAt)}`;
+  const result =
+    health.result === "ok"
+      ? `${checked} - the applied rules match your pages.`
+      : health.result === "repaired"
+        ? `${checked} - ${health.differingRules} rule(s) had drifted and were re-applied.`
+        : `${checked} - ${health.error ?? "the check failed."}`;
+  const history =
+    health.driftCount > 0 && health.lastDriftAt
+      ? `Drift found ${health.driftCount} time(s), most recently ${formatRelativeTime(health.lastDriftAt)}.`
+      : "No drift found so far.";
+  return [result, history];
+};
+
 const SettingsPage = ({ hasReviewed, onOpenReview }: SettingsPageProps) => {
   const {
     pages,
@@ -24,6 +49,8 @@ const SettingsPage = ({ hasReviewed, onOpenReview }: SettingsPageProps) => {
     localModifiedTime,
     historyEnabled,
     slimModeEnabled,
+    ruleHealth,
+    verifyingRules,
   } = useSettingsState();
   const {
     importSettings,
@@ -32,7 +59,9 @@ const SettingsPage = ({ hasReviewed, onOpenReview }: SettingsPageProps) => {
     clearErrors,
     toggleHistoryEnabled,
     toggleSlimMode,
+    verifyRules,
   } = useSettingsActions();
+  const { matchLogEnabled, matchLog, toggleMatchLog, clearMatchLog } = useMatchLog();
   const syncStatus = getSyncStatus(lastSyncTime, localModifiedTime);
   return (
     <div className="settings-page">
@@ -118,6 +147,82 @@ const SettingsPage = ({ hasReviewed, onOpenReview }: SettingsPageProps) => {
 
       <Divider />
 
+      <div className="settings-page__section">
+        <h2>Applied Rules</h2>
+        <p>
+          Flex Headers regularly checks that the rules the browser is applying
+          still match your pages, and re-applies them if they don't.
+        </p>
+        <div>
+          <Button
+            onClick={verifyRules}
+            content={verifyingRules ? "Verifying..." : "Verify rules now"}
+            testId="verify-rules-button"
+          />
+        </div>
+        {ruleHealth && (
+          <div
+            className={cx("settings-page__rule-health", {
+              "settings-page__rule-health--failed": ruleHealth.result === "failed",
+            })}
+            data-testid="rule-health"
+          >
+            {describeRuleHealth(ruleHealth).map((line) => (
+              <p key={line}>{line}</p>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Divider />
+
+      <div className="settings-page__section">
+        <h2>Rule Inspector</h2>
+        <p>
+          The rules the browser is applying right now, and the page, header and
+          filter each one was built from.
+        </p>
+        <RuleInspector />
+      </div>
+
+      <Divider />
+
+      <div className="settings-page__section">
+        <h2>Test a URL</h2>
+        <p>
+          Which headers your pages would set or remove on a request, and the
+          filter that decides it. Worked out from your pages rather than asked
+          of the browser, so it doesn't need the rules to be applied.
+        </p>
+        <UrlTester pages={pages} />
+      </div>
+
+      <Divider />
+
+      <div className="settings-page__section">
+        <h2>Matched Requests</h2>
+        <label className="settings-page__toggle">
+          <input
+            type="checkbox"
+            className="settings-page__toggle-input"
+            checked={matchLogEnabled}
+            onChange={toggleMatchLog}
+            data-testid="match-log-toggle"
+          />
+          <span className="settings-page__toggle-content">
+            <span className="settings-page__toggle-title">Record matched requests</span>
+            <span className="settings-page__toggle-description">
+              Log which requests your headers, redirects and blocks were applied
+              to. The browser asks for permission to report rule matches first.
+              The last {MATCH_LOG_LIMIT} matches are kept on this device only.
+            </span>
+          </span>
+        </label>
+        {matchLogEnabled && <MatchLog entries={matchLog} onClear={clearMatchLog} />}
+      </div>
+
+      <Divider />
+
       <div className="settings-page__section">
         <h2>Experimental Settings</h2>
         <p>Opt-in features still under evaluation.</p>
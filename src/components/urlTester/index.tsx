@@ -0,0 +1,197 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  requestMethodSchema,
+  resourceTypeSchema,
+  type Page,
+  type RequestMethod,
+  type ResourceType,
+} from "../../utils/settings";
+import { getTabScopes, type TabScopes } from "../../utils/storage/tabScopes";
+import { supportsResponseHeaderConditions } from "../../utils/browserContext";
+import { explainRulesFromPages } from "../../background/rules";
+import { createRuleIdAllocator } from "../../background/ruleIds";
+import {
+  evaluateRequest,
+  parseTestUrl,
+  type DecidingRule,
+  type EvaluationStep,
+  type HeaderEffect,
+} from "../../background/ruleEvaluator";
+import { cx } from "../../utils/cx";
+import "./index.css";
+
+interface UrlTesterProps {
+  pages: Page[];
+}
+
+const OPERATION_LABELS: Record<HeaderEffect["operation"], string> = {
+  set: "Set",
+  append: "Append to",
+  remove: "Remove",
+};
+
+const describeDecidingRule = ({ pageName, label, filter }: DecidingRule) =>
+  `${pageName}: ${label} (${filter})`;
+
+const describeOutcome = (step: EvaluationStep): string => {
+  switch (step.outcome) {
+    case "redirected":
+      return `Redirected to ${step.redirectUrl} by ${describeDecidingRule(step.decidedBy!)}`;
+    case "blocked":
+      return `Blocked by ${describeDecidingRule(step.decidedBy!)}`;
+    case "modified":
+      return "Headers are changed:";
+    default:
+      return step.allowedBy
+        ? `Left alone - ${step.allowedBy.pageName}'s exclude matched (${step.allowedBy.filter}).`
+        : "No header is changed.";
+  }
+};
+
+/**
+ * The notes after a header change: why it doesn't apply, or what it
+ * depends on.
+ */
+const describeStatus = (effect: HeaderEffect): string[] => [
+  ...(effect.status === "overridden" ? [`Overridden by ${effect.reason}`] : []),
+  ...(effect.status === "excluded" ? [`Stopped by ${effect.reason}`] : []),
+  ...(effect.dependsOnResponse ? ["Only if the response matches"] : []),
+  ...(effect.ruleSet === "session" ? ["Only in its tabs"] : []),
+];
+
+/**
+ * Header changes by page, pages in the order their changes are applied.
+ */
+const groupByPage = (headers: HeaderEffect[]): [string, HeaderEffect[]][] => {
+  const groups = new Map<string, HeaderEffect[]>();
+  headers.forEach((effect) => {
+    groups.set(effect.pageName, [...(groups.get(effect.pageName) ?? []), effect]);
+  });
+  return [...groups];
+};
+
+/**
+ * Shows what the pages would do to a request, worked out from the rules
+ * they compile to rather than asked of the browser - so it also works in
+ * dev:web mode.
+ */
+const UrlTester = ({ pages }: UrlTesterProps) => {
+  const [url, setUrl] = useState("");
+  const [method, setMethod] = useState<RequestMethod>("get");
+  const [resourceType, setResourceType] = useState<ResourceType>("main_frame");
+  const [initiator, setInitiator] = useState("");
+  const [tabScopes, setTabScopes] = useState<TabScopes>({});
+
+  useEffect(() => {
+    getTabScopes().then(setTabScopes);
+  }, []);
+
+  const explained = useMemo(
+    () =>
+      explainRulesFromPages(pages, createRuleIdAllocator(), {
+        responseHeaderConditions: supportsResponseHeaderConditions(),
+        tabScopes,
+      }),
+    [pages, tabScopes]
+  );
+
+  const steps = useMemo(
+    () =>
+      url.trim()
+        ? evaluateRequest(explained, { url, method, resourceType, initiator: initiator.trim() || undefined })
+        : [],
+    [explained, url, method, resourceType, initiator]
+  );
+
+  return (
+    <div className="url-tester" data-testid="url-tester">
+      <div className="url-tester__inputs">
+        <input
+          type="text"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com/path"
+          aria-label="URL to test"
+          data-testid="url-tester-url"
+        />
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as RequestMethod)}
+          aria-label="Request method"
+          data-testid="url-tester-method"
+        >
+          {requestMethodSchema.options.map((option) => (
+            <option key={option} value={option}>
+              {option.toUpperCase()}
+            </option>
+          ))}
+        </select>
+        <select
+          value={resourceType}
+          onChange={(e) => setResourceType(e.target.value as ResourceType)}
+          aria-label="Resource type"
+          data-testid="url-tester-resource-type"
+        >
+          {resourceTypeSchema.options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={initiator}
+          onChange={(e) => setInitiator(e.target.value)}
+          placeholder="Initiator (optional)"
+          aria-label="Initiator"
+          data-testid="url-tester-initiator"
+        />
+      </div>
+      {url.trim() && !parseTestUrl(url) && (
+        <p className="url-tester__error">Enter a URL like https://example.com/path.</p>
+      )}
+      {steps.map((step, index) => (
+        <div key={`${index}-${step.url}`} className="url-tester__step" data-testid="url-tester-step">
+          <div className="url-tester__url">{step.url}</div>
+          <p className={cx("url-tester__outcome", { "url-tester__outcome--blocked": step.outcome === "blocked" })}>
+            {describeOutcome(step)}
+          </p>
+          {groupByPage(step.headers).map(([pageName, effects]) => (
+            <div key={pageName} className="url-tester__page">
+              <div className="url-tester__page-name">{pageName}</div>
+              <ul className="url-tester__headers">
+                {effects.map((effect, effectIndex) => (
+                  <li
+                    key={effectIndex}
+                    className={cx("url-tester__header", {
+                      "url-tester__header--inactive": effect.status !== "applied",
+                    })}
+                    data-testid="url-tester-header"
+                  >
+                    <span>
+                      {OPERATION_LABELS[effect.operation]} {effect.headerType} header{" "}
+                      <code>{effect.headerName}</code>
+                      {effect.value !== undefined && (
+                        <>
+                          : <code>{effect.value}</code>
+                        </>
+                      )}
+                    </span>
+                    <span className="url-tester__filter">- {effect.filter}</span>
+                    {describeStatus(effect).map((note) => (
+                      <span key={note} className="url-tester__note">
+                        {note}
+                      </span>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default UrlTester;
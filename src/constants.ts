@@ -22,6 +22,17 @@ export const REDO_STACK_KEY = "redo_stack";
 export const HISTORY_ENABLED_KEY = "history_enabled"; // Local only - per-device preference for the undo/redo feature
 export const PAGES_LIST_COLLAPSED_KEY = "pages_list_collapsed"; // Local-only popup layout preference
 export const SLIM_MODE_KEY = "slim_mode"; // Local-only compact popup layout preference
+export const TAB_SCOPES_KEY = "tab_scopes"; // Local only - pages in "this tab only" mode and their tab ids, which mean nothing after a browser restart
+export const RULE_USAGE_KEY = "rule_usage"; // Local only - written by the background after each apply: compiled rule counts, the browser's quotas and any headers left out
+export const REJECTED_RULES_KEY = "rejected_rules"; // Local only - the page entries whose rules this browser rejected, with its errors; another browser (or this one after an update) may accept them
+export const RULE_HEALTH_KEY = "rule_health"; // Local only - written by the background's applied-rule check: when it last ran, what it found and how often the applied rules had drifted
+export const RULE_HEALTH_CHECK_REQUEST_KEY = "rule_health_check_request"; // Local only - stamped by the settings page to ask the background to check the applied rules now
+export const RULE_HEALTH_CHECK_INTERVAL = 5 * 60 * 1000; // Compare the applied rules against the pages every 5 minutes
+export const MATCH_LOG_KEY = "match_log"; // Local only - the requests our rules matched, recorded by the background while the matched request log is on
+export const MATCH_LOG_ENABLED_KEY = "match_log_enabled"; // Local only - whether the matched request log is on (it also needs the optional declarativeNetRequestFeedback permission)
+export const MATCH_LOG_LIMIT = 500; // Oldest matches are dropped past this many
+export const MATCH_LOG_FLUSH_DELAY = 1000; // Matches are written in batches, at most this often
+export const MATCH_LOG_POLL_INTERVAL = 60 * 1000; // Where matches can't be reported as they happen, poll getMatchedRules - which allows 20 calls per 10 minutes
 export const DARK_MODE_KEY = "darkMode"; // Local-only per-device preference (see CLAUDE.md on why this is never synced)
 
 export const POPULAR_HEADER_NAMES = [
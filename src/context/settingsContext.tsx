@@ -5,11 +5,16 @@ import React, {
   ReactNode,
 } from "react";
 import useFlexHeaderSettings, {
+  BlockSetting,
   HeaderFilter,
   HeaderSetting,
   Page,
+  QueryParamSetting,
+  RedirectSetting,
 } from "../utils/settings";
 import { AppError, ErrorCategory } from "../utils/storage/errors";
+import type { RuleUsageState } from "../utils/storage/ruleUsage";
+import type { RuleHealthState } from "../utils/storage/ruleHealth";
 
 type SettingsStateContextValue = {
   pages: Page[];
@@ -21,6 +26,9 @@ type SettingsStateContextValue = {
   lastSyncTime: number | null;
   localModifiedTime: number | null;
   errors: AppError[];
+  ruleUsage: RuleUsageState | null;
+  ruleHealth: RuleHealthState | null;
+  verifyingRules: boolean;
   canUndo: boolean;
   canRedo: boolean;
   historyEnabled: boolean;
@@ -45,6 +53,28 @@ type SettingsActionsContextValue = {
     filter: Omit<HeaderFilter, "valid">
   ) => void;
   removeFilter: (pageId: number, id: string) => void;
+  setFilterJoined: (pageId: number, id: string, joined: boolean) => void;
+
+  addRedirect: (
+    pageId: number,
+    redirect: Omit<RedirectSetting, "id">
+  ) => RedirectSetting | undefined;
+  updateRedirect: (
+    pageId: number,
+    redirect: Omit<RedirectSetting, "valid">
+  ) => void;
+  removeRedirect: (pageId: number, id: string) => void;
+
+  addBlock: (pageId: number, block: Omit<BlockSetting, "id">) => void;
+  updateBlock: (pageId: number, block: Omit<BlockSetting, "valid">) => void;
+  removeBlock: (pageId: number, id: string) => void;
+
+  addQueryParam: (
+    pageId: number,
+    param: Omit<QueryParamSetting, "id">
+  ) => QueryParamSetting | undefined;
+  updateQueryParam: (pageId: number, param: QueryParamSetting) => void;
+  removeQueryParam: (pageId: number, id: string) => void;
 
   addPage: (page: Page) => void;
   updatePage: (page: Page) => void;
@@ -58,6 +88,7 @@ type SettingsActionsContextValue = {
   toggleSync: () => Promise<void>;
   clearErrors: (category?: AppError["category"]) => Promise<void>;
   injectError: (category?: ErrorCategory) => Promise<void>;
+  verifyRules: () => Promise<void>;
   undo: () => void;
   redo: () => void;
   toggleHistoryEnabled: () => Promise<void>;
@@ -91,6 +122,9 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
       lastSyncTime: settings.lastSyncTime,
       localModifiedTime: settings.localModifiedTime,
       errors: settings.errors,
+      ruleUsage: settings.ruleUsage,
+      ruleHealth: settings.ruleHealth,
+      verifyingRules: settings.verifyingRules,
       canUndo: settings.canUndo,
       canRedo: settings.canRedo,
       historyEnabled: settings.historyEnabled,
@@ -105,6 +139,9 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
       settings.lastSyncTime,
       settings.localModifiedTime,
       settings.errors,
+      settings.ruleUsage,
+      settings.ruleHealth,
+      settings.verifyingRules,
       settings.canUndo,
       settings.canRedo,
       settings.historyEnabled,
@@ -121,6 +158,16 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
       addFilter: settings.addFilter,
       updateFilter: settings.updateFilter,
       removeFilter: settings.removeFilter,
+      setFilterJoined: settings.setFilterJoined,
+      addRedirect: settings.addRedirect,
+      updateRedirect: settings.updateRedirect,
+      removeRedirect: settings.removeRedirect,
+      addBlock: settings.addBlock,
+      updateBlock: settings.updateBlock,
+      removeBlock: settings.removeBlock,
+      addQueryParam: settings.addQueryParam,
+      updateQueryParam: settings.updateQueryParam,
+      removeQueryParam: settings.removeQueryParam,
       addPage: settings.addPage,
       updatePage: settings.updatePage,
       removePage: settings.removePage,
@@ -132,6 +179,7 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
       toggleSync: settings.toggleSync,
       clearErrors: settings.clearErrors,
       injectError: settings.injectError,
+      verifyRules: settings.verifyRules,
       undo: settings.undo,
       redo: settings.redo,
       toggleHistoryEnabled: settings.toggleHistoryEnabled,
@@ -145,6 +193,16 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
       settings.addFilter,
       settings.updateFilter,
       settings.removeFilter,
+      settings.setFilterJoined,
+      settings.addRedirect,
+      settings.updateRedirect,
+      settings.removeRedirect,
+      settings.addBlock,
+      settings.updateBlock,
+      settings.removeBlock,
+      settings.addQueryParam,
+      settings.updateQueryParam,
+      settings.removeQueryParam,
       settings.addPage,
       settings.updatePage,
       settings.removePage,
@@ -156,6 +214,7 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
       settings.toggleSync,
       settings.clearErrors,
       settings.injectError,
+      settings.verifyRules,
       settings.undo,
       settings.redo,
       settings.toggleHistoryEnabled,
@@ -41,6 +41,36 @@ export const isFirefox = (): boolean => {
   }
 };
 
+// First Chrome release whose declarativeNetRequest accepts the
+// responseHeaders/excludedResponseHeaders rule conditions.
+const RESPONSE_HEADER_CONDITIONS_MIN_CHROME = 128;
+
+/**
+ * Whether declarativeNetRequest can match on response headers. There's no
+ * API to feature-detect rule condition fields (unknown ones make the whole
+ * rule update fail), so this goes by browser and Chrome version instead.
+ */
+export const supportsResponseHeaderConditions = (): boolean => {
+  if (isFirefox()) return false;
+
+  const match = /Chrome\/(\d+)/.exec(globalThis.navigator?.userAgent ?? "");
+  return match !== null && Number(match[1]) >= RESPONSE_HEADER_CONDITIONS_MIN_CHROME;
+};
+
+// First Chrome release whose declarativeNetRequest accepts "append" for
+// request headers.
+const REQUEST_HEADER_APPEND_MIN_CHROME = 128;
+
+/**
+ * Whether "append" rules work for request headers at all (see
+ * canAppendHeader for which ones). Goes by Chrome version, like
+ * supportsResponseHeaderConditions - other browsers are assumed to.
+ */
+export const supportsRequestHeaderAppend = (): boolean => {
+  const match = /Chrome\/(\d+)/.exec(globalThis.navigator?.userAgent ?? "");
+  return match === null || Number(match[1]) >= REQUEST_HEADER_APPEND_MIN_CHROME;
+};
+
 export const openOptionsPageAndClosePopup = async (): Promise<void> => {
   try {
     await browser.runtime.openOptionsPage();
@@ -0,0 +1,10 @@
+/**
+ * Splits a domain/initiator filter value into the list DNR expects. Entries
+ * can be separated by commas or whitespace, and are lower-cased because
+ * requestDomains/initiatorDomains only accept lower-case ASCII.
+ */
+export const parseDomainList = (value: string): string[] =>
+  value
+    .split(/[\s,]+/)
+    .map((domain) => domain.trim().toLowerCase())
+    .filter((domain) => domain.length > 0);
@@ -0,0 +1,157 @@
+import {
+  buildFilterValue,
+  convertFilterValue,
+  emptyFilterParts,
+  getSampleUrls,
+  mergeFilterParts,
+  parseFilterValue,
+  type FilterParts,
+} from './filterBuilder';
+import { matchesUrlFilter } from '../../background/ruleEvaluator';
+
+const parts = (overrides: Partial<FilterParts> = {}): FilterParts => ({
+  ...emptyFilterParts,
+  ...overrides,
+});
+
+const build = (overrides: Partial<FilterParts>, mode: 'url' | 'regex') => {
+  const result = buildFilterValue(parts(overrides), mode);
+  return 'value' in result ? result.value : result.error;
+};
+
+describe('buildFilterValue', () => {
+  it('builds a domain-anchored URL filter for a host and its subdomains', () => {
+    expect(build({ host: 'API.example.com' }, 'url')).toBe('||api.example.com/');
+    expect(build({ host: 'example.com', port: '8080', pathPrefix: '/v1', extension: 'json' }, 'url')).toBe(
+      '||example.com:8080/v1*.json^'
+    );
+  });
+
+  it('anchors to the scheme for an exact host', () => {
+    expect(build({ host: 'example.com', includeSubdomains: false }, 'url')).toBe('|http*://example.com/');
+    expect(build({ scheme: 'https', host: 'example.com', includeSubdomains: false }, 'url')).toBe(
+      '|https://example.com/'
+    );
+    expect(build({ scheme: 'https' }, 'url')).toBe('|https://*/');
+  });
+
+  it('builds the matching regex', () => {
+    expect(build({ host: 'example.com' }, 'regex')).toBe('^https?://(?:[^/?#]+\\.)?example\\.com/');
+    expect(
+      build({ scheme: 'https', host: 'example.com', includeSubdomains: false, pathPrefix: '/a.b', extension: 'js' }, 'regex')
+    ).toBe('^https://example\\.com/a\\.b[^?#]*\\.js(?:[?#]|$)');
+  });
+
+  it("explains what a URL filter can't express", () => {
+    expect(build({ scheme: 'https', host: 'example.com' }, 'url')).toMatch(/use regex mode/);
+    expect(build({ scheme: 'https', host: 'example.com' }, 'regex')).toBe(
+      '^https://(?:[^/?#]+\\.)?example\\.com/'
+    );
+    expect(build({ pathPrefix: '/a*b' }, 'url')).toMatch(/use regex mode/);
+  });
+
+  it('rejects fields that are not what they should be', () => {
+    expect(build({ host: 'https://example.com' }, 'url')).toMatch(/host/);
+    expect(build({ port: '70000' }, 'url')).toMatch(/port/);
+    expect(build({ pathPrefix: 'api' }, 'url')).toMatch(/path/);
+    expect(build({ extension: '.json' }, 'url')).toMatch(/extension/);
+  });
+});
+
+describe('parseFilterValue', () => {
+  it.each<[Partial<FilterParts>, 'url' | 'regex']>([
+    [{ host: 'example.com' }, 'url'],
+    [{ host: 'example.com', port: '8080', pathPrefix: '/v1', extension: 'json' }, 'url'],
+    [{ scheme: 'http', host: 'localhost', includeSubdomains: false, port: '3000' }, 'url'],
+    [{ scheme: 'https', host: 'example.com', pathPrefix: '/a.b', extension: 'js' }, 'regex'],
+    [{ includeSubdomains: true, pathPrefix: '/api' }, 'regex'],
+  ])('reads back what the builder writes (%o in %s mode)', (overrides, mode) => {
+    const value = build(overrides, mode);
+
+    expect(parseFilterValue(value, mode)).toEqual(parts(overrides));
+  });
+
+  it('reads common hand-written URL filters', () => {
+    expect(parseFilterValue('||example.com^', 'url')).toEqual(parts({ host: 'example.com' }));
+    expect(parseFilterValue('|https://example.com/api', 'url')).toEqual(
+      parts({ scheme: 'https', host: 'example.com', includeSubdomains: false, pathPrefix: '/api' })
+    );
+  });
+
+  it('gives up on anything else', () => {
+    expect(parseFilterValue('example', 'url')).toBeNull();
+    expect(parseFilterValue('.png|', 'url')).toBeNull();
+    expect(parseFilterValue('^https://example.com/', 'regex')).toBeNull();
+    expect(parseFilterValue('.*\\.png$', 'regex')).toBeNull();
+  });
+});
+
+describe('convertFilterValue', () => {
+  it('converts between the modes where it can', () => {
+    expect(convertFilterValue('||example.com^', 'url', 'regex')).toBe('^https?://(?:[^/?#]+\\.)?example\\.com/');
+    expect(convertFilterValue('^https?://(?:[^/?#]+\\.)?example\\.com/api', 'regex', 'url')).toBe(
+      '||example.com/api'
+    );
+    expect(convertFilterValue('^https://(?:[^/?#]+\\.)?example\\.com/', 'regex', 'url')).toBeNull();
+    expect(convertFilterValue('example', 'url', 'regex')).toBeNull();
+  });
+});
+
+describe('mergeFilterParts', () => {
+  it('lets empty parts give way to the other side', () => {
+    expect(
+      mergeFilterParts(
+        parts({ host: 'api.example.com', includeSubdomains: false }),
+        parts({ scheme: 'https', pathPrefix: '/v2', extension: 'json' })
+      )
+    ).toEqual(
+      parts({ scheme: 'https', host: 'api.example.com', includeSubdomains: false, pathPrefix: '/v2', extension: 'json' })
+    );
+  });
+
+  it('keeps the narrower host and the longer path', () => {
+    expect(
+      mergeFilterParts(
+        parts({ host: 'example.com', pathPrefix: '/v2' }),
+        parts({ host: 'api.example.com', includeSubdomains: false, pathPrefix: '/v2/users' })
+      )
+    ).toEqual(parts({ host: 'api.example.com', includeSubdomains: false, pathPrefix: '/v2/users' }));
+    expect(
+      mergeFilterParts(
+        parts({ host: 'example.com' }),
+        parts({ host: 'example.com', includeSubdomains: false })
+      )
+    ).toEqual(parts({ host: 'example.com', includeSubdomains: false }));
+  });
+
+  it.each([
+    [{ scheme: 'https' }, { scheme: 'http' }],
+    [{ host: 'example.com' }, { host: 'example.org' }],
+    [{ host: 'api.example.com', includeSubdomains: false }, { host: 'example.com', includeSubdomains: false }],
+    [{ port: '8080' }, { port: '3000' }],
+    [{ pathPrefix: '/v1' }, { pathPrefix: '/v2' }],
+    [{ extension: 'json' }, { extension: 'xml' }],
+  ] as [Partial<FilterParts>, Partial<FilterParts>][])('is null when nothing matches both', (a, b) => {
+    expect(mergeFilterParts(parts(a), parts(b))).toBeNull();
+  });
+});
+
+describe('getSampleUrls', () => {
+  it('gives examples inside and just outside what the filter matches', () => {
+    const fields = parts({ scheme: 'https', host: 'example.com', includeSubdomains: false, pathPrefix: '/api', extension: 'json' });
+    const urlFilter = build(fields, 'url');
+    const regex = new RegExp(build(fields, 'regex'), 'i');
+
+    const samples = getSampleUrls(fields);
+
+    expect(samples.map((sample) => [sample, matchesUrlFilter(urlFilter, sample), regex.test(sample)])).toEqual([
+      ['https://example.com/api/file.json', true, true],
+      ['https://www.example.com/api/file.json', false, false],
+      ['http://example.com/api/file.json', false, false],
+      ['https://other.test/api/file.json', false, false],
+      ['https://example.com/elsewhere/file.json', false, false],
+      ['https://example.com/api/file.json?v=1', true, true],
+      ['https://example.com/api/file.txt', false, false],
+    ]);
+  });
+});
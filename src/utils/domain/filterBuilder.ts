@@ -0,0 +1,245 @@
+import type { FilterMode } from "./schemas";
+
+/**
+ * The filter builder's fields: the parts of a URL a filter usually cares
+ * about, turned into a "url" (DNR urlFilter) or "regex" filter value - and,
+ * for values in the shapes the builder writes, back again.
+ */
+export type FilterParts = {
+  scheme: "any" | "https" | "http";
+  // Empty for any host
+  host: string;
+  includeSubdomains: boolean;
+  // Empty for the scheme's default port
+  port: string;
+  // Empty for any path, otherwise starting with "/"
+  pathPrefix: string;
+  // Without the dot, empty for any
+  extension: string;
+};
+
+export type BuildableMode = Extract<FilterMode, "url" | "regex">;
+
+export const emptyFilterParts: FilterParts = {
+  scheme: "any",
+  host: "",
+  includeSubdomains: true,
+  port: "",
+  pathPrefix: "",
+  extension: "",
+};
+
+export const isBuildableMode = (mode: FilterMode): mode is BuildableMode =>
+  mode === "url" || mode === "regex";
+
+const hostPattern = /^[a-z0-9-]+(?:\.[a-z0-9-]+)*$/i;
+const extensionPattern = /^[a-z0-9]+$/i;
+
+// What each part looks like in a value buildUrlFilter wrote. `||` hosts
+// end at a separator or the path, `*` is any host, and `http*` any scheme.
+const urlFilterPattern =
+  /^(?:\|\|(?<subdomainHost>[a-z0-9.-]+)|\|(?<scheme>https?|http\*):\/\/(?<host>[a-z0-9.-]+|\*))(?::(?<port>\d+))?(?<path>\/[^*^|]*)?(?:\^?\*\.(?<extension>[a-z0-9]+)\^)?\^?$/i;
+
+// The same for buildRegexFilter, plus a trailing `.*` people often add.
+const regexFilterPattern =
+  /^\^(?<scheme>https\?|https|http):\/\/(?:(?<anyHost>\[\^\/\?#\]\+)|(?<subdomains>\(\?:\[\^\/\?#\]\+\\\.\)\?)?(?<host>(?:[a-z0-9-]|\\\.)+))(?::(?<port>\d+))?(?<path>\/(?:[^\\.*+?^${}()|[\]]|\\[.*+?^${}()|[\]\\/])*)(?:\.\*)?(?:\[\^\?#\]\*\\\.(?<extension>[a-z0-9]+)\(\?:\[\?#\]\|\$\))?$/i;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Why the parts can't be built into a value of the mode, or null when they
+ * can.
+ */
+export function getFilterPartsProblem(parts: FilterParts, mode: BuildableMode): string | null {
+  if (parts.host && !hostPattern.test(parts.host)) {
+    return "Enter a host like api.example.com, without the scheme or path.";
+  }
+  if (parts.port && !(/^\d+$/.test(parts.port) && Number(parts.port) >= 1 && Number(parts.port) <= 65535)) {
+    return "A port is a number from 1 to 65535.";
+  }
+  if (parts.pathPrefix && (!parts.pathPrefix.startsWith("/") || /\s/.test(parts.pathPrefix))) {
+    return "A path starts with / and has no spaces.";
+  }
+  if (parts.extension && !extensionPattern.test(parts.extension)) {
+    return "Enter an extension like json, without the dot.";
+  }
+  if (mode === "url" && /[*^|]/.test(parts.pathPrefix)) {
+    return "A URL filter can't match *, ^ or | in a path - use regex mode.";
+  }
+  if (mode === "url" && parts.host && parts.includeSubdomains && parts.scheme !== "any") {
+    return "A URL filter can't limit the scheme and include subdomains at once - use regex mode.";
+  }
+  return null;
+}
+
+/**
+ * Builds a urlFilter from the parts - see getFilterPartsProblem for what it
+ * can't express. The path always ends the host, so `||example.com/` can't
+ * match example.com.evil.test.
+ */
+function buildUrlFilter(parts: FilterParts): string {
+  const host = parts.host.toLowerCase();
+  const start =
+    host && parts.includeSubdomains
+      ? `||${host}`
+      : `|${parts.scheme === "any" ? "http*" : parts.scheme}://${host || "*"}`;
+  const port = parts.port ? `:${parts.port}` : "";
+  const extension = parts.extension ? `*.${parts.extension.toLowerCase()}^` : "";
+  return `${start}${port}${parts.pathPrefix || "/"}${extension}`;
+}
+
+function buildRegexFilter(parts: FilterParts): string {
+  const scheme = parts.scheme === "any" ? "https?" : parts.scheme;
+  const host = parts.host.toLowerCase();
+  const hostPart = !host
+    ? "[^/?#]+"
+    : parts.includeSubdomains
+      ? `(?:[^/?#]+\\.)?${escapeRegExp(host)}`
+      : escapeRegExp(host);
+  const port = parts.port ? `:${parts.port}` : "";
+  const extension = parts.extension
+    ? `[^?#]*\\.${escapeRegExp(parts.extension.toLowerCase())}(?:[?#]|$)`
+    : "";
+  return `^${scheme}://${hostPart}${port}${escapeRegExp(parts.pathPrefix || "/")}${extension}`;
+}
+
+/**
+ * The filter value for the parts, or why there can't be one.
+ */
+export function buildFilterValue(
+  parts: FilterParts,
+  mode: BuildableMode
+): { value: string } | { error: string } {
+  const error = getFilterPartsProblem(parts, mode);
+  if (error) return { error };
+  return { value: mode === "url" ? buildUrlFilter(parts) : buildRegexFilter(parts) };
+}
+
+/**
+ * Reads a value back into the builder's fields. Only works for values in
+ * the shapes the builder writes (and a few common hand-written ones, like
+ * `||example.com^`) - null for anything else.
+ */
+export function parseFilterValue(value: string, mode: BuildableMode): FilterParts | null {
+  if (mode === "url") {
+    const groups = urlFilterPattern.exec(value.trim())?.groups;
+    if (!groups) return null;
+    return {
+      scheme: !groups.scheme || groups.scheme === "http*" ? "any" : (groups.scheme.toLowerCase() as FilterParts["scheme"]),
+      host: (groups.subdomainHost ?? (groups.host === "*" ? "" : groups.host)).toLowerCase(),
+      includeSubdomains: !!groups.subdomainHost || groups.host === "*",
+      port: groups.port ?? "",
+      pathPrefix: groups.path && groups.path !== "/" ? groups.path : "",
+      extension: groups.extension?.toLowerCase() ?? "",
+    };
+  }
+
+  const groups = regexFilterPattern.exec(value.trim())?.groups;
+  if (!groups) return null;
+  const path = groups.path.replace(/\\(.)/g, "$1");
+  return {
+    scheme: groups.scheme === "https?" ? "any" : (groups.scheme.toLowerCase() as FilterParts["scheme"]),
+    host: groups.anyHost ? "" : groups.host.replace(/\\\./g, ".").toLowerCase(),
+    includeSubdomains: !!groups.subdomains || !!groups.anyHost,
+    port: groups.port ?? "",
+    pathPrefix: path !== "/" ? path : "",
+    extension: groups.extension?.toLowerCase() ?? "",
+  };
+}
+
+/**
+ * Converts a value between "url" and "regex" modes, or null when it isn't
+ * in a shape parseFilterValue reads or the other mode can't express it.
+ */
+export function convertFilterValue(
+  value: string,
+  from: BuildableMode,
+  to: BuildableMode
+): string | null {
+  const parts = parseFilterValue(value, from);
+  if (!parts) return null;
+  const built = buildFilterValue(parts, to);
+  return "value" in built ? built.value : null;
+}
+
+/**
+ * Whether a host (with or without its subdomains) only covers URLs the
+ * other one does too.
+ */
+const hostWithin = (
+  inner: Pick<FilterParts, "host" | "includeSubdomains">,
+  outer: Pick<FilterParts, "host" | "includeSubdomains">
+): boolean =>
+  inner.host === outer.host
+    ? outer.includeSubdomains || !inner.includeSubdomains
+    : outer.includeSubdomains && inner.host.endsWith(`.${outer.host}`);
+
+/**
+ * The parts matching only URLs both `a` and `b` match, for filters that
+ * have to match together - or null when no URL can match both. Empty parts
+ * match anything, so they give way to the other side's.
+ */
+export function mergeFilterParts(a: FilterParts, b: FilterParts): FilterParts | null {
+  if (a.scheme !== "any" && b.scheme !== "any" && a.scheme !== b.scheme) return null;
+  if (a.port && b.port && a.port !== b.port) return null;
+  if (a.extension && b.extension && a.extension !== b.extension) return null;
+
+  let host: Pick<FilterParts, "host" | "includeSubdomains">;
+  if (!a.host || !b.host) {
+    host = a.host ? a : b;
+  } else if (hostWithin(a, b)) {
+    host = a;
+  } else if (hostWithin(b, a)) {
+    host = b;
+  } else {
+    return null;
+  }
+
+  let pathPrefix: string;
+  if (a.pathPrefix.startsWith(b.pathPrefix)) {
+    pathPrefix = a.pathPrefix;
+  } else if (b.pathPrefix.startsWith(a.pathPrefix)) {
+    pathPrefix = b.pathPrefix;
+  } else {
+    return null;
+  }
+
+  return {
+    scheme: a.scheme !== "any" ? a.scheme : b.scheme,
+    host: host.host,
+    includeSubdomains: host.includeSubdomains,
+    port: a.port || b.port,
+    pathPrefix,
+    extension: a.extension || b.extension,
+  };
+}
+
+/**
+ * Example URLs for the builder's preview: ones the parts describe, and
+ * near misses (another host, scheme, path or extension) that show where
+ * the filter stops.
+ */
+export function getSampleUrls(parts: FilterParts): string[] {
+  const host = parts.host.toLowerCase() || "example.com";
+  const scheme = parts.scheme === "any" ? "https" : parts.scheme;
+  const otherScheme = scheme === "https" ? "http" : "https";
+  const port = parts.port ? `:${parts.port}` : "";
+  const directory = parts.pathPrefix
+    ? parts.pathPrefix.endsWith("/")
+      ? parts.pathPrefix
+      : `${parts.pathPrefix}/`
+    : "/";
+  const file = parts.extension ? `file.${parts.extension.toLowerCase()}` : "page";
+
+  const samples = [
+    `${scheme}://${host}${port}${directory}${file}`,
+    `${scheme}://www.${host}${port}${directory}${file}`,
+    `${otherScheme}://${host}${port}${directory}${file}`,
+    `${scheme}://other.test${port}${directory}${file}`,
+    ...(parts.pathPrefix ? [`${scheme}://${host}${port}/elsewhere/${file}`] : []),
+    ...(parts.extension
+      ? [`${scheme}://${host}${port}${directory}${file}?v=1`, `${scheme}://${host}${port}${directory}file.txt`]
+      : []),
+  ];
+  return [...new Set(samples)];
+}
@@ -0,0 +1,115 @@
+import type { HeaderFilter } from './schemas';
+import {
+  getEnabledFilterGroups,
+  getFilterGroupMembers,
+  getFilterGroups,
+  isJoinedWithPrevious,
+  setJoinedWithPrevious,
+} from './filterGroups';
+
+const createFilter = (id: string, overrides: Partial<HeaderFilter> = {}): HeaderFilter => ({
+  id,
+  enabled: true,
+  valid: true,
+  type: 'include',
+  mode: 'domain',
+  value: `${id}.example.com`,
+  ...overrides,
+});
+
+const groupIds = (filters: HeaderFilter[]) => filters.map((filter) => filter.groupId);
+
+describe('getFilterGroups', () => {
+  it('groups filters by type and group id, in order', () => {
+    const filters = [
+      createFilter('a', { groupId: 'g' }),
+      createFilter('b'),
+      createFilter('c', { groupId: 'g' }),
+      createFilter('d', { groupId: 'g', type: 'exclude' }),
+    ];
+
+    expect(getFilterGroups(filters).map((group) => group.map(({ id }) => id))).toEqual([
+      ['a', 'c'],
+      ['b'],
+      ['d'],
+    ]);
+  });
+
+  it("doesn't mistake a filter's id for a group id", () => {
+    const filters = [createFilter('g'), createFilter('b', { groupId: 'g' })];
+
+    expect(getFilterGroups(filters)).toHaveLength(2);
+  });
+});
+
+describe('getEnabledFilterGroups', () => {
+  it('drops disabled filters and invalid ones on their own, but keeps invalid ones in a group', () => {
+    const filters = [
+      createFilter('a', { groupId: 'g' }),
+      createFilter('b', { groupId: 'g', valid: false }),
+      createFilter('c', { groupId: 'g', enabled: false }),
+      createFilter('d', { valid: false }),
+      createFilter('e', { enabled: false }),
+    ];
+
+    expect(getEnabledFilterGroups(filters).map((group) => group.map(({ id }) => id))).toEqual([
+      ['a', 'b'],
+    ]);
+  });
+});
+
+describe('getFilterGroupMembers', () => {
+  it('returns the filter and its enabled group mates', () => {
+    const filters = [
+      createFilter('a', { groupId: 'g' }),
+      createFilter('b', { groupId: 'g', enabled: false }),
+      createFilter('c', { groupId: 'g', valid: false }),
+      createFilter('d', { groupId: 'g' }),
+    ];
+
+    expect(getFilterGroupMembers(filters, 'a').map(({ id }) => id)).toEqual(['a', 'c', 'd']);
+    expect(getFilterGroupMembers(filters, 'b').map(({ id }) => id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(getFilterGroupMembers(filters, 'missing')).toEqual([]);
+  });
+});
+
+describe('setJoinedWithPrevious', () => {
+  it('joins a filter to the one above, bringing the ones joined below it', () => {
+    let filters = [createFilter('a'), createFilter('b'), createFilter('c'), createFilter('d')];
+
+    filters = setJoinedWithPrevious(filters, 2, true);
+    expect(groupIds(filters)).toEqual([undefined, 'b', 'b', undefined]);
+
+    filters = setJoinedWithPrevious(filters, 1, true);
+    expect(groupIds(filters)).toEqual(['a', 'a', 'a', undefined]);
+    expect([1, 2, 3].map((index) => isJoinedWithPrevious(filters, index))).toEqual([
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it('splits a group, dropping the group id of a filter left on its own', () => {
+    const filters = ['a', 'b', 'c', 'd'].map((id) => createFilter(id, { groupId: 'a' }));
+
+    expect(groupIds(setJoinedWithPrevious(filters, 1, false))).toEqual([
+      undefined,
+      'b',
+      'b',
+      'b',
+    ]);
+    expect(groupIds(setJoinedWithPrevious(filters, 2, false))).toEqual(['a', 'a', 'c', 'c']);
+    expect(groupIds(setJoinedWithPrevious(filters, 3, false))).toEqual([
+      'a',
+      'a',
+      'a',
+      undefined,
+    ]);
+  });
+
+  it("doesn't join filters of different types", () => {
+    const filters = [createFilter('a'), createFilter('b', { type: 'exclude' })];
+
+    expect(setJoinedWithPrevious(filters, 1, true)).toBe(filters);
+  });
+});
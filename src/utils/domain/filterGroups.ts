@@ -0,0 +1,106 @@
+import type { HeaderFilter } from "./schemas";
+
+/**
+ * Filter groups: filters of the same type sharing a groupId must all match
+ * ("host is api.example.com and the path starts with /v2"), while the
+ * groups themselves are OR'ed the way single filters always were. A filter
+ * without a groupId is a group of its own.
+ *
+ * The popup keeps a group's filters next to each other, joined to the one
+ * above (see setJoinedWithPrevious), but a group is defined by its id alone.
+ */
+
+const getGroupKey = (filter: HeaderFilter): string =>
+  `${filter.type}:${filter.groupId !== undefined ? `group:${filter.groupId}` : `filter:${filter.id}`}`;
+
+/**
+ * Splits filters into their groups, in the order each group first appears.
+ */
+export function getFilterGroups(filters: HeaderFilter[]): HeaderFilter[][] {
+  const groups = new Map<string, HeaderFilter[]>();
+  filters.forEach((filter) => {
+    const key = getGroupKey(filter);
+    groups.set(key, [...(groups.get(key) ?? []), filter]);
+  });
+  return [...groups.values()];
+}
+
+/**
+ * The groups of the enabled filters, the ones rules are built from. An
+ * invalid filter on its own is left out like a disabled one, but an invalid
+ * filter in a group stays in it: the group can't become a rule then (see
+ * buildFilteredRuleDrafts), rather than matching more than it says.
+ */
+export function getEnabledFilterGroups(filters: HeaderFilter[]): HeaderFilter[][] {
+  return getFilterGroups(filters.filter((filter) => filter.enabled)).filter(
+    (group) => group.length > 1 || group[0].valid
+  );
+}
+
+/**
+ * The filter `filterId` and the enabled filters of its group - the ones a
+ * rule built for it combines. Empty when the filter is gone.
+ */
+export function getFilterGroupMembers(filters: HeaderFilter[], filterId: string): HeaderFilter[] {
+  const filter = filters.find((candidate) => candidate.id === filterId);
+  if (!filter) return [];
+  return filters.filter(
+    (candidate) =>
+      candidate === filter ||
+      (candidate.enabled && getGroupKey(candidate) === getGroupKey(filter))
+  );
+}
+
+/**
+ * Whether the filter at `index` is in the same group as the one above it.
+ */
+export function isJoinedWithPrevious(filters: HeaderFilter[], index: number): boolean {
+  const filter = filters[index];
+  const previous = filters[index - 1];
+  return (
+    !!filter &&
+    !!previous &&
+    filter.groupId !== undefined &&
+    getGroupKey(filter) === getGroupKey(previous)
+  );
+}
+
+/**
+ * Joins the filter at `index` (and any joined below it) to the group of the
+ * one above, or splits the group there. A filter left on its own loses its
+ * groupId, and a split-off run takes its first filter's id as its group.
+ */
+export function setJoinedWithPrevious(
+  filters: HeaderFilter[],
+  index: number,
+  joined: boolean
+): HeaderFilter[] {
+  const previous = filters[index - 1];
+  if (!previous || !filters[index] || previous.type !== filters[index].type) return filters;
+
+  let start = index - 1;
+  while (isJoinedWithPrevious(filters, start)) start -= 1;
+  let end = index;
+  while (isJoinedWithPrevious(filters, end + 1)) end += 1;
+
+  if (joined) {
+    const groupId = previous.groupId ?? previous.id;
+    return filters.map((filter, position) =>
+      position === index - 1 || (position >= index && position <= end)
+        ? { ...filter, groupId }
+        : filter
+    );
+  }
+
+  const headSize = index - start;
+  const tailSize = end - index + 1;
+  return filters.map((filter, position) => {
+    if (position >= start && position < index && headSize === 1) {
+      return { ...filter, groupId: undefined };
+    }
+    if (position >= index && position <= end) {
+      return { ...filter, groupId: tailSize > 1 ? filters[index].id : undefined };
+    }
+    return filter;
+  });
+}
@@ -1,4 +1,4 @@
-import { isValidUrlFilter } from './filterValidation';
+import { isValidDomainList, isValidResponseHeaderCondition, isValidUrlFilter } from './filterValidation';
 
 describe('URL filter validation', () => {
   it('accepts common valid URL patterns', () => {
@@ -38,3 +38,65 @@ describe('URL filter validation', () => {
     expect(isValidUrlFilter('foo|bar|')).toBe(false);
   });
 });
+
+describe('domain list validation', () => {
+  it('accepts single and comma or space separated hosts', () => {
+    expect(isValidDomainList('example.com')).toBe(true);
+    expect(isValidDomainList('api.example.com, example.org')).toBe(true);
+    expect(isValidDomainList('a.com b.com')).toBe(true);
+    expect(isValidDomainList('localhost')).toBe(true);
+    expect(isValidDomainList('127.0.0.1')).toBe(true);
+    expect(isValidDomainList('xn--80ak6aa92e.com')).toBe(true);
+  });
+
+  it('accepts upper-case input since it is lower-cased before use', () => {
+    expect(isValidDomainList('Example.COM')).toBe(true);
+  });
+
+  it('rejects empty lists', () => {
+    expect(isValidDomainList('')).toBe(false);
+    expect(isValidDomainList(' , ')).toBe(false);
+  });
+
+  it('rejects schemes, ports, paths and wildcards', () => {
+    expect(isValidDomainList('https://example.com')).toBe(false);
+    expect(isValidDomainList('example.com:8080')).toBe(false);
+    expect(isValidDomainList('example.com/api')).toBe(false);
+    expect(isValidDomainList('*.example.com')).toBe(false);
+  });
+
+  it('rejects bracketed IPv6 hosts, which a tab URL can have', () => {
+    expect(isValidDomainList('[::1]')).toBe(false);
+    expect(isValidDomainList('[2001:db8::1]')).toBe(false);
+  });
+
+  it('rejects malformed labels and non-ASCII hosts', () => {
+    expect(isValidDomainList('.example.com')).toBe(false);
+    expect(isValidDomainList('example..com')).toBe(false);
+    expect(isValidDomainList('-example.com')).toBe(false);
+    expect(isValidDomainList('пример.рф')).toBe(false);
+  });
+
+  it('rejects the whole list when one entry is invalid', () => {
+    expect(isValidDomainList('example.com, https://bad.com')).toBe(false);
+  });
+});
+
+describe('response header condition validation', () => {
+  it('accepts a header name with or without a value pattern', () => {
+    expect(isValidResponseHeaderCondition('Vary')).toBe(true);
+    expect(isValidResponseHeaderCondition('Vary: Origin')).toBe(true);
+    expect(isValidResponseHeaderCondition('Content-Type: text/html*')).toBe(true);
+    expect(isValidResponseHeaderCondition('Content-Type:')).toBe(true);
+  });
+
+  it('rejects a missing or malformed header name', () => {
+    expect(isValidResponseHeaderCondition('')).toBe(false);
+    expect(isValidResponseHeaderCondition(': text/html')).toBe(false);
+    expect(isValidResponseHeaderCondition('Content Type: text/html')).toBe(false);
+  });
+
+  it('rejects non-ASCII values', () => {
+    expect(isValidResponseHeaderCondition('X-Name: José')).toBe(false);
+  });
+});
@@ -1,5 +1,15 @@
 import browser from "webextension-polyfill";
-import type { HeaderFilter } from "./schemas";
+import type { HeaderFilter, RedirectSetting } from "./schemas";
+import { parseDomainList } from "./domainList";
+import { isValidRedirectTarget, redirectsToItself } from "./redirects";
+import { parseResponseHeaderCondition } from "./responseHeaderCondition";
+import { findRegexProblem } from "./regexSyntax";
+
+// An HTTP header name (RFC 9110 token).
+const headerNamePattern = /^[!#$%&'*+\-.^_`|~0-9a-z]+$/;
+
+// One DNS label: letters, digits and inner hyphens, at most 63 characters.
+const domainLabelPattern = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
 
 /**
  * Validates a URL pattern (urlFilter) for declarativeNetRequest.
@@ -35,8 +45,56 @@ export const isValidUrlFilter = (value: string): boolean => {
   return true;
 };
 
+/**
+ * Validates the host list of a "domain" or "initiator" filter. Each entry must
+ * be a bare host name - no scheme, port, path or wildcard, since DNR's
+ * requestDomains/initiatorDomains already match every subdomain. Non-ASCII
+ * names have to be entered in punycode ("xn--...").
+ */
+export const isValidDomainList = (value: string): boolean => {
+  const domains = parseDomainList(value);
+  if (domains.length === 0) return false;
+
+  return domains.every(
+    (domain) =>
+      domain.length <= 253 &&
+      domain.split(".").every((label) => domainLabelPattern.test(label))
+  );
+};
+
+/**
+ * Validates a "responseHeader" filter value: a header name, optionally
+ * followed by a colon and a printable-ASCII value pattern.
+ */
+export const isValidResponseHeaderCondition = (value: string): boolean => {
+  const { header, values } = parseResponseHeaderCondition(value);
+  if (!headerNamePattern.test(header)) return false;
+  return (values ?? []).every((headerValue) => !/[^\x20-\x7E]/.test(headerValue));
+};
+
+/**
+ * Checks a regex for a regexFilter: against RE2's syntax first (see
+ * findRegexProblem), then with the browser, which has the final say where
+ * isRegexSupported is available.
+ */
+export const isRegexSupported = async (regex: string): Promise<boolean> => {
+  if (findRegexProblem(regex)) return false;
+  if (typeof browser.declarativeNetRequest?.isRegexSupported !== "function") return true;
+
+  try {
+    const result = await browser.declarativeNetRequest.isRegexSupported({ regex });
+    return result.isSupported;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validates a filter's value for its mode. Block entries share the filter
+ * modes, so they're validated here too.
+ */
 export const filterIsValid = async (
-  filter: Omit<HeaderFilter, "valid">,
+  filter: Pick<HeaderFilter, "mode" | "value">,
   callback: (valid: boolean) => void
 ) => {
   if (filter.mode === "url") {
@@ -44,15 +102,32 @@ export const filterIsValid = async (
     return;
   }
 
-  try {
-    browser.declarativeNetRequest
-      .isRegexSupported({
-        regex: filter.value,
-      })
-      .then((result) => {
-        callback(result.isSupported);
-      });
-  } catch (error) {
+  if (filter.mode === "domain" || filter.mode === "initiator") {
+    callback(isValidDomainList(filter.value));
+    return;
+  }
+
+  if (filter.mode === "responseHeader") {
+    callback(isValidResponseHeaderCondition(filter.value));
+    return;
+  }
+
+  callback(await isRegexSupported(filter.value));
+};
+
+/**
+ * Validates a redirect: a target the browser can redirect to, not pointing
+ * back at its own source, and a source regex the browser supports - checked
+ * the same way as a regex filter's (see isRegexSupported).
+ */
+export const redirectIsValid = async (
+  redirect: Omit<RedirectSetting, "valid">,
+  callback: (valid: boolean) => void
+) => {
+  if (!redirect.source || !isValidRedirectTarget(redirect.target) || redirectsToItself(redirect)) {
     callback(false);
+    return;
   }
+
+  callback(await isRegexSupported(redirect.source));
 };
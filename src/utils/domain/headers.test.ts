@@ -1,4 +1,4 @@
-import { normalizeFilter, normalizeHeader, normalizePage } from './headers';
+import { canAppendHeader, normalizeFilter, normalizeHeader, normalizePage } from './headers';
 import type { HeaderSetting, Page } from './schemas';
 
 const createHeader = (name: string, value: string, enabled = true): HeaderSetting => ({
@@ -70,6 +70,29 @@ describe('normalizeHeader', () => {
 
     expect(normalizeHeader(header).headerType).toBe('response');
   });
+
+  it('defaults a missing headerOperation to set', () => {
+    const header = {
+      id: 'header-1',
+      headerName: 'X-Test',
+      headerValue: 'value',
+      headerEnabled: true,
+    };
+
+    expect(normalizeHeader(header).headerOperation).toBe('set');
+  });
+
+  it('preserves an explicit remove headerOperation', () => {
+    const header = {
+      id: 'header-1',
+      headerName: 'Referer',
+      headerValue: '',
+      headerEnabled: true,
+      headerOperation: 'remove',
+    };
+
+    expect(normalizeHeader(header).headerOperation).toBe('remove');
+  });
 });
 
 describe('normalizePage', () => {
@@ -133,6 +156,36 @@ describe('normalizePage', () => {
 
     expect(normalizePage(page).paused).toBe(true);
   });
+
+  it('defaults a missing sessionOnly to false', () => {
+    const page = {
+      id: 0,
+      name: 'Default',
+      enabled: true,
+      keepEnabled: false,
+      showHeaderComments: true,
+      filters: [],
+      headers: [],
+    };
+
+    expect(normalizePage(page).sessionOnly).toBe(false);
+  });
+});
+
+describe('canAppendHeader', () => {
+  it('allows appending to any response header', () => {
+    expect(canAppendHeader({ headerName: 'X-Custom', headerType: 'response' }, false)).toBe(true);
+  });
+
+  it('only allows appending to request headers on the browser allowlist', () => {
+    expect(canAppendHeader({ headerName: ' Cookie ', headerType: 'request' }, true)).toBe(true);
+    expect(canAppendHeader({ headerName: 'user-agent', headerType: 'request' }, true)).toBe(true);
+    expect(canAppendHeader({ headerName: 'X-Custom', headerType: 'request' }, true)).toBe(false);
+  });
+
+  it('allows no request header when the browser cannot append to request headers', () => {
+    expect(canAppendHeader({ headerName: 'Cookie', headerType: 'request' }, false)).toBe(false);
+  });
 });
 
 describe('Header Comment Import/Export', () => {
@@ -197,6 +250,32 @@ describe('Header Comment Import/Export', () => {
     expect(importedPages[0].showHeaderComments).toBe(false);
   });
 
+  it('should preserve page and filter resource types through JSON import/export', () => {
+    const pages: Page[] = [
+      {
+        ...createPage(0, 'Routes', true, [createHeader('X-Route', 'service-a')]),
+        resourceTypes: ['main_frame', 'xmlhttprequest'],
+        filters: [
+          {
+            id: 'filter-1',
+            enabled: true,
+            valid: true,
+            type: 'include',
+            mode: 'url',
+            value: '||example.com/',
+            resourceTypes: ['script'],
+          },
+        ],
+      },
+    ];
+
+    const exportedJson = JSON.stringify(pages);
+    const importedPages = (JSON.parse(exportedJson) as Page[]).map(normalizePage);
+
+    expect(importedPages[0].resourceTypes).toEqual(['main_frame', 'xmlhttprequest']);
+    expect(importedPages[0].filters[0].resourceTypes).toEqual(['script']);
+  });
+
   it('should show header comments by default for legacy imported pages', () => {
     const legacyPages = [
       {
@@ -1,4 +1,12 @@
-import type { HeaderFilter, HeaderSetting, Page } from "./schemas";
+import type {
+  BlockSetting,
+  HeaderFilter,
+  HeaderSetting,
+  Page,
+  QueryParamSetting,
+  RedirectSetting,
+} from "./schemas";
+import { isValidQueryParam } from "./queryParams";
 
 /**
  * Normalizes a header parsed from legacy storage or an imported file so that it
@@ -9,6 +17,7 @@ export const normalizeHeader = (header: any): HeaderSetting => ({
   ...header,
   headerComment: header.headerComment ?? "",
   headerType: header.headerType || "request",
+  headerOperation: header.headerOperation ?? "set",
 });
 
 /**
@@ -20,6 +29,15 @@ export const normalizeFilter = (filter: any): HeaderFilter => ({
   mode: filter.mode ?? "regex",
 });
 
+/**
+ * Normalizes a redirect parsed from storage or an imported file so that it
+ * matches the current schema.
+ */
+export const normalizeRedirect = (redirect: any): RedirectSetting => ({
+  ...redirect,
+  comment: redirect.comment ?? "",
+});
+
 /**
  * Normalizes a page parsed from legacy storage or an imported file so that it
  * matches the current schema.
@@ -34,6 +52,77 @@ export const normalizePage = (page: any): Page => ({
   lastModified: page.lastModified ?? 0,
   showHeaderComments: page.showHeaderComments ?? true,
   paused: page.paused ?? false,
+  sessionOnly: page.sessionOnly ?? false,
   headers: page.headers?.map(normalizeHeader) || [],
   filters: page.filters?.map(normalizeFilter) || [],
+  redirects: page.redirects?.map(normalizeRedirect) || [],
+  blocks: page.blocks || [],
+  queryParams: page.queryParams || [],
 });
+
+/**
+ * Whether a header goes into the rules at all: enabled and named.
+ */
+export const isHeaderApplied = (header: HeaderSetting): boolean =>
+  header.headerEnabled && !!header.headerName;
+
+// The only request headers declarativeNetRequest lets a rule append to.
+// Response headers can all be appended to.
+const APPENDABLE_REQUEST_HEADERS = new Set([
+  "accept",
+  "accept-encoding",
+  "accept-language",
+  "access-control-request-headers",
+  "cache-control",
+  "connection",
+  "content-language",
+  "cookie",
+  "forwarded",
+  "if-match",
+  "if-none-match",
+  "keep-alive",
+  "range",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "user-agent",
+  "via",
+  "want-digest",
+  "x-forwarded-for",
+]);
+
+/**
+ * Whether the browser accepts an "append" rule for the header: any response
+ * header, but only the request headers on its allowlist - and none at all
+ * when it doesn't support appending to request headers (see
+ * supportsRequestHeaderAppend).
+ */
+export const canAppendHeader = (
+  header: Pick<HeaderSetting, "headerName" | "headerType">,
+  requestAppendSupported: boolean
+): boolean =>
+  header.headerType === "response" ||
+  (requestAppendSupported && APPENDABLE_REQUEST_HEADERS.has(header.headerName.trim().toLowerCase()));
+
+/**
+ * Whether a redirect goes into the rules: enabled, with a source and target,
+ * and valid (see redirectIsValid).
+ */
+export const isRedirectApplied = (redirect: RedirectSetting): boolean =>
+  redirect.enabled && redirect.valid && !!redirect.source && !!redirect.target;
+
+/**
+ * Whether a block entry goes into the rules: enabled, with a pattern, and
+ * valid (see filterIsValid).
+ */
+export const isBlockApplied = (block: BlockSetting): boolean =>
+  block.enabled && block.valid && !!block.value;
+
+/**
+ * Whether a query parameter change goes into the rules: enabled and valid.
+ * Unlike filters, query parameters are validated here rather than by the
+ * popup, since it doesn't need the browser.
+ */
+export const isQueryParamApplied = (param: QueryParamSetting): boolean =>
+  param.enabled && isValidQueryParam(param);
@@ -0,0 +1,111 @@
+import { getPrecedenceLevels, getShadowingPages, sortByPrecedence } from './pagePriority';
+import type { HeaderSetting, Page } from './schemas';
+
+const createHeader = (overrides: Partial<HeaderSetting> = {}): HeaderSetting => ({
+  id: 'header-1',
+  headerName: 'Authorization',
+  headerValue: 'Bearer a',
+  headerComment: '',
+  headerEnabled: true,
+  headerType: 'request',
+  headerOperation: 'set',
+  ...overrides,
+});
+
+const createPage = (id: number, overrides: Partial<Page> = {}): Page => ({
+  id,
+  name: `Page ${id}`,
+  enabled: false,
+  keepEnabled: true,
+  showHeaderComments: true,
+  headers: [],
+  filters: [],
+  ...overrides,
+});
+
+describe('sortByPrecedence', () => {
+  it('keeps list order when no page has a priority', () => {
+    const pages = [createPage(0), createPage(1), createPage(2)];
+
+    expect(sortByPrecedence(pages).map((page) => page.id)).toEqual([0, 1, 2]);
+  });
+
+  it('puts higher explicit priorities first, then list order', () => {
+    const pages = [
+      createPage(0),
+      createPage(1, { priority: 2 }),
+      createPage(2, { priority: -1 }),
+      createPage(3, { priority: 2 }),
+    ];
+
+    expect(sortByPrecedence(pages).map((page) => page.id)).toEqual([1, 3, 0, 2]);
+  });
+});
+
+describe('getPrecedenceLevels', () => {
+  it('gives the top page the highest level', () => {
+    const pages = [createPage(0), createPage(1, { priority: 1 }), createPage(2)];
+
+    expect(getPrecedenceLevels(pages)).toEqual([1, 2, 0]);
+  });
+});
+
+describe('getShadowingPages', () => {
+  it('reports the higher page that sets the same header', () => {
+    const top = createPage(0, { headers: [createHeader({ id: 'top-auth' })] });
+    const bottom = createPage(1, {
+      headers: [
+        createHeader({ id: 'bottom-auth', headerName: 'authorization' }),
+        createHeader({ id: 'bottom-other', headerName: 'X-Other' }),
+      ],
+    });
+
+    const shadowing = getShadowingPages([top, bottom], bottom);
+
+    expect([...shadowing.keys()]).toEqual(['bottom-auth']);
+    expect(shadowing.get('bottom-auth')).toBe(top);
+    expect(getShadowingPages([top, bottom], top).size).toBe(0);
+  });
+
+  it('follows explicit priority over list order', () => {
+    const top = createPage(0, { headers: [createHeader({ id: 'top-auth' })] });
+    const boosted = createPage(1, { priority: 1, headers: [createHeader({ id: 'boosted-auth' })] });
+
+    expect(getShadowingPages([top, boosted], top).get('top-auth')).toBe(boosted);
+    expect(getShadowingPages([top, boosted], boosted).size).toBe(0);
+  });
+
+  it('ignores pages that are not active', () => {
+    const paused = createPage(0, { paused: true, headers: [createHeader({ id: 'paused-auth' })] });
+    const inactive = createPage(1, { keepEnabled: false, headers: [createHeader({ id: 'inactive-auth' })] });
+    const page = createPage(2, { headers: [createHeader({ id: 'auth' })] });
+
+    expect(getShadowingPages([paused, inactive, page], page).size).toBe(0);
+  });
+
+  it('ignores disabled headers, other header types and stacking appends', () => {
+    const top = createPage(0, {
+      headers: [
+        createHeader({ id: 'top-1', headerName: 'X-Off', headerEnabled: false }),
+        createHeader({ id: 'top-2', headerName: 'X-Response', headerType: 'response' }),
+        createHeader({ id: 'top-3', headerName: 'X-Trace', headerOperation: 'append' }),
+      ],
+    });
+    const bottom = createPage(1, {
+      headers: [
+        createHeader({ id: 'bottom-1', headerName: 'X-Off' }),
+        createHeader({ id: 'bottom-2', headerName: 'X-Response' }),
+        createHeader({ id: 'bottom-3', headerName: 'X-Trace', headerOperation: 'append' }),
+      ],
+    });
+
+    expect(getShadowingPages([top, bottom], bottom).size).toBe(0);
+  });
+
+  it('reports nothing for a page that is not active itself', () => {
+    const top = createPage(0, { headers: [createHeader({ id: 'top-auth' })] });
+    const bottom = createPage(1, { keepEnabled: false, headers: [createHeader({ id: 'auth' })] });
+
+    expect(getShadowingPages([top, bottom], bottom).size).toBe(0);
+  });
+});
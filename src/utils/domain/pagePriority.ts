@@ -0,0 +1,67 @@
+import type { HeaderSetting, Page } from "./schemas";
+import { isHeaderApplied } from "./headers";
+
+/**
+ * Orders pages by precedence, highest first: a higher explicit `priority`
+ * wins, and among equal priorities the page higher up the list does.
+ */
+export function sortByPrecedence(pages: Page[]): Page[] {
+  return pages
+    .map((page, index) => ({ page, index }))
+    .sort((a, b) => (b.page.priority ?? 0) - (a.page.priority ?? 0) || a.index - b.index)
+    .map(({ page }) => page);
+}
+
+/**
+ * Each page's precedence as a level from 0 (lowest) to pages.length - 1,
+ * indexed like `pages`. The background turns these into DNR rule
+ * priorities.
+ */
+export function getPrecedenceLevels(pages: Page[]): number[] {
+  const ordered = sortByPrecedence(pages);
+  return pages.map((page) => pages.length - 1 - ordered.indexOf(page));
+}
+
+/**
+ * Whether a page's headers are applied everywhere right now - the selected
+ * page or one running in the background, and not paused.
+ */
+const isPageActive = (page: Page) =>
+  !page.paused && (page.enabled || page.keepEnabled);
+
+/**
+ * Whether `winner`, applied first, leaves nothing for `loser` to do. DNR
+ * ignores a lower-priority rule's change to a header a higher-priority rule
+ * already set or removed; only appends stack.
+ */
+const overrides = (winner: HeaderSetting, loser: HeaderSetting) =>
+  (winner.headerType ?? "request") === (loser.headerType ?? "request") &&
+  winner.headerName.trim().toLowerCase() === loser.headerName.trim().toLowerCase() &&
+  !(winner.headerOperation === "append" && loser.headerOperation === "append");
+
+/**
+ * For each applied header of an active `page`, the higher-precedence active
+ * page (if any) that modifies the same header and so wins wherever both
+ * pages' filters match. Keyed by header id.
+ */
+export function getShadowingPages(pages: Page[], page: Page): Map<string, Page> {
+  const shadowing = new Map<string, Page>();
+  if (!isPageActive(page)) {
+    return shadowing;
+  }
+
+  const ordered = sortByPrecedence(pages);
+  const higher = ordered
+    .slice(0, ordered.indexOf(page))
+    .filter(isPageActive);
+
+  page.headers.filter(isHeaderApplied).forEach((header) => {
+    const winner = higher.find((other) =>
+      other.headers.some((otherHeader) => isHeaderApplied(otherHeader) && overrides(otherHeader, header))
+    );
+    if (winner) {
+      shadowing.set(header.id, winner);
+    }
+  });
+  return shadowing;
+}
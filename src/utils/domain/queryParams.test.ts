@@ -0,0 +1,31 @@
+import { isValidQueryParam, isValidQueryParamKey, isValidQueryParamValue } from './queryParams';
+
+describe('query parameter validation', () => {
+  it('accepts ordinary names and values', () => {
+    expect(isValidQueryParamKey('debug')).toBe(true);
+    expect(isValidQueryParamKey('filter[status]')).toBe(true);
+    expect(isValidQueryParamValue('1')).toBe(true);
+    expect(isValidQueryParamValue('a=b')).toBe(true);
+    expect(isValidQueryParamValue('hello%20world')).toBe(true);
+    expect(isValidQueryParamValue('')).toBe(true);
+  });
+
+  it('rejects names that are empty or would split the query', () => {
+    expect(isValidQueryParamKey('')).toBe(false);
+    expect(isValidQueryParamKey('a=b')).toBe(false);
+    expect(isValidQueryParamKey('a&b')).toBe(false);
+    expect(isValidQueryParamKey('a b')).toBe(false);
+    expect(isValidQueryParamKey('débug')).toBe(false);
+  });
+
+  it('rejects values that would end the parameter', () => {
+    expect(isValidQueryParamValue('a&b')).toBe(false);
+    expect(isValidQueryParamValue('a#b')).toBe(false);
+    expect(isValidQueryParamValue('a b')).toBe(false);
+  });
+
+  it('only checks the name of a removal', () => {
+    expect(isValidQueryParam({ operation: 'remove', key: 'utm_source', value: 'a&b' })).toBe(true);
+    expect(isValidQueryParam({ operation: 'add', key: 'utm_source', value: 'a&b' })).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+import type { QueryParamSetting } from "./schemas";
+
+// Characters that would end or split a query parameter rather than be part
+// of it. Spaces aren't reliably encoded, so they have to be entered as %20.
+const reservedCharacters = /[&#=\s]/;
+
+/**
+ * Validates a parameter name: non-empty, printable ASCII, and none of the
+ * characters that delimit parameters.
+ */
+export const isValidQueryParamKey = (key: string): boolean =>
+  key.length > 0 && !/[^\x20-\x7E]/.test(key) && !reservedCharacters.test(key);
+
+/**
+ * Validates a parameter value: printable ASCII without "&", "#" or spaces.
+ * "=" is fine in a value, and so is an empty one ("?debug=").
+ */
+export const isValidQueryParamValue = (value: string): boolean =>
+  !/[^\x20-\x7E]/.test(value) && !/[&#\s]/.test(value);
+
+/**
+ * Whether a query parameter change can compile to a valid rule. A removal
+ * has no value, so only its key is checked.
+ */
+export const isValidQueryParam = (param: Pick<QueryParamSetting, "operation" | "key" | "value">): boolean =>
+  isValidQueryParamKey(param.key) &&
+  (param.operation === "remove" || isValidQueryParamValue(param.value));
@@ -0,0 +1,44 @@
+import { isValidRedirectTarget, redirectsToItself, usesCaptureGroups } from './redirects';
+
+describe('usesCaptureGroups', () => {
+  it('spots capture group references', () => {
+    expect(usesCaptureGroups('http://localhost:3000/\\1')).toBe(true);
+    expect(usesCaptureGroups('\\0?debug=1')).toBe(true);
+  });
+
+  it('ignores targets without one', () => {
+    expect(usesCaptureGroups('http://localhost:3000/app.js')).toBe(false);
+    expect(usesCaptureGroups('http://localhost:3000/1')).toBe(false);
+  });
+});
+
+describe('isValidRedirectTarget', () => {
+  it('accepts absolute URLs', () => {
+    expect(isValidRedirectTarget('http://localhost:3000/app.js')).toBe(true);
+    expect(isValidRedirectTarget('https://example.com')).toBe(true);
+  });
+
+  it('rejects relative, scheme-less and empty targets', () => {
+    expect(isValidRedirectTarget('')).toBe(false);
+    expect(isValidRedirectTarget('/app.js')).toBe(false);
+    expect(isValidRedirectTarget('localhost:3000/app.js')).toBe(false);
+  });
+
+  it('accepts any printable substitution', () => {
+    expect(isValidRedirectTarget('http://localhost:3000/\\1')).toBe(true);
+    expect(isValidRedirectTarget('\\1://\\2')).toBe(true);
+    expect(isValidRedirectTarget('http://localhost/\\1/ф')).toBe(false);
+  });
+});
+
+describe('redirectsToItself', () => {
+  it('flags a fixed target matching its own source', () => {
+    expect(redirectsToItself({ source: '^https://example\\.com/', target: 'https://example.com/other' })).toBe(true);
+  });
+
+  it('passes targets elsewhere, substitutions and broken sources', () => {
+    expect(redirectsToItself({ source: '^https://example\\.com/', target: 'http://localhost:3000/' })).toBe(false);
+    expect(redirectsToItself({ source: '^https://example\\.com/(.*)', target: 'https://example.com/\\1' })).toBe(false);
+    expect(redirectsToItself({ source: '(', target: 'https://example.com/' })).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+import type { RedirectSetting } from "./schemas";
+
+// \0 (the whole match) to \9, as DNR's regexSubstitution understands them.
+const captureReferencePattern = /\\[0-9]/;
+
+// Anything else is almost certainly a missing scheme: "localhost:3000/app.js"
+// parses as a URL with the scheme "localhost:".
+const redirectProtocols = ["http:", "https:", "ws:", "wss:", "data:"];
+
+/**
+ * Whether a redirect target refers to capture groups of its source, and so
+ * has to compile to a regexSubstitution rather than a fixed URL.
+ */
+export const usesCaptureGroups = (target: string): boolean =>
+  captureReferencePattern.test(target);
+
+/**
+ * Whether a fixed target would match its own source again, which the
+ * browser would follow until it gives up with "too many redirects". Only
+ * checked for fixed targets: where a substitution ends up depends on the
+ * request. Uses JavaScript's regex engine, which agrees with RE2 on
+ * anything isRegexSupported accepts that this could reasonably hit.
+ */
+export const redirectsToItself = ({ source, target }: Pick<RedirectSetting, "source" | "target">): boolean => {
+  if (usesCaptureGroups(target)) return false;
+  try {
+    return new RegExp(source).test(target);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validates a redirect target: a substitution just has to be printable
+ * ASCII (it's only a URL once the browser fills it in), a fixed target has
+ * to be an absolute web (or data:) URL.
+ */
+export const isValidRedirectTarget = (target: string): boolean => {
+  if (!target || /[^\x20-\x7E]/.test(target)) return false;
+  if (usesCaptureGroups(target)) return true;
+  try {
+    return redirectProtocols.includes(new URL(target).protocol);
+  } catch {
+    return false;
+  }
+};
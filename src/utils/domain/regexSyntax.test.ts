@@ -0,0 +1,65 @@
+import { describeRegexProblem, explainRegexProblem, findRegexProblem } from './regexSyntax';
+
+describe('findRegexProblem', () => {
+  it.each([
+    '^https://example\\.com/.*',
+    '.*://localhost:8080/.*',
+    '^https?://(?:[^/?#]+\\.)?api\\.example\\.com/v1[^?#]*\\.json(?:[?#]|$)',
+    '(?P<host>[a-z]+)\\.(?<tld>com|org)',
+    '(?i)^HTTPS://example\\.com/',
+    '\\.(png|jpg|gif)$',
+    '[]a]|[^]]|[[:alpha:]-]',
+    'a{2,5}?b{3}c{1,}',
+    '\\x41\\x{263a}\\pL\\p{Greek}\\Q(*)\\E\\012',
+    'a{1000}',
+    '{not a repeat}',
+  ])('accepts %s', (pattern) => {
+    expect(findRegexProblem(pattern)).toBeNull();
+  });
+
+  it.each([
+    ['^https://(?=www\\.)', /Lookaheads/, 9, '(?='],
+    ['(?<!api\\.)example', /Lookbehinds/, 0, '(?<!'],
+    ['(a)\\1', /Backreferences like \\1/, 3, '\\1'],
+    ['(?<n>a)\\k<n>', /Named backreferences/, 7, '\\k<n>'],
+    ['(?>a+)b', /Atomic groups/, 0, '(?>'],
+    ['a++', /Possessive/, 1, '++'],
+    ['a**', /straight after another/, 1, '**'],
+    ['a{2}{3}', /straight after another/, 1, '{2}{'],
+    ['foo\\Z', /use \\z or \$/, 3, '\\Z'],
+    ['\\u00e9', /\\x\{\.\.\.\}/, 0, '\\u'],
+    ['*a', /nothing before \*/, 0, '*'],
+    ['(a|b', /never closed/, 0, '('],
+    ['a)', /no \( to close/, 1, ')'],
+    ['[a-z', /never closed/, 0, '['],
+    ['[z-a]', /backwards/, 1, 'z-a'],
+    ['a{1001}', /more than 1000 times/, 1, '{1001}'],
+    ['a{5,2}', /backwards/, 1, '{5,2}'],
+    ['(a{100}){20}', /add up to 2000 repeats/, 8, '{20}'],
+    ['.{500}', /2KB limit/, 1, '{500}'],
+    ['abc\\', /lone backslash/, 3, '\\'],
+  ])('rejects %s', (pattern, message, index, excerpt) => {
+    const found = findRegexProblem(pattern);
+
+    expect(found?.message).toMatch(message);
+    expect(found?.index).toBe(index);
+    expect(pattern.slice(found!.index, found!.index + found!.length)).toBe(excerpt);
+  });
+});
+
+describe('describeRegexProblem', () => {
+  it('points at the problem', () => {
+    const pattern = '^https://(?=www\\.)';
+
+    expect(describeRegexProblem(pattern, findRegexProblem(pattern)!)).toBe(
+      "Lookaheads like (?= and (?! aren't supported (at character 10: (?=)."
+    );
+  });
+});
+
+describe('explainRegexProblem', () => {
+  it('describes the first problem, or is null when there is none', () => {
+    expect(explainRegexProblem('^https://example\\.com/')).toBeNull();
+    expect(explainRegexProblem('(a)\\1')).toBe("Backreferences like \\1 aren't supported (at character 4: \\1).");
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Checks a regex against the syntax of RE2, the engine behind DNR's
+ * regexFilter, without asking the browser - so a pattern can be checked in
+ * dev:web mode and in tests, and the popup can say what's wrong with it and
+ * where, rather than just that isRegexSupported said no.
+ *
+ * It catches what people usually bring over from other engines - lookarounds,
+ * backreferences, atomic groups, possessive quantifiers, escapes RE2 doesn't
+ * know - plus RE2's limits on repetition, and patterns far past the
+ * browser's size limit. It's a first check: the browser still has the final
+ * say where it's available.
+ */
+
+export type RegexProblem = {
+  message: string;
+  // Where the problem starts in the pattern, and how many characters it
+  // spans
+  index: number;
+  length: number;
+};
+
+// RE2 refuses counted repetitions above 1000, and nested ones whose counts
+// multiply past it.
+const MAX_REPEAT = 1000;
+
+// A rough budget for the compiled pattern. The browser caps a regex filter
+// at 2KB once compiled, which can't be worked out exactly from here, so the
+// sizes below are estimates and the budget only catches patterns well past
+// the cap.
+const MAX_PROGRAM_SIZE = 1000;
+const CLASS_SIZE = 4;
+// Unicode classes like \pL compile to hundreds of ranges.
+const UNICODE_CLASS_SIZE = 50;
+
+// Letters RE2 understands after a backslash. Punctuation can always be
+// escaped, and digits are octal escapes or (unsupported) backreferences.
+const SUPPORTED_ESCAPES = new Set("afnrtvdDsSwWbBAzpPQECx");
+const PERL_CLASSES = new Set("dDsSwW");
+
+const ESCAPE_HINTS: Record<string, string> = {
+  Z: "\\Z isn't supported - use \\z or $ instead",
+  u: "\\u isn't supported - use \\x{...} for a code point instead",
+  h: "\\h isn't supported - use [ \\t] instead",
+  R: "\\R isn't supported - use (?:\\r\\n|\\n|\\r) instead",
+};
+
+type Atom = { size: number; factor: number };
+
+type Frame = {
+  index: number;
+  size: number;
+  // The largest product of nested counted repetitions inside
+  factor: number;
+  last: Atom | null;
+};
+
+type Token = { length: number; size: number };
+
+const problem = (message: string, index: number, length = 1): RegexProblem => ({
+  message,
+  index,
+  length,
+});
+
+const isProblem = (value: Token | RegexProblem): value is RegexProblem => "message" in value;
+
+function readEscape(pattern: string, index: number): Token | RegexProblem {
+  const next = pattern[index + 1];
+  if (next === undefined) {
+    return problem("The pattern ends with a lone backslash", index);
+  }
+
+  if (/[0-7]/.test(next) && (next === "0" || /[0-7]/.test(pattern[index + 2] ?? ""))) {
+    // An octal escape: \0, or \1-\7 followed by another octal digit
+    const octal = /^\\[0-7]{1,3}/.exec(pattern.slice(index))![0];
+    return { length: octal.length, size: 1 };
+  }
+  if (/[1-9]/.test(next)) {
+    return problem(`Backreferences like \\${next} aren't supported`, index, 2);
+  }
+  if (next === "k" && /[<{']/.test(pattern[index + 2] ?? "")) {
+    const end = pattern.slice(index).search(/[>}']/);
+    return problem("Named backreferences aren't supported", index, end === -1 ? 2 : end + 1);
+  }
+  if (next === "x") {
+    const hex = /^\\x(?:\{[0-9a-fA-F]{1,6}\}|[0-9a-fA-F]{2})/.exec(pattern.slice(index));
+    return hex
+      ? { length: hex[0].length, size: 1 }
+      : problem("\\x needs two hex digits, or a code point in braces like \\x{263a}", index, 2);
+  }
+  if (next === "p" || next === "P") {
+    const unicodeClass = /^\\[pP](?:\{\^?[A-Za-z_]+\}|[A-Za-z])/.exec(pattern.slice(index));
+    return unicodeClass
+      ? { length: unicodeClass[0].length, size: UNICODE_CLASS_SIZE }
+      : problem(`\\${next} needs a Unicode class, like \\${next}L or \\${next}{Greek}`, index, 2);
+  }
+  if (next === "Q") {
+    // Everything up to \E (or the end) is literal
+    const end = pattern.indexOf("\\E", index + 2);
+    const length = (end === -1 ? pattern.length : end + 2) - index;
+    return { length, size: Math.max(1, length - 4) };
+  }
+  if (/[A-Za-z]/.test(next)) {
+    return SUPPORTED_ESCAPES.has(next)
+      ? { length: 2, size: PERL_CLASSES.has(next) ? CLASS_SIZE : 1 }
+      : problem(ESCAPE_HINTS[next] ?? `\\${next} isn't an escape RE2 understands`, index, 2);
+  }
+  return { length: 2, size: 1 };
+}
+
+function readClass(pattern: string, index: number): Token | RegexProblem {
+  let position = index + 1;
+  if (pattern[position] === "^") position += 1;
+  // A ] straight after the opening bracket is a literal one
+  if (pattern[position] === "]") position += 1;
+  let previous: string | null = null;
+
+  while (position < pattern.length) {
+    const char = pattern[position];
+    if (char === "]") {
+      return { length: position + 1 - index, size: CLASS_SIZE };
+    }
+    if (char === "[" && pattern[position + 1] === ":") {
+      const posix = /^\[:\^?[a-z]+:\]/.exec(pattern.slice(position));
+      if (posix) {
+        position += posix[0].length;
+        previous = null;
+        continue;
+      }
+    }
+    if (char === "\\") {
+      const escape = readEscape(pattern, position);
+      if (isProblem(escape)) return escape;
+      position += escape.length;
+      previous = null;
+      continue;
+    }
+    if (char === "-" && previous !== null && pattern[position + 1] && pattern[position + 1] !== "]") {
+      const end = pattern[position + 1];
+      if (end !== "\\" && end < previous) {
+        return problem(`The range ${previous}-${end} is backwards`, position - 1, 3);
+      }
+      position += 2;
+      previous = null;
+      continue;
+    }
+    previous = char;
+    position += 1;
+  }
+  return problem("This [ is never closed", index);
+}
+
+/**
+ * Reads what follows an opening parenthesis. Returns how long the opening
+ * is, and whether it's only a flag change like (?i) rather than a group.
+ */
+function readGroupOpening(
+  pattern: string,
+  index: number
+): { length: number; flagsOnly: boolean } | RegexProblem {
+  if (pattern[index + 1] !== "?") return { length: 1, flagsOnly: false };
+  const rest = pattern.slice(index + 2);
+
+  if (/^[=!]/.test(rest)) {
+    return problem("Lookaheads like (?= and (?! aren't supported", index, 3);
+  }
+  if (/^<[=!]/.test(rest)) {
+    return problem("Lookbehinds like (?<= and (?<! aren't supported", index, 4);
+  }
+  if (rest.startsWith(">")) {
+    return problem("Atomic groups (?> aren't supported", index, 3);
+  }
+  if (rest.startsWith("(")) {
+    return problem("Conditionals (?( aren't supported", index, 3);
+  }
+  if (/^(?:R|[+-]?\d|&|P>|P=)/.test(rest)) {
+    return problem("Recursion and references to groups aren't supported", index, 3);
+  }
+  const named = /^P?<([A-Za-z_][A-Za-z0-9_]*)>/.exec(rest);
+  if (named) return { length: 2 + named[0].length, flagsOnly: false };
+  if (/^P?</.test(rest)) {
+    return problem("A group name has to be letters, digits and _, like (?P<name>...)", index, 3);
+  }
+  const flags = /^[imsU]*(?:-[imsU]+)?([:)])/.exec(rest);
+  if (flags) return { length: 2 + flags[0].length, flagsOnly: flags[1] === ")" };
+  return problem(`(?${rest[0] ?? ""} isn't a kind of group RE2 understands`, index, 3);
+}
+
+/**
+ * The first thing in a regex that RE2 (or the browser's size limit) would
+ * reject, or null when there's nothing.
+ */
+export function findRegexProblem(pattern: string): RegexProblem | null {
+  const frames: Frame[] = [{ index: 0, size: 0, factor: 1, last: null }];
+  const top = () => frames[frames.length - 1];
+  const addAtom = (size: number, factor = 1) => {
+    const frame = top();
+    frame.size += size;
+    frame.factor = Math.max(frame.factor, factor);
+    frame.last = { size, factor };
+  };
+
+  // Applies a repetition to the last atom: a repeat count for {n,m}, or
+  // null for *, + and ?.
+  const repeat = (index: number, length: number, count: number | null): RegexProblem | null => {
+    const frame = top();
+    const last = frame.last;
+    const operator = pattern.slice(index, index + length);
+    if (!last) {
+      return problem(`There's nothing before ${operator} to repeat`, index, length);
+    }
+
+    let end = index + length;
+    if (pattern[end] === "?") end += 1;
+    if (pattern[end] === "+") {
+      return problem("Possessive quantifiers like a++ or a*+ aren't supported", index, end + 1 - index);
+    }
+    if (/[*+?]/.test(pattern[end] ?? "") || /^\{\d+(?:,\d*)?\}/.test(pattern.slice(end))) {
+      return problem(
+        "RE2 doesn't allow a repetition straight after another - wrap the first in (?:...)",
+        index,
+        end + 1 - index
+      );
+    }
+
+    if (count !== null) {
+      const factor = last.factor * count;
+      if (factor > MAX_REPEAT) {
+        return problem(
+          `Nested repetitions add up to ${factor} repeats - RE2 allows ${MAX_REPEAT}`,
+          index,
+          length
+        );
+      }
+      const size = last.size * count;
+      if (size > MAX_PROGRAM_SIZE) {
+        return problem(
+          "Repeating this much is likely to go over the browser's 2KB limit for a compiled regex",
+          index,
+          length
+        );
+      }
+      frame.size += size - last.size;
+      frame.factor = Math.max(frame.factor, factor);
+    } else {
+      frame.size += 1;
+    }
+    frame.last = null;
+    return null;
+  };
+
+  let index = 0;
+  while (index < pattern.length) {
+    const char = pattern[index];
+
+    if (char === "\\") {
+      const escape = readEscape(pattern, index);
+      if (isProblem(escape)) return escape;
+      addAtom(escape.size);
+      index += escape.length;
+    } else if (char === "[") {
+      const characterClass = readClass(pattern, index);
+      if (isProblem(characterClass)) return characterClass;
+      addAtom(characterClass.size);
+      index += characterClass.length;
+    } else if (char === "(") {
+      const opening = readGroupOpening(pattern, index);
+      if ("message" in opening) return opening;
+      if (!opening.flagsOnly) {
+        frames.push({ index, size: 0, factor: 1, last: null });
+      }
+      index += opening.length;
+    } else if (char === ")") {
+      if (frames.length === 1) return problem("This ) has no ( to close", index);
+      const group = frames.pop()!;
+      addAtom(group.size + 1, group.factor);
+      index += 1;
+    } else if (char === "*" || char === "+" || char === "?") {
+      const found = repeat(index, 1, null);
+      if (found) return found;
+      index += pattern[index + 1] === "?" ? 2 : 1;
+    } else if (char === "{" && /^\{\d+(?:,\d*)?\}/.test(pattern.slice(index))) {
+      const [counted, min, comma, max] = /^\{(\d+)(,?)(\d*)\}/.exec(pattern.slice(index))!;
+      const low = Number(min);
+      const high = comma ? (max ? Number(max) : null) : low;
+      if (low > MAX_REPEAT || (high !== null && high > MAX_REPEAT)) {
+        return problem(`RE2 can't repeat anything more than ${MAX_REPEAT} times`, index, counted.length);
+      }
+      if (high !== null && high < low) {
+        return problem(`The repeat range ${counted} is backwards`, index, counted.length);
+      }
+      const found = repeat(index, counted.length, high ?? low + 1);
+      if (found) return found;
+      index += counted.length + (pattern[index + counted.length] === "?" ? 1 : 0);
+    } else if (char === "|") {
+      top().size += 1;
+      top().last = null;
+      index += 1;
+    } else {
+      addAtom(char === "." ? CLASS_SIZE : 1);
+      index += 1;
+    }
+  }
+
+  if (frames.length > 1) {
+    return problem("This ( is never closed", top().index);
+  }
+  if (frames[0].size > MAX_PROGRAM_SIZE) {
+    return problem(
+      "The pattern is likely to go over the browser's 2KB limit for a compiled regex",
+      0,
+      pattern.length
+    );
+  }
+  return null;
+}
+
+/**
+ * A problem as one line for a tooltip, pointing at where it is.
+ */
+export function describeRegexProblem(pattern: string, found: RegexProblem): string {
+  const excerpt = pattern.slice(found.index, found.index + Math.min(found.length, 20));
+  return `${found.message} (at character ${found.index + 1}: ${excerpt}).`;
+}
+
+/**
+ * Why RE2 would reject the pattern, as a tooltip line, or null when the
+ * local check finds nothing (the browser may still reject it).
+ */
+export function explainRegexProblem(pattern: string): string | null {
+  const found = findRegexProblem(pattern);
+  return found ? describeRegexProblem(pattern, found) : null;
+}
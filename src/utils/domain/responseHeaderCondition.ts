@@ -0,0 +1,26 @@
+/**
+ * A response header a rule can match on - the shape of DNR's HeaderInfo for
+ * the responseHeaders/excludedResponseHeaders conditions. Without `values`
+ * the header only has to be present.
+ */
+export type ResponseHeaderCondition = {
+  header: string;
+  values?: string[];
+};
+
+/**
+ * Parses a "responseHeader" filter value such as `Content-Type: text/html*`
+ * or just `Vary`. Everything after the first colon is one value pattern,
+ * since header values like `text/html; charset=utf-8` can themselves
+ * contain separators.
+ */
+export const parseResponseHeaderCondition = (value: string): ResponseHeaderCondition => {
+  const separator = value.indexOf(":");
+  if (separator === -1) {
+    return { header: value.trim().toLowerCase() };
+  }
+
+  const header = value.slice(0, separator).trim().toLowerCase();
+  const headerValue = value.slice(separator + 1).trim();
+  return headerValue ? { header, values: [headerValue] } : { header };
+};
@@ -1,7 +1,47 @@
 import { z } from "zod";
 
 export const filterTypeSchema = z.enum(["include", "exclude"]);
-export const filterModeSchema = z.enum(["regex", "url"]);
+// "domain"/"initiator" hold a list of hosts and compile to DNR's
+// requestDomains/initiatorDomains conditions - see parseDomainList.
+// "responseHeader" matches on a header the server sent - see
+// parseResponseHeaderCondition.
+export const filterModeSchema = z.enum([
+  "regex",
+  "url",
+  "domain",
+  "initiator",
+  "responseHeader",
+]);
+// The resource types every rule matches by default - see allResourceTypes in
+// background/rules.ts. Order matters: it's the order they're listed in the UI.
+export const resourceTypeSchema = z.enum([
+  "main_frame",
+  "sub_frame",
+  "stylesheet",
+  "script",
+  "image",
+  "font",
+  "object",
+  "xmlhttprequest",
+  "ping",
+  "csp_report",
+  "media",
+  "websocket",
+  "other",
+]);
+export const headerOperationSchema = z.enum(["set", "append", "remove"]);
+// Lower-case because that's what DNR's requestMethods condition expects.
+export const requestMethodSchema = z.enum([
+  "get",
+  "head",
+  "post",
+  "put",
+  "patch",
+  "delete",
+  "options",
+  "connect",
+  "other",
+]);
 
 export const headerSettingSchema = z.object({
   id: z.string(),
@@ -10,6 +50,38 @@ export const headerSettingSchema = z.object({
   headerComment: z.string().default(""),
   headerEnabled: z.boolean(),
   headerType: z.enum(["request", "response"]).default("request"),
+  // Optional rather than defaulted so legacy headers don't need one -
+  // normalizeHeader backfills "set", which is all older versions could do.
+  headerOperation: headerOperationSchema.optional(),
+});
+
+// Sends a request whose URL matches `source` (a regex, like a regex filter)
+// to `target` instead. A target referencing capture groups (\1-\9, or \0
+// for the whole match) compiles to a regexSubstitution, any other to a
+// fixed URL - see buildRedirectAction.
+export const redirectSettingSchema = z.object({
+  id: z.string(),
+  enabled: z.boolean(),
+  // Set by the popup like a filter's, see redirectIsValid. Invalid redirects
+  // are left out of the rules.
+  valid: z.boolean(),
+  source: z.string(),
+  target: z.string(),
+  comment: z.string().default(""),
+});
+
+// "add" sets the parameter whether or not the URL has it, "replace" only
+// changes it where it's already present - see buildQueryTransform.
+export const queryParamOperationSchema = z.enum(["add", "replace", "remove"]);
+
+// Changes a query parameter on requests matching the page's filters, the
+// way a header does. Compiles to a redirect with a queryTransform.
+export const queryParamSettingSchema = z.object({
+  id: z.string(),
+  enabled: z.boolean(),
+  operation: queryParamOperationSchema,
+  key: z.string(),
+  value: z.string(),
 });
 
 export const headerFilterSchema = z.object({
@@ -19,6 +91,35 @@ export const headerFilterSchema = z.object({
   type: filterTypeSchema,
   mode: filterModeSchema.default("regex"),
   value: z.string(),
+  // Restricts the filter to these HTTP methods. Missing or empty means every
+  // method, which is also how filters saved before this field existed behave.
+  methods: z.array(requestMethodSchema).optional(),
+  // Overrides the page's resource types for this filter only. Missing or
+  // empty falls back to the page's selection.
+  resourceTypes: z.array(resourceTypeSchema).optional(),
+  // Filters of the same type sharing a group must all match for the group to
+  // - see getFilterGroups. Missing means the filter is a group of its own,
+  // which is how every filter behaved before groups existed.
+  groupId: z.string().optional(),
+});
+
+// Blocks requests matching `value`, read the same way as a filter's in the
+// same mode. Response header matching isn't offered: by the time there's a
+// response to match on, the request has already been made.
+export const blockModeSchema = filterModeSchema.exclude(["responseHeader"]);
+
+export const blockSettingSchema = z.object({
+  id: z.string(),
+  enabled: z.boolean(),
+  // Set by the popup with filterIsValid. Invalid entries are left out of the
+  // rules.
+  valid: z.boolean(),
+  mode: blockModeSchema,
+  value: z.string(),
+  // As on a filter: missing or empty means every method, and the page's
+  // resource types.
+  methods: z.array(requestMethodSchema).optional(),
+  resourceTypes: z.array(resourceTypeSchema).optional(),
 });
 
 export const pageSchema = z.object({
@@ -35,9 +136,30 @@ export const pageSchema = z.object({
   // selected page (enabled) or has keepEnabled set. Optional rather than
   // defaulted so legacy pages don't need one - normalizePage backfills it.
   paused: z.boolean().optional(),
+  // Compiles to session rules instead of dynamic ones, and is paused again
+  // on browser startup so a debugging page can't leak into the next
+  // session. Optional rather than defaulted - normalizePage backfills it.
+  sessionOnly: z.boolean().optional(),
   showHeaderComments: z.boolean().default(true),
+  // Explicit precedence when two active pages modify the same header: the
+  // higher number wins, and pages with the same priority fall back to list
+  // order. Optional rather than defaulted - readers treat a missing value
+  // as 0.
+  priority: z.number().int().optional(),
+  // Resource types this page's rules apply to. Missing or empty means every
+  // type, which is how pages saved before this field existed behave.
+  resourceTypes: z.array(resourceTypeSchema).optional(),
   filters: z.array(headerFilterSchema).default([]),
   headers: z.array(headerSettingSchema).default([]),
+  // Listed alongside the headers. Optional rather than defaulted so legacy
+  // pages don't need one - normalizePage backfills it.
+  redirects: z.array(redirectSettingSchema).optional(),
+  // Requests to block while the page is active. Optional rather than
+  // defaulted - normalizePage backfills it.
+  blocks: z.array(blockSettingSchema).optional(),
+  // Query parameters to change on requests the page's filters match.
+  // Optional rather than defaulted - normalizePage backfills it.
+  queryParams: z.array(queryParamSettingSchema).optional(),
   // Resolves which side wins when the same page is edited on two synced
   // browsers. Optional rather than defaulted so legacy pages don't need one -
   // readers treat a missing value as 0, the oldest possible timestamp.
@@ -57,8 +179,16 @@ export const settingsV3MetaSchema = z.object({
 
 export type FilterType = z.infer<typeof filterTypeSchema>;
 export type FilterMode = z.infer<typeof filterModeSchema>;
+export type ResourceType = z.infer<typeof resourceTypeSchema>;
+export type RequestMethod = z.infer<typeof requestMethodSchema>;
+export type HeaderOperation = z.infer<typeof headerOperationSchema>;
 export type HeaderSetting = z.infer<typeof headerSettingSchema>;
 export type HeaderFilter = z.infer<typeof headerFilterSchema>;
+export type RedirectSetting = z.infer<typeof redirectSettingSchema>;
+export type BlockMode = z.infer<typeof blockModeSchema>;
+export type BlockSetting = z.infer<typeof blockSettingSchema>;
+export type QueryParamOperation = z.infer<typeof queryParamOperationSchema>;
+export type QueryParamSetting = z.infer<typeof queryParamSettingSchema>;
 export type Page = z.infer<typeof pageSchema>;
 export type PagesData = z.infer<typeof pagesDataSchema>;
 export type SettingsV3Meta = z.infer<typeof settingsV3MetaSchema>;
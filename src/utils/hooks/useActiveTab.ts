@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import browser from "webextension-polyfill";
+import { TAB_SCOPES_KEY } from "../../constants";
+import { getTabScopes, type TabScopes } from "../storage/tabScopes";
+
+/**
+ * The tab the popup was opened over, and the current tab scopes, kept up to
+ * date as they change. `id` and `url` are undefined until the tab is known,
+ * or when the browser won't say.
+ */
+function useActiveTab() {
+  const [tab, setTab] = useState<{ id?: number; url?: string }>({});
+  const [scopes, setScopes] = useState<TabScopes>({});
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [activeTab] = await browser.tabs.query({
+          active: true,
+          currentWindow: true,
+        });
+        setTab({ id: activeTab?.id, url: activeTab?.url });
+      } catch (error) {
+        console.error("Failed to look up the active tab", error);
+      }
+      setScopes(await getTabScopes());
+    };
+    load();
+
+    const listener = (changes: Record<string, browser.Storage.StorageChange>) => {
+      if (TAB_SCOPES_KEY in changes) {
+        setScopes((changes[TAB_SCOPES_KEY].newValue as TabScopes | undefined) ?? {});
+      }
+    };
+
+    browser.storage.local.onChanged.addListener(listener);
+    return () => browser.storage.local.onChanged.removeListener(listener);
+  }, []);
+
+  return { tab, scopes };
+}
+
+export default useActiveTab;
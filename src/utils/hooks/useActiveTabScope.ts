@@ -0,0 +1,26 @@
+import { useCallback } from "react";
+import { setPageTabScope } from "../storage/tabScopes";
+import useActiveTab from "./useActiveTab";
+
+/**
+ * Tracks whether a page is in "this tab only" mode for the tab the popup was
+ * opened over, and toggles it. `available` is false until the active tab is
+ * known, or when the page has no pageId to scope by.
+ */
+function useActiveTabScope(pageId: string | undefined) {
+  const { tab, scopes } = useActiveTab();
+  const tabId = tab.id;
+
+  const available = tabId !== undefined && !!pageId;
+  const thisTabOnly =
+    available && (scopes[pageId as string] ?? []).includes(tabId as number);
+
+  const toggleThisTabOnly = useCallback(async () => {
+    if (tabId === undefined || !pageId) return;
+    await setPageTabScope(pageId, tabId, !thisTabOnly);
+  }, [pageId, tabId, thisTabOnly]);
+
+  return { available, thisTabOnly, toggleThisTabOnly };
+}
+
+export default useActiveTabScope;
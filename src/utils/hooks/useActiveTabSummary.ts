@@ -0,0 +1,43 @@
+import { useMemo } from "react";
+import type { Page } from "../settings";
+import { supportsResponseHeaderConditions } from "../browserContext";
+import { explainRulesFromPages } from "../../background/rules";
+import { createRuleIdAllocator } from "../../background/ruleIds";
+import { summarizeRequests, type RequestSummary } from "../../background/ruleEvaluator";
+import useActiveTab from "./useActiveTab";
+
+// The schemes DNR rules act on at all.
+const MODIFIABLE_PROTOCOLS = ["http:", "https:", "ws:", "wss:"];
+
+/**
+ * What the pages do to the tab the popup was opened over, worked out from
+ * the rules they compile to. `url` is undefined until the tab is known (or
+ * when the browser won't say), and `summary` is null for tabs the rules
+ * can't touch, like the browser's own pages.
+ */
+function useActiveTabSummary(pages: Page[]) {
+  const { tab, scopes } = useActiveTab();
+
+  const hostname = useMemo(() => {
+    if (!tab.url) return undefined;
+    try {
+      const url = new URL(tab.url);
+      return MODIFIABLE_PROTOCOLS.includes(url.protocol) ? url.hostname : undefined;
+    } catch {
+      return undefined;
+    }
+  }, [tab.url]);
+
+  const summary = useMemo((): RequestSummary | null => {
+    if (!tab.url || !hostname) return null;
+    const explained = explainRulesFromPages(pages, createRuleIdAllocator(), {
+      responseHeaderConditions: supportsResponseHeaderConditions(),
+      tabScopes: scopes,
+    });
+    return summarizeRequests(explained, { url: tab.url, method: "get", tabId: tab.id });
+  }, [pages, scopes, tab, hostname]);
+
+  return { url: tab.url, hostname, summary };
+}
+
+export default useActiveTabSummary;
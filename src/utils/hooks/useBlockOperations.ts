@@ -0,0 +1,102 @@
+import type { Dispatch, SetStateAction } from "react";
+import type { PagesData, BlockSetting } from "../domain/schemas";
+import { filterIsValid } from "../domain/filterValidation";
+
+interface UseBlockOperationsParams {
+  pagesData: PagesData;
+  setPagesData: Dispatch<SetStateAction<PagesData>>;
+  recordHistory: (debounceKey: string | null) => void;
+}
+
+/**
+ * Block entry CRUD for the currently loaded pagesData. Mirrors
+ * useFilterOperations - entries share the filter modes and are validated the
+ * same way.
+ */
+function useBlockOperations({ pagesData, setPagesData, recordHistory }: UseBlockOperationsParams) {
+  /**
+   * Adds a new block entry to a given page
+   * @param pageId | The page that the entry will be added to
+   * @param block | The entry to add
+   */
+  const addBlock = (pageId: number, block: Omit<BlockSetting, "id">) => {
+    const newPages = pagesData.pages.map((page) => {
+      if (page.id !== pageId) return page;
+
+      const blocks = page.blocks ?? [];
+      // Numbered past the highest existing id rather than by count, so
+      // removing one never makes the next one reuse a surviving id.
+      const nextIndex =
+        Math.max(0, ...blocks.map((existing) => Number(/\d+$/.exec(existing.id)?.[0] ?? 0))) + 1;
+      return {
+        ...page,
+        lastModified: Date.now(),
+        blocks: [...blocks, { ...block, id: `${pageId}-b${nextIndex}` }],
+      };
+    });
+
+    setPagesData((prev) => ({
+      ...prev,
+      pages: newPages,
+    }));
+  };
+
+  /**
+   * Removes a block entry from a page
+   * @param pageId | The page that the entry belongs to
+   * @param blockId | The id of the entry to remove
+   */
+  const removeBlock = (pageId: number, blockId: string) => {
+    recordHistory(null);
+
+    const newPages = pagesData.pages.map((page) =>
+      page.id === pageId
+        ? {
+          ...page,
+          lastModified: Date.now(),
+          blocks: (page.blocks ?? []).filter((block) => block.id !== blockId),
+        }
+        : page
+    );
+
+    setPagesData((prev) => ({
+      ...prev,
+      pages: newPages,
+    }));
+  };
+
+  /**
+   * Updates the values of a block entry
+   * @param pageId | The page that the entry belongs to
+   * @param block | The new entry, the id should match the entry to update
+   */
+  const updateBlock = (
+    pageId: number,
+    block: Omit<BlockSetting, "valid">
+  ) => {
+    recordHistory(`block:${pageId}:${block.id}`);
+
+    filterIsValid(block, (result) => {
+      const newPages = pagesData.pages.map((page) =>
+        page.id === pageId
+          ? {
+            ...page,
+            lastModified: Date.now(),
+            blocks: (page.blocks ?? []).map((b) =>
+              b.id === block.id ? { ...block, valid: result } : b
+            ),
+          }
+          : page
+      );
+
+      setPagesData((prev) => ({
+        ...prev,
+        pages: newPages,
+      }));
+    });
+  };
+
+  return { addBlock, removeBlock, updateBlock };
+}
+
+export default useBlockOperations;
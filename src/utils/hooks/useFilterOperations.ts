@@ -1,6 +1,7 @@
 import type { Dispatch, SetStateAction } from "react";
 import type { PagesData, HeaderFilter } from "../domain/schemas";
 import { filterIsValid } from "../domain/filterValidation";
+import { setJoinedWithPrevious } from "../domain/filterGroups";
 
 interface UseFilterOperationsParams {
   pagesData: PagesData;
@@ -94,7 +95,33 @@ function useFilterOperations({ pagesData, setPagesData, recordHistory }: UseFilt
     });
   };
 
-  return { addFilter, removeFilter, updateFilter };
+  /**
+   * Joins a filter to the group of the one above it, or splits the group
+   * there (see setJoinedWithPrevious)
+   * @param pageId | The page that the filter belongs to
+   * @param filterId | The id of the filter to join or split off
+   * @param joined | Whether the filter should be in the group above
+   */
+  const setFilterJoined = (pageId: number, filterId: string, joined: boolean) => {
+    recordHistory(null);
+
+    const newPages = pagesData.pages.map((page) => {
+      if (page.id !== pageId) return page;
+      const index = page.filters.findIndex((filter) => filter.id === filterId);
+      return {
+        ...page,
+        lastModified: Date.now(),
+        filters: setJoinedWithPrevious(page.filters, index, joined),
+      };
+    });
+
+    setPagesData((prev) => ({
+      ...prev,
+      pages: newPages,
+    }));
+  };
+
+  return { addFilter, removeFilter, updateFilter, setFilterJoined };
 }
 
 export default useFilterOperations;
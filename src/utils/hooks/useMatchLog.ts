@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from "react";
+import browser from "webextension-polyfill";
+import { MATCH_LOG_ENABLED_KEY, MATCH_LOG_KEY } from "../../constants";
+import {
+  clearMatchLog,
+  getMatchLog,
+  isMatchLogEnabled,
+  MATCH_LOG_PERMISSION,
+  setMatchLogEnabled,
+  type MatchLogEntry,
+} from "../storage/matchLog";
+
+const hasPermission = () =>
+  browser.permissions.contains({ permissions: [MATCH_LOG_PERMISSION] });
+
+/**
+ * The matched request log and its on/off switch for the settings page. The
+ * background does the recording (see updateMatchLogRecording); this reads
+ * what it wrote and asks for the permission it needs.
+ */
+function useMatchLog() {
+  const [matchLogEnabled, setEnabled] = useState(false);
+  const [matchLog, setMatchLog] = useState<MatchLogEntry[]>([]);
+
+  useEffect(() => {
+    Promise.all([isMatchLogEnabled(), hasPermission()])
+      .then(([enabled, granted]) => setEnabled(enabled && granted))
+      .catch((error) => console.error("Failed to read the match log setting", error));
+    getMatchLog().then(setMatchLog);
+
+    const listener = (changes: Record<string, browser.Storage.StorageChange>) => {
+      if (MATCH_LOG_KEY in changes) {
+        setMatchLog((changes[MATCH_LOG_KEY].newValue as MatchLogEntry[] | undefined) ?? []);
+      }
+      if (MATCH_LOG_ENABLED_KEY in changes) {
+        setEnabled(changes[MATCH_LOG_ENABLED_KEY].newValue === true);
+      }
+    };
+
+    browser.storage.local.onChanged.addListener(listener);
+    return () => browser.storage.local.onChanged.removeListener(listener);
+  }, []);
+
+  const toggleMatchLog = useCallback(async () => {
+    try {
+      if (matchLogEnabled) {
+        await setMatchLogEnabled(false);
+        setEnabled(false);
+        await browser.permissions.remove({ permissions: [MATCH_LOG_PERMISSION] });
+        return;
+      }
+      // Browsers only prompt for a permission straight from a click, so this
+      // has to come before anything else is awaited.
+      const granted = await browser.permissions.request({ permissions: [MATCH_LOG_PERMISSION] });
+      if (!granted) return;
+      await setMatchLogEnabled(true);
+      setEnabled(true);
+    } catch (error) {
+      console.error("Failed to toggle the match log", error);
+    }
+  }, [matchLogEnabled]);
+
+  return { matchLogEnabled, matchLog, toggleMatchLog, clearMatchLog };
+}
+
+export default useMatchLog;
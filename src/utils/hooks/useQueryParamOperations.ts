@@ -0,0 +1,97 @@
+import type { Dispatch, SetStateAction } from "react";
+import type { PagesData, QueryParamSetting } from "../domain/schemas";
+
+interface UseQueryParamOperationsParams {
+  pagesData: PagesData;
+  setPagesData: Dispatch<SetStateAction<PagesData>>;
+  recordHistory: (debounceKey: string | null) => void;
+}
+
+/**
+ * Query parameter CRUD for the currently loaded pagesData. Unlike filters
+ * there's no stored validity: isQueryParamApplied checks each change when
+ * the rules are built.
+ */
+function useQueryParamOperations({ pagesData, setPagesData, recordHistory }: UseQueryParamOperationsParams) {
+  /**
+   * Adds a new query parameter change to a given page
+   * @param pageId | The page that the change will be added to
+   * @param param | The change to add
+   * @returns the added change, so the caller can focus it
+   */
+  const addQueryParam = (pageId: number, param: Omit<QueryParamSetting, "id">) => {
+    const newPages = pagesData.pages.map((page) => {
+      if (page.id !== pageId) return page;
+
+      const queryParams = page.queryParams ?? [];
+      // Numbered past the highest existing id rather than by count, so
+      // removing one never makes the next one reuse a surviving id.
+      const nextIndex =
+        Math.max(0, ...queryParams.map((existing) => Number(/\d+$/.exec(existing.id)?.[0] ?? 0))) + 1;
+      return {
+        ...page,
+        lastModified: Date.now(),
+        queryParams: [...queryParams, { ...param, id: `${pageId}-q${nextIndex}` }],
+      };
+    });
+
+    setPagesData((prev) => ({
+      ...prev,
+      pages: newPages,
+    }));
+
+    return newPages.find((page) => page.id === pageId)?.queryParams?.slice(-1)[0];
+  };
+
+  /**
+   * Removes a query parameter change from a page
+   * @param pageId | The page that the change belongs to
+   * @param paramId | The id of the change to remove
+   */
+  const removeQueryParam = (pageId: number, paramId: string) => {
+    recordHistory(null);
+
+    const newPages = pagesData.pages.map((page) =>
+      page.id === pageId
+        ? {
+          ...page,
+          lastModified: Date.now(),
+          queryParams: (page.queryParams ?? []).filter((param) => param.id !== paramId),
+        }
+        : page
+    );
+
+    setPagesData((prev) => ({
+      ...prev,
+      pages: newPages,
+    }));
+  };
+
+  /**
+   * Updates the values of a query parameter change
+   * @param pageId | The page that the change belongs to
+   * @param param | The new change, the id should match the change to update
+   */
+  const updateQueryParam = (pageId: number, param: QueryParamSetting) => {
+    recordHistory(`query:${pageId}:${param.id}`);
+
+    const newPages = pagesData.pages.map((page) =>
+      page.id === pageId
+        ? {
+          ...page,
+          lastModified: Date.now(),
+          queryParams: (page.queryParams ?? []).map((p) => (p.id === param.id ? param : p)),
+        }
+        : page
+    );
+
+    setPagesData((prev) => ({
+      ...prev,
+      pages: newPages,
+    }));
+  };
+
+  return { addQueryParam, removeQueryParam, updateQueryParam };
+}
+
+export default useQueryParamOperations;
@@ -0,0 +1,105 @@
+import type { Dispatch, SetStateAction } from "react";
+import type { PagesData, RedirectSetting } from "../domain/schemas";
+import { redirectIsValid } from "../domain/filterValidation";
+
+interface UseRedirectOperationsParams {
+  pagesData: PagesData;
+  setPagesData: Dispatch<SetStateAction<PagesData>>;
+  recordHistory: (debounceKey: string | null) => void;
+}
+
+/**
+ * Redirect CRUD for the currently loaded pagesData. Mirrors
+ * useFilterOperations: updates are validated before they're stored, since
+ * an invalid redirect is left out of the rules.
+ */
+function useRedirectOperations({ pagesData, setPagesData, recordHistory }: UseRedirectOperationsParams) {
+  /**
+   * Adds a new redirect to a given page
+   * @param pageId | The page that the redirect will be added to
+   * @param redirect | The redirect object to add
+   * @returns the added redirect, so the caller can focus it
+   */
+  const addRedirect = (pageId: number, redirect: Omit<RedirectSetting, "id">) => {
+    const newPages = pagesData.pages.map((page) => {
+      if (page.id !== pageId) return page;
+
+      const redirects = page.redirects ?? [];
+      // Numbered past the highest existing id rather than by count, so
+      // removing one never makes the next one reuse a surviving id.
+      const nextIndex =
+        Math.max(0, ...redirects.map((existing) => Number(/\d+$/.exec(existing.id)?.[0] ?? 0))) + 1;
+      return {
+        ...page,
+        lastModified: Date.now(),
+        redirects: [...redirects, { ...redirect, id: `${pageId}-r${nextIndex}` }],
+      };
+    });
+
+    setPagesData((prev) => ({
+      ...prev,
+      pages: newPages,
+    }));
+
+    return newPages.find((page) => page.id === pageId)?.redirects?.slice(-1)[0];
+  };
+
+  /**
+   * Removes a redirect from a page
+   * @param pageId | The page that the redirect belongs to
+   * @param redirectId | The id of the redirect to remove
+   */
+  const removeRedirect = (pageId: number, redirectId: string) => {
+    recordHistory(null);
+
+    const newPages = pagesData.pages.map((page) =>
+      page.id === pageId
+        ? {
+          ...page,
+          lastModified: Date.now(),
+          redirects: (page.redirects ?? []).filter((redirect) => redirect.id !== redirectId),
+        }
+        : page
+    );
+
+    setPagesData((prev) => ({
+      ...prev,
+      pages: newPages,
+    }));
+  };
+
+  /**
+   * Updates the values of a redirect
+   * @param pageId | The page that the redirect belongs to
+   * @param redirect | The new redirect object, the id should match the redirect to update
+   */
+  const updateRedirect = (
+    pageId: number,
+    redirect: Omit<RedirectSetting, "valid">
+  ) => {
+    recordHistory(`redirect:${pageId}:${redirect.id}`);
+
+    redirectIsValid(redirect, (result) => {
+      const newPages = pagesData.pages.map((page) =>
+        page.id === pageId
+          ? {
+            ...page,
+            lastModified: Date.now(),
+            redirects: (page.redirects ?? []).map((r) =>
+              r.id === redirect.id ? { ...redirect, valid: result } : r
+            ),
+          }
+          : page
+      );
+
+      setPagesData((prev) => ({
+        ...prev,
+        pages: newPages,
+      }));
+    });
+  };
+
+  return { addRedirect, removeRedirect, updateRedirect };
+}
+
+export default useRedirectOperations;
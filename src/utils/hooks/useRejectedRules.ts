@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import browser from "webextension-polyfill";
+import { REJECTED_RULES_KEY } from "../../constants";
+import { getRejectedRules, type RejectedRules } from "../storage/rejectedRules";
+
+/**
+ * The background records the entries whose rules this browser rejected;
+ * this keeps the header list's markers current.
+ */
+function useRejectedRules() {
+  const [rejectedRules, setRejectedRules] = useState<RejectedRules | null>(null);
+
+  useEffect(() => {
+    getRejectedRules().then(setRejectedRules);
+
+    const listener = (changes: Record<string, browser.Storage.StorageChange>) => {
+      if (REJECTED_RULES_KEY in changes) {
+        setRejectedRules((changes[REJECTED_RULES_KEY].newValue as RejectedRules | undefined) ?? null);
+      }
+    };
+
+    browser.storage.local.onChanged.addListener(listener);
+    return () => browser.storage.local.onChanged.removeListener(listener);
+  }, []);
+
+  return rejectedRules;
+}
+
+export default useRejectedRules;
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react";
+import browser from "webextension-polyfill";
+import { RULE_HEALTH_KEY } from "../../constants";
+import {
+  getRuleHealth,
+  requestRuleHealthCheck,
+  type RuleHealthState,
+} from "../storage/ruleHealth";
+
+/**
+ * The background checks the applied rules against the pages on an interval
+ * and records what it found; this keeps the settings page's readout current
+ * and lets it ask for a check right away.
+ */
+function useRuleHealth() {
+  const [ruleHealth, setRuleHealth] = useState<RuleHealthState | null>(null);
+  const [verifyingRules, setVerifyingRules] = useState(false);
+
+  useEffect(() => {
+    getRuleHealth().then(setRuleHealth);
+
+    const listener = (changes: Record<string, browser.Storage.StorageChange>) => {
+      if (RULE_HEALTH_KEY in changes) {
+        setRuleHealth((changes[RULE_HEALTH_KEY].newValue as RuleHealthState | undefined) ?? null);
+        setVerifyingRules(false);
+      }
+    };
+
+    browser.storage.local.onChanged.addListener(listener);
+    return () => browser.storage.local.onChanged.removeListener(listener);
+  }, []);
+
+  const verifyRules = useCallback(async () => {
+    setVerifyingRules(true);
+    try {
+      await requestRuleHealthCheck();
+    } catch (error) {
+      console.error("Failed to request a rule check", error);
+      setVerifyingRules(false);
+    }
+  }, []);
+
+  return { ruleHealth, verifyingRules, verifyRules };
+}
+
+export default useRuleHealth;
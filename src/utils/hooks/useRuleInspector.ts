@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react";
+import browser from "webextension-polyfill";
+import { RULE_USAGE_KEY } from "../../constants";
+import { explainRulesFromPages } from "../../background/rules";
+import { createRuleIdAllocator } from "../../background/ruleIds";
+import { loadRuleInputs } from "../../background/ruleInputs";
+import { inspectRules, type InspectedRule } from "../../background/ruleInspector";
+
+/**
+ * Reads the applied rules and compiles the saved pages the way the
+ * background does, so each rule can be traced back to them.
+ */
+async function loadInspectedRules(): Promise<InspectedRule[]> {
+  const { options, fitted } = await loadRuleInputs();
+  const [dynamic, session] = await Promise.all([
+    browser.declarativeNetRequest.getDynamicRules(),
+    browser.declarativeNetRequest.getSessionRules(),
+  ]);
+
+  return inspectRules(
+    { dynamic: dynamic ?? [], session: session ?? [] },
+    explainRulesFromPages(fitted.pages, createRuleIdAllocator(), options)
+  );
+}
+
+/**
+ * The applied rules for the settings page's inspector. Refreshed whenever
+ * the background records a new apply (it rewrites the rule usage every
+ * time), or on request.
+ */
+function useRuleInspector() {
+  const [rules, setRules] = useState<InspectedRule[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRules(await loadInspectedRules());
+      setError(null);
+    } catch (loadError) {
+      console.error("Failed to read the applied rules", loadError);
+      setError(loadError instanceof Error ? loadError.message : "Failed to read the applied rules");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    const listener = (changes: Record<string, browser.Storage.StorageChange>) => {
+      if (RULE_USAGE_KEY in changes) {
+        refresh();
+      }
+    };
+
+    browser.storage.local.onChanged.addListener(listener);
+    return () => browser.storage.local.onChanged.removeListener(listener);
+  }, [refresh]);
+
+  return { rules, error, refresh };
+}
+
+export default useRuleInspector;
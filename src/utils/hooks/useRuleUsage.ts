@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import browser from "webextension-polyfill";
+import { RULE_USAGE_KEY } from "../../constants";
+import { getRuleUsage, type RuleUsageState } from "../storage/ruleUsage";
+
+/**
+ * The background records how many rules its last apply used against the
+ * browser's quotas; this keeps the errors panel's usage readout current.
+ */
+function useRuleUsage() {
+  const [ruleUsage, setRuleUsage] = useState<RuleUsageState | null>(null);
+
+  useEffect(() => {
+    getRuleUsage().then(setRuleUsage);
+
+    const listener = (changes: Record<string, browser.Storage.StorageChange>) => {
+      if (RULE_USAGE_KEY in changes) {
+        setRuleUsage((changes[RULE_USAGE_KEY].newValue as RuleUsageState | undefined) ?? null);
+      }
+    };
+
+    browser.storage.local.onChanged.addListener(listener);
+    return () => browser.storage.local.onChanged.removeListener(listener);
+  }, []);
+
+  return ruleUsage;
+}
+
+export default useRuleUsage;
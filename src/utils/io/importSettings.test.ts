@@ -66,6 +66,28 @@ describe('importSettingsFile', () => {
     expect(alertContext.setAlert).toHaveBeenCalledWith(expect.objectContaining({ alertType: 'success' }));
   });
 
+  it('keeps a page\'s redirects and block entries', async () => {
+    let pagesData: PagesData = { pages: [], selectedPage: 0 };
+    const setPagesData: Dispatch<SetStateAction<PagesData>> = vi.fn((updater) => {
+      pagesData = typeof updater === 'function' ? updater(pagesData) : updater;
+    });
+    const exported: Page = {
+      ...createPage(0, 'Debugging', true, 'debugging'),
+      redirects: [
+        { id: '0-r1', enabled: true, valid: true, source: '^https://cdn\\.example\\.com/(.*)', target: 'http://localhost:3000/\\1', comment: '' },
+      ],
+      blocks: [
+        { id: '0-b1', enabled: true, valid: true, mode: 'url', value: '||analytics.example.com^', methods: ['post'] },
+      ],
+    };
+    const file = new File([JSON.stringify([exported])], 'export.json', { type: 'application/json' });
+
+    await importSettingsFile(file, { setPagesData, alertContext: createAlertContext() });
+
+    expect(pagesData.pages[0].redirects).toEqual(exported.redirects);
+    expect(pagesData.pages[0].blocks).toEqual(exported.blocks);
+  });
+
   it('rejects and surfaces an error alert for a file with no pages', async () => {
     const setPagesData = vi.fn();
     const alertContext = createAlertContext();
@@ -76,7 +98,7 @@ describe('importSettingsFile', () => {
     expect(alertContext.setAlert).toHaveBeenCalledWith(expect.objectContaining({ alertType: 'error' }));
   });
 
-  it('converts a ModHeader export into pages, imported disabled with warnings returned (not alerted)', async () => {
+  it('converts a ModHeader export into pages, imported disabled', async () => {
     let pagesData: PagesData = { pages: [], selectedPage: 0 };
     const setPagesData: Dispatch<SetStateAction<PagesData>> = vi.fn((updater) => {
       pagesData = typeof updater === 'function' ? updater(pagesData) : updater;
@@ -87,7 +109,7 @@ describe('importSettingsFile', () => {
       {
         alwaysOn: false,
         title: 'Testing Env',
-        headers: [{ appendMode: true, enabled: true, name: 'test', value: 'asdf', comment: 'Testing 2' }],
+        headers: [{ appendMode: true, enabled: true, name: 'Cookie', value: 'asdf', comment: 'Testing 2' }],
         urlFilters: [{ enabled: true, urlRegex: '.*://localhost:8080/.*' }],
         version: 2,
         hideComment: false,
@@ -101,11 +123,35 @@ describe('importSettingsFile', () => {
     expect(pagesData.pages[0]).toMatchObject({
       name: 'Testing Env',
       enabled: false,
-      headers: [expect.objectContaining({ headerName: 'test', headerValue: 'asdf' })],
+      headers: [expect.objectContaining({ headerName: 'Cookie', headerValue: 'asdf', headerOperation: 'append' })],
       filters: [expect.objectContaining({ type: 'include', mode: 'regex', valid: true })],
     });
     expect(pagesData.pages[0].pageId).toBeTruthy();
-    expect(warnings).toEqual([expect.stringContaining('append mode')]);
+    expect(warnings).toEqual([]);
+    expect(alertContext.setAlert).toHaveBeenCalledWith(expect.objectContaining({ alertType: 'success' }));
+  });
+
+  it('returns warnings for a ModHeader export instead of alerting them', async () => {
+    let pagesData: PagesData = { pages: [], selectedPage: 0 };
+    const setPagesData: Dispatch<SetStateAction<PagesData>> = vi.fn((updater) => {
+      pagesData = typeof updater === 'function' ? updater(pagesData) : updater;
+    });
+    const alertContext = createAlertContext();
+    browserMock.declarativeNetRequest.isRegexSupported.mockResolvedValueOnce({ isSupported: false });
+
+    const modHeaderExport = [
+      {
+        title: 'Testing Env',
+        headers: [{ enabled: true, name: 'test', value: 'asdf' }],
+        urlFilters: [{ enabled: true, urlRegex: '.*://localhost:8080/.*' }],
+      },
+    ];
+    const file = new File([JSON.stringify(modHeaderExport)], 'modheader-export.json', { type: 'application/json' });
+
+    const { warnings } = await importSettingsFile(file, { setPagesData, alertContext });
+
+    expect(pagesData.pages[0].filters).toEqual([expect.objectContaining({ valid: false })]);
+    expect(warnings).toEqual([expect.stringContaining("regex Chrome doesn't support")]);
     expect(alertContext.setAlert).not.toHaveBeenCalled();
   });
 
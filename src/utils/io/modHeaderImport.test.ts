@@ -108,11 +108,11 @@ describe('convertModHeaderProfile', () => {
     expect(warnings.size).toBe(0);
   });
 
-  it('maps response headers, exclude filters, and warns on lossy features', async () => {
+  it('maps response headers, exclude filters, append mode and methods', async () => {
     const warnings = new Set<string>();
     const profile = {
       title: 'Lossy',
-      headers: [{ name: 'X-Req', value: '1', appendMode: true, enabled: true }],
+      headers: [{ name: 'Cookie', value: '1', appendMode: true, enabled: true }],
       respHeaders: [{ name: 'X-Resp', value: '2', enabled: true }],
       urlFilters: [{ enabled: true, urlRegex: '.*a.*', methods: ['GET'] }],
       excludeUrlFilters: [{ enabled: true, urlRegex: '.*b.*' }],
@@ -131,8 +131,58 @@ describe('convertModHeaderProfile', () => {
       valid: true,
     });
 
+    expect(page.headers.find((h) => h.headerName === 'Cookie')?.headerOperation).toBe('append');
+    expect(page.headers.find((h) => h.headerName === 'X-Resp')?.headerOperation).toBe('set');
+
+    expect(page.filters.find((f) => f.type === 'include')?.methods).toEqual(['get']);
+    expect(page.filters.find((f) => f.type === 'exclude')?.methods).toBeUndefined();
+
+    expect([...warnings].join(' ')).not.toMatch(/append mode/i);
+    expect([...warnings].join(' ')).not.toMatch(/method filters/i);
+  });
+
+  it('imports append mode as set, with a warning, for request headers the browser cannot append to', async () => {
+    const warnings = new Set<string>();
+    const profile = {
+      title: 'Append',
+      headers: [{ name: 'X-Req', value: '1', appendMode: true, enabled: true }],
+      respHeaders: [{ name: 'X-Resp', value: '2', appendMode: true, enabled: true }],
+    };
+
+    const page = await convertModHeaderProfile(profile, 1, warnings);
+
+    expect(page.headers.find((h) => h.headerName === 'X-Req')?.headerOperation).toBe('set');
+    expect(page.headers.find((h) => h.headerName === 'X-Resp')?.headerOperation).toBe('append');
     expect([...warnings].join(' ')).toMatch(/append mode/i);
-    expect([...warnings].join(' ')).toMatch(/method filters/i);
+  });
+
+  it('drops unrecognized methods with a warning and keeps the rest', async () => {
+    const warnings = new Set<string>();
+    const profile = {
+      title: 'Methods',
+      headers: [{ name: 'X-Csrf', value: '1', enabled: true }],
+      urlFilters: [{ enabled: true, urlRegex: '.*api.*', methods: ['POST', 'PUT', 'PROPFIND'] }],
+    };
+
+    const page = await convertModHeaderProfile(profile, 0, warnings);
+
+    expect(page.filters[0].methods).toEqual(['post', 'put']);
+    expect([...warnings].join(' ')).toMatch(/methods FlexHeader doesn't recognize/);
+  });
+
+  it('imports a filter with no recognized methods disabled, with a warning', async () => {
+    const warnings = new Set<string>();
+    const profile = {
+      title: 'Methods',
+      headers: [{ name: 'X-Dav', value: '1', enabled: true }],
+      urlFilters: [{ enabled: true, urlRegex: '.*dav.*', methods: ['PROPFIND', 'MKCOL'] }],
+    };
+
+    const page = await convertModHeaderProfile(profile, 0, warnings);
+
+    expect(page.filters[0]).toMatchObject({ enabled: false, value: '.*dav.*' });
+    expect(page.filters[0].methods).toBeUndefined();
+    expect([...warnings].join(' ')).toMatch(/imported disabled/);
   });
 
   it('marks filters with unsupported regex as invalid and warns', async () => {
@@ -144,7 +194,8 @@ describe('convertModHeaderProfile', () => {
     const profile = {
       title: 'Bad regex',
       headers: [{ name: 'X', value: '1', enabled: true }],
-      urlFilters: [{ enabled: true, urlRegex: '(unterminated' }],
+      // Passes the local syntax check, so it's the browser that rejects it
+      urlFilters: [{ enabled: true, urlRegex: '[a-z]{200}' }],
     };
 
     const page = await convertModHeaderProfile(profile, 0, warnings);
@@ -1,5 +1,7 @@
-import type { HeaderFilter, HeaderSetting, Page } from "../domain/schemas";
+import { requestMethodSchema, type HeaderFilter, type HeaderSetting, type Page, type RequestMethod } from "../domain/schemas";
 import { filterIsValid } from "../domain/filterValidation";
+import { canAppendHeader } from "../domain/headers";
+import { supportsRequestHeaderAppend } from "../browserContext";
 
 interface ModHeaderHeaderEntry {
   enabled?: boolean;
@@ -52,6 +54,12 @@ export const isModHeaderExport = (data: unknown): data is ModHeaderProfile[] =>
     );
   });
 
+/**
+ * ModHeader's appendMode becomes the "append" operation where the browser
+ * can append to the header. A request header it can't (see canAppendHeader)
+ * is imported as "set" with a warning, rather than as a rule the browser
+ * would reject.
+ */
 const convertHeaders = (
   headers: ModHeaderHeaderEntry[] | undefined,
   headerType: HeaderSetting["headerType"],
@@ -61,52 +69,87 @@ const convertHeaders = (
   (headers ?? [])
     .filter((header) => typeof header?.name === "string" && header.name.trim() !== "")
     .map((header, index) => {
-      if (header.appendMode) {
+      const headerName = header.name as string;
+      const append =
+        header.appendMode === true &&
+        canAppendHeader({ headerName, headerType }, supportsRequestHeaderAppend());
+      if (header.appendMode && !append) {
         warnings.add(
-          "ModHeader's append mode isn't supported - those headers were imported as overwrite (Set)."
+          "Some request headers use append mode, which the browser only supports for a few headers (like Accept, Cookie and User-Agent) - they were imported as set."
         );
       }
       return {
         id: `${idPrefix}-${headerType}-${index + 1}`,
-        headerName: header.name as string,
+        headerName,
         headerValue: header.value ?? "",
         headerComment: header.comment ?? "",
         headerEnabled: header.enabled !== false,
         headerType,
+        headerOperation: append ? "append" : "set",
       };
     });
 
-const convertFilters = (
-  filters: ModHeaderUrlFilter[] | undefined,
-  type: HeaderFilter["type"],
-  idPrefix: string,
+/**
+ * ModHeader stores methods upper-case ("GET"); DNR wants them lower-case.
+ * Anything DNR doesn't know is dropped with a warning - narrowing the filter
+ * to what's left is closer to the original than applying to every method.
+ * When nothing is left there's no narrower filter to fall back on, so it
+ * returns null and the filter is imported disabled instead.
+ */
+const convertMethods = (
+  methods: string[] | undefined,
   warnings: Set<string>
-): Omit<HeaderFilter, "valid">[] => {
-  if (filters?.some((filter) => Array.isArray(filter?.methods) && filter.methods.length > 0)) {
+): RequestMethod[] | null | undefined => {
+  if (!Array.isArray(methods) || methods.length === 0) return undefined;
+
+  const converted = methods
+    .map((method) => requestMethodSchema.safeParse(String(method).toLowerCase()))
+    .filter((result) => result.success)
+    .map((result) => result.data);
+
+  if (converted.length === 0) {
+    warnings.add(
+      "Some filters only use HTTP methods FlexHeader doesn't recognize - those filters were imported disabled."
+    );
+    return null;
+  }
+  if (converted.length < methods.length) {
     warnings.add(
-      "HTTP method filters aren't supported - the imported rules apply to all methods."
+      "Some HTTP method filters use methods FlexHeader doesn't recognize - those methods were dropped."
     );
   }
 
-  return (filters ?? [])
-    .filter((filter) => typeof filter?.urlRegex === "string" && filter.urlRegex.trim() !== "")
-    .map((filter, index) => ({
-      id: `${idPrefix}-${type}-${index + 1}`,
-      enabled: filter.enabled !== false,
-      type,
-      mode: "regex" as const,
-      value: (filter.urlRegex as string).trim(),
-    }));
+  return converted;
 };
 
+const convertFilters = (
+  filters: ModHeaderUrlFilter[] | undefined,
+  type: HeaderFilter["type"],
+  idPrefix: string,
+  warnings: Set<string>
+): Omit<HeaderFilter, "valid">[] =>
+  (filters ?? [])
+    .filter((filter) => typeof filter?.urlRegex === "string" && filter.urlRegex.trim() !== "")
+    .map((filter, index) => {
+      const methods = convertMethods(filter.methods, warnings);
+      return {
+        id: `${idPrefix}-${type}-${index + 1}`,
+        enabled: filter.enabled !== false && methods !== null,
+        type,
+        mode: "regex" as const,
+        value: (filter.urlRegex as string).trim(),
+        ...(methods ? { methods } : {}),
+      };
+    });
+
 /**
  * Converts one ModHeader profile into a FlexHeader page. `id`/`pageId` are
  * left for the caller to assign - importSettingsFile mints a fresh pageId
  * for every imported page regardless of source.
  *
  * Imported disabled (`enabled: false`) because the conversion is lossy
- * (append mode, method filters, and any profile-selection state ModHeader
- * doesn't include in the export are all dropped) - nothing should start
+ * (unrecognized methods and any profile-selection state ModHeader doesn't
+ * include in the export are all dropped) - nothing should start
  * modifying headers until the user has reviewed it. `alwaysOn` maps to
  * `keepEnabled` since both mean "stay active regardless of which page/profile
  * is selected".
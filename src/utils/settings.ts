@@ -11,9 +11,14 @@ import { applyTombstones, pruneExpiredTombstones, type PageTombstone } from "./d
 import { addStoredError, clearStoredErrors } from "./storage/errors";
 import usePageHistory from "./hooks/usePageHistory";
 import useStoredErrors from "./hooks/useStoredErrors";
+import useRuleUsage from "./hooks/useRuleUsage";
+import useRuleHealth from "./hooks/useRuleHealth";
 import useSyncStatus from "./hooks/useSyncStatus";
 import useFilterOperations from "./hooks/useFilterOperations";
 import useHeaderOperations from "./hooks/useHeaderOperations";
+import useRedirectOperations from "./hooks/useRedirectOperations";
+import useBlockOperations from "./hooks/useBlockOperations";
+import useQueryParamOperations from "./hooks/useQueryParamOperations";
 import usePageOperations from "./hooks/usePageOperations";
 import useSyncToggle from "./hooks/useSyncToggle";
 import { importSettingsFile } from "./io/importSettings";
@@ -42,6 +47,7 @@ export const defaultPage: Page = {
   enabled: true,
   keepEnabled: false,
   paused: false,
+  sessionOnly: false,
   showHeaderComments: true,
   filters: [],
   lastModified: 0,
@@ -53,6 +59,7 @@ export const defaultPage: Page = {
       headerComment: "",
       headerEnabled: true,
       headerType: "request",
+      headerOperation: "set",
     },
   ],
 };
@@ -96,10 +103,15 @@ function useFlexHeaderSettings() {
   } = usePageHistory({ enabled: historyEnabled, pagesData, setPagesData, hasInitialized });
 
   const { errors, clearErrors, injectError } = useStoredErrors();
+  const ruleUsage = useRuleUsage();
+  const { ruleHealth, verifyingRules, verifyRules } = useRuleHealth();
   const { lastSyncTime, localModifiedTime } = useSyncStatus();
 
-  const { addFilter, removeFilter, updateFilter } = useFilterOperations({ pagesData, setPagesData, recordHistory });
+  const { addFilter, removeFilter, updateFilter, setFilterJoined } = useFilterOperations({ pagesData, setPagesData, recordHistory });
   const { addHeader, removeHeader, saveHeaders, updateHeader, setAllHeadersEnabled } = useHeaderOperations({ pagesData, setPagesData, recordHistory });
+  const { addRedirect, removeRedirect, updateRedirect } = useRedirectOperations({ pagesData, setPagesData, recordHistory });
+  const { addBlock, removeBlock, updateBlock } = useBlockOperations({ pagesData, setPagesData, recordHistory });
+  const { addQueryParam, removeQueryParam, updateQueryParam } = useQueryParamOperations({ pagesData, setPagesData, recordHistory });
   const { addPage, removePage, updatePage, changeSelectedPage, changePageIndex } = usePageOperations({
     pagesData,
     setPagesData,
@@ -536,6 +548,10 @@ function useFlexHeaderSettings() {
     errors,
     clearErrors,
     injectError,
+    ruleUsage,
+    ruleHealth,
+    verifyingRules,
+    verifyRules,
     addPage,
     removePage,
     updatePage,
@@ -546,7 +562,17 @@ function useFlexHeaderSettings() {
     setAllHeadersEnabled,
     addFilter,
     removeFilter,
+    setFilterJoined,
     updateFilter,
+    addRedirect,
+    removeRedirect,
+    updateRedirect,
+    addBlock,
+    removeBlock,
+    updateBlock,
+    addQueryParam,
+    removeQueryParam,
+    updateQueryParam,
     clear,
     changeSelectedPage,
     changePageIndex,
@@ -0,0 +1,118 @@
+import { vi } from "vitest";
+
+const browserMock = vi.hoisted(() => ({
+  storage: {
+    local: {
+      get: vi.fn(),
+      set: vi.fn(),
+      remove: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("webextension-polyfill", () => ({
+  default: browserMock,
+  ...browserMock,
+}));
+
+import { MATCH_LOG_KEY, MATCH_LOG_LIMIT } from "../../constants";
+import {
+  appendMatchLog,
+  clearMatchLog,
+  filterMatchLog,
+  getMatchLog,
+  type MatchLogEntry,
+} from "./matchLog";
+
+const createArea = () => {
+  const store: Record<string, any> = {};
+  return {
+    store,
+    get: vi.fn(async (key: string) => ({ [key]: store[key] })),
+    set: vi.fn(async (data: Record<string, any>) => {
+      Object.assign(store, data);
+    }),
+    remove: vi.fn(async (key: string) => {
+      delete store[key];
+    }),
+  };
+};
+
+const createEntry = (overrides: Partial<MatchLogEntry> = {}): MatchLogEntry => ({
+  timeStamp: 1,
+  tabId: 1,
+  url: "https://example.com/api",
+  ruleId: 10,
+  ruleSet: "dynamic",
+  pageName: "Page A",
+  sources: ["Request header X-Test"],
+  ...overrides,
+});
+
+let area: ReturnType<typeof createArea>;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  area = createArea();
+  browserMock.storage.local.get.mockImplementation(area.get);
+  browserMock.storage.local.set.mockImplementation(area.set);
+  browserMock.storage.local.remove.mockImplementation(area.remove);
+});
+
+describe("appendMatchLog", () => {
+  it("keeps the newest matches first", async () => {
+    await appendMatchLog([createEntry({ timeStamp: 1 })]);
+    await appendMatchLog([createEntry({ timeStamp: 2 }), createEntry({ timeStamp: 3 })]);
+
+    expect((await getMatchLog()).map((entry) => entry.timeStamp)).toEqual([3, 2, 1]);
+  });
+
+  it(`drops the oldest matches past MATCH_LOG_LIMIT (${MATCH_LOG_LIMIT})`, async () => {
+    area.store[MATCH_LOG_KEY] = Array.from({ length: MATCH_LOG_LIMIT }, (_, index) =>
+      createEntry({ timeStamp: MATCH_LOG_LIMIT - index })
+    );
+
+    await appendMatchLog([createEntry({ timeStamp: MATCH_LOG_LIMIT + 1 })]);
+
+    const log = await getMatchLog();
+    expect(log).toHaveLength(MATCH_LOG_LIMIT);
+    expect(log[0].timeStamp).toBe(MATCH_LOG_LIMIT + 1);
+    expect(log[log.length - 1].timeStamp).toBe(2);
+  });
+
+  it("doesn't write for an empty batch", async () => {
+    await appendMatchLog([]);
+
+    expect(area.set).not.toHaveBeenCalled();
+  });
+
+  it("is cleared by clearMatchLog", async () => {
+    await appendMatchLog([createEntry()]);
+    await clearMatchLog();
+
+    expect(await getMatchLog()).toEqual([]);
+  });
+});
+
+describe("filterMatchLog", () => {
+  const entries = [
+    createEntry({ tabId: 1, pageName: "Page A", url: "https://example.com/api" }),
+    createEntry({ tabId: 2, pageName: "Page B", url: "https://other.test/" }),
+    createEntry({ tabId: 2, pageName: undefined, url: undefined, tabUrl: "https://Example.com/app" }),
+  ];
+
+  it("returns everything with no filters set", () => {
+    expect(filterMatchLog(entries, {})).toEqual(entries);
+  });
+
+  it("combines the tab, page and URL filters", () => {
+    expect(filterMatchLog(entries, { tabId: 2 })).toEqual(entries.slice(1));
+    expect(filterMatchLog(entries, { pageName: "Page A" })).toEqual([entries[0]]);
+    expect(filterMatchLog(entries, { pageName: null })).toEqual([entries[2]]);
+    expect(filterMatchLog(entries, { tabId: 2, url: "example.com" })).toEqual([entries[2]]);
+  });
+
+  it("matches the URL filter case-insensitively against the request or tab URL", () => {
+    expect(filterMatchLog(entries, { url: " EXAMPLE.COM " })).toEqual([entries[0], entries[2]]);
+  });
+});
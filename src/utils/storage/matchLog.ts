@@ -0,0 +1,109 @@
+import browser from "webextension-polyfill";
+import { MATCH_LOG_ENABLED_KEY, MATCH_LOG_KEY, MATCH_LOG_LIMIT } from "../../constants";
+
+/**
+ * The optional permission the matched request log needs to hear about rule
+ * matches at all.
+ */
+export const MATCH_LOG_PERMISSION = "declarativeNetRequestFeedback";
+
+/**
+ * A request one of our rules matched, traced back to the page it came from
+ * when it was recorded.
+ */
+export type MatchLogEntry = {
+  timeStamp: number;
+  // -1 for requests that don't belong to a tab
+  tabId: number;
+  // The request's URL - only reported where the browser sends matches as
+  // they happen (unpacked extensions). Polled matches only have the URL of
+  // the tab they were made from.
+  url?: string;
+  tabUrl?: string;
+  method?: string;
+  type?: string;
+  ruleId: number;
+  ruleSet: "dynamic" | "session";
+  // Missing when the rule couldn't be traced back to a page
+  pageName?: string;
+  // The headers, query parameters, redirects and blocks merged into the rule
+  sources: string[];
+};
+
+export type MatchLogFilters = {
+  tabId?: number;
+  // null for the matches that couldn't be traced back to a page
+  pageName?: string | null;
+  url?: string;
+};
+
+/**
+ * Reads the matched request log, newest first.
+ */
+export async function getMatchLog(): Promise<MatchLogEntry[]> {
+  try {
+    const result = await browser.storage.local.get(MATCH_LOG_KEY);
+    return (result[MATCH_LOG_KEY] as MatchLogEntry[] | undefined) ?? [];
+  } catch (error) {
+    console.error("Failed to read the match log from storage", error);
+    return [];
+  }
+}
+
+/**
+ * Adds matches to the log, dropping the oldest past MATCH_LOG_LIMIT.
+ */
+export async function appendMatchLog(entries: MatchLogEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  try {
+    const newest = [...entries].sort((a, b) => b.timeStamp - a.timeStamp);
+    const log = [...newest, ...(await getMatchLog())].slice(0, MATCH_LOG_LIMIT);
+    await browser.storage.local.set({ [MATCH_LOG_KEY]: log });
+  } catch (error) {
+    console.error("Failed to store matched requests", error);
+  }
+}
+
+export async function clearMatchLog(): Promise<void> {
+  try {
+    await browser.storage.local.remove(MATCH_LOG_KEY);
+  } catch (error) {
+    console.error("Failed to clear the match log", error);
+  }
+}
+
+/**
+ * Whether the user turned the log on. The background also checks the
+ * permission, which can be revoked from the browser's own settings.
+ */
+export async function isMatchLogEnabled(): Promise<boolean> {
+  try {
+    const result = await browser.storage.local.get(MATCH_LOG_ENABLED_KEY);
+    return result[MATCH_LOG_ENABLED_KEY] === true;
+  } catch (error) {
+    console.error("Failed to read the match log setting", error);
+    return false;
+  }
+}
+
+export async function setMatchLogEnabled(enabled: boolean): Promise<void> {
+  await browser.storage.local.set({ [MATCH_LOG_ENABLED_KEY]: enabled });
+}
+
+/**
+ * The entries matching every filter that's set. The URL filter is a
+ * case-insensitive substring of the request's or the tab's URL.
+ */
+export function filterMatchLog(
+  entries: MatchLogEntry[],
+  filters: MatchLogFilters
+): MatchLogEntry[] {
+  const url = filters.url?.trim().toLowerCase();
+  return entries.filter(
+    (entry) =>
+      (filters.tabId === undefined || entry.tabId === filters.tabId) &&
+      (filters.pageName === undefined || (entry.pageName ?? null) === filters.pageName) &&
+      (!url ||
+        [entry.url, entry.tabUrl].some((candidate) => candidate?.toLowerCase().includes(url)))
+  );
+}
@@ -0,0 +1,51 @@
+import browser from "webextension-polyfill";
+import { REJECTED_RULES_KEY } from "../../constants";
+
+/**
+ * A page entry whose rules the browser rejected: its error, and the entry as
+ * it was then (see canonicalJson) - an edited entry is tried again.
+ */
+export type StoredRejection = {
+  error: string;
+  entry: string;
+};
+
+/**
+ * The page entries whose rules the browser rejected, by page (pageId) and
+ * then by the entry's rule source id (see RuleSource). Never synced, and
+ * only trusted by the browser version that recorded it: another browser, or
+ * this one after an update, may accept the same rules.
+ */
+export type RejectedRules = {
+  browserVersion: string;
+  pages: Record<string, Record<string, StoredRejection>>;
+};
+
+/**
+ * The browser version rejections are recorded for.
+ */
+export const getBrowserVersion = (): string => navigator.userAgent;
+
+/**
+ * Reads the recorded rejections from local storage.
+ */
+export async function getRejectedRules(): Promise<RejectedRules | null> {
+  try {
+    const result = await browser.storage.local.get(REJECTED_RULES_KEY);
+    return (result[REJECTED_RULES_KEY] as RejectedRules | undefined) ?? null;
+  } catch (error) {
+    console.error("Failed to read rejected rules from storage", error);
+    return null;
+  }
+}
+
+/**
+ * Records the rejections of the latest apply, replacing any earlier ones.
+ */
+export async function saveRejectedRules(state: RejectedRules): Promise<void> {
+  try {
+    await browser.storage.local.set({ [REJECTED_RULES_KEY]: state });
+  } catch (error) {
+    console.error("Failed to store rejected rules", error);
+  }
+}
@@ -0,0 +1,55 @@
+import browser from "webextension-polyfill";
+import { RULE_HEALTH_CHECK_REQUEST_KEY, RULE_HEALTH_KEY } from "../../constants";
+
+/**
+ * What the latest check found: the applied rules matched the pages, they
+ * had drifted and were re-applied, or they still differ after re-applying
+ * (or the check itself failed).
+ */
+export type RuleHealthResult = "ok" | "repaired" | "failed";
+
+/**
+ * The background's record of its applied-rule checks.
+ */
+export type RuleHealthState = {
+  checkedAt: number;
+  result: RuleHealthResult;
+  // Rules that were missing, extra or changed in the latest check
+  differingRules: number;
+  // Checks that have found drift since the extension was installed
+  driftCount: number;
+  lastDriftAt?: number;
+  error?: string;
+};
+
+/**
+ * Reads the latest applied-rule check from local storage.
+ */
+export async function getRuleHealth(): Promise<RuleHealthState | null> {
+  try {
+    const result = await browser.storage.local.get(RULE_HEALTH_KEY);
+    return (result[RULE_HEALTH_KEY] as RuleHealthState | undefined) ?? null;
+  } catch (error) {
+    console.error("Failed to read rule health from storage", error);
+    return null;
+  }
+}
+
+/**
+ * Records the result of an applied-rule check.
+ */
+export async function saveRuleHealth(state: RuleHealthState): Promise<void> {
+  try {
+    await browser.storage.local.set({ [RULE_HEALTH_KEY]: state });
+  } catch (error) {
+    console.error("Failed to store rule health", error);
+  }
+}
+
+/**
+ * Asks the background to check the applied rules now. It picks the request
+ * up from storage.local.onChanged and answers by saving a new RuleHealthState.
+ */
+export async function requestRuleHealthCheck(): Promise<void> {
+  await browser.storage.local.set({ [RULE_HEALTH_CHECK_REQUEST_KEY]: Date.now() });
+}
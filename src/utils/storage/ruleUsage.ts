@@ -0,0 +1,60 @@
+import browser from "webextension-polyfill";
+import { RULE_USAGE_KEY } from "../../constants";
+
+/**
+ * Rule counts in the shape DNR limits them: dynamic and session rules each
+ * have their own cap, and within each set regex rules have a (much
+ * smaller) one of their own.
+ */
+export type RuleCounts = {
+  dynamicRules: number;
+  dynamicRegexRules: number;
+  sessionRules: number;
+  sessionRegexRules: number;
+};
+
+/**
+ * A header, query parameter, redirect or block that was left out of the
+ * applied rules because including it would have gone over a quota.
+ * `ownerId` is its rule source id (see RuleSource), `name` what the errors
+ * panel calls it.
+ */
+export type OmittedEntry = {
+  pageId?: string;
+  pageName: string;
+  ownerId: string;
+  name: string;
+};
+
+/**
+ * What the background applied last time, against what the browser allows.
+ */
+export type RuleUsageState = {
+  usage: RuleCounts;
+  quota: RuleCounts;
+  omitted: OmittedEntry[];
+};
+
+/**
+ * Reads the last recorded rule usage from local storage.
+ */
+export async function getRuleUsage(): Promise<RuleUsageState | null> {
+  try {
+    const result = await browser.storage.local.get(RULE_USAGE_KEY);
+    return (result[RULE_USAGE_KEY] as RuleUsageState | undefined) ?? null;
+  } catch (error) {
+    console.error("Failed to read rule usage from storage", error);
+    return null;
+  }
+}
+
+/**
+ * Records the rule usage of the latest apply.
+ */
+export async function saveRuleUsage(state: RuleUsageState): Promise<void> {
+  try {
+    await browser.storage.local.set({ [RULE_USAGE_KEY]: state });
+  } catch (error) {
+    console.error("Failed to store rule usage", error);
+  }
+}
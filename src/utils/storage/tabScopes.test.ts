@@ -0,0 +1,122 @@
+import { vi } from "vitest";
+
+const browserMock = vi.hoisted(() => ({
+  storage: {
+    local: {
+      get: vi.fn(),
+      set: vi.fn(),
+      remove: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("webextension-polyfill", () => ({
+  default: browserMock,
+  ...browserMock,
+}));
+
+import { TAB_SCOPES_KEY } from "../../constants";
+import {
+  clearTabScopes,
+  getTabScopes,
+  removeTabFromScopes,
+  setPageTabScope,
+} from "./tabScopes";
+
+const createArea = () => {
+  const store: Record<string, any> = {};
+  return {
+    store,
+    get: vi.fn(async (key: string) => ({ [key]: store[key] })),
+    set: vi.fn(async (data: Record<string, any>) => {
+      Object.assign(store, data);
+    }),
+    remove: vi.fn(async (key: string) => {
+      delete store[key];
+    }),
+  };
+};
+
+let area: ReturnType<typeof createArea>;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  area = createArea();
+  browserMock.storage.local.get.mockImplementation(area.get);
+  browserMock.storage.local.set.mockImplementation(area.set);
+  browserMock.storage.local.remove.mockImplementation(area.remove);
+});
+
+describe("getTabScopes", () => {
+  it("returns no scopes when nothing is stored", async () => {
+    expect(await getTabScopes()).toEqual({});
+  });
+
+  it("returns no scopes and swallows the error if storage read throws", async () => {
+    browserMock.storage.local.get.mockRejectedValueOnce(new Error("boom"));
+    expect(await getTabScopes()).toEqual({});
+  });
+});
+
+describe("setPageTabScope", () => {
+  it("adds a tab to a page's scope without duplicating it", async () => {
+    await setPageTabScope("page-a", 5, true);
+    await setPageTabScope("page-a", 6, true);
+    await setPageTabScope("page-a", 5, true);
+
+    expect(area.store[TAB_SCOPES_KEY]).toEqual({ "page-a": [6, 5] });
+  });
+
+  it("removes the page entirely once its last tab is turned off", async () => {
+    area.store[TAB_SCOPES_KEY] = { "page-a": [5], "page-b": [5] };
+
+    await setPageTabScope("page-a", 5, false);
+
+    expect(area.store[TAB_SCOPES_KEY]).toEqual({ "page-b": [5] });
+  });
+
+  it("removes the storage key when no scopes are left", async () => {
+    area.store[TAB_SCOPES_KEY] = { "page-a": [5] };
+
+    await setPageTabScope("page-a", 5, false);
+
+    expect(TAB_SCOPES_KEY in area.store).toBe(false);
+  });
+});
+
+describe("removeTabFromScopes", () => {
+  it("drops a closed tab from every page", async () => {
+    area.store[TAB_SCOPES_KEY] = { "page-a": [5, 6], "page-b": [5] };
+
+    await removeTabFromScopes(5);
+
+    expect(area.store[TAB_SCOPES_KEY]).toEqual({ "page-a": [6] });
+  });
+
+  it("drops every tab when several close at once", async () => {
+    area.store[TAB_SCOPES_KEY] = { "page-a": [5, 6, 7], "page-b": [5] };
+
+    await Promise.all([removeTabFromScopes(5), removeTabFromScopes(6), removeTabFromScopes(7)]);
+
+    expect(area.store[TAB_SCOPES_KEY]).toBeUndefined();
+  });
+
+  it("doesn't write when the tab wasn't scoped", async () => {
+    area.store[TAB_SCOPES_KEY] = { "page-a": [6] };
+
+    await removeTabFromScopes(5);
+
+    expect(browserMock.storage.local.set).not.toHaveBeenCalled();
+    expect(browserMock.storage.local.remove).not.toHaveBeenCalled();
+  });
+});
+
+describe("clearTabScopes", () => {
+  it("forgets every scope", async () => {
+    area.store[TAB_SCOPES_KEY] = { "page-a": [5] };
+
+    await clearTabScopes();
+
+    expect(TAB_SCOPES_KEY in area.store).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import browser from "webextension-polyfill";
+import { TAB_SCOPES_KEY } from "../../constants";
+
+/**
+ * Pages running in "this tab only" mode, keyed by pageId, with the tabs each
+ * one is limited to. Never synced - tab ids mean nothing on another browser,
+ * or in this one after a restart, which is why the background clears it on
+ * startup.
+ */
+export type TabScopes = Record<string, number[]>;
+
+/**
+ * Reads the current tab scopes from local storage.
+ */
+export async function getTabScopes(): Promise<TabScopes> {
+  try {
+    const result = await browser.storage.local.get(TAB_SCOPES_KEY);
+    return (result[TAB_SCOPES_KEY] as TabScopes | undefined) ?? {};
+  } catch (error) {
+    console.error("Failed to read tab scopes from storage", error);
+    return {};
+  }
+}
+
+// Serializes read-modify-write updates of the scopes, the way the background
+// serializes sync. Closing a window fires tabs.onRemoved for every tab at
+// once, and updates that overlap would each write back their own snapshot,
+// losing the others' changes and leaving closed tabs in a scope. The queue
+// is per context - the popup's own updates are one click at a time.
+let updateQueueTail: Promise<unknown> = Promise.resolve();
+function runUpdateSerially<T>(fn: () => Promise<T>): Promise<T> {
+  const run = updateQueueTail.then(fn, fn);
+  updateQueueTail = run.then(() => undefined, () => undefined);
+  return run;
+}
+
+async function saveTabScopes(scopes: TabScopes): Promise<void> {
+  if (Object.keys(scopes).length === 0) {
+    await browser.storage.local.remove(TAB_SCOPES_KEY);
+  } else {
+    await browser.storage.local.set({ [TAB_SCOPES_KEY]: scopes });
+  }
+}
+
+/**
+ * Turns "this tab only" on or off for one page in one tab.
+ */
+export async function setPageTabScope(
+  pageId: string,
+  tabId: number,
+  enabled: boolean
+): Promise<void> {
+  return runUpdateSerially(async () => {
+    const scopes = await getTabScopes();
+    const tabIds = (scopes[pageId] ?? []).filter((id) => id !== tabId);
+    if (enabled) {
+      tabIds.push(tabId);
+    }
+
+    const next = { ...scopes };
+    if (tabIds.length > 0) {
+      next[pageId] = tabIds;
+    } else {
+      delete next[pageId];
+    }
+    await saveTabScopes(next);
+  });
+}
+
+/**
+ * Drops a closed tab from every page's scope. Pages left with no tabs go
+ * back to their normal activation.
+ */
+export async function removeTabFromScopes(tabId: number): Promise<void> {
+  return runUpdateSerially(async () => {
+    const scopes = await getTabScopes();
+    if (!Object.values(scopes).some((tabIds) => tabIds.includes(tabId))) {
+      return;
+    }
+
+    const next: TabScopes = {};
+    Object.entries(scopes).forEach(([pageId, tabIds]) => {
+      const remaining = tabIds.filter((id) => id !== tabId);
+      if (remaining.length > 0) {
+        next[pageId] = remaining;
+      }
+    });
+    await saveTabScopes(next);
+  });
+}
+
+/**
+ * Forgets every tab scope, e.g. on browser startup when no old tab id is
+ * valid any more.
+ */
+export async function clearTabScopes(): Promise<void> {
+  return runUpdateSerially(() => browser.storage.local.remove(TAB_SCOPES_KEY));
+}
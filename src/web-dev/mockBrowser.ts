@@ -118,6 +118,10 @@ const mockBrowser = {
     sync: createStorageArea("sync"),
   },
   declarativeNetRequest: {
+    // There's no background worker in the web dev harness, so nothing is
+    // ever applied.
+    getDynamicRules: async () => [],
+    getSessionRules: async () => [],
     isRegexSupported: async ({ regex }: { regex: string }) => {
       try {
         new RegExp(regex);
@@ -156,10 +160,21 @@ const mockBrowser = {
       }
       return Promise.resolve();
     },
+    // A single pretend tab, so the popup's "this tab only" toggle and its
+    // summary of what applies to the tab can be exercised without a real
+    // browser.
+    query: () => Promise.resolve([{ id: 1, active: true, url: "https://example.com/" }]),
   },
   extension: {
     getViews: () => [],
   },
+  // Optional permissions are granted straight away - with no background
+  // worker, nothing is recorded with them anyway.
+  permissions: {
+    contains: async () => true,
+    request: async () => true,
+    remove: async () => true,
+  },
 };
 
 export default mockBrowser as any;
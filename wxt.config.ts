@@ -20,6 +20,8 @@ export default defineConfig({
       128: "/logo128.png",
     },
     permissions: ["storage", "declarativeNetRequest"],
+    // Only requested when the user turns on the matched request log.
+    optional_permissions: ["declarativeNetRequestFeedback"],
     host_permissions: ["<all_urls>"],
     // The popup and options page share the same bundle/UI (see src/App.tsx,
     // which switches layout based on isRunningInActionPopup()).